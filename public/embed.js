@@ -0,0 +1,76 @@
+/*
+ * Form embed loader for partner sites.
+ *
+ *   <div data-vnu-form="FORM_ID"></div>
+ *   <script src="https://vnuitsolutions.com/embed.js" async></script>
+ *
+ * Each container gets an iframe that resizes to fit the form. The host site must be
+ * listed under "Embedding" in the form's settings. When the form is submitted, a
+ * "vnu-form:submit" event bubbles from the container:
+ *
+ *   document.addEventListener("vnu-form:submit", function (event) {
+ *     console.log("Submitted", event.detail.formId);
+ *   });
+ *
+ * Forms added to the page later can be mounted with window.VNUForms.mount().
+ */
+(function () {
+  "use strict";
+
+  var MESSAGE_SOURCE = "vnu-form";
+  var script = document.currentScript;
+  var origin = script && script.src ? new URL(script.src).origin : "https://vnuitsolutions.com";
+  var mounted = [];
+
+  function mountContainer(container) {
+    var formId = container.getAttribute("data-vnu-form");
+    if (!formId || container.hasAttribute("data-vnu-form-mounted")) return;
+    container.setAttribute("data-vnu-form-mounted", "");
+
+    var iframe = document.createElement("iframe");
+    // The host page's query string is passed on, so prefill keys and UTM tags still work
+    iframe.src = origin + "/embed/" + encodeURIComponent(formId) + window.location.search;
+    iframe.title = container.getAttribute("data-vnu-form-title") || "Form";
+    iframe.loading = "lazy";
+    iframe.style.width = "100%";
+    iframe.style.height = "480px";
+    iframe.style.border = "0";
+    iframe.style.display = "block";
+    container.appendChild(iframe);
+
+    mounted.push({ container: container, iframe: iframe });
+  }
+
+  function mount() {
+    var containers = document.querySelectorAll("[data-vnu-form]");
+    for (var i = 0; i < containers.length; i++) {
+      mountContainer(containers[i]);
+    }
+  }
+
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (event.origin !== origin || !data || data.source !== MESSAGE_SOURCE) return;
+
+    for (var i = 0; i < mounted.length; i++) {
+      var entry = mounted[i];
+      if (entry.iframe.contentWindow !== event.source) continue;
+
+      if (data.type === "resize" && typeof data.height === "number") {
+        entry.iframe.style.height = Math.ceil(data.height) + "px";
+      } else if (data.type === "submit") {
+        entry.container.dispatchEvent(
+          new CustomEvent("vnu-form:submit", { bubbles: true, detail: { formId: data.formId } })
+        );
+      }
+    }
+  });
+
+  window.VNUForms = { mount: mount };
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mount);
+  } else {
+    mount();
+  }
+})();
@@ -67,6 +67,7 @@ const App = () => (
               <Route path="/about" element={<About />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/f/:formId" element={<FormPage />} />
+              <Route path="/embed/:formId" element={<FormPage embedded />} />
               <Route
                 path="/profile"
                 element={
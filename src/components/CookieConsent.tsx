@@ -16,7 +16,8 @@ export const CookieConsent = () => {
 
   useEffect(() => {
     const consent = localStorage.getItem(CONSENT_KEY);
-    if (!consent) {
+    // Embedded forms live on partner sites, which handle consent themselves
+    if (!consent && !window.location.pathname.startsWith('/embed/')) {
       setShowBanner(true);
     } else if (consent === 'accepted') {
       enableAnalytics();
@@ -1,9 +1,38 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { Loader2, CheckCircle, Star, MessageSquare } from "lucide-react";
+import { Loader2, CheckCircle, Star, MessageSquare, ArrowLeft, ArrowRight } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { submitForm as submitCustomForm, SubmitFormError } from "@/lib/submit-form";
+import { useRenderTokens } from "@/hooks/use-render-token";
+import {
+  getFormSteps,
+  hasSections,
+  isHiddenField,
+  resolveFieldStates,
+  validateCustomFormData,
+  validateFormStep,
+  type FieldErrors,
+  type FormField,
+  type FormValue,
+  type FormValues,
+} from "@shared/custom-forms";
+import { FormProgress } from "@/components/forms/FormProgress";
+import { FormReview } from "@/components/forms/FormReview";
+import { FileUploadInput } from "@/components/forms/FileUploadInput";
+import { LikertInput, NpsInput, RankingInput } from "@/components/forms/SurveyInputs";
+import { FormUnavailable } from "@/components/forms/FormUnavailable";
+import { useFormAvailability } from "@/hooks/use-form-availability";
+import { getFormTrackingProps, trackFormEvent } from "@/lib/form-analytics";
+import { getAttribution } from "@/lib/attribution";
+import {
+  isPlacementCapped,
+  recordFormSubmitted,
+  recordPlacementView,
+  type FormPlacement,
+} from "@/lib/form-placements";
+import { usePopupTriggers } from "@/hooks/use-popup-triggers";
 import {
   Dialog,
   DialogContent,
@@ -12,26 +41,22 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 
-interface FormField {
-  id: string;
-  label: string;
-  type: "text" | "email" | "textarea" | "select" | "phone" | "number" | "date" | "url" | "checkbox" | "radio" | "rating";
-  required: boolean;
-  options?: string[];
-  placeholder?: string;
-  helpText?: string;
-}
-
 interface CustomForm {
   id: string;
   form_name: string;
   description: string | null;
   fields: FormField[];
-  target_pages: string[];
-  display_types: string[];
   is_published: boolean;
   popup_trigger_text: string | null;
   section_title: string | null;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_submissions: number | null;
+  published_version_id: string | null;
+}
+
+interface PagePlacement extends FormPlacement {
+  form: CustomForm;
 }
 
 interface DynamicFormDisplayProps {
@@ -39,64 +64,74 @@ interface DynamicFormDisplayProps {
 }
 
 export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
+  const queryClient = useQueryClient();
   const [openPopupId, setOpenPopupId] = useState<string | null>(null);
-  const [formData, setFormData] = useState<Record<string, string | string[]>>({});
+  const [formData, setFormData] = useState<FormValues>({});
   const [submitted, setSubmitted] = useState<string | null>(null);
   const [ratings, setRatings] = useState<Record<string, number>>({});
   const [honeypot, setHoneypot] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  // Current step per form id; several section forms can be on the same page
+  const [formSteps, setFormSteps] = useState<Record<string, number>>({});
 
-  const { data: forms, isLoading } = useQuery({
+  const { data: placements, isLoading } = useQuery({
     queryKey: ["published-forms", pageName],
     queryFn: async () => {
+      // RLS only exposes placements of published forms; the inner join keeps it that way
+      // if an admin is browsing the site
       const { data, error } = await supabase
-        .from("custom_forms")
-        .select("*")
-        .eq("is_published", true);
+        .from("custom_form_placements")
+        .select("*, custom_forms!inner(*)")
+        .eq("page", pageName)
+        .eq("custom_forms.is_published", true)
+        .order("sort_order");
 
       if (error) throw error;
 
-      // Filter forms where target_page contains the pageName
-      const allForms = (data || []).map((form) => ({
-        ...form,
-        fields: (form.fields as unknown as FormField[]) || [],
-        target_pages: form.target_page ? form.target_page.split(",").map(p => p.trim()) : [],
-        display_types: form.display_type ? form.display_type.split(",").map(d => d.trim()) : [],
-      })) as CustomForm[];
-
-      // Return only forms targeting this page
-      return allForms.filter((form) => form.target_pages.includes(pageName));
+      return (data || []).map(({ custom_forms: form, ...placement }) => ({
+        ...(placement as FormPlacement),
+        form: { ...form, fields: (form.fields as unknown as FormField[]) || [] } as CustomForm,
+      })) as PagePlacement[];
     },
   });
 
-  const submitForm = useMutation({
-    mutationFn: async ({ formId, data }: { formId: string; data: Record<string, string | string[]> }) => {
-      // Check honeypot - if filled, silently succeed (bot detection)
-      const response = await supabase.functions.invoke('submit-form', {
-        body: {
-          formType: 'form_submissions',
-          formId,
-          data: {
-            submission_data: data
-          },
-          honeypot: honeypot
-        }
-      });
+  const forms = useMemo(
+    () => Array.from(new Map((placements || []).map((p) => [p.form.id, p.form])).values()),
+    [placements]
+  );
 
-      if (response.error) {
-        throw new Error(response.error.message || 'Failed to submit form');
-      }
+  const { getAvailability } = useFormAvailability(forms);
 
-      const result = response.data;
-      if (result?.error) {
-        throw new Error(result.error);
-      }
+  // Capping is checked when the page loads, so a popup never opens twice per visit
+  const popupPlacements = useMemo(
+    () => (placements || []).filter((p) => p.display_mode === "popup" && !isPlacementCapped(p)),
+    [placements]
+  );
 
-      return result;
+  const submitForm = useMutation({
+    mutationFn: async ({ formId, formVersionId, data }: { formId: string; formVersionId: string | null; data: FormValues }) => {
+      // Check honeypot - if filled, silently succeed (bot detection)
+      return submitCustomForm({
+        formType: "form_submissions",
+        formId,
+        formVersionId,
+        data: {
+          submission_data: data,
+          metadata: getAttribution()
+        },
+        honeypot: honeypot,
+        renderToken: renderTokens[formId]
+      });
     },
     onSuccess: (_, variables) => {
+      trackFormEvent(variables.formId, "submit_success");
+      recordFormSubmitted(variables.formId);
       setSubmitted(variables.formId);
+      queryClient.invalidateQueries({ queryKey: ["form-submission-counts"] });
       setFormData({});
       setRatings({});
+      setFieldErrors({});
+      setFormSteps({});
       setHoneypot("");
       setTimeout(() => {
         setSubmitted(null);
@@ -104,57 +139,156 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
       }, 2500);
       toast({ title: "Form submitted successfully!" });
     },
-    onError: (error: Error) => {
-      const message = error.message.includes('Too many requests') 
-        ? "Too many submissions. Please wait a moment." 
-        : "Failed to submit form";
+    onError: (error: Error, variables) => {
+      trackFormEvent(variables.formId, "submit_failure", {
+        metadata: { reason: (error instanceof SubmitFormError && (error.code || error.status)) || "error" },
+      });
+      if (error instanceof SubmitFormError) {
+        setFieldErrors(error.fieldErrors);
+        const form = forms?.find((f) => f.id === variables.formId);
+        if (form) goToFirstError(form, error.fieldErrors);
+        if (error.isUnavailable) {
+          queryClient.invalidateQueries({ queryKey: ["form-submission-counts"] });
+          queryClient.invalidateQueries({ queryKey: ["published-forms"] });
+        }
+        if (error.isFormChanged) {
+          queryClient.invalidateQueries({ queryKey: ["published-forms"] });
+        }
+      }
+      const message = error instanceof SubmitFormError && (error.isUnavailable || error.isFormChanged || error.code === "duplicate_response")
+        ? error.message
+        : error instanceof SubmitFormError && error.isRateLimited
+          ? "Too many submissions. Please wait a moment."
+          : error instanceof SubmitFormError && Object.keys(error.fieldErrors).length > 0
+            ? "Please correct the highlighted fields"
+            : "Failed to submit form";
       toast({ title: message, variant: "destructive" });
     },
   });
 
-  const handleSubmit = (form: CustomForm, e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Combine regular form data with ratings
+  // Combine regular form data with ratings
+  const getCombinedData = () => {
     const combinedData = { ...formData };
     Object.entries(ratings).forEach(([key, value]) => {
       combinedData[key] = value.toString();
     });
-    
-    submitForm.mutate({ formId: form.id, data: combinedData });
+    return combinedData;
+  };
+
+  const getStepView = (form: CustomForm) => {
+    const fieldStates = resolveFieldStates(form.fields, getCombinedData());
+    const isMultiStep = hasSections(form.fields);
+    const steps = getFormSteps(form.fields, fieldStates);
+    // Steps can disappear as answers change, so never point past the review step
+    const currentStep = Math.min(formSteps[form.id] || 0, steps.length);
+    const isReview = isMultiStep && currentStep === steps.length;
+    return { fieldStates, isMultiStep, steps, currentStep, isReview };
+  };
+
+  const goToStep = (formId: string, index: number) => {
+    setFormSteps((prev) => ({ ...prev, [formId]: index }));
+  };
+
+  const goToFirstError = (form: CustomForm, errors: FieldErrors) => {
+    const { isMultiStep, steps } = getStepView(form);
+    if (!isMultiStep) return;
+    const index = steps.findIndex((step) => step.fields.some((field) => errors[field.id]));
+    if (index >= 0) goToStep(form.id, index);
+  };
+
+  const handleSubmit = (form: CustomForm, e: React.FormEvent) => {
+    e.preventDefault();
+    const combinedData = getCombinedData();
+    const { isMultiStep, steps, currentStep, isReview } = getStepView(form);
+
+    if (isMultiStep && !isReview) {
+      const errors = validateFormStep(form.fields, combinedData, steps[currentStep]);
+      setFieldErrors(errors);
+      if (Object.keys(errors).length === 0) goToStep(form.id, currentStep + 1);
+      return;
+    }
+
+    // Same rules the server applies, so most mistakes are caught without a round trip
+    const validation = validateCustomFormData(form.fields, combinedData);
+    setFieldErrors(validation.errors);
+    if (!validation.valid) {
+      trackFormEvent(form.id, "submit_failure", { metadata: { reason: "validation" } });
+      goToFirstError(form, validation.errors);
+      return;
+    }
+
+    submitForm.mutate({ formId: form.id, formVersionId: form.published_version_id, data: combinedData });
+  };
+
+  const clearFieldError = (fieldId: string) => {
+    setFieldErrors((prev) => {
+      if (!prev[fieldId]) return prev;
+      const { [fieldId]: _removed, ...rest } = prev;
+      return rest;
+    });
   };
 
-  const handleInputChange = (fieldLabel: string, value: string | string[]) => {
-    setFormData((prev) => ({ ...prev, [fieldLabel]: value }));
+  const handleInputChange = (fieldId: string, value: FormValue) => {
+    setFormData((prev) => ({ ...prev, [fieldId]: value }));
+    clearFieldError(fieldId);
   };
 
-  const handleCheckboxChange = (fieldLabel: string, option: string, checked: boolean) => {
+  const handleCheckboxChange = (fieldId: string, option: string, checked: boolean) => {
     setFormData((prev) => {
-      const current = (prev[fieldLabel] as string[]) || [];
+      const current = (prev[fieldId] as string[]) || [];
       if (checked) {
-        return { ...prev, [fieldLabel]: [...current, option] };
+        return { ...prev, [fieldId]: [...current, option] };
       } else {
-        return { ...prev, [fieldLabel]: current.filter((o) => o !== option) };
+        return { ...prev, [fieldId]: current.filter((o) => o !== option) };
       }
     });
+    clearFieldError(fieldId);
   };
 
-  const popupForms = forms?.filter((f) => f.display_types.includes("popup")) || [];
-  const sectionForms = forms?.filter((f) => f.display_types.includes("section")) || [];
+  const openPopup = (form: CustomForm) => {
+    if (getAvailability(form) === "open") trackFormEvent(form.id, "view");
+    setOpenPopupId(form.id);
+    setFormData({});
+    setRatings({});
+    setFieldErrors({});
+    setFormSteps({});
+    setSubmitted(null);
+  };
+
+  usePopupTriggers(popupPlacements, (placement) => {
+    // Never replace a form the visitor is already looking at
+    if (openPopupId || getAvailability(placement.form) !== "open" || isPlacementCapped(placement)) return;
+    recordPlacementView(placement);
+    openPopup(placement.form);
+  });
+
+  const floatingPlacements = (placements || []).filter(
+    (p) => p.display_mode === "floating_button" && !isPlacementCapped(p)
+  );
+  const popupForms = forms.filter((form) =>
+    placements?.some((p) => p.form.id === form.id && (p.display_mode === "popup" || p.display_mode === "floating_button"))
+  );
+  const pagePlacements = (placements || []).filter((p) => p.display_mode === "section" || p.display_mode === "inline");
 
-  const renderField = (field: FormField, formId: string) => {
+  // Section and inline forms are shown with the page, popups once opened
+  const shownFormIds = Array.from(
+    new Set([...pagePlacements.map((p) => p.form.id), ...(openPopupId ? [openPopupId] : [])])
+  );
+  const renderTokens = useRenderTokens(shownFormIds);
+
+  const renderField = (field: FormField, formId: string, required: boolean) => {
     const baseClasses =
       "w-full px-4 py-3 rounded-lg border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50 transition-all";
-    const fieldKey = `${formId}-${field.label}`;
+    const fieldKey = `${formId}-${field.id}`;
 
     switch (field.type) {
       case "textarea":
         return (
           <textarea
-            value={(formData[field.label] as string) || ""}
-            onChange={(e) => handleInputChange(field.label, e.target.value)}
+            value={(formData[field.id] as string) || ""}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
             placeholder={field.placeholder || "Your answer..."}
-            required={field.required}
+            required={required}
             rows={4}
             className={`${baseClasses} resize-none`}
           />
@@ -163,9 +297,9 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
       case "select":
         return (
           <select
-            value={(formData[field.label] as string) || ""}
-            onChange={(e) => handleInputChange(field.label, e.target.value)}
-            required={field.required}
+            value={(formData[field.id] as string) || ""}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
+            required={required}
             className={baseClasses}
           >
             <option value="">{field.placeholder || "Select an option"}</option>
@@ -184,7 +318,7 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
               <label
                 key={opt}
                 className={`flex items-center gap-3 p-4 rounded-lg border cursor-pointer transition-all ${
-                  formData[field.label] === opt
+                  formData[field.id] === opt
                     ? "border-primary bg-primary/5"
                     : "border-border hover:border-primary/50 hover:bg-secondary/50"
                 }`}
@@ -193,9 +327,9 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
                   type="radio"
                   name={fieldKey}
                   value={opt}
-                  checked={formData[field.label] === opt}
-                  onChange={(e) => handleInputChange(field.label, e.target.value)}
-                  required={field.required}
+                  checked={formData[field.id] === opt}
+                  onChange={(e) => handleInputChange(field.id, e.target.value)}
+                  required={required}
                   className="w-4 h-4 text-primary"
                 />
                 <span>{opt}</span>
@@ -208,7 +342,7 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
         return (
           <div className="space-y-2">
             {field.options?.map((opt) => {
-              const isChecked = ((formData[field.label] as string[]) || []).includes(opt);
+              const isChecked = ((formData[field.id] as string[]) || []).includes(opt);
               return (
                 <label
                   key={opt}
@@ -222,7 +356,7 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
                     type="checkbox"
                     value={opt}
                     checked={isChecked}
-                    onChange={(e) => handleCheckboxChange(field.label, opt, e.target.checked)}
+                    onChange={(e) => handleCheckboxChange(field.id, opt, e.target.checked)}
                     className="w-4 h-4 rounded text-primary"
                   />
                   <span>{opt}</span>
@@ -232,15 +366,29 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
           </div>
         );
 
-      case "rating":
-        const currentRating = ratings[field.label] || 0;
+      case "file":
+        return (
+          <FileUploadInput
+            formId={formId}
+            field={field}
+            value={(formData[field.id] as string[]) || []}
+            onChange={(paths) => handleInputChange(field.id, paths)}
+            onError={(message) => setFieldErrors((prev) => ({ ...prev, [field.id]: message }))}
+          />
+        );
+
+      case "rating": {
+        const currentRating = ratings[field.id] || 0;
         return (
           <div className="flex gap-2">
             {[1, 2, 3, 4, 5].map((n) => (
               <button
                 key={n}
                 type="button"
-                onClick={() => setRatings((prev) => ({ ...prev, [field.label]: n }))}
+                onClick={() => {
+                  setRatings((prev) => ({ ...prev, [field.id]: n }));
+                  clearFieldError(field.id);
+                }}
                 className="p-2 hover:scale-110 transition-transform"
               >
                 <Star
@@ -251,14 +399,41 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
             ))}
           </div>
         );
+      }
+
+      case "nps":
+        return (
+          <NpsInput
+            value={formData[field.id] as string}
+            onChange={(value) => handleInputChange(field.id, value)}
+          />
+        );
+
+      case "likert":
+        return (
+          <LikertInput
+            field={field}
+            value={formData[field.id] as Record<string, string>}
+            onChange={(value) => handleInputChange(field.id, value)}
+          />
+        );
+
+      case "ranking":
+        return (
+          <RankingInput
+            field={field}
+            value={formData[field.id] as string[]}
+            onChange={(value) => handleInputChange(field.id, value)}
+          />
+        );
 
       case "date":
         return (
           <input
             type="date"
-            value={(formData[field.label] as string) || ""}
-            onChange={(e) => handleInputChange(field.label, e.target.value)}
-            required={field.required}
+            value={(formData[field.id] as string) || ""}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
+            required={required}
             className={baseClasses}
           />
         );
@@ -267,10 +442,10 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
         return (
           <input
             type="number"
-            value={(formData[field.label] as string) || ""}
-            onChange={(e) => handleInputChange(field.label, e.target.value)}
+            value={(formData[field.id] as string) || ""}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
             placeholder={field.placeholder || "Enter a number"}
-            required={field.required}
+            required={required}
             className={baseClasses}
           />
         );
@@ -279,10 +454,10 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
         return (
           <input
             type="url"
-            value={(formData[field.label] as string) || ""}
-            onChange={(e) => handleInputChange(field.label, e.target.value)}
+            value={(formData[field.id] as string) || ""}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
             placeholder={field.placeholder || "https://example.com"}
-            required={field.required}
+            required={required}
             className={baseClasses}
           />
         );
@@ -291,10 +466,10 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
         return (
           <input
             type={field.type}
-            value={(formData[field.label] as string) || ""}
-            onChange={(e) => handleInputChange(field.label, e.target.value)}
+            value={(formData[field.id] as string) || ""}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
             placeholder={field.placeholder || "Your answer..."}
-            required={field.required}
+            required={required}
             className={baseClasses}
           />
         );
@@ -316,8 +491,21 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
       );
     }
 
+    const availability = getAvailability(form);
+    if (availability !== "open") {
+      return <FormUnavailable availability={availability} opensAt={form.opens_at} />;
+    }
+
+    const { fieldStates, isMultiStep, steps, currentStep, isReview } = getStepView(form);
+    const visibleFields = isMultiStep
+      ? steps[currentStep]?.fields || []
+      : form.fields.filter((field) => !isHiddenField(field) && fieldStates[field.id]?.visible !== false);
+
     return (
-      <form onSubmit={(e) => handleSubmit(form, e)} className="space-y-5">
+      <form onSubmit={(e) => handleSubmit(form, e)} className="space-y-5" {...getFormTrackingProps(form.id)}>
+        {isMultiStep && (
+          <FormProgress current={currentStep} total={steps.length} title={steps[currentStep]?.title} />
+        )}
         {/* Honeypot field - hidden from users, visible to bots */}
         <input
           type="text"
@@ -329,59 +517,82 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
           autoComplete="off"
           aria-hidden="true"
         />
-        {form.fields.map((field) => (
+        {isMultiStep && !isReview && steps[currentStep]?.description && (
+          <p className="text-sm text-muted-foreground">{steps[currentStep].description}</p>
+        )}
+        {isReview && (
+          <FormReview steps={steps} data={getCombinedData()} onEdit={(index) => goToStep(form.id, index)} />
+        )}
+        {!isReview && visibleFields.map((field) => (
           <motion.div
             key={field.id}
+            data-field-id={field.id}
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.2 }}
           >
             <label className="block text-sm font-medium mb-2">
               {field.label}
-              {field.required && <span className="text-destructive ml-1">*</span>}
+              {fieldStates[field.id]?.required && <span className="text-destructive ml-1">*</span>}
             </label>
             {field.helpText && (
               <p className="text-xs text-muted-foreground mb-2">{field.helpText}</p>
             )}
-            {renderField(field, form.id)}
+            {renderField(field, form.id, !!fieldStates[field.id]?.required)}
+            {fieldErrors[field.id] && (
+              <p className="text-destructive text-sm mt-1">{fieldErrors[field.id]}</p>
+            )}
           </motion.div>
         ))}
-        <button
-          type="submit"
-          disabled={submitForm.isPending}
-          className="btn-gold w-full flex items-center justify-center gap-2 py-3"
-        >
-          {submitForm.isPending ? (
-            <>
-              <Loader2 className="w-5 h-5 animate-spin" />
-              Submitting...
-            </>
-          ) : (
-            "Submit"
+        <div className="flex gap-3">
+          {isMultiStep && currentStep > 0 && (
+            <button
+              type="button"
+              onClick={() => goToStep(form.id, currentStep - 1)}
+              disabled={submitForm.isPending}
+              className="flex items-center gap-2 px-4 py-3 rounded-lg border border-border hover:bg-secondary transition-colors"
+            >
+              <ArrowLeft size={16} />
+              Back
+            </button>
           )}
-        </button>
+          <button
+            type="submit"
+            disabled={submitForm.isPending}
+            className="btn-gold flex-1 flex items-center justify-center gap-2 py-3"
+          >
+            {submitForm.isPending ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Submitting...
+              </>
+            ) : isMultiStep && !isReview ? (
+              <>
+                {currentStep === steps.length - 1 ? "Review" : "Next"}
+                <ArrowRight size={16} />
+              </>
+            ) : (
+              "Submit"
+            )}
+          </button>
+        </div>
       </form>
     );
   };
 
   if (isLoading) return null;
 
-  if (!forms || forms.length === 0) return null;
+  if (forms.length === 0) return null;
 
   return (
     <>
-      {/* Popup Trigger Buttons */}
-      {popupForms.length > 0 && (
+      {/* Floating Buttons */}
+      {floatingPlacements.length > 0 && (
         <div className="fixed bottom-6 right-6 z-40 flex flex-col gap-3">
-          {popupForms.map((form) => (
+          {floatingPlacements.map(({ id, form }) => (
             <motion.button
-              key={form.id}
-              onClick={() => {
-                setOpenPopupId(form.id);
-                setFormData({});
-                setRatings({});
-                setSubmitted(null);
-              }}
+              key={id}
+              onClick={() => openPopup(form)}
               className="btn-gold shadow-xl flex items-center gap-2"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -406,6 +617,8 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
               setOpenPopupId(null);
               setFormData({});
               setRatings({});
+              setFieldErrors({});
+              setFormSteps({});
             }
           }}
         >
@@ -421,10 +634,27 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
         </Dialog>
       ))}
 
-      {/* Section Forms */}
-      {sectionForms.map((form) => (
+      {/* Section and Inline Forms, in placement order */}
+      {pagePlacements.map(({ id, form, display_mode }) => display_mode === "inline" ? (
+        <div key={id} className="container-custom max-w-2xl py-12">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true }}
+            onViewportEnter={() => {
+              if (getAvailability(form) === "open") trackFormEvent(form.id, "view");
+            }}
+            transition={{ duration: 0.4 }}
+            className="glass-card p-6 md:p-8 rounded-2xl"
+          >
+            <h3 className="text-xl font-semibold mb-2">{form.form_name}</h3>
+            {form.description && <p className="text-muted-foreground mb-6">{form.description}</p>}
+            {renderForm(form)}
+          </motion.div>
+        </div>
+      ) : (
         <section
-          key={form.id}
+          key={id}
           className="section-padding bg-gradient-to-br from-primary/5 via-background to-primary/10"
         >
           <div className="container-custom max-w-2xl">
@@ -432,6 +662,9 @@ export const DynamicFormDisplay = ({ pageName }: DynamicFormDisplayProps) => {
               initial={{ opacity: 0, y: 30 }}
               whileInView={{ opacity: 1, y: 0 }}
               viewport={{ once: true }}
+              onViewportEnter={() => {
+                if (getAvailability(form) === "open") trackFormEvent(form.id, "view");
+              }}
               transition={{ duration: 0.5 }}
               className="glass-card p-8 md:p-10 rounded-2xl shadow-lg"
             >
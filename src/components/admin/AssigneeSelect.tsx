@@ -0,0 +1,39 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TeamMember } from "@/hooks/use-team-members";
+
+interface AssigneeSelectProps {
+  value: string | null;
+  members: TeamMember[];
+  onChange: (userId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const UNASSIGNED = "unassigned";
+
+export const AssigneeSelect = ({ value, members, onChange, disabled, className = "w-40 h-8 text-xs" }: AssigneeSelectProps) => (
+  <Select
+    value={value || UNASSIGNED}
+    onValueChange={(userId) => onChange(userId === UNASSIGNED ? null : userId)}
+    disabled={disabled}
+  >
+    <SelectTrigger className={className}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+      {members.map((member) => (
+        <SelectItem key={member.id} value={member.id}>
+          {member.name}
+          {member.role === "editor" && <span className="text-muted-foreground"> (editor)</span>}
+        </SelectItem>
+      ))}
+      {/* Keep a former team member visible rather than showing an empty trigger */}
+      {value && !members.some((member) => member.id === value) && (
+        <SelectItem value={value}>Former team member</SelectItem>
+      )}
+    </SelectContent>
+  </Select>
+);
+
+export default AssigneeSelect;
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, Tag, Trash2, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import type { RowSelection } from "@/hooks/use-row-selection";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  BULK_UNDO_WINDOW_MS,
+  INBOX_STATUSES,
+  INBOX_TYPES,
+  bulkUpdateInboxItems,
+  undoBulkAction,
+  type BulkAction,
+  type InboxType,
+} from "@/lib/inbox";
+
+const checkboxCellClass = "w-10 pl-6 pr-0 py-4";
+
+interface SelectCellProps {
+  selection: RowSelection;
+  className?: string;
+}
+
+// Header checkbox: selects or clears every row on the page
+export const SelectAllHeader = ({ selection, className = checkboxCellClass }: SelectCellProps) => (
+  <th className={className}>
+    <Checkbox
+      checked={selection.allSelected ? true : selection.someSelected ? "indeterminate" : false}
+      onCheckedChange={(checked) => selection.toggleAll(checked === true)}
+      aria-label="Select all on this page"
+    />
+  </th>
+);
+
+export const SelectRowCell = ({
+  selection,
+  id,
+  label,
+  className = checkboxCellClass,
+}: SelectCellProps & { id: string; label: string }) => (
+  <td className={className}>
+    <Checkbox
+      checked={selection.isSelected(id)}
+      onCheckedChange={(checked) => selection.toggle(id, checked === true)}
+      aria-label={`Select ${label}`}
+    />
+  </td>
+);
+
+interface BulkActionsBarProps {
+  type: InboxType;
+  selection: RowSelection;
+  // Called after a bulk delete, so the list can step back from a page it emptied
+  onDeleted?: (count: number) => void;
+}
+
+const countItems = (count: number) => `${count} ${count === 1 ? "item" : "items"}`;
+
+/**
+ * Actions for the selected rows of a submissions list. Each action is one server call and
+ * its toast offers an Undo for as long as the server keeps the previous values.
+ */
+export const BulkActionsBar = ({ type, selection, onDeleted }: BulkActionsBarProps) => {
+  const queryClient = useQueryClient();
+  const { members, getMember } = useTeamMembers();
+  const [tag, setTag] = useState("");
+  const [tagOpen, setTagOpen] = useState(false);
+  const count = selection.selectedIds.length;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [INBOX_TYPES[type].queryKey] });
+    queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
+  };
+
+  const describe = (bulk: BulkAction, affected: number) => {
+    switch (bulk.action) {
+      case "status":
+        return `${countItems(affected)} marked ${INBOX_STATUSES.find((item) => item.value === bulk.value)?.label}`;
+      case "assign":
+        return bulk.value
+          ? `${countItems(affected)} assigned to ${getMember(bulk.value)?.name || "a team member"}`
+          : `${countItems(affected)} unassigned`;
+      case "add_tag":
+        return `Tagged ${countItems(affected)} with "${bulk.value.trim().toLowerCase()}"`;
+      case "remove_tag":
+        return `Removed "${bulk.value.trim().toLowerCase()}" from ${countItems(affected)}`;
+      case "delete":
+        return `${countItems(affected)} deleted`;
+    }
+  };
+
+  const undo = useMutation({
+    mutationFn: undoBulkAction,
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Change undone" });
+    },
+    onError: (error) => {
+      refresh();
+      toast({ title: "Failed to undo", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const apply = useMutation({
+    mutationFn: (bulk: BulkAction) => bulkUpdateInboxItems(type, selection.selectedIds, bulk),
+    onSuccess: (result, bulk) => {
+      if (bulk.action === "delete") onDeleted?.(result.affected);
+      selection.clear();
+      refresh();
+      toast({
+        title: describe(bulk, result.affected),
+        // Shown for as long as the server accepts the undo
+        duration: BULK_UNDO_WINDOW_MS,
+        action: (
+          <ToastAction altText="Undo" onClick={() => undo.mutate(result.actionId)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Bulk action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const applyTag = (action: "add_tag" | "remove_tag") => {
+    if (!tag.trim()) return;
+    apply.mutate({ action, value: tag });
+    setTag("");
+    setTagOpen(false);
+  };
+
+  if (count === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 px-4 py-2 rounded-lg border border-primary/30 bg-primary/5">
+      <span className="text-sm font-medium mr-2">{countItems(count)} selected</span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={apply.isPending}>
+            Set status
+            <ChevronDown size={14} className="ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {INBOX_STATUSES.map((status) => (
+            <DropdownMenuItem key={status.value} onSelect={() => apply.mutate({ action: "status", value: status.value })}>
+              {status.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={apply.isPending}>
+            Assign
+            <ChevronDown size={14} className="ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {members.map((member) => (
+            <DropdownMenuItem key={member.id} onSelect={() => apply.mutate({ action: "assign", value: member.id })}>
+              {member.name}
+              {member.role === "editor" && <span className="text-muted-foreground ml-1">(editor)</span>}
+            </DropdownMenuItem>
+          ))}
+          {members.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={() => apply.mutate({ action: "assign", value: null })}>Unassign</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Popover open={tagOpen} onOpenChange={setTagOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={apply.isPending}>
+            <Tag size={14} className="mr-1" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-3">
+          <input
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && applyTag("add_tag")}
+            maxLength={40}
+            placeholder="Tag name"
+            className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => applyTag("remove_tag")} disabled={!tag.trim()}>
+              Remove
+            </Button>
+            <Button size="sm" onClick={() => applyTag("add_tag")} disabled={!tag.trim()}>
+              Add
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" className="text-destructive" disabled={apply.isPending}>
+            <Trash2 size={14} className="mr-1" />
+            Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {countItems(count)}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected items are deleted with their notes and history. You can undo this for a few seconds
+              afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => apply.mutate({ action: "delete" })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <button
+        onClick={selection.clear}
+        className="ml-auto p-1 text-muted-foreground hover:text-foreground"
+        aria-label="Clear selection"
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+interface InboxTagsProps {
+  tags: string[] | null;
+  // Filters the list by the clicked tag
+  onSelect?: (tag: string) => void;
+}
+
+export const InboxTags = ({ tags, onSelect }: InboxTagsProps) =>
+  tags && tags.length > 0 ? (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          onClick={() => onSelect?.(tag)}
+          className="px-2 py-0.5 text-xs rounded-full bg-secondary text-muted-foreground hover:text-foreground"
+        >
+          {tag}
+        </button>
+      ))}
+    </div>
+  ) : null;
+
+interface TagFilterProps {
+  value: string;
+  onClear: () => void;
+}
+
+export const TagFilter = ({ value, onClear }: TagFilterProps) =>
+  value ? (
+    <span className="inline-flex items-center gap-1 px-3 py-1.5 text-sm rounded-full bg-secondary">
+      <Tag size={14} className="text-muted-foreground" />
+      {value}
+      <button onClick={onClear} className="text-muted-foreground hover:text-foreground" aria-label="Clear tag filter">
+        <X size={14} />
+      </button>
+    </span>
+  ) : null;
+
+export default BulkActionsBar;
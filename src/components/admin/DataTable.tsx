@@ -0,0 +1,158 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TableParams } from "@/hooks/use-table-params";
+import { PAGE_SIZES, getPageCount } from "@/lib/data-table";
+
+// Building blocks for the paginated admin lists. State lives in useTableParams.
+
+const inputClass =
+  "px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+interface SortableHeaderProps<Sort extends string> {
+  column: Sort;
+  table: Pick<TableParams<Sort>, "sort" | "direction" | "toggleSort">;
+  children: ReactNode;
+  className?: string;
+}
+
+export const SortableHeader = <Sort extends string>({
+  column,
+  table,
+  children,
+  className = "text-left px-6 py-4 text-sm font-medium text-muted-foreground",
+}: SortableHeaderProps<Sort>) => {
+  const isSorted = table.sort === column;
+  const Icon = !isSorted ? ArrowUpDown : table.direction === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <th className={className} aria-sort={isSorted ? (table.direction === "asc" ? "ascending" : "descending") : undefined}>
+      <button onClick={() => table.toggleSort(column)} className="inline-flex items-center gap-1 hover:text-foreground">
+        {children}
+        <Icon size={14} className={isSorted ? "text-foreground" : "opacity-40"} />
+      </button>
+    </th>
+  );
+};
+
+interface DataTableSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+// Search box that waits for a pause in typing before changing the URL
+export const DataTableSearch = ({ value, onChange, placeholder = "Search" }: DataTableSearchProps) => {
+  const [text, setText] = useState(value);
+
+  // Follow the URL when it changes from elsewhere, e.g. the back button
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (text.trim() === value) return;
+    const timer = setTimeout(() => onChange(text), 300);
+    return () => clearTimeout(timer);
+  }, [text, value, onChange]);
+
+  return (
+    <div className="relative flex-1 min-w-[220px]">
+      <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+      <input
+        type="search"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        className={`w-full pl-9 ${inputClass}`}
+      />
+    </div>
+  );
+};
+
+interface DateRangeFilterProps {
+  from: string;
+  to: string;
+  onChange: (range: { from: string; to: string }) => void;
+}
+
+export const DateRangeFilter = ({ from, to, onChange }: DateRangeFilterProps) => (
+  <div className="flex items-center gap-2">
+    <input
+      type="date"
+      value={from}
+      max={to || undefined}
+      onChange={(e) => onChange({ from: e.target.value, to })}
+      className={inputClass}
+      aria-label="From date"
+    />
+    <span className="text-sm text-muted-foreground">to</span>
+    <input
+      type="date"
+      value={to}
+      min={from || undefined}
+      onChange={(e) => onChange({ from, to: e.target.value })}
+      className={inputClass}
+      aria-label="To date"
+    />
+    {(from || to) && (
+      <button onClick={() => onChange({ from: "", to: "" })} className="text-sm text-muted-foreground hover:text-foreground">
+        Clear dates
+      </button>
+    )}
+  </div>
+);
+
+interface DataTablePaginationProps {
+  table: Pick<TableParams, "page" | "pageSize" | "setPage" | "setPageSize">;
+  total: number;
+}
+
+export const DataTablePagination = ({ table, total }: DataTablePaginationProps) => {
+  const pageCount = getPageCount(total, table.pageSize);
+  const first = total === 0 ? 0 : (table.page - 1) * table.pageSize + 1;
+  const last = Math.min(table.page * table.pageSize, total);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-t border-border text-sm">
+      <span className="text-muted-foreground">
+        {first}–{last} of {total}
+      </span>
+      <div className="flex items-center gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Rows per page</span>
+          <Select value={String(table.pageSize)} onValueChange={(value) => table.setPageSize(Number(value))}>
+            <SelectTrigger className="w-20 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <span className="text-muted-foreground">
+          Page {Math.min(table.page, pageCount)} of {pageCount}
+        </span>
+        <button
+          onClick={() => table.setPage(table.page - 1)}
+          disabled={table.page <= 1}
+          className="p-1.5 rounded border border-border hover:bg-secondary disabled:opacity-40"
+          aria-label="Previous page"
+        >
+          <ChevronLeft size={16} />
+        </button>
+        <button
+          onClick={() => table.setPage(table.page + 1)}
+          disabled={table.page >= pageCount}
+          className="p-1.5 rounded border border-border hover:bg-secondary disabled:opacity-40"
+          aria-label="Next page"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Download } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_EXPORT_LABEL_LENGTH,
+  getExportColumns,
+  type ExportFilters,
+  type ExportFormat,
+  type ExportFormType,
+} from "@shared/exports";
+import type { FormField } from "@shared/custom-forms";
+import {
+  downloadSubmissionExport,
+  loadExportColumns,
+  saveExportColumns,
+  type ExportColumnChoice,
+} from "@/lib/submission-export";
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+  json: "JSON",
+};
+
+interface ExportDialogProps {
+  formType: ExportFormType;
+  filters: ExportFilters;
+  // Fields of the selected custom form; answers get one column each
+  fields?: FormField[];
+}
+
+/**
+ * Export button for a submissions screen. Exports everything matching the screen's current
+ * filters, with the columns chosen, renamed and ordered here.
+ */
+export const ExportDialog = ({ formType, filters, fields }: ExportDialogProps) => {
+  const scope = `${formType}:${filters.formId || "all"}`;
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<ExportColumnChoice[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    // Columns are read when the dialog opens, so a different form or a new field is picked up
+    if (next) setColumns(loadExportColumns(scope, getExportColumns(formType, fields)));
+    setOpen(next);
+  };
+
+  const updateColumn = (index: number, changes: Partial<ExportColumnChoice>) => {
+    setColumns((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns((prev) => {
+      const next = [...prev];
+      const [item] = next.splice(index, 1);
+      next.splice(index + offset, 0, item);
+      return next;
+    });
+  };
+
+  const selected = columns.filter((item) => item.selected);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    saveExportColumns(scope, columns);
+    try {
+      await downloadSubmissionExport({
+        formType,
+        format,
+        filters,
+        columns: selected.map(({ column, label }) => ({ key: column.key, label: label.trim() || column.label })),
+      });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download size={16} className="mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>
+            Everything matching the current search and filters is exported, not only this page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">Format</span>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(formatLabels) as ExportFormat[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {formatLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium">
+                Columns <span className="text-muted-foreground font-normal">({selected.length} selected)</span>
+              </span>
+              <div className="flex gap-3 text-xs">
+                <button
+                  onClick={() => setColumns((prev) => prev.map((item) => ({ ...item, selected: true })))}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  Select all
+                </button>
+                <button
+                  onClick={() => setColumns((prev) => prev.map((item) => ({ ...item, selected: false })))}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+            <ul className="max-h-80 overflow-y-auto rounded border border-border divide-y divide-border">
+              {columns.map((item, index) => (
+                <li key={item.column.key} className="flex items-center gap-2 px-3 py-2">
+                  <Checkbox
+                    checked={item.selected}
+                    onCheckedChange={(checked) => updateColumn(index, { selected: checked === true })}
+                    aria-label={`Include ${item.column.label}`}
+                  />
+                  <input
+                    value={item.label}
+                    onChange={(e) => updateColumn(index, { label: e.target.value })}
+                    maxLength={MAX_EXPORT_LABEL_LENGTH}
+                    placeholder={item.column.label}
+                    disabled={!item.selected}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm rounded border border-transparent bg-transparent hover:border-border focus:border-border focus:outline-none disabled:opacity-50"
+                    aria-label={`Column name for ${item.column.label}`}
+                  />
+                  <button
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded hover:bg-secondary disabled:opacity-30"
+                    aria-label="Move up"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === columns.length - 1}
+                    className="p-1 rounded hover:bg-secondary disabled:opacity-30"
+                    aria-label="Move down"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {formType === "form_submissions" && !fields && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Choose a single form to get one column per question.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || selected.length === 0}>
+            {isExporting ? "Exporting..." : `Export ${formatLabels[format].split(" ")[0]}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,331 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowRightLeft, MessageSquare, Reply, UserCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useTeamMembers, type TeamMember } from "@/hooks/use-team-members";
+import { AssigneeSelect } from "@/components/admin/AssigneeSelect";
+import { InboxStatusSelect } from "@/components/admin/InboxStatusSelect";
+import {
+  INBOX_TYPES,
+  addInboxNote,
+  assignInboxItem,
+  findMentions,
+  getInboxStatus,
+  splitMentions,
+  updateInboxStatus,
+  type InboxActivity,
+  type InboxNote,
+  type InboxStatus,
+  type InboxType,
+} from "@/lib/inbox";
+
+interface InboxItemActivityProps {
+  type: InboxType;
+  id: string;
+  status: string | null;
+  assignedTo: string | null;
+}
+
+interface NoteComposerProps {
+  members: TeamMember[];
+  placeholder: string;
+  isSaving: boolean;
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// Textarea that suggests team members after "@" and records who was mentioned
+const NoteComposer = ({ members, placeholder, isSaving, onSubmit, onCancel }: NoteComposerProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState("");
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : members.filter(
+          (member) =>
+            member.name.toLowerCase().startsWith(mentionQuery.toLowerCase()) && member.name !== mentionQuery
+        );
+
+  const updateBody = (value: string, caret: number) => {
+    setBody(value);
+    const match = /@([^@\n]{0,40})$/.exec(value.slice(0, caret));
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (member: TeamMember) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? body.length;
+    const start = body.slice(0, caret).lastIndexOf("@");
+    const next = `${body.slice(0, start)}@${member.name} ${body.slice(caret)}`;
+    setBody(next);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      const position = start + member.name.length + 2;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    try {
+      await onSubmit(body, findMentions(body, members));
+      setBody("");
+    } catch {
+      // The caller reports the failure; keep the text so it can be sent again
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        onChange={(e) => updateBody(e.target.value, e.target.selectionStart)}
+        placeholder={placeholder}
+        rows={3}
+        maxLength={5000}
+        className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50 resize-none"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 left-0 right-0 mt-1 max-h-40 overflow-y-auto rounded border border-border bg-background shadow-md">
+          {suggestions.map((member) => (
+            <button
+              key={member.id}
+              type="button"
+              // Keep focus in the textarea so the caret position survives the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(member)}
+              className="block w-full text-left px-3 py-2 text-sm hover:bg-secondary"
+            >
+              {member.name}
+              {member.email && <span className="text-xs text-muted-foreground ml-2">{member.email}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-end gap-2 mt-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving || !body.trim()}
+          className="px-3 py-1.5 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : "Add note"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const NoteBody = ({ note, members }: { note: InboxNote; members: TeamMember[] }) => (
+  <p className="text-sm whitespace-pre-wrap break-words">
+    {splitMentions(note.body, members).map((part, index) =>
+      part.isMention ? (
+        <span key={index} className="text-primary font-medium">
+          {part.text}
+        </span>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </p>
+);
+
+/**
+ * Owner, status and history of one inbox item: status changes, assignments and internal
+ * notes in the order they happened, with replies under the note they answer.
+ */
+export const InboxItemActivity = ({ type, id, status, assignedTo }: InboxItemActivityProps) => {
+  const queryClient = useQueryClient();
+  const { members, getMember } = useTeamMembers();
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+
+  const { data: notes = [] } = useQuery({
+    queryKey: ["inbox-notes", type, id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("inbox_notes")
+        .select("*")
+        .eq("item_type", type)
+        .eq("item_id", id)
+        .order("created_at");
+      if (error) throw error;
+      return data as InboxNote[];
+    },
+  });
+
+  const { data: activity = [], isLoading } = useQuery({
+    queryKey: ["inbox-activity", type, id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("inbox_activity")
+        .select("*")
+        .eq("item_type", type)
+        .eq("item_id", id)
+        .order("created_at");
+      if (error) throw error;
+      return data as InboxActivity[];
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
+    queryClient.invalidateQueries({ queryKey: [INBOX_TYPES[type].queryKey] });
+    queryClient.invalidateQueries({ queryKey: ["inbox-activity", type, id] });
+  };
+
+  const updateStatus = useMutation({
+    mutationFn: (next: InboxStatus) => updateInboxStatus(type, id, next),
+    onSuccess: refresh,
+    onError: () => {
+      toast({ title: "Failed to update status", variant: "destructive" });
+    },
+  });
+
+  const assign = useMutation({
+    mutationFn: (userId: string | null) => assignInboxItem(type, id, userId),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Failed to assign", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addNote = useMutation({
+    mutationFn: (note: { body: string; mentions: string[]; parentId?: string | null }) => addInboxNote(type, id, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["inbox-notes", type, id] });
+      queryClient.invalidateQueries({ queryKey: ["inbox-activity", type, id] });
+      setReplyTo(null);
+    },
+    onError: () => {
+      toast({ title: "Failed to add note", variant: "destructive" });
+    },
+  });
+
+  const nameOf = (userId: string | null) => (userId ? getMember(userId)?.name || "A former team member" : "System");
+  const timeAgo = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+  const describe = (entry: InboxActivity) => {
+    if (entry.action === "status_changed") {
+      return `${nameOf(entry.actor_id)} moved this from ${getInboxStatus(entry.from_value).label} to ${getInboxStatus(entry.to_value).label}`;
+    }
+    if (!entry.to_value) return `${nameOf(entry.actor_id)} unassigned ${nameOf(entry.from_value)}`;
+    if (entry.to_value === entry.actor_id) return `${nameOf(entry.actor_id)} took this`;
+    return `${nameOf(entry.actor_id)} assigned this to ${nameOf(entry.to_value)}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Status</label>
+          <InboxStatusSelect value={status} onChange={(next) => updateStatus.mutate(next)} disabled={updateStatus.isPending} />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">Assigned to</label>
+          <AssigneeSelect
+            value={assignedTo}
+            members={members}
+            onChange={(userId) => assign.mutate(userId)}
+            disabled={assign.isPending}
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-3">Activity</h3>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : activity.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity yet.</p>
+        ) : (
+          <ol className="space-y-4 border-l border-border pl-4">
+            {activity.map((entry) => {
+              if (entry.action !== "note_added") {
+                const Icon = entry.action === "assigned" ? UserCheck : ArrowRightLeft;
+                return (
+                  <li key={entry.id} className="relative text-sm">
+                    <Icon size={14} className="absolute -left-[23px] top-0.5 bg-background text-muted-foreground" />
+                    <span>{describe(entry)}</span>
+                    <span className="block text-xs text-muted-foreground">{timeAgo(entry.created_at)}</span>
+                  </li>
+                );
+              }
+
+              const note = notes.find((item) => item.id === entry.note_id);
+              // Replies are shown under the note they answer
+              if (!note || note.parent_id) return null;
+              const replies = notes.filter((item) => item.parent_id === note.id);
+
+              return (
+                <li key={entry.id} className="relative">
+                  <MessageSquare size={14} className="absolute -left-[23px] top-0.5 bg-background text-muted-foreground" />
+                  <div className="rounded-lg bg-secondary/40 p-3">
+                    <div className="flex items-center justify-between mb-1 text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{nameOf(note.author_id)}</span>
+                      <span>{timeAgo(note.created_at)}</span>
+                    </div>
+                    <NoteBody note={note} members={members} />
+                    {replies.length > 0 && (
+                      <div className="mt-3 space-y-3 border-l-2 border-border pl-3">
+                        {replies.map((reply) => (
+                          <div key={reply.id}>
+                            <div className="flex items-center justify-between mb-1 text-xs text-muted-foreground">
+                              <span className="font-medium text-foreground">{nameOf(reply.author_id)}</span>
+                              <span>{timeAgo(reply.created_at)}</span>
+                            </div>
+                            <NoteBody note={reply} members={members} />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {replyTo === note.id ? (
+                      <div className="mt-3">
+                        <NoteComposer
+                          members={members}
+                          placeholder="Write a reply..."
+                          isSaving={addNote.isPending}
+                          onSubmit={(body, mentions) => addNote.mutateAsync({ body, mentions, parentId: note.id })}
+                          onCancel={() => setReplyTo(null)}
+                        />
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setReplyTo(note.id)}
+                        className="mt-2 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        <Reply size={12} /> Reply
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Add an internal note</h3>
+        <NoteComposer
+          members={members}
+          placeholder="Only visible to the team. Type @ to mention someone."
+          isSaving={addNote.isPending && replyTo === null}
+          onSubmit={(body, mentions) => addNote.mutateAsync({ body, mentions })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default InboxItemActivity;
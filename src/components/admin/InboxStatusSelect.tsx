@@ -0,0 +1,51 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { INBOX_STATUSES, getInboxStatus, type InboxStatus } from "@/lib/inbox";
+
+interface InboxStatusSelectProps {
+  value: string | null;
+  onChange: (status: InboxStatus) => void;
+  disabled?: boolean;
+}
+
+// Status picker shared by the inbox and the per-type screens, coloured by the current status
+export const InboxStatusSelect = ({ value, onChange, disabled }: InboxStatusSelectProps) => {
+  const current = getInboxStatus(value);
+  return (
+    <Select value={current.value} onValueChange={(status) => onChange(status as InboxStatus)} disabled={disabled}>
+      <SelectTrigger className={`w-32 h-8 text-xs ${current.color}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {INBOX_STATUSES.map((status) => (
+          <SelectItem key={status.value} value={status.value}>
+            {status.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+interface InboxStatusFilterProps {
+  value: string;
+  onChange: (status: string) => void;
+}
+
+// "Any status" plus each status, for the list filters. The lists leave spam out of "Any status".
+export const InboxStatusFilter = ({ value, onChange }: InboxStatusFilterProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="w-36">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="all">Any status</SelectItem>
+      {INBOX_STATUSES.map((status) => (
+        <SelectItem key={status.value} value={status.value}>
+          {status.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default InboxStatusSelect;
@@ -0,0 +1,18 @@
+import { Link } from "react-router-dom";
+
+interface SingleItemNoticeProps {
+  // Path of the full list, without the ?id= deep link
+  path: string;
+}
+
+// Shown on the type screens when they were opened from an inbox link for one item
+export const SingleItemNotice = ({ path }: SingleItemNoticeProps) => (
+  <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-lg bg-secondary/50 text-sm">
+    <span className="text-muted-foreground">Showing a single item opened from the inbox.</span>
+    <Link to={path} className="text-primary hover:underline">
+      Show all
+    </Link>
+  </div>
+);
+
+export default SingleItemNotice;
@@ -0,0 +1,35 @@
+import { ShieldCheck } from "lucide-react";
+
+interface SpamReviewProps {
+  status: string | null;
+  score: number;
+  reasons: string[];
+  // Moves the item into the workflow as a new submission
+  onRelease: () => void;
+  disabled?: boolean;
+}
+
+// Why the spam checks flagged an item, shown under its status while it is still marked spam
+export const SpamReview = ({ status, score, reasons, onRelease, disabled }: SpamReviewProps) =>
+  status === "spam" ? (
+    <div className="mt-2 max-w-[14rem] space-y-1">
+      <p className="text-xs font-medium text-red-800">Spam score {score}</p>
+      {reasons.length > 0 && (
+        <ul className="text-xs text-muted-foreground list-disc pl-4">
+          {reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      <button
+        onClick={onRelease}
+        disabled={disabled}
+        className="inline-flex items-center gap-1 text-xs text-primary hover:underline disabled:opacity-50"
+      >
+        <ShieldCheck size={12} />
+        Not spam
+      </button>
+    </div>
+  ) : null;
+
+export default SpamReview;
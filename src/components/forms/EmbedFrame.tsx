@@ -0,0 +1,33 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { postToEmbedParent } from "@/lib/form-embed";
+
+interface EmbedFrameProps {
+  formId: string;
+  // Only an allowed host is told about size changes
+  parentOrigin: string | null;
+  children: ReactNode;
+}
+
+// Page shell for forms rendered inside a partner site's iframe. Reports its height so
+// the loader script can size the iframe to fit without inner scrollbars.
+export const EmbedFrame = ({ formId, parentOrigin, children }: EmbedFrameProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!ref.current || !parentOrigin) return;
+    const element = ref.current;
+    const observer = new ResizeObserver(() => {
+      postToEmbedParent(parentOrigin, formId, { type: "resize", height: element.offsetHeight });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [formId, parentOrigin]);
+
+  return (
+    <div ref={ref} className="p-1">
+      {children}
+    </div>
+  );
+};
+
+export default EmbedFrame;
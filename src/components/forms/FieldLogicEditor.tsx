@@ -0,0 +1,187 @@
+import { Plus, Trash2, GitBranch } from "lucide-react";
+import type { ConditionOperator, FieldCondition, FieldRule, FormField } from "@shared/custom-forms";
+
+interface FieldLogicEditorProps {
+  field: FormField;
+  fields: FormField[];
+  onChange: (rules: FieldRule[] | undefined) => void;
+}
+
+const operators: { value: ConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: "equals", label: "is", needsValue: true },
+  { value: "not_equals", label: "is not", needsValue: true },
+  { value: "contains", label: "contains", needsValue: true },
+  { value: "is_empty", label: "is empty", needsValue: false },
+  { value: "is_not_empty", label: "is answered", needsValue: false },
+];
+
+const inputClass =
+  "px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+export const FieldLogicEditor = ({ field, fields, onChange }: FieldLogicEditorProps) => {
+  const rules = field.rules || [];
+  // Sections hold no answer, so they can be shown conditionally but never be a condition
+  const sourceFields = fields.filter((f) => f.id !== field.id && f.type !== "section");
+  const isSection = field.type === "section";
+
+  const updateRules = (next: FieldRule[]) => onChange(next.length > 0 ? next : undefined);
+
+  const updateRule = (index: number, updates: Partial<FieldRule>) => {
+    updateRules(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, updates: Partial<FieldCondition>) => {
+    const rule = rules[ruleIndex];
+    updateRule(ruleIndex, {
+      conditions: rule.conditions.map((c, i) => (i === conditionIndex ? { ...c, ...updates } : c)),
+    });
+  };
+
+  const newCondition = (): FieldCondition => ({
+    fieldId: sourceFields[0]?.id || "",
+    operator: "equals",
+    value: sourceFields[0]?.options?.[0] || "",
+  });
+
+  const addRule = () => {
+    updateRules([...rules, { action: "show", match: "all", conditions: [newCondition()] }]);
+  };
+
+  if (sourceFields.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Add more questions to make this one conditional.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, ruleIndex) => (
+        <div key={ruleIndex} className="p-3 rounded-lg border border-border bg-background space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={rule.action}
+              onChange={(e) => updateRule(ruleIndex, { action: e.target.value as FieldRule["action"] })}
+              className={inputClass}
+            >
+              <option value="show">{isSection ? "Show this section" : "Show this question"}</option>
+              {!isSection && <option value="require">Require this question</option>}
+            </select>
+            <span className="text-muted-foreground">when</span>
+            <select
+              value={rule.match}
+              onChange={(e) => updateRule(ruleIndex, { match: e.target.value as FieldRule["match"] })}
+              className={inputClass}
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            <span className="text-muted-foreground">of these match</span>
+            <button
+              type="button"
+              onClick={() => updateRules(rules.filter((_, i) => i !== ruleIndex))}
+              className="ml-auto p-1.5 text-destructive hover:bg-destructive/10 rounded transition-colors"
+              title="Remove rule"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          {rule.conditions.map((condition, conditionIndex) => {
+            const source = sourceFields.find((f) => f.id === condition.fieldId);
+            const operator = operators.find((o) => o.value === condition.operator);
+            return (
+              <div key={conditionIndex} className="flex flex-wrap items-center gap-2">
+                <select
+                  value={condition.fieldId}
+                  onChange={(e) => {
+                    const next = sourceFields.find((f) => f.id === e.target.value);
+                    updateCondition(ruleIndex, conditionIndex, {
+                      fieldId: e.target.value,
+                      value: next?.options?.[0] || "",
+                    });
+                  }}
+                  className={`${inputClass} flex-1 min-w-[140px]`}
+                >
+                  {!source && <option value={condition.fieldId}>Deleted question</option>}
+                  {sourceFields.map((f) => (
+                    <option key={f.id} value={f.id}>
+                      {f.label || "Untitled question"}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={condition.operator}
+                  onChange={(e) =>
+                    updateCondition(ruleIndex, conditionIndex, { operator: e.target.value as ConditionOperator })
+                  }
+                  className={inputClass}
+                >
+                  {operators.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                {operator?.needsValue &&
+                  (source?.options && source.options.length > 0 ? (
+                    <select
+                      value={condition.value || ""}
+                      onChange={(e) => updateCondition(ruleIndex, conditionIndex, { value: e.target.value })}
+                      className={`${inputClass} flex-1 min-w-[120px]`}
+                    >
+                      {source.options.map((opt) => (
+                        <option key={opt} value={opt}>
+                          {opt}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={condition.value || ""}
+                      onChange={(e) => updateCondition(ruleIndex, conditionIndex, { value: e.target.value })}
+                      placeholder="Value..."
+                      className={`${inputClass} flex-1 min-w-[120px]`}
+                    />
+                  ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    rule.conditions.length > 1
+                      ? updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })
+                      : updateRules(rules.filter((_, i) => i !== ruleIndex))
+                  }
+                  className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                  title="Remove condition"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={() => updateRule(ruleIndex, { conditions: [...rule.conditions, newCondition()] })}
+            className="text-xs text-primary hover:underline"
+          >
+            + Add condition
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addRule}
+        className="flex items-center gap-2 text-sm text-primary hover:underline"
+      >
+        {rules.length === 0 ? <GitBranch size={14} /> : <Plus size={14} />}
+        {rules.length === 0 ? "Add conditional logic" : "Add another rule"}
+      </button>
+    </div>
+  );
+};
+
+export default FieldLogicEditor;
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { getFileNameFromPath } from "@shared/custom-forms";
+import { getSignedFileUrl } from "@/lib/form-uploads";
+import { toast } from "@/hooks/use-toast";
+
+interface FileLinksProps {
+  paths: string[];
+}
+
+// Links are signed on click so they never sit in the page long enough to be shared
+export const FileLinks = ({ paths }: FileLinksProps) => {
+  const [opening, setOpening] = useState<string | null>(null);
+
+  const openFile = async (path: string) => {
+    setOpening(path);
+    try {
+      const url = await getSignedFileUrl(path);
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch {
+      toast({ title: "Failed to open file", variant: "destructive" });
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      {paths.map((path) => (
+        <button
+          key={path}
+          type="button"
+          onClick={() => openFile(path)}
+          disabled={opening === path}
+          className="flex items-center gap-1.5 text-sm text-primary hover:underline disabled:opacity-60"
+        >
+          {opening === path ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+          {getFileNameFromPath(path)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default FileLinks;
@@ -0,0 +1,93 @@
+import { useRef, useState } from "react";
+import { Loader2, Paperclip, Upload, X } from "lucide-react";
+import { getFileLimits, getFileNameFromPath, validateFileUpload, type FormField } from "@shared/custom-forms";
+import { uploadFormFile } from "@/lib/form-uploads";
+
+interface FileUploadInputProps {
+  formId: string;
+  field: FormField;
+  value: string[];
+  onChange: (paths: string[]) => void;
+  onError: (message: string) => void;
+}
+
+export const FileUploadInput = ({ formId, field, value, onChange, onError }: FileUploadInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const { accept, maxSizeMb, maxFiles } = getFileLimits(field);
+  const remaining = maxFiles - value.length;
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const selected = Array.from(files).slice(0, remaining);
+
+    // Same checks create-upload applies, so obvious mistakes never leave the browser
+    for (const file of selected) {
+      const error = validateFileUpload(field, { fileName: file.name, contentType: file.type, size: file.size });
+      if (error) {
+        onError(`${file.name}: ${error}`);
+        return;
+      }
+    }
+
+    setUploading(true);
+    try {
+      const paths: string[] = [];
+      for (const file of selected) {
+        paths.push(await uploadFormFile({ formType: "form_submissions", formId, fieldId: field.id }, file));
+      }
+      onChange([...value, ...paths]);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to upload file");
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((path) => (
+        <div
+          key={path}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg border border-border bg-secondary/30 text-sm"
+        >
+          <Paperclip size={14} className="text-muted-foreground shrink-0" />
+          <span className="flex-1 truncate">{getFileNameFromPath(path)}</span>
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((p) => p !== path))}
+            className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+            title="Remove file"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+      {remaining > 0 && (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploading}
+          className="w-full flex flex-col items-center gap-1 px-4 py-5 rounded-lg border-2 border-dashed border-border text-muted-foreground hover:border-primary hover:text-primary transition-colors disabled:opacity-60"
+        >
+          {uploading ? <Loader2 size={20} className="animate-spin" /> : <Upload size={20} />}
+          <span className="text-sm">{uploading ? "Uploading..." : "Choose a file"}</span>
+          <span className="text-xs">
+            Up to {maxFiles === 1 ? "1 file" : `${remaining} more files`}, {maxSizeMb} MB each
+          </span>
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept.join(",")}
+        multiple={remaining > 1}
+        onChange={(e) => handleFiles(e.target.files)}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default FileUploadInput;
@@ -0,0 +1,175 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart3, CheckCircle2, Clock, Eye, MousePointerClick } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { isSectionField, type FormField } from "@shared/custom-forms";
+
+interface FormAnalyticsProps {
+  formId: string;
+  fields: FormField[];
+}
+
+// One row from get_form_analytics; drop_off maps field ids to abandoned sessions
+interface AnalyticsTotals {
+  views: number;
+  starts: number;
+  completions: number;
+  median_completion_ms: number | null;
+  drop_off: Record<string, number>;
+}
+
+const funnelConfig = {
+  sessions: { label: "Sessions", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const dropOffConfig = {
+  sessions: { label: "Abandoned here", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const summarize = (totals: AnalyticsTotals, fields: FormField[]) => {
+  const { views, starts, completions } = totals;
+  const abandonedAt = totals.drop_off || {};
+
+  // Keep the form's own question order; fields removed since are still listed after
+  const dropOff = fields
+    .filter((f) => !isSectionField(f) && abandonedAt[f.id])
+    .map((f) => ({ label: f.label || "Untitled question", sessions: abandonedAt[f.id] }));
+  for (const [fieldId, count] of Object.entries(abandonedAt)) {
+    if (!fields.some((f) => f.id === fieldId)) dropOff.push({ label: "Deleted question", sessions: count });
+  }
+
+  const topDropOff = dropOff.reduce<(typeof dropOff)[number] | null>(
+    (top, item) => (!top || item.sessions > top.sessions ? item : top),
+    null
+  );
+
+  return {
+    views,
+    starts,
+    completions,
+    conversionRate: views > 0 ? Math.round((completions / views) * 100) : null,
+    medianTime: totals.median_completion_ms,
+    funnel: [
+      { stage: "Viewed", sessions: views },
+      { stage: "Started", sessions: starts },
+      { stage: "Completed", sessions: completions },
+    ],
+    dropOff,
+    topDropOff,
+  };
+};
+
+export const FormAnalytics = ({ formId, fields }: FormAnalyticsProps) => {
+  const { data: totals, isLoading } = useQuery({
+    queryKey: ["form-analytics", formId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_form_analytics", { _form_id: formId });
+
+      if (error) throw error;
+      return (data?.[0] ?? null) as unknown as AnalyticsTotals | null;
+    },
+  });
+
+  const summary = useMemo(() => (totals ? summarize(totals, fields) : null), [totals, fields]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!summary || summary.views + summary.starts + summary.completions === 0) {
+    return (
+      <div className="text-center py-12 border-2 border-dashed border-border rounded-xl">
+        <BarChart3 size={40} className="mx-auto text-muted-foreground mb-3" />
+        <p className="text-muted-foreground">
+          No activity yet. Events are recorded once the form is published, for visitors who accept analytics cookies.
+        </p>
+      </div>
+    );
+  }
+
+  const stats = [
+    { title: "Views", value: summary.views, icon: Eye, color: "bg-blue-100 text-blue-600" },
+    { title: "Starts", value: summary.starts, icon: MousePointerClick, color: "bg-orange-100 text-orange-600" },
+    {
+      title: "Completion rate",
+      value: summary.conversionRate === null ? "—" : `${summary.conversionRate}%`,
+      icon: CheckCircle2,
+      color: "bg-green-100 text-green-600",
+    },
+    {
+      title: "Median time to complete",
+      value: summary.medianTime === null ? "—" : formatDuration(summary.medianTime),
+      icon: Clock,
+      color: "bg-purple-100 text-purple-600",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.title} className="bg-background border border-border rounded-lg p-4">
+            <div className={`inline-flex p-2 rounded-lg mb-3 ${stat.color}`}>
+              <stat.icon size={16} />
+            </div>
+            <h3 className="text-2xl font-bold">{stat.value}</h3>
+            <p className="text-xs text-muted-foreground">{stat.title}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-secondary/30 rounded-xl border border-border p-4">
+        <h3 className="font-medium mb-4">Funnel</h3>
+        <ChartContainer config={funnelConfig} className="aspect-auto h-[200px] w-full">
+          <BarChart data={summary.funnel}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="stage" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      <div className="bg-secondary/30 rounded-xl border border-border p-4">
+        <h3 className="font-medium">Drop-off by question</h3>
+        <p className="text-xs text-muted-foreground mb-4">
+          {summary.topDropOff
+            ? `Most abandoned at "${summary.topDropOff.label}" (${summary.topDropOff.sessions} ${
+                summary.topDropOff.sessions === 1 ? "session" : "sessions"
+              })`
+            : "Nobody has left the form part-way through yet."}
+        </p>
+        {summary.dropOff.length > 0 && (
+          <ChartContainer
+            config={dropOffConfig}
+            className="aspect-auto w-full"
+            style={{ height: Math.max(120, summary.dropOff.length * 36) }}
+          >
+            <BarChart data={summary.dropOff} layout="vertical" margin={{ left: 8 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={140} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FormAnalytics;
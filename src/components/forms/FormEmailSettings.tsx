@@ -0,0 +1,265 @@
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Mail } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_CONFIRMATION_BODY,
+  DEFAULT_CONFIRMATION_SUBJECT,
+  DEFAULT_NOTIFICATION_BODY,
+  DEFAULT_NOTIFICATION_SUBJECT,
+  getMergeTags,
+  isValidEmail,
+  type FormField,
+} from "@shared/custom-forms";
+
+interface FormEmailSettingsProps {
+  formId: string;
+  fields: FormField[];
+}
+
+interface EmailSettings {
+  notify_emails: string[];
+  notify_subject: string | null;
+  notify_body: string | null;
+  confirmation_enabled: boolean;
+  confirmation_field_id: string | null;
+  confirmation_subject: string | null;
+  confirmation_body: string | null;
+}
+
+type TemplateKey = "notify_subject" | "notify_body" | "confirmation_subject" | "confirmation_body";
+
+const emptySettings: EmailSettings = {
+  notify_emails: [],
+  notify_subject: null,
+  notify_body: null,
+  confirmation_enabled: false,
+  confirmation_field_id: null,
+  confirmation_subject: null,
+  confirmation_body: null,
+};
+
+const inputClass =
+  "w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+const parseRecipients = (value: string) =>
+  value
+    .split(/[,;\s]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+
+export const FormEmailSettings = ({ formId, fields }: FormEmailSettingsProps) => {
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<EmailSettings>(emptySettings);
+  const [recipients, setRecipients] = useState("");
+  // Merge tags are inserted into whichever template input was focused last
+  const [activeTemplate, setActiveTemplate] = useState<TemplateKey>("notify_body");
+  const inputs = useRef<Partial<Record<TemplateKey, HTMLInputElement | HTMLTextAreaElement | null>>>({});
+
+  const { data: saved, isLoading } = useQuery({
+    queryKey: ["form-notifications", formId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("custom_form_notifications")
+        .select("*")
+        .eq("form_id", formId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    const next = saved ? { ...emptySettings, ...saved } : emptySettings;
+    setSettings(next);
+    setRecipients(next.notify_emails.join(", "));
+  }, [saved]);
+
+  const saveSettings = useMutation({
+    mutationFn: async (values: EmailSettings) => {
+      const { error } = await supabase
+        .from("custom_form_notifications")
+        .upsert({ form_id: formId, ...values }, { onConflict: "form_id" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["form-notifications", formId] });
+      toast({ title: "Email settings saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save email settings", variant: "destructive" });
+    },
+  });
+
+  const emailFields = fields.filter((field) => field.type === "email");
+  const mergeTags = getMergeTags(fields);
+
+  const handleSave = () => {
+    const emails = parseRecipients(recipients);
+    const invalid = emails.filter((email) => !isValidEmail(email));
+    if (invalid.length > 0) {
+      toast({ title: `Invalid email address: ${invalid[0]}`, variant: "destructive" });
+      return;
+    }
+    if (emails.length > 10) {
+      toast({ title: "Add at most 10 notification recipients", variant: "destructive" });
+      return;
+    }
+    if (settings.confirmation_enabled && !emailFields.some((f) => f.id === settings.confirmation_field_id)) {
+      toast({ title: "Choose the email question to send the confirmation to", variant: "destructive" });
+      return;
+    }
+
+    // Blank templates fall back to the defaults when the email is sent
+    saveSettings.mutate({
+      ...settings,
+      notify_emails: emails,
+      notify_subject: settings.notify_subject?.trim() || null,
+      notify_body: settings.notify_body?.trim() || null,
+      confirmation_subject: settings.confirmation_subject?.trim() || null,
+      confirmation_body: settings.confirmation_body?.trim() || null,
+    });
+  };
+
+  const insertMergeTag = (tag: string) => {
+    const input = inputs.current[activeTemplate];
+    const current = settings[activeTemplate] || "";
+    const start = input?.selectionStart ?? current.length;
+    const end = input?.selectionEnd ?? current.length;
+    setSettings({ ...settings, [activeTemplate]: current.slice(0, start) + tag + current.slice(end) });
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + tag.length, start + tag.length);
+    });
+  };
+
+  const templateProps = (key: TemplateKey, placeholder: string) => ({
+    ref: (element: HTMLInputElement | HTMLTextAreaElement | null) => {
+      inputs.current[key] = element;
+    },
+    value: settings[key] || "",
+    onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setSettings({ ...settings, [key]: e.target.value }),
+    onFocus: () => setActiveTemplate(key),
+    placeholder,
+    className: inputClass,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Admin notification */}
+      <div>
+        <label className="block text-sm font-medium mb-2">Notify on New Responses</label>
+        <p className="text-xs text-muted-foreground mb-3">
+          Every submission is emailed to these addresses with all answers. Leave blank to turn notifications off.
+        </p>
+        <input
+          type="text"
+          value={recipients}
+          onChange={(e) => setRecipients(e.target.value)}
+          placeholder="team@example.com, sales@example.com"
+          className={inputClass}
+        />
+        <div className="grid gap-3 mt-3">
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Subject</label>
+            <input type="text" {...templateProps("notify_subject", DEFAULT_NOTIFICATION_SUBJECT)} />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Message</label>
+            <textarea rows={5} {...templateProps("notify_body", DEFAULT_NOTIFICATION_BODY)} />
+          </div>
+        </div>
+      </div>
+
+      {/* Submitter confirmation */}
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium cursor-pointer mb-2">
+          <Switch
+            checked={settings.confirmation_enabled}
+            onCheckedChange={(checked) =>
+              setSettings({
+                ...settings,
+                confirmation_enabled: checked,
+                confirmation_field_id: settings.confirmation_field_id || emailFields[0]?.id || null,
+              })
+            }
+          />
+          Send a Confirmation to the Submitter
+        </label>
+        {settings.confirmation_enabled && (
+          <div className="grid gap-3 mt-3">
+            {emailFields.length === 0 ? (
+              <p className="text-xs text-destructive">Add an Email question so there is an address to reply to.</p>
+            ) : (
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Send To</label>
+                <select
+                  value={settings.confirmation_field_id || ""}
+                  onChange={(e) => setSettings({ ...settings, confirmation_field_id: e.target.value })}
+                  className={inputClass}
+                >
+                  {emailFields.map((field) => (
+                    <option key={field.id} value={field.id}>
+                      {field.label || "Untitled question"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Subject</label>
+              <input type="text" {...templateProps("confirmation_subject", DEFAULT_CONFIRMATION_SUBJECT)} />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Message</label>
+              <textarea rows={5} {...templateProps("confirmation_body", DEFAULT_CONFIRMATION_BODY)} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Merge tags */}
+      <div className="bg-secondary/30 rounded-xl border border-border p-4">
+        <div className="flex items-center gap-2 mb-2">
+          <Mail size={14} className="text-muted-foreground" />
+          <span className="text-sm font-medium">Merge Tags</span>
+        </div>
+        <p className="text-xs text-muted-foreground mb-3">
+          Click a tag to insert it into the subject or message you last edited.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {mergeTags.map((mergeTag) => (
+            <button
+              key={mergeTag.tag}
+              type="button"
+              onClick={() => insertMergeTag(mergeTag.tag)}
+              title={mergeTag.tag}
+              className="px-2 py-1 text-xs rounded border border-border bg-background hover:bg-secondary transition-colors"
+            >
+              {mergeTag.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button onClick={handleSave} disabled={saveSettings.isPending} className="btn-gold text-sm">
+        {saveSettings.isPending ? "Saving..." : "Save Email Settings"}
+      </button>
+    </div>
+  );
+};
+
+export default FormEmailSettings;
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Clipboard } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { MAX_EMBED_DOMAINS, normalizeOrigin } from "@shared/custom-forms";
+
+interface FormEmbedSettingsProps {
+  formId?: string;
+  isPublished: boolean;
+  domains: string[];
+  onChange: (domains: string[]) => void;
+}
+
+// Allowed partner sites are saved with the rest of the form settings. The text is only
+// read from `domains` on mount, so render with a key per form.
+export const FormEmbedSettings = ({ formId, isPublished, domains, onChange }: FormEmbedSettingsProps) => {
+  const [text, setText] = useState(domains.join("\n"));
+  const [invalid, setInvalid] = useState<string[]>([]);
+
+  const handleBlur = () => {
+    const lines = text.split(/[\n,]/).map((line) => line.trim()).filter(Boolean);
+    const origins = lines.map(normalizeOrigin);
+    const rejected = lines.filter((_, index) => !origins[index]);
+    const valid = Array.from(new Set(origins.filter((origin): origin is string => !!origin)))
+      .slice(0, MAX_EMBED_DOMAINS);
+    setInvalid(rejected);
+    setText([...valid, ...rejected].join("\n"));
+    onChange(valid);
+  };
+
+  const snippet = formId
+    ? `<div data-vnu-form="${formId}"></div>\n<script src="${window.location.origin}/embed.js" async></script>`
+    : "";
+
+  const copySnippet = async () => {
+    await navigator.clipboard.writeText(snippet);
+    toast({ title: "Embed code copied" });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Embedding</label>
+      <p className="text-xs text-muted-foreground mb-3">
+        Sites allowed to show this form in an iframe and submit it, one per line (e.g. https://partner.org, or https://*.partner.org for all of its subdomains).
+      </p>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={handleBlur}
+        rows={3}
+        placeholder="https://partner.org"
+        className="w-full px-4 py-3 text-sm font-mono rounded-lg border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50 resize-none"
+      />
+      {invalid.length > 0 && (
+        <p className="text-xs text-destructive mt-1">Not a valid site: {invalid.join(", ")}</p>
+      )}
+      {domains.length >= MAX_EMBED_DOMAINS && (
+        <p className="text-xs text-muted-foreground mt-1">Up to {MAX_EMBED_DOMAINS} sites can be allowed.</p>
+      )}
+
+      {formId && domains.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-xs text-muted-foreground">Embed Code</label>
+            <button
+              onClick={copySnippet}
+              className="flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <Clipboard size={12} />
+              Copy
+            </button>
+          </div>
+          <pre className="p-3 rounded-lg bg-secondary/50 text-xs overflow-x-auto whitespace-pre-wrap break-all">
+            {snippet}
+          </pre>
+          {!isPublished && (
+            <p className="text-xs text-muted-foreground mt-1">The form appears on partner sites once it is published.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormEmbedSettings;
@@ -0,0 +1,197 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_PLACEMENT,
+  DISPLAY_MODES,
+  PLACEMENT_PAGES,
+  type DisplayMode,
+  type FormPlacement,
+} from "@/lib/form-placements";
+
+interface FormPlacementsEditorProps {
+  formId: string;
+  placements: FormPlacement[];
+  onChange: (placements: FormPlacement[]) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+// Empty number inputs mean "no limit" and are stored as null
+const toNumber = (value: string) => (value === "" ? null : Math.max(0, Math.round(Number(value))));
+
+const isModal = (mode: DisplayMode) => mode === "popup" || mode === "floating_button";
+
+export const FormPlacementsEditor = ({ formId, placements, onChange }: FormPlacementsEditorProps) => {
+  const update = (id: string, updates: Partial<FormPlacement>) =>
+    onChange(placements.map((p) => (p.id === id ? { ...p, ...updates } : p)));
+
+  const addPlacement = () => {
+    // Start on the first page that has no section yet, so the new row is not a duplicate
+    const page =
+      PLACEMENT_PAGES.find((option) => !placements.some((p) => p.page === option.value && p.display_mode === "section"))
+        ?.value || DEFAULT_PLACEMENT.page;
+    onChange([...placements, { ...DEFAULT_PLACEMENT, page, id: crypto.randomUUID(), form_id: formId }]);
+  };
+
+  const isDuplicate = (placement: FormPlacement) =>
+    placements.some(
+      (p) => p.id !== placement.id && p.page === placement.page && p.display_mode === placement.display_mode
+    );
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Placements</label>
+      <p className="text-xs text-muted-foreground mb-3">
+        Where this form appears and how. Placements on the same page are shown in order.
+      </p>
+
+      <div className="space-y-3">
+        {placements.map((placement) => (
+          <div key={placement.id} className="p-4 rounded-xl border border-border space-y-3">
+            <div className="grid md:grid-cols-[1fr_1fr_6rem_auto] gap-3 items-end">
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Page</label>
+                <select
+                  value={placement.page}
+                  onChange={(e) => update(placement.id, { page: e.target.value })}
+                  className={inputClass}
+                >
+                  {PLACEMENT_PAGES.map((page) => (
+                    <option key={page.value} value={page.value}>
+                      {page.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Display</label>
+                <select
+                  value={placement.display_mode}
+                  onChange={(e) => update(placement.id, { display_mode: e.target.value as DisplayMode })}
+                  className={inputClass}
+                >
+                  {DISPLAY_MODES.map((mode) => (
+                    <option key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Order</label>
+                <input
+                  type="number"
+                  value={placement.sort_order}
+                  onChange={(e) => update(placement.id, { sort_order: toNumber(e.target.value) ?? 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(placements.filter((p) => p.id !== placement.id))}
+                className="p-2 text-muted-foreground hover:text-destructive"
+                title="Remove placement"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {DISPLAY_MODES.find((mode) => mode.value === placement.display_mode)?.desc}
+            </p>
+            {isDuplicate(placement) && (
+              <p className="text-xs text-destructive">This form is already shown this way on this page.</p>
+            )}
+
+            {placement.display_mode === "popup" && (
+              <div className="grid md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Open After (seconds)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={600}
+                    value={placement.trigger_delay_seconds ?? ""}
+                    onChange={(e) => update(placement.id, { trigger_delay_seconds: toNumber(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Open at Scroll Depth (%)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={placement.trigger_scroll_percent ?? ""}
+                    onChange={(e) => update(placement.id, { trigger_scroll_percent: toNumber(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pt-5">
+                  <Switch
+                    checked={placement.trigger_exit_intent}
+                    onCheckedChange={(checked) => update(placement.id, { trigger_exit_intent: checked })}
+                  />
+                  <span className="text-sm">Open on exit intent</span>
+                </div>
+                <p className="md:col-span-3 text-xs text-muted-foreground">
+                  The popup opens on whichever trigger comes first, or straight away if none are set.
+                </p>
+              </div>
+            )}
+
+            {isModal(placement.display_mode) && (
+              <div className="grid md:grid-cols-3 gap-3">
+                {placement.display_mode === "popup" && (
+                  <>
+                    <div>
+                      <label className="block text-xs text-muted-foreground mb-1">Max Views per Visitor</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={placement.max_views_per_visitor ?? ""}
+                        onChange={(e) => update(placement.id, { max_views_per_visitor: toNumber(e.target.value) || null })}
+                        placeholder="No limit"
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-muted-foreground mb-1">Hours Between Views</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={placement.view_cooldown_hours ?? ""}
+                        onChange={(e) => update(placement.id, { view_cooldown_hours: toNumber(e.target.value) || null })}
+                        placeholder="None"
+                        className={inputClass}
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="flex items-center gap-2 pt-5">
+                  <Switch
+                    checked={placement.hide_after_submit}
+                    onCheckedChange={(checked) => update(placement.id, { hide_after_submit: checked })}
+                  />
+                  <span className="text-sm">Hide after submitting</span>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={addPlacement}
+        className="mt-3 w-full p-3 border-2 border-dashed border-border rounded-xl text-sm text-muted-foreground hover:border-primary hover:text-primary transition-colors flex items-center justify-center gap-2"
+      >
+        <Plus size={16} />
+        Add Placement
+      </button>
+    </div>
+  );
+};
+
+export default FormPlacementsEditor;
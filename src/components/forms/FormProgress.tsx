@@ -0,0 +1,29 @@
+import { Progress } from "@/components/ui/progress";
+
+interface FormProgressProps {
+  // Zero-based; equal to `total` while the review step is showing
+  current: number;
+  total: number;
+  title?: string;
+}
+
+export const FormProgress = ({ current, total, title }: FormProgressProps) => {
+  const isReview = current >= total;
+  const value = Math.round((Math.min(current, total) / total) * 100);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="font-medium text-foreground truncate">
+          {isReview ? "Review your answers" : title || `Step ${current + 1}`}
+        </span>
+        <span className="shrink-0 ml-3">
+          {isReview ? "Almost done" : `Step ${current + 1} of ${total}`}
+        </span>
+      </div>
+      <Progress value={value} className="h-2" />
+    </div>
+  );
+};
+
+export default FormProgress;
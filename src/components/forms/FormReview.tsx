@@ -0,0 +1,42 @@
+import { Edit2 } from "lucide-react";
+import { formatFieldValue, type FormStep, type FormValue } from "@shared/custom-forms";
+
+interface FormReviewProps {
+  steps: FormStep[];
+  data: Record<string, FormValue>;
+  onEdit: (stepIndex: number) => void;
+}
+
+export const FormReview = ({ steps, data, onEdit }: FormReviewProps) => (
+  <div className="space-y-4">
+    {steps.map((step, index) => (
+      <div key={step.id} className="rounded-lg border border-border p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold">{step.title || `Step ${index + 1}`}</h4>
+          <button
+            type="button"
+            onClick={() => onEdit(index)}
+            className="flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <Edit2 size={12} />
+            Edit
+          </button>
+        </div>
+        <dl className="space-y-2">
+          {step.fields.map((field) => (
+            <div key={field.id}>
+              <dt className="text-xs text-muted-foreground">{field.label}</dt>
+              <dd className="text-sm whitespace-pre-wrap break-words">
+                {formatFieldValue(field, data[field.id]) ?? (
+                  <span className="text-muted-foreground italic">No answer</span>
+                )}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    ))}
+  </div>
+);
+
+export default FormReview;
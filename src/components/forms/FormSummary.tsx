@@ -0,0 +1,155 @@
+import { useMemo } from "react";
+import { BarChart3 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { SurveyResults } from "@/components/forms/SurveyResults";
+import type { FormField } from "@shared/custom-forms";
+import {
+  EMPTY_FIELD_SUMMARY,
+  summarizeNumbers,
+  summarizeOptions,
+  summarizeTimeline,
+  type AnswerCounts,
+  type FieldSummary,
+  type SubmissionSummary,
+} from "@/lib/response-summary";
+
+interface FormSummaryProps {
+  fields: FormField[];
+  // Counts for the submissions matching the page's filters
+  summary: SubmissionSummary;
+}
+
+const countConfig = {
+  count: { label: "Responses", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const timelineConfig = {
+  submissions: { label: "Submissions", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const OPTION_TYPES: FormField["type"][] = ["select", "radio", "checkbox"];
+const TEXT_TYPES: FormField["type"][] = ["text", "textarea"];
+
+const OptionChart = ({ field, values }: { field: FormField; values: AnswerCounts }) => {
+  const data = summarizeOptions(field, values);
+  return (
+    <ChartContainer config={countConfig} className="aspect-auto w-full" style={{ height: Math.max(120, data.length * 36) }}>
+      <BarChart data={data} layout="vertical" margin={{ left: 8 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="option" tickLine={false} axisLine={false} width={140} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+const NumberChart = ({ field, values }: { field: FormField; values: AnswerCounts }) => {
+  const summary = summarizeNumbers(values, field.type === "rating" ? { min: 1, max: 5 } : undefined);
+  if (summary.average === null) return <p className="text-sm text-muted-foreground">No answers yet.</p>;
+  return (
+    <div>
+      <div className="mb-3">
+        <span className="text-2xl font-bold">{+summary.average.toFixed(2)}</span>
+        <span className="text-sm text-muted-foreground ml-2">
+          {field.type === "rating" ? "average rating out of 5" : "average"}
+        </span>
+      </div>
+      <ChartContainer config={countConfig} className="aspect-auto h-[160px] w-full">
+        <BarChart data={summary.bins}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+const WordList = ({ words }: { words: FieldSummary["words"] }) => {
+  if (words.length === 0) return <p className="text-sm text-muted-foreground">No recurring words yet.</p>;
+  const max = words[0].count;
+  return (
+    <div className="space-y-1">
+      {words.map(({ word, count }) => (
+        <div key={word} className="flex items-center gap-3 text-sm">
+          <span className="w-32 truncate">{word}</span>
+          <div className="h-2 flex-1 rounded-full bg-secondary overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${(count / max) * 100}%` }} />
+          </div>
+          <span className="w-20 text-right text-xs text-muted-foreground">
+            {count} {count === 1 ? "answer" : "answers"}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Charts for one form: submissions per day, then a summary per question. Survey fields
+ * use their own results view; other field types are left out.
+ */
+export const FormSummary = ({ fields, summary }: FormSummaryProps) => {
+  const timeline = useMemo(() => summarizeTimeline(summary.timeline), [summary]);
+
+  const summaryFields = fields.filter(
+    (field) =>
+      OPTION_TYPES.includes(field.type) ||
+      TEXT_TYPES.includes(field.type) ||
+      field.type === "rating" ||
+      field.type === "number"
+  );
+
+  if (summary.total === 0) {
+    return (
+      <div className="text-center py-12 border-2 border-dashed border-border rounded-xl">
+        <BarChart3 size={40} className="mx-auto text-muted-foreground mb-3" />
+        <p className="text-muted-foreground">No submissions match the current filters.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-secondary/30 rounded-xl border border-border p-4">
+        <h3 className="font-medium">Submissions per day</h3>
+        <p className="text-xs text-muted-foreground mb-4">{summary.total} in total</p>
+        <ChartContainer config={timelineConfig} className="aspect-auto h-[200px] w-full">
+          <BarChart data={timeline}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="submissions" fill="var(--color-submissions)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      {summaryFields.map((field) => {
+        const fieldSummary = summary.fields[field.id] || EMPTY_FIELD_SUMMARY;
+        return (
+          <div key={field.id} className="bg-secondary/30 rounded-xl border border-border p-4">
+            <h3 className="font-medium mb-1">{field.label || "Untitled question"}</h3>
+            <p className="text-xs text-muted-foreground mb-4">
+              {fieldSummary.responses} {fieldSummary.responses === 1 ? "response" : "responses"}
+            </p>
+            {OPTION_TYPES.includes(field.type) && <OptionChart field={field} values={fieldSummary.values} />}
+            {(field.type === "rating" || field.type === "number") && (
+              <NumberChart field={field} values={fieldSummary.values} />
+            )}
+            {TEXT_TYPES.includes(field.type) && <WordList words={fieldSummary.words} />}
+          </div>
+        );
+      })}
+
+      <SurveyResults fields={fields} summaries={summary.fields} />
+    </div>
+  );
+};
+
+export default FormSummary;
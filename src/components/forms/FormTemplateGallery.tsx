@@ -0,0 +1,137 @@
+import { useRef, useState } from "react";
+import { FileJson, LayoutTemplate, Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { isSectionField } from "@shared/custom-forms";
+import { parseFormDefinition, type FormDefinitionContent } from "@/lib/form-definition";
+import { formTemplates } from "@/lib/form-templates";
+
+interface FormTemplateGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (form: FormDefinitionContent) => void;
+  isCreating?: boolean;
+}
+
+const MAX_IMPORT_SIZE = 1024 * 1024;
+
+export const FormTemplateGallery = ({ open, onOpenChange, onSelect, isCreating }: FormTemplateGalleryProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setImportErrors([]);
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      setImportErrors(["The file is larger than 1 MB"]);
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      setImportErrors(["The file is not valid JSON"]);
+      return;
+    }
+
+    const result = parseFormDefinition(json);
+    if ("errors" in result) {
+      setImportErrors(result.errors);
+      return;
+    }
+    onSelect(result.definition.form);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setImportErrors([]);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Start From a Template</DialogTitle>
+          <DialogDescription>
+            Templates create a draft form you can edit before publishing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-3 gap-3">
+          {formTemplates.map((template) => {
+            const questionCount = template.form.fields.filter((f) => !isSectionField(f)).length;
+            return (
+              <button
+                key={template.id}
+                onClick={() => onSelect(template.form)}
+                disabled={isCreating}
+                className="p-4 rounded-xl border-2 border-border hover:border-primary/50 text-left transition-all disabled:opacity-50"
+              >
+                <LayoutTemplate size={20} className="text-primary mb-3" />
+                <div className="font-medium mb-1">{template.name}</div>
+                <p className="text-xs text-muted-foreground mb-3">{template.summary}</p>
+                <span className="text-xs text-muted-foreground">
+                  {questionCount} question{questionCount !== 1 ? "s" : ""}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="border-t border-border pt-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <FileJson size={20} className="text-muted-foreground" />
+              <div>
+                <div className="text-sm font-medium">Import a Form</div>
+                <p className="text-xs text-muted-foreground">Use a JSON file exported from any environment.</p>
+              </div>
+            </div>
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={isCreating}
+              className="flex items-center gap-2 px-4 py-2 text-sm border border-border rounded-lg hover:bg-secondary transition-colors disabled:opacity-50"
+            >
+              <Upload size={16} />
+              Choose File
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {importErrors.length > 0 && (
+            <div className="mt-3 p-3 rounded-lg bg-destructive/10 text-sm">
+              <p className="font-medium text-destructive mb-1">This file can't be imported:</p>
+              <ul className="list-disc pl-5 space-y-0.5 text-xs text-destructive">
+                {importErrors.slice(0, 10).map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+              {importErrors.length > 10 && (
+                <p className="text-xs text-destructive mt-1">…and {importErrors.length - 10} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FormTemplateGallery;
@@ -0,0 +1,48 @@
+import { format } from "date-fns";
+import { CalendarClock, Lock, Users } from "lucide-react";
+import type { FormAvailability } from "@shared/custom-forms";
+
+interface FormUnavailableProps {
+  availability: Exclude<FormAvailability, "open">;
+  opensAt?: string | null;
+}
+
+const states = {
+  not_open: {
+    icon: CalendarClock,
+    title: "Not open yet",
+    message: "This form isn't accepting responses yet.",
+  },
+  closed: {
+    icon: Lock,
+    title: "Closed",
+    message: "This form is no longer accepting responses.",
+  },
+  full: {
+    icon: Users,
+    title: "Fully booked",
+    message: "This form has reached its response limit.",
+  },
+};
+
+export const FormUnavailable = ({ availability, opensAt }: FormUnavailableProps) => {
+  const state = states[availability];
+  const Icon = state.icon;
+
+  return (
+    <div className="text-center py-8">
+      <Icon size={48} className="mx-auto text-muted-foreground mb-4" />
+      <h3 className="text-xl font-semibold mb-2">{state.title}</h3>
+      <p className="text-muted-foreground">
+        {state.message}
+        {availability === "not_open" && opensAt && (
+          <span className="block mt-1">
+            It opens on {format(new Date(opensAt), "MMMM d, yyyy 'at' h:mm a")}.
+          </span>
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default FormUnavailable;
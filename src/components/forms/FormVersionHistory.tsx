@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { FormField } from "@shared/custom-forms";
+
+export interface FormVersion {
+  id: string;
+  version: number;
+  form_name: string;
+  fields: FormField[];
+  created_at: string;
+}
+
+interface FieldChange {
+  kind: "added" | "removed" | "changed";
+  label: string;
+  details: string[];
+}
+
+interface FormVersionHistoryProps {
+  formId: string;
+  currentFields: FormField[];
+  onRestore: (version: FormVersion) => void;
+}
+
+const changeStyles: Record<FieldChange["kind"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-blue-100 text-blue-800",
+};
+
+// Compare by field id, since answers are keyed by id and labels can change freely
+const diffFields = (before: FormField[], after: FormField[]): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const afterIds = after.map((f) => f.id);
+  const beforeIds = before.map((f) => f.id);
+  const commonBefore = beforeIds.filter((id) => afterIds.includes(id));
+  const commonAfter = afterIds.filter((id) => beforeIds.includes(id));
+
+  for (const field of before) {
+    const next = after.find((f) => f.id === field.id);
+    if (!next) {
+      changes.push({ kind: "removed", label: field.label, details: [] });
+      continue;
+    }
+
+    const details: string[] = [];
+    if (next.label !== field.label) details.push(`Renamed from "${field.label}"`);
+    if (next.type !== field.type) details.push(`Type changed from ${field.type} to ${next.type}`);
+    if (next.required !== field.required) details.push(next.required ? "Now required" : "No longer required");
+    if (JSON.stringify(next.options || []) !== JSON.stringify(field.options || [])) details.push("Options changed");
+    if (JSON.stringify(next.rules || []) !== JSON.stringify(field.rules || [])) details.push("Conditional logic changed");
+    if (JSON.stringify(next.validation || {}) !== JSON.stringify(field.validation || {})) details.push("Validation changed");
+    if (commonBefore.indexOf(field.id) !== commonAfter.indexOf(field.id)) details.push("Moved");
+    if (details.length > 0) changes.push({ kind: "changed", label: next.label, details });
+  }
+
+  for (const field of after) {
+    if (!beforeIds.includes(field.id)) {
+      changes.push({ kind: "added", label: field.label, details: [] });
+    }
+  }
+
+  return changes;
+};
+
+export const FormVersionHistory = ({ formId, currentFields, onRestore }: FormVersionHistoryProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: versions, isLoading } = useQuery({
+    queryKey: ["form-versions", formId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("custom_form_versions")
+        .select("id, version, form_name, fields, created_at")
+        .eq("form_id", formId)
+        .order("version", { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as FormVersion[];
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!versions || versions.length === 0) {
+    return (
+      <div className="text-center py-12 border-2 border-dashed border-border rounded-xl">
+        <History size={40} className="mx-auto text-muted-foreground mb-3" />
+        <p className="text-muted-foreground">No versions yet. A version is saved every time the form is published.</p>
+      </div>
+    );
+  }
+
+  const selected = versions.find((v) => v.id === selectedId) || versions[0];
+  const changes = diffFields(selected.fields || [], currentFields);
+
+  return (
+    <div className="grid md:grid-cols-[200px_1fr] gap-4">
+      <div className="space-y-1">
+        {versions.map((version) => (
+          <button
+            key={version.id}
+            onClick={() => setSelectedId(version.id)}
+            className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+              selected.id === version.id ? "bg-primary/10 text-primary" : "hover:bg-secondary"
+            }`}
+          >
+            <span className="block text-sm font-medium">
+              Version {version.version}
+              {version.id === versions[0].id && (
+                <span className="ml-2 text-[10px] px-1.5 py-0.5 bg-green-100 text-green-700 rounded">LATEST</span>
+              )}
+            </span>
+            <span className="block text-xs text-muted-foreground">
+              {format(new Date(version.created_at), "MMM d, yyyy 'at' h:mm a")}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-secondary/30 rounded-xl border border-border p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-medium">Version {selected.version}</h3>
+            <p className="text-xs text-muted-foreground">
+              {selected.fields?.length || 0} fields &middot; compared with the current draft
+            </p>
+          </div>
+          <button
+            onClick={() => onRestore(selected)}
+            className="flex items-center gap-2 px-3 py-2 text-sm rounded-lg border border-border hover:bg-secondary transition-colors"
+          >
+            <RotateCcw size={14} />
+            Restore this version
+          </button>
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The current draft matches this version.</p>
+        ) : (
+          <ul className="space-y-2">
+            {changes.map((change, index) => (
+              <li key={index} className="flex items-start gap-3 text-sm">
+                <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium uppercase ${changeStyles[change.kind]}`}>
+                  {change.kind}
+                </span>
+                <div>
+                  <span className="font-medium">{change.label || "Untitled question"}</span>
+                  {change.details.length > 0 && (
+                    <span className="block text-xs text-muted-foreground">{change.details.join(" · ")}</span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FormVersionHistory;
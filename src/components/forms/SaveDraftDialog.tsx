@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, MailCheck } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { saveDraftForLater, type FormDraft } from "@/lib/form-drafts";
+import { isValidEmail } from "@shared/custom-forms";
+
+interface SaveDraftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  formId: string;
+  draft: FormDraft;
+  // Prefilled from the form's email field, when it has one
+  defaultEmail?: string | null;
+  onSaved: (token: string) => void;
+}
+
+// State starts from the props on mount, so render the dialog only while it is open
+export const SaveDraftDialog = ({ open, onOpenChange, formId, draft, defaultEmail, onSaved }: SaveDraftDialogProps) => {
+  const [email, setEmail] = useState(defaultEmail || "");
+  const [error, setError] = useState<string | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      saveDraftForLater({ formId, email, data: draft.data, step: draft.step, token: draft.resumeToken }),
+    onSuccess: (result) => onSaved(result.token),
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(email.trim())) {
+      setError("Please enter a valid email address");
+      return;
+    }
+    setError(null);
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save and continue later</DialogTitle>
+          <DialogDescription>
+            We'll email you a link that brings back your answers and the page you were on.
+          </DialogDescription>
+        </DialogHeader>
+
+        {saveMutation.isSuccess ? (
+          <div className="text-center py-4">
+            <MailCheck className="w-12 h-12 text-primary mx-auto mb-3" />
+            <p className="text-foreground">Check your inbox for the link.</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              It works until {format(new Date(saveMutation.data.expiresAt), "MMM d, yyyy")}.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="draft-email">Email</Label>
+              <Input
+                id="draft-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="bg-background border-border"
+              />
+              {error && <p className="text-destructive text-sm">{error}</p>}
+            </div>
+            <Button type="submit" disabled={saveMutation.isPending} className="w-full btn-gold">
+              {saveMutation.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Email me a link"
+              )}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveDraftDialog;
@@ -0,0 +1,146 @@
+import { Reorder } from "framer-motion";
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react";
+import { NPS_MAX, getLikertScale, type FormField } from "@shared/custom-forms";
+
+// Inputs for the survey field types, shared by the form page and forms shown on site pages
+
+interface NpsInputProps {
+  value?: string;
+  onChange: (value: string) => void;
+}
+
+export const NpsInput = ({ value, onChange }: NpsInputProps) => (
+  <div>
+    <div className="grid grid-cols-11 gap-1">
+      {Array.from({ length: NPS_MAX + 1 }, (_, score) => (
+        <button
+          key={score}
+          type="button"
+          onClick={() => onChange(String(score))}
+          aria-pressed={value === String(score)}
+          className={`py-2 rounded-md border text-sm font-medium transition-colors ${
+            value === String(score)
+              ? "bg-primary text-primary-foreground border-primary"
+              : "border-border hover:border-primary/50 hover:bg-secondary/50"
+          }`}
+        >
+          {score}
+        </button>
+      ))}
+    </div>
+    <div className="flex justify-between mt-1 text-xs text-muted-foreground">
+      <span>Not at all likely</span>
+      <span>Extremely likely</span>
+    </div>
+  </div>
+);
+
+interface LikertInputProps {
+  field: FormField;
+  value?: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+}
+
+export const LikertInput = ({ field, value = {}, onChange }: LikertInputProps) => {
+  const scale = getLikertScale(field);
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr>
+            <th />
+            {scale.map((point) => (
+              <th key={point} className="px-2 pb-2 text-xs font-normal text-muted-foreground text-center">
+                {point}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {(field.rows || []).map((row) => (
+            <tr key={row} className="border-t border-border">
+              <td className="py-3 pr-4">{row}</td>
+              {scale.map((point) => (
+                <td key={point} className="px-2 text-center">
+                  <input
+                    type="radio"
+                    name={`${field.id}-${row}`}
+                    aria-label={`${row}: ${point}`}
+                    checked={value[row] === point}
+                    onChange={() => onChange({ ...value, [row]: point })}
+                    className="w-4 h-4 text-primary"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+interface RankingInputProps {
+  field: FormField;
+  value?: string[];
+  onChange: (value: string[]) => void;
+}
+
+// Until the first move the options show in their original order and nothing is answered
+export const RankingInput = ({ field, value, onChange }: RankingInputProps) => {
+  const options = field.options || [];
+  const isRanked = !!value && value.length === options.length;
+  const items = isRanked ? value : options;
+
+  const move = (index: number, offset: number) => {
+    const next = [...items];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <Reorder.Group axis="y" values={items} onReorder={onChange} className="space-y-2">
+        {items.map((item, index) => (
+          <Reorder.Item
+            key={item}
+            value={item}
+            className="flex items-center gap-3 p-3 rounded-lg border border-border bg-background cursor-grab active:cursor-grabbing"
+          >
+            <GripVertical size={16} className="text-muted-foreground shrink-0" />
+            <span className="w-6 text-sm font-medium text-primary">{isRanked ? index + 1 : "–"}</span>
+            <span className="flex-1 text-sm">{item}</span>
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+              aria-label={`Move ${item} up`}
+            >
+              <ArrowUp size={14} />
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={index === items.length - 1}
+              className="p-1 text-muted-foreground hover:text-foreground disabled:opacity-30"
+              aria-label={`Move ${item} down`}
+            >
+              <ArrowDown size={14} />
+            </button>
+          </Reorder.Item>
+        ))}
+      </Reorder.Group>
+      {!isRanked && options.length > 0 && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Drag the options into your order of preference, or{" "}
+          <button type="button" onClick={() => onChange(options)} className="text-primary hover:underline">
+            keep this order
+          </button>
+          .
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import { useMemo } from "react";
+import { getLikertScale, getNpsCategory, type FormField } from "@shared/custom-forms";
+import { EMPTY_FIELD_SUMMARY, type AnswerCounts, type FieldSummary } from "@/lib/response-summary";
+import { summarizeLikert, summarizeNps, summarizeRanking } from "@/lib/survey-results";
+
+interface SurveyResultsProps {
+  fields: FormField[];
+  // Per-field counts for the submissions currently listed, so filters apply
+  summaries: Record<string, FieldSummary>;
+}
+
+const SURVEY_FIELD_TYPES: FormField["type"][] = ["nps", "likert", "ranking"];
+
+const Bar = ({ value, max, className = "bg-primary" }: { value: number; max: number; className?: string }) => (
+  <div className="h-2 flex-1 rounded-full bg-secondary overflow-hidden">
+    <div className={`h-full ${className}`} style={{ width: max > 0 ? `${(value / max) * 100}%` : 0 }} />
+  </div>
+);
+
+const NpsResult = ({ values }: { values: AnswerCounts }) => {
+  const nps = summarizeNps(values);
+  const max = Math.max(...nps.counts);
+  const share = (count: number) => (nps.responses > 0 ? `${Math.round((count / nps.responses) * 100)}%` : "—");
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-6">
+        <div>
+          <div className="text-3xl font-bold">{nps.score ?? "—"}</div>
+          <div className="text-xs text-muted-foreground">Net Promoter Score</div>
+        </div>
+        <div className="flex gap-4 text-sm">
+          <span className="text-green-600">Promoters {share(nps.promoters)}</span>
+          <span className="text-muted-foreground">Passives {share(nps.passives)}</span>
+          <span className="text-destructive">Detractors {share(nps.detractors)}</span>
+        </div>
+      </div>
+      <div className="flex items-end gap-1 h-20">
+        {nps.counts.map((count, score) => (
+          <div key={score} className="flex-1 flex flex-col items-center justify-end h-full" title={`${score}: ${count}`}>
+            <div
+              className={`w-full rounded-t ${
+                getNpsCategory(score) === "promoter"
+                  ? "bg-green-500"
+                  : getNpsCategory(score) === "passive"
+                    ? "bg-muted-foreground/40"
+                    : "bg-destructive/70"
+              }`}
+              style={{ height: max > 0 ? `${(count / max) * 100}%` : 0 }}
+            />
+            <span className="text-[10px] text-muted-foreground mt-1">{score}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const LikertResult = ({ field, counts }: { field: FormField; counts: Record<string, AnswerCounts> }) => {
+  const scale = getLikertScale(field);
+  const rows = summarizeLikert(field, counts);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="text-left font-normal pb-2">Statement</th>
+            {scale.map((point) => (
+              <th key={point} className="font-normal px-2 pb-2">{point}</th>
+            ))}
+            <th className="font-normal px-2 pb-2">Average</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.row} className="border-t border-border">
+              <td className="py-2 pr-4">{row.row}</td>
+              {row.counts.map((count, index) => (
+                <td key={scale[index]} className="px-2 text-center">
+                  {count}
+                  {row.responses > 0 && (
+                    <span className="text-xs text-muted-foreground"> ({Math.round((count / row.responses) * 100)}%)</span>
+                  )}
+                </td>
+              ))}
+              <td className="px-2 text-center font-medium">
+                {row.average === null ? "—" : `${row.average.toFixed(1)} / ${scale.length}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const RankingResult = ({ field, ranks }: { field: FormField; ranks: Record<string, AnswerCounts> }) => {
+  const items = summarizeRanking(field, ranks);
+  const optionCount = field.options?.length || 0;
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        <div key={item.option} className="flex items-center gap-3 text-sm">
+          <span className="w-40 truncate" title={item.option}>{item.option}</span>
+          {/* A shorter average rank is better, so the bar grows towards first place */}
+          <Bar value={item.averageRank === null ? 0 : optionCount - item.averageRank + 1} max={optionCount} />
+          <span className="w-24 text-right">
+            {item.averageRank === null ? "—" : `avg. ${item.averageRank.toFixed(1)}`}
+          </span>
+          <span className="w-20 text-right text-xs text-muted-foreground">{item.firstPlace} × 1st</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Aggregates for the survey questions of one form: NPS, agreement per Likert statement
+ * and average rank per option.
+ */
+export const SurveyResults = ({ fields, summaries }: SurveyResultsProps) => {
+  const surveyFields = useMemo(() => fields.filter((field) => SURVEY_FIELD_TYPES.includes(field.type)), [fields]);
+
+  if (surveyFields.length === 0) return null;
+
+  return (
+    <div className="space-y-4 mb-6">
+      {surveyFields.map((field) => {
+        const summary = summaries[field.id] || EMPTY_FIELD_SUMMARY;
+        return (
+          <div key={field.id} className="bg-secondary/30 rounded-xl border border-border p-4">
+            <h3 className="font-medium mb-1">{field.label}</h3>
+            <p className="text-xs text-muted-foreground mb-4">
+              {summary.responses} {summary.responses === 1 ? "response" : "responses"}
+            </p>
+            {field.type === "nps" && <NpsResult values={summary.values} />}
+            {field.type === "likert" && <LikertResult field={field} counts={summary.rows} />}
+            {field.type === "ranking" && <RankingResult field={field} ranks={summary.ranks} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SurveyResults;
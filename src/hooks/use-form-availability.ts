@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { getFormAvailability, type FormAvailability, type FormAvailabilitySettings } from "@shared/custom-forms";
+
+interface AvailabilityForm extends FormAvailabilitySettings {
+  id: string;
+}
+
+/**
+ * Availability of published forms, including remaining capacity for capped ones.
+ * Counts come from a security definer function because visitors cannot read submissions.
+ */
+export function useFormAvailability(forms: AvailabilityForm[] | undefined) {
+  const cappedIds = (forms || []).filter((form) => form.max_submissions).map((form) => form.id);
+
+  const { data: counts } = useQuery({
+    queryKey: ["form-submission-counts", cappedIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_form_submission_counts", { _form_ids: cappedIds });
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((row) => [row.form_id, row.submission_count]));
+    },
+    enabled: cappedIds.length > 0,
+  });
+
+  const getAvailability = (form: AvailabilityForm): FormAvailability =>
+    getFormAvailability(form, counts?.[form.id] || 0);
+
+  const getRemaining = (form: AvailabilityForm): number | null =>
+    form.max_submissions ? Math.max(form.max_submissions - (counts?.[form.id] || 0), 0) : null;
+
+  return { getAvailability, getRemaining };
+}
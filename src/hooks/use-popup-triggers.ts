@@ -0,0 +1,62 @@
+import { useEffect, useRef } from "react";
+import type { FormPlacement } from "@/lib/form-placements";
+
+const hasTrigger = (placement: FormPlacement) =>
+  placement.trigger_delay_seconds !== null ||
+  placement.trigger_scroll_percent !== null ||
+  placement.trigger_exit_intent;
+
+const getScrollPercent = () => {
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  return scrollable > 0 ? (window.scrollY / scrollable) * 100 : 100;
+};
+
+/**
+ * Call onTrigger once per popup placement, when the first of its triggers fires: a delay,
+ * a scroll depth, or the pointer leaving through the top of the window. Popups without
+ * triggers fire straight away. Pass a stable array, e.g. straight from a query.
+ */
+export function usePopupTriggers<T extends FormPlacement>(placements: T[], onTrigger: (placement: T) => void) {
+  const callback = useRef(onTrigger);
+
+  useEffect(() => {
+    callback.current = onTrigger;
+  });
+
+  useEffect(() => {
+    const fired = new Set<string>();
+    const cleanups: (() => void)[] = [];
+
+    const fire = (placement: T) => {
+      if (fired.has(placement.id)) return;
+      fired.add(placement.id);
+      callback.current(placement);
+    };
+
+    for (const placement of placements) {
+      if (!hasTrigger(placement) || placement.trigger_delay_seconds !== null) {
+        const timer = window.setTimeout(() => fire(placement), (placement.trigger_delay_seconds || 0) * 1000);
+        cleanups.push(() => window.clearTimeout(timer));
+      }
+
+      const scrollPercent = placement.trigger_scroll_percent;
+      if (scrollPercent !== null) {
+        const onScroll = () => {
+          if (getScrollPercent() >= scrollPercent) fire(placement);
+        };
+        window.addEventListener("scroll", onScroll, { passive: true });
+        cleanups.push(() => window.removeEventListener("scroll", onScroll));
+      }
+
+      if (placement.trigger_exit_intent) {
+        const onMouseOut = (event: MouseEvent) => {
+          if (!event.relatedTarget && event.clientY <= 0) fire(placement);
+        };
+        document.addEventListener("mouseout", onMouseOut);
+        cleanups.push(() => document.removeEventListener("mouseout", onMouseOut));
+      }
+    }
+
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [placements]);
+}
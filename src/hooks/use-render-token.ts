@@ -0,0 +1,28 @@
+import { useQueries } from "@tanstack/react-query";
+import { fetchRenderToken } from "@/lib/submit-form";
+
+/**
+ * Render tokens for the public forms on screen, keyed by custom form id or built-in form type.
+ * Each is fetched when its form is first shown and kept for the whole visit, since it only
+ * records when that was. Pages without a form pass no ids and fetch nothing.
+ */
+export function useRenderTokens(formIds: string[]): Record<string, string> {
+  const results = useQueries({
+    queries: formIds.map((formId) => ({
+      queryKey: ["form-render-token", formId],
+      queryFn: () => fetchRenderToken(formId),
+      staleTime: Infinity,
+      retry: false,
+      refetchOnWindowFocus: false,
+    })),
+  });
+
+  return Object.fromEntries(
+    formIds.flatMap((formId, index) => (results[index].data ? [[formId, results[index].data]] : []))
+  );
+}
+
+// The render token of a single form; nothing is fetched until formId is known
+export function useRenderToken(formId: string | undefined): string | undefined {
+  return useRenderTokens(formId ? [formId] : [])[formId];
+}
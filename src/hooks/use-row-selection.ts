@@ -0,0 +1,30 @@
+import { useState } from "react";
+
+/**
+ * Checkbox selection for the rows of an admin list. Only rows still on screen count as
+ * selected, so changing page, search or filters never acts on rows the admin can't see.
+ */
+export function useRowSelection(rowIds: string[]) {
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  const selectedIds = rowIds.filter((id) => checked.has(id));
+  const allSelected = rowIds.length > 0 && selectedIds.length === rowIds.length;
+
+  return {
+    selectedIds,
+    allSelected,
+    someSelected: selectedIds.length > 0 && !allSelected,
+    isSelected: (id: string) => checked.has(id),
+    toggle: (id: string, selected: boolean) =>
+      setChecked((prev) => {
+        const next = new Set(prev);
+        if (selected) next.add(id);
+        else next.delete(id);
+        return next;
+      }),
+    toggleAll: (selected: boolean) => setChecked(new Set(selected ? rowIds : [])),
+    clear: () => setChecked(new Set()),
+  };
+}
+
+export type RowSelection = ReturnType<typeof useRowSelection>;
@@ -0,0 +1,72 @@
+import { useSearchParams } from "react-router-dom";
+import { DEFAULT_PAGE_SIZE, PAGE_SIZES } from "@/lib/data-table";
+
+export type SortDirection = "asc" | "desc";
+
+interface TableParamsOptions<Sort extends string> {
+  sortable: readonly Sort[];
+  defaultSort: Sort;
+  defaultDirection?: SortDirection;
+}
+
+/**
+ * Page, sort, search and filters of an admin list, kept in the query string so a filtered
+ * view can be shared or bookmarked. Values equal to their default are left out of the URL,
+ * and any change other than paging goes back to the first page.
+ */
+export function useTableParams<Sort extends string>({
+  sortable,
+  defaultSort,
+  defaultDirection = "desc",
+}: TableParamsOptions<Sort>) {
+  const [params, setParams] = useSearchParams();
+
+  const page = Math.max(1, Math.floor(Number(params.get("page"))) || 1);
+  const size = Number(params.get("size"));
+  const pageSize = (PAGE_SIZES as readonly number[]).includes(size) ? size : DEFAULT_PAGE_SIZE;
+  const sortParam = params.get("sort") as Sort;
+  const sort = sortable.includes(sortParam) ? sortParam : defaultSort;
+  const dirParam = params.get("dir");
+  const direction: SortDirection = dirParam === "asc" || dirParam === "desc" ? dirParam : defaultDirection;
+  const search = params.get("q") || "";
+
+  const update = (changes: Record<string, string | number | null>) => {
+    setParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        for (const [key, value] of Object.entries(changes)) {
+          if (value === null || value === "") next.delete(key);
+          else next.set(key, String(value));
+        }
+        if (!("page" in changes)) next.delete("page");
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  return {
+    page,
+    pageSize,
+    sort,
+    direction,
+    search,
+    getFilter: (key: string, fallback = "all") => params.get(key) || fallback,
+    setPage: (next: number) => update({ page: next > 1 ? next : null }),
+    setPageSize: (next: number) => update({ size: next === DEFAULT_PAGE_SIZE ? null : next }),
+    setSearch: (next: string) => update({ q: next.trim() || null }),
+    // Filters at their fallback value ("all" unless given) are dropped from the URL
+    setFilter: (key: string, value: string, fallback = "all") => update({ [key]: value === fallback ? null : value }),
+    setFilters: (changes: Record<string, string | null>) => update(changes),
+    // Clicking the sorted column flips its direction; a new column starts at the default
+    toggleSort: (column: Sort) => {
+      const nextDirection = column === sort ? (direction === "asc" ? "desc" : "asc") : defaultDirection;
+      update({
+        sort: column === defaultSort ? null : column,
+        dir: nextDirection === defaultDirection ? null : nextDirection,
+      });
+    },
+  };
+}
+
+export type TableParams<Sort extends string = string> = ReturnType<typeof useTableParams<Sort>>;
@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string | null;
+  role: "admin" | "editor";
+}
+
+/**
+ * Admins and editors, who can own inbox items and be mentioned in notes. Admins are listed
+ * once even when they also hold the editor role.
+ */
+export function useTeamMembers() {
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ["team-members"],
+    queryFn: async () => {
+      const { data: roles, error: rolesError } = await supabase
+        .from("user_roles")
+        .select("user_id, role")
+        .in("role", ["admin", "editor"]);
+      if (rolesError) throw rolesError;
+
+      const ids = Array.from(new Set(roles.map((row) => row.user_id)));
+      if (ids.length === 0) return [];
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .in("id", ids);
+      if (profilesError) throw profilesError;
+
+      return ids
+        .map((id): TeamMember => {
+          const profile = profiles.find((row) => row.id === id);
+          return {
+            id,
+            name: profile?.full_name || profile?.email || "Unknown user",
+            email: profile?.email || null,
+            role: roles.some((row) => row.user_id === id && row.role === "admin") ? "admin" : "editor",
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getMember = (id: string | null | undefined) => members.find((member) => member.id === id);
+
+  return { members, getMember, isLoading };
+}
@@ -14,8 +14,45 @@ export type Database = {
   }
   public: {
     Tables: {
+      bulk_actions: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          id: string
+          item_type: string
+          snapshot: Json
+          undo_until: string
+          undone_at: string | null
+          value: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          item_type: string
+          snapshot: Json
+          undo_until: string
+          undone_at?: string | null
+          value?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          item_type?: string
+          snapshot?: Json
+          undo_until?: string
+          undone_at?: string | null
+          value?: string | null
+        }
+        Relationships: []
+      }
       career_applications: {
         Row: {
+          assigned_to: string | null
           cover_letter: string | null
           created_at: string
           email: string
@@ -23,9 +60,14 @@ export type Database = {
           name: string
           resume_url: string | null
           role_applied: string
-          status: string | null
+          search_vector: unknown
+          spam_reasons: string[]
+          spam_score: number
+          status: string
+          tags: string[]
         }
         Insert: {
+          assigned_to?: string | null
           cover_letter?: string | null
           created_at?: string
           email: string
@@ -33,9 +75,14 @@ export type Database = {
           name: string
           resume_url?: string | null
           role_applied: string
-          status?: string | null
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          tags?: string[]
         }
         Update: {
+          assigned_to?: string | null
           cover_letter?: string | null
           created_at?: string
           email?: string
@@ -43,34 +90,56 @@ export type Database = {
           name?: string
           resume_url?: string | null
           role_applied?: string
-          status?: string | null
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          tags?: string[]
         }
         Relationships: []
       }
       contact_requests: {
         Row: {
+          assigned_to: string | null
           created_at: string
           email: string
           id: string
           message: string
           name: string
           purpose: string
+          search_vector: unknown
+          spam_reasons: string[]
+          spam_score: number
+          status: string
+          tags: string[]
         }
         Insert: {
+          assigned_to?: string | null
           created_at?: string
           email: string
           id?: string
           message: string
           name: string
           purpose: string
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          tags?: string[]
         }
         Update: {
+          assigned_to?: string | null
           created_at?: string
           email?: string
           id?: string
           message?: string
           name?: string
           purpose?: string
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          tags?: string[]
         }
         Relationships: []
       }
@@ -98,72 +167,331 @@ export type Database = {
         }
         Relationships: []
       }
+      custom_form_notifications: {
+        Row: {
+          confirmation_body: string | null
+          confirmation_enabled: boolean
+          confirmation_field_id: string | null
+          confirmation_subject: string | null
+          created_at: string
+          form_id: string
+          notify_body: string | null
+          notify_emails: string[]
+          notify_subject: string | null
+          updated_at: string
+        }
+        Insert: {
+          confirmation_body?: string | null
+          confirmation_enabled?: boolean
+          confirmation_field_id?: string | null
+          confirmation_subject?: string | null
+          created_at?: string
+          form_id: string
+          notify_body?: string | null
+          notify_emails?: string[]
+          notify_subject?: string | null
+          updated_at?: string
+        }
+        Update: {
+          confirmation_body?: string | null
+          confirmation_enabled?: boolean
+          confirmation_field_id?: string | null
+          confirmation_subject?: string | null
+          created_at?: string
+          form_id?: string
+          notify_body?: string | null
+          notify_emails?: string[]
+          notify_subject?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_form_notifications_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: true
+            referencedRelation: "custom_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_form_placements: {
+        Row: {
+          created_at: string
+          display_mode: string
+          form_id: string
+          hide_after_submit: boolean
+          id: string
+          max_views_per_visitor: number | null
+          page: string
+          sort_order: number
+          trigger_delay_seconds: number | null
+          trigger_exit_intent: boolean
+          trigger_scroll_percent: number | null
+          updated_at: string
+          view_cooldown_hours: number | null
+        }
+        Insert: {
+          created_at?: string
+          display_mode?: string
+          form_id: string
+          hide_after_submit?: boolean
+          id?: string
+          max_views_per_visitor?: number | null
+          page: string
+          sort_order?: number
+          trigger_delay_seconds?: number | null
+          trigger_exit_intent?: boolean
+          trigger_scroll_percent?: number | null
+          updated_at?: string
+          view_cooldown_hours?: number | null
+        }
+        Update: {
+          created_at?: string
+          display_mode?: string
+          form_id?: string
+          hide_after_submit?: boolean
+          id?: string
+          max_views_per_visitor?: number | null
+          page?: string
+          sort_order?: number
+          trigger_delay_seconds?: number | null
+          trigger_exit_intent?: boolean
+          trigger_scroll_percent?: number | null
+          updated_at?: string
+          view_cooldown_hours?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_form_placements_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "custom_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_form_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          fields: Json
+          form_id: string
+          form_name: string
+          id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          fields?: Json
+          form_id: string
+          form_name: string
+          id?: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          fields?: Json
+          form_id?: string
+          form_name?: string
+          id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_form_versions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "custom_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       custom_forms: {
         Row: {
+          closes_at: string | null
           created_at: string
           created_by: string | null
           description: string | null
-          display_type: string
+          embed_domains: string[]
           fields: Json
           form_name: string
           id: string
           is_published: boolean
+          max_submissions: number | null
+          one_response_per_email: boolean
+          opens_at: string | null
           popup_trigger_text: string | null
+          published_version_id: string | null
           section_title: string | null
-          target_page: string
           updated_at: string
         }
         Insert: {
+          closes_at?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
-          display_type?: string
+          embed_domains?: string[]
           fields?: Json
           form_name: string
           id?: string
           is_published?: boolean
+          max_submissions?: number | null
+          one_response_per_email?: boolean
+          opens_at?: string | null
           popup_trigger_text?: string | null
+          published_version_id?: string | null
           section_title?: string | null
-          target_page: string
           updated_at?: string
         }
         Update: {
+          closes_at?: string | null
           created_at?: string
           created_by?: string | null
           description?: string | null
-          display_type?: string
+          embed_domains?: string[]
           fields?: Json
           form_name?: string
           id?: string
           is_published?: boolean
+          max_submissions?: number | null
+          one_response_per_email?: boolean
+          opens_at?: string | null
           popup_trigger_text?: string | null
+          published_version_id?: string | null
           section_title?: string | null
-          target_page?: string
           updated_at?: string
         }
         Relationships: []
       }
+      form_drafts: {
+        Row: {
+          created_at: string
+          data: Json
+          email: string
+          expires_at: string
+          form_id: string
+          id: string
+          step: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json
+          email: string
+          expires_at: string
+          form_id: string
+          id?: string
+          step?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          email?: string
+          expires_at?: string
+          form_id?: string
+          id?: string
+          step?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_drafts_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "custom_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_events: {
+        Row: {
+          created_at: string
+          event_type: string
+          field_id: string | null
+          form_id: string
+          id: string
+          metadata: Json
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_type: string
+          field_id?: string | null
+          form_id: string
+          id?: string
+          metadata?: Json
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          event_type?: string
+          field_id?: string | null
+          form_id?: string
+          id?: string
+          metadata?: Json
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_events_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "custom_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       form_submissions: {
         Row: {
+          assigned_to: string | null
           created_at: string
           form_id: string
+          form_version_id: string | null
           id: string
+          metadata: Json
+          respondent_email: string | null
+          search_vector: unknown
+          spam_reasons: string[]
+          spam_score: number
           status: string
           submission_data: Json
+          tags: string[]
         }
         Insert: {
+          assigned_to?: string | null
           created_at?: string
           form_id: string
+          form_version_id?: string | null
           id?: string
+          metadata?: Json
+          respondent_email?: string | null
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
           status?: string
           submission_data?: Json
+          tags?: string[]
         }
         Update: {
+          assigned_to?: string | null
           created_at?: string
           form_id?: string
+          form_version_id?: string | null
           id?: string
+          metadata?: Json
+          respondent_email?: string | null
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
           status?: string
           submission_data?: Json
+          tags?: string[]
         }
         Relationships: [
           {
@@ -173,10 +501,103 @@ export type Database = {
             referencedRelation: "custom_forms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "form_submissions_form_version_id_fkey"
+            columns: ["form_version_id"]
+            isOneToOne: false
+            referencedRelation: "custom_form_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbox_activity: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          from_value: string | null
+          id: string
+          item_id: string
+          item_type: string
+          note_id: string | null
+          to_value: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          from_value?: string | null
+          id?: string
+          item_id: string
+          item_type: string
+          note_id?: string | null
+          to_value?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          from_value?: string | null
+          id?: string
+          item_id?: string
+          item_type?: string
+          note_id?: string | null
+          to_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbox_activity_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "inbox_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbox_notes: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          id: string
+          item_id: string
+          item_type: string
+          mentions: string[]
+          parent_id: string | null
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          item_id: string
+          item_type: string
+          mentions?: string[]
+          parent_id?: string | null
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          item_id?: string
+          item_type?: string
+          mentions?: string[]
+          parent_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbox_notes_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "inbox_notes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       nowrise_applications: {
         Row: {
+          assigned_to: string | null
           created_at: string
           education: string | null
           email: string
@@ -184,9 +605,14 @@ export type Database = {
           name: string
           phone: string | null
           program: string
-          status: string | null
+          search_vector: unknown
+          spam_reasons: string[]
+          spam_score: number
+          status: string
+          tags: string[]
         }
         Insert: {
+          assigned_to?: string | null
           created_at?: string
           education?: string | null
           email: string
@@ -194,9 +620,14 @@ export type Database = {
           name: string
           phone?: string | null
           program: string
-          status?: string | null
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          tags?: string[]
         }
         Update: {
+          assigned_to?: string | null
           created_at?: string
           education?: string | null
           email?: string
@@ -204,7 +635,11 @@ export type Database = {
           name?: string
           phone?: string | null
           program?: string
-          status?: string | null
+          search_vector?: never
+          spam_reasons?: string[]
+          spam_score?: number
+          status?: string
+          tags?: string[]
         }
         Relationships: []
       }
@@ -221,6 +656,7 @@ export type Database = {
           is_published: boolean
           published_at: string | null
           read_time: number | null
+          search_vector: unknown
           slug: string
           tags: Json | null
           title: string
@@ -238,6 +674,7 @@ export type Database = {
           is_published?: boolean
           published_at?: string | null
           read_time?: number | null
+          search_vector?: never
           slug: string
           tags?: Json | null
           title: string
@@ -255,6 +692,7 @@ export type Database = {
           is_published?: boolean
           published_at?: string | null
           read_time?: number | null
+          search_vector?: never
           slug?: string
           tags?: Json | null
           title?: string
@@ -355,6 +793,7 @@ export type Database = {
           email: string | null
           full_name: string | null
           id: string
+          search_vector: unknown
           updated_at: string
         }
         Insert: {
@@ -362,6 +801,7 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id: string
+          search_vector?: never
           updated_at?: string
         }
         Update: {
@@ -369,10 +809,41 @@ export type Database = {
           email?: string | null
           full_name?: string | null
           id?: string
+          search_vector?: never
           updated_at?: string
         }
         Relationships: []
       }
+      rate_limits: {
+        Row: {
+          blocked_until: string | null
+          hits: string[]
+          key: string
+          max_requests: number
+          policy: string
+          updated_at: string
+          window_seconds: number
+        }
+        Insert: {
+          blocked_until?: string | null
+          hits?: string[]
+          key: string
+          max_requests: number
+          policy: string
+          updated_at?: string
+          window_seconds: number
+        }
+        Update: {
+          blocked_until?: string | null
+          hits?: string[]
+          key?: string
+          max_requests?: number
+          policy?: string
+          updated_at?: string
+          window_seconds?: number
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -391,12 +862,197 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          event: string
+          id: string
+          last_attempted_at: string | null
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          record_id: string
+          response_body: string | null
+          response_status: number | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          event: string
+          id?: string
+          last_attempted_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          payload: Json
+          record_id: string
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          event?: string
+          id?: string
+          last_attempted_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          record_id?: string
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          form_id: string | null
+          form_type: string
+          id: string
+          is_active: boolean
+          name: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          form_id?: string | null
+          form_type: string
+          id?: string
+          is_active?: boolean
+          name: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          form_id?: string | null
+          form_type?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "custom_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      admin_inbox: {
+        Row: {
+          assigned_to: string | null
+          created_at: string | null
+          email: string | null
+          id: string | null
+          name: string | null
+          search_vector: unknown | null
+          status: string | null
+          subject: string | null
+          type: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      claim_webhook_deliveries: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          id: string
+          payload: Json
+          secret: string
+          url: string
+        }[]
+      }
+      bulk_update_inbox_items: {
+        Args: { _action: string; _ids: string[]; _type: string; _value?: string }
+        Returns: {
+          action_id: string
+          affected: number
+          undo_until: string
+        }[]
+      }
+      check_rate_limit: {
+        Args: {
+          _key: string
+          _max_requests: number
+          _policy: string
+          _window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          retry_after: number
+        }[]
+      }
       cleanup_expired_otps: { Args: never; Returns: undefined }
+      get_form_analytics: {
+        Args: { _form_id: string }
+        Returns: {
+          completions: number
+          drop_off: Json
+          median_completion_ms: number | null
+          starts: number
+          views: number
+        }[]
+      }
+      get_form_submission_counts: {
+        Args: { _form_ids: string[] }
+        Returns: {
+          form_id: string
+          submission_count: number
+        }[]
+      }
+      get_form_submission_summary: {
+        Args: {
+          _filters?: Json
+          _form_id: string
+          _ignore_words?: string[]
+          _time_zone?: string
+          _word_limit?: number
+        }
+        Returns: Json
+      }
+      get_inbox_table: { Args: { _type: string }; Returns: string }
+      get_submission_metadata_values: {
+        Args: { _form_id: string; _keys: string[] }
+        Returns: {
+          key: string
+          value: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -404,6 +1060,12 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_deliver_webhooks: { Args: never; Returns: undefined }
+      is_inbox_item_assignee: {
+        Args: { _id: string; _type: string; _user_id: string }
+        Returns: boolean
+      }
+      undo_bulk_action: { Args: { _id: string }; Returns: undefined }
     }
     Enums: {
       app_role: "admin" | "editor" | "user"
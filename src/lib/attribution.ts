@@ -0,0 +1,44 @@
+import type { SubmissionMetadata } from "@shared/custom-forms";
+
+// First touch of the current visit, so a lead who lands on a campaign page and only
+// opens a form a few pages later is still attributed to the campaign
+const STORAGE_KEY = "visit-attribution";
+
+const UTM_KEYS = ["utm_source", "utm_medium", "utm_campaign"] as const;
+
+type Attribution = Omit<SubmissionMetadata, "source">;
+
+/**
+ * Record the landing page, external referrer and UTM parameters for this visit. Called
+ * once on startup; a later campaign link in the same tab replaces the earlier one.
+ */
+export function captureAttribution() {
+  try {
+    const params = new URLSearchParams(window.location.search);
+    const hasCampaign = UTM_KEYS.some((key) => params.get(key));
+    if (sessionStorage.getItem(STORAGE_KEY) && !hasCampaign) return;
+
+    const attribution: Attribution = {
+      landing_page: `${window.location.pathname}${window.location.search}`,
+    };
+    for (const key of UTM_KEYS) {
+      const value = params.get(key);
+      if (value) attribution[key] = value;
+    }
+    if (document.referrer && new URL(document.referrer).origin !== window.location.origin) {
+      attribution.referrer = document.referrer;
+    }
+
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(attribution));
+  } catch {
+    // Storage can be unavailable (private mode, blocked cookies); attribution is best effort
+  }
+}
+
+export function getAttribution(): Attribution {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,34 @@
+import { addDays } from "date-fns";
+
+// Shared pieces of the admin list pages: paging, full-text search terms and date filters.
+// The pages build their own queries; these keep the parameters consistent between them.
+
+export const PAGE_SIZES = [25, 50, 100] as const;
+export const DEFAULT_PAGE_SIZE = 25;
+
+// Inclusive row range for PostgREST's range() on a 1-based page
+export const getPageRange = (page: number, pageSize: number): [number, number] => {
+  const from = (page - 1) * pageSize;
+  return [from, from + pageSize - 1];
+};
+
+export const getPageCount = (total: number, pageSize: number) => Math.max(1, Math.ceil(total / pageSize));
+
+/**
+ * Turns what an admin typed into a to_tsquery() expression for the `search_vector` columns:
+ * every word must match, and the last letters may still be missing ("jan smi" finds
+ * "Jane Smith"). Returns an empty string when nothing searchable is left.
+ */
+export const toSearchQuery = (search: string) =>
+  (search.toLowerCase().match(/[\p{L}\p{N}@._-]+/gu) || [])
+    .map((term) => term.replace(/^[@._-]+|[@._-]+$/g, ""))
+    .filter(Boolean)
+    .map((term) => `'${term}':*`)
+    .join(" & ");
+
+// Search options shared by every textSearch() call; the columns are built with 'simple'
+export const SEARCH_OPTIONS = { config: "simple" } as const;
+
+// Date inputs hold local calendar days; the "to" day is included in full
+export const toStartOfDay = (day: string) => new Date(`${day}T00:00`).toISOString();
+export const toEndOfDay = (day: string) => addDays(new Date(`${day}T00:00`), 1).toISOString();
@@ -0,0 +1,90 @@
+import type { FocusEvent } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export type FormEventType =
+  | "view"
+  | "start"
+  | "field_focus"
+  | "field_blur"
+  | "submit_success"
+  | "submit_failure";
+
+// Same key the cookie banner writes; nothing is recorded unless analytics were accepted
+const CONSENT_KEY = "cookie-consent";
+
+// One id per attempt at a form, kept in memory so it never outlives the page
+const sessions = new Map<string, string>();
+const onceEvents = new Set<string>();
+
+export const hasAnalyticsConsent = () => localStorage.getItem(CONSENT_KEY) === "accepted";
+
+const getSessionId = (formId: string) => {
+  let sessionId = sessions.get(formId);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    sessions.set(formId, sessionId);
+  }
+  return sessionId;
+};
+
+/**
+ * Record a form interaction. Fire-and-forget: analytics must never get in the way of
+ * filling in the form, so failures are ignored.
+ */
+export function trackFormEvent(
+  formId: string,
+  eventType: FormEventType,
+  options: { fieldId?: string; metadata?: Record<string, string | number | boolean> } = {}
+) {
+  if (!hasAnalyticsConsent()) return;
+
+  const sessionId = getSessionId(formId);
+
+  // A view and a start are counted once per attempt
+  if (eventType === "view" || eventType === "start") {
+    const key = `${sessionId}:${eventType}`;
+    if (onceEvents.has(key)) return;
+    onceEvents.add(key);
+  }
+
+  supabase
+    .from("form_events")
+    .insert({
+      form_id: formId,
+      session_id: sessionId,
+      event_type: eventType,
+      field_id: options.fieldId || null,
+      metadata: options.metadata || {},
+    })
+    .then(({ error }) => {
+      if (error) console.warn("Failed to record form event", error.message);
+    });
+
+  // A finished attempt starts a fresh session, so a second response is measured separately
+  if (eventType === "submit_success") {
+    sessions.delete(formId);
+  }
+}
+
+const getFieldId = (element: EventTarget | null) =>
+  element instanceof HTMLElement ? element.closest<HTMLElement>("[data-field-id]")?.dataset.fieldId : undefined;
+
+/**
+ * Focus/blur handlers for a whole <form>. Fields are identified by the nearest
+ * `data-field-id` wrapper, so moving between the options of one question is ignored.
+ */
+export function getFormTrackingProps(formId: string) {
+  return {
+    onFocusCapture: (event: FocusEvent<HTMLFormElement>) => {
+      const fieldId = getFieldId(event.target);
+      if (!fieldId || getFieldId(event.relatedTarget) === fieldId) return;
+      trackFormEvent(formId, "start");
+      trackFormEvent(formId, "field_focus", { fieldId });
+    },
+    onBlurCapture: (event: FocusEvent<HTMLFormElement>) => {
+      const fieldId = getFieldId(event.target);
+      if (!fieldId || getFieldId(event.relatedTarget) === fieldId) return;
+      trackFormEvent(formId, "field_blur", { fieldId });
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { FORM_FIELD_TYPES, getPatternError, type FormField } from "@shared/custom-forms";
+import { DEFAULT_PLACEMENT, toPlacementSettings, type PlacementSettings } from "@/lib/form-placements";
+
+// Portable form documents, used to move forms between environments and to seed templates.
+// Bump FORM_DEFINITION_VERSION when the document shape changes and keep reading older versions.
+export const FORM_DEFINITION_FORMAT = "vnu-custom-form";
+// Version 2 replaced target_pages/display_types with placements
+export const FORM_DEFINITION_VERSION = 2;
+
+// Field ids end up in storage paths and analytics, so keep them path-safe
+const fieldIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, "Field ids may only contain letters, numbers, - and _");
+
+const conditionSchema = z.object({
+  fieldId: fieldIdSchema,
+  operator: z.enum(["equals", "not_equals", "contains", "is_empty", "is_not_empty"]),
+  value: z.string().max(500).optional(),
+});
+
+const ruleSchema = z.object({
+  action: z.enum(["show", "require"]),
+  match: z.enum(["all", "any"]),
+  conditions: z.array(conditionSchema).max(20),
+});
+
+const fieldSchema = z.object({
+  id: fieldIdSchema,
+  label: z.string().max(500),
+  type: z.enum(FORM_FIELD_TYPES),
+  required: z.boolean(),
+  options: z.array(z.string().max(500)).max(200).optional(),
+  rows: z.array(z.string().max(500)).max(50).optional(),
+  placeholder: z.string().max(500).optional(),
+  helpText: z.string().max(2000).optional(),
+  validation: z
+    .object({
+      minLength: z.number().int().nonnegative().optional(),
+      maxLength: z.number().int().positive().optional(),
+      pattern: z
+        .string()
+        .refine((pattern) => !getPatternError(pattern), (pattern) => ({ message: getPatternError(pattern) }))
+        .optional(),
+    })
+    .optional(),
+  rules: z.array(ruleSchema).max(10).optional(),
+  prefillKey: fieldIdSchema.optional(),
+  file: z
+    .object({
+      accept: z.array(z.string().max(100)).max(50).optional(),
+      maxSizeMb: z.number().positive().optional(),
+      maxFiles: z.number().int().positive().optional(),
+    })
+    .optional(),
+});
+
+const placementSchema = z.object({
+  page: z.string().regex(/^[a-z0-9-]{1,64}$/, "Pages are lowercase slugs such as ai-consulting"),
+  display_mode: z.enum(["inline", "section", "popup", "floating_button"]),
+  sort_order: z.number().int().default(0),
+  trigger_delay_seconds: z.number().int().min(0).max(600).nullable().default(null),
+  trigger_scroll_percent: z.number().int().min(1).max(100).nullable().default(null),
+  trigger_exit_intent: z.boolean().default(false),
+  max_views_per_visitor: z.number().int().positive().nullable().default(null),
+  view_cooldown_hours: z.number().int().positive().nullable().default(null),
+  hide_after_submit: z.boolean().default(true),
+});
+
+const formContentSchema = z
+  .object({
+    form_name: z.string().trim().min(1, "Form name is required").max(200),
+    description: z.string().max(5000).nullable().default(null),
+    fields: z.array(fieldSchema).max(200),
+    placements: z.array(placementSchema).max(50).optional(),
+    // Version 1 documents
+    target_pages: z.array(z.string().max(100)).max(50).optional(),
+    display_types: z.array(z.enum(["popup", "section"])).optional(),
+    popup_trigger_text: z.string().max(100).nullable().default(null),
+    section_title: z.string().max(200).nullable().default(null),
+    max_submissions: z.number().int().positive().nullable().default(null),
+    one_response_per_email: z.boolean().default(false),
+  })
+  .superRefine((form, ctx) => {
+    const ids = form.fields.map((field) => field.id);
+    form.fields.forEach((field, index) => {
+      if (ids.indexOf(field.id) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fields", index, "id"], message: `Duplicate field id "${field.id}"` });
+      }
+      field.rules?.forEach((rule, ruleIndex) =>
+        rule.conditions.forEach((condition, conditionIndex) => {
+          if (!ids.includes(condition.fieldId)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ["fields", index, "rules", ruleIndex, "conditions", conditionIndex, "fieldId"],
+              message: `Condition refers to unknown field "${condition.fieldId}"`,
+            });
+          }
+        })
+      );
+    });
+    const placementKeys = (form.placements || []).map((p) => `${p.page}:${p.display_mode}`);
+    placementKeys.forEach((key, index) => {
+      if (placementKeys.indexOf(key) !== index) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["placements", index], message: "Duplicate page and display mode" });
+      }
+    });
+  });
+
+const formDefinitionSchema = z.object({
+  format: z.literal(FORM_DEFINITION_FORMAT, {
+    errorMap: () => ({ message: "This file is not a form export" }),
+  }),
+  version: z.number().int().positive().max(FORM_DEFINITION_VERSION, {
+    message: "This file was exported by a newer version of the form builder",
+  }),
+  exported_at: z.string().optional(),
+  form: formContentSchema,
+});
+
+export interface FormDefinitionContent {
+  form_name: string;
+  description: string | null;
+  fields: FormField[];
+  placements: PlacementSettings[];
+  popup_trigger_text: string | null;
+  section_title: string | null;
+  max_submissions: number | null;
+  one_response_per_email: boolean;
+}
+
+export interface FormDefinition {
+  format: typeof FORM_DEFINITION_FORMAT;
+  version: number;
+  exported_at?: string;
+  form: FormDefinitionContent;
+}
+
+export type ParseFormDefinitionResult =
+  | { success: true; definition: FormDefinition }
+  | { success: false; errors: string[] };
+
+/**
+ * Validate an imported document. Errors are returned as readable lines, prefixed with
+ * the path of the offending value, e.g. "form.fields.2.type: Invalid enum value".
+ */
+export function parseFormDefinition(input: unknown): ParseFormDefinitionResult {
+  const result = formDefinitionSchema.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+  const { target_pages, display_types, placements, ...form } = result.data.form;
+  return {
+    success: true,
+    definition: {
+      ...result.data,
+      form: {
+        ...form,
+        placements: (placements as PlacementSettings[]) ?? getLegacyPlacements(target_pages, display_types),
+      },
+    } as FormDefinition,
+  };
+}
+
+// Version 1 listed pages and display types separately; every combination was shown.
+// Its "popup" was a floating button that opened a modal.
+function getLegacyPlacements(pages: string[] = [], displayTypes: string[] = ["popup"]): PlacementSettings[] {
+  return pages
+    .filter((page) => /^[a-z0-9-]{1,64}$/.test(page))
+    .flatMap((page) =>
+      displayTypes.map((type) => ({
+        ...DEFAULT_PLACEMENT,
+        page,
+        display_mode: type === "section" ? ("section" as const) : ("floating_button" as const),
+      }))
+    );
+}
+
+export function createFormDefinition(form: FormDefinitionContent): FormDefinition {
+  return {
+    format: FORM_DEFINITION_FORMAT,
+    version: FORM_DEFINITION_VERSION,
+    exported_at: new Date().toISOString(),
+    form: {
+      form_name: form.form_name,
+      description: form.description,
+      fields: form.fields,
+      placements: form.placements.map(toPlacementSettings),
+      popup_trigger_text: form.popup_trigger_text,
+      section_title: form.section_title,
+      max_submissions: form.max_submissions,
+      one_response_per_email: form.one_response_per_email,
+    },
+  };
+}
+
+export function downloadFormDefinition(form: FormDefinitionContent) {
+  const blob = new Blob([JSON.stringify(createFormDefinition(form), null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${form.form_name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "form"}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
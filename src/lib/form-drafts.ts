@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toSubmitFormError } from "@/lib/submit-form";
+import { DEFAULT_DRAFT_TTL_DAYS, type FormValues } from "@shared/custom-forms";
+
+export interface FormDraft {
+  data: FormValues;
+  step: number;
+  // Set once the draft was saved for later, so saving again updates the same draft
+  resumeToken?: string;
+}
+
+interface StoredDraft extends FormDraft {
+  savedAt: number;
+}
+
+// Local drafts are kept per form in this browser and survive a refresh
+const storageKey = (formId: string) => `form-draft:${formId}`;
+
+const LOCAL_DRAFT_TTL_MS = DEFAULT_DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+export function loadLocalDraft(formId: string): FormDraft | null {
+  try {
+    const stored: StoredDraft | null = JSON.parse(localStorage.getItem(storageKey(formId)) || "null");
+    if (!stored || Date.now() - stored.savedAt > LOCAL_DRAFT_TTL_MS) {
+      localStorage.removeItem(storageKey(formId));
+      return null;
+    }
+    return { data: stored.data || {}, step: stored.step || 0, resumeToken: stored.resumeToken };
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocalDraft(formId: string, draft: FormDraft) {
+  try {
+    const stored: StoredDraft = { ...draft, savedAt: Date.now() };
+    localStorage.setItem(storageKey(formId), JSON.stringify(stored));
+  } catch {
+    // Storage can be full or blocked; autosave is best effort
+  }
+}
+
+export function clearLocalDraft(formId: string) {
+  try {
+    localStorage.removeItem(storageKey(formId));
+  } catch {
+    // Nothing to clear
+  }
+}
+
+/**
+ * Store the draft on the server and email a resume link to `email`. Pass the token of a
+ * resumed draft to update it instead of starting a new one.
+ */
+export async function saveDraftForLater(body: {
+  formId: string;
+  email: string;
+  data: FormValues;
+  step: number;
+  token?: string;
+}): Promise<{ token: string; expiresAt: string }> {
+  const response = await supabase.functions.invoke("form-drafts", { body: { action: "save", ...body } });
+  if (response.error) throw await toSubmitFormError(response.error, "Failed to save your answers");
+  return response.data;
+}
+
+export async function loadServerDraft(token: string): Promise<FormDraft & { formId: string; expiresAt: string }> {
+  const response = await supabase.functions.invoke("form-drafts", { body: { action: "load", token } });
+  if (response.error) throw await toSubmitFormError(response.error, "Failed to load your saved answers");
+  return { ...response.data, resumeToken: token };
+}
+
+// Called after submitting, so the emailed link no longer shows the answers
+export async function discardServerDraft(token: string) {
+  await supabase.functions.invoke("form-drafts", { body: { action: "discard", token } });
+}
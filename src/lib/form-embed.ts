@@ -0,0 +1,27 @@
+// Messages posted to the page hosting an embedded form. public/embed.js listens for
+// these, so keep the names in sync with the loader script.
+export const EMBED_MESSAGE_SOURCE = "vnu-form";
+
+export type EmbedMessage =
+  | { type: "resize"; height: number }
+  | { type: "submit" };
+
+/**
+ * Origin of the page embedding this one, or null when not in a frame. The host page
+ * cannot change ancestorOrigins; Firefox lacks it, so fall back to the referrer, which
+ * browsers send as at least the host's origin.
+ */
+export function getEmbedParentOrigin(): string | null {
+  if (window.parent === window) return null;
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return ancestor;
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+export function postToEmbedParent(parentOrigin: string, formId: string, message: EmbedMessage) {
+  window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, formId, ...message }, parentOrigin);
+}
@@ -0,0 +1,146 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type DisplayMode = "inline" | "section" | "popup" | "floating_button";
+
+// Where and how a form appears, without the row ids, so it can travel in exports
+export interface PlacementSettings {
+  page: string;
+  display_mode: DisplayMode;
+  sort_order: number;
+  trigger_delay_seconds: number | null;
+  trigger_scroll_percent: number | null;
+  trigger_exit_intent: boolean;
+  max_views_per_visitor: number | null;
+  view_cooldown_hours: number | null;
+  hide_after_submit: boolean;
+}
+
+export interface FormPlacement extends PlacementSettings {
+  id: string;
+  form_id: string;
+}
+
+// Pages that render <DynamicFormDisplay pageName="..." />
+export const PLACEMENT_PAGES = [
+  { value: "home", label: "Home Page" },
+  { value: "services", label: "Services" },
+  { value: "ai-consulting", label: "AI Consulting" },
+  { value: "talent-solutions", label: "Talent Solutions" },
+  { value: "nowrise-institute", label: "NowRise Institute" },
+  { value: "careers", label: "Careers" },
+  { value: "about", label: "About" },
+  { value: "contact", label: "Contact" },
+];
+
+export const DISPLAY_MODES: { value: DisplayMode; label: string; desc: string }[] = [
+  { value: "section", label: "Page Section", desc: "Full-width section with its own title" },
+  { value: "inline", label: "Inline", desc: "Form card in the page content" },
+  { value: "floating_button", label: "Floating Button", desc: "Corner button that opens the form in a modal" },
+  { value: "popup", label: "Popup", desc: "Opens by itself after a delay, scroll or exit intent" },
+];
+
+export const DEFAULT_PLACEMENT: PlacementSettings = {
+  page: "home",
+  display_mode: "section",
+  sort_order: 0,
+  trigger_delay_seconds: null,
+  trigger_scroll_percent: null,
+  trigger_exit_intent: false,
+  max_views_per_visitor: null,
+  view_cooldown_hours: null,
+  hide_after_submit: true,
+};
+
+export const toPlacementSettings = (placement: PlacementSettings): PlacementSettings => ({
+  page: placement.page,
+  display_mode: placement.display_mode,
+  sort_order: placement.sort_order,
+  trigger_delay_seconds: placement.trigger_delay_seconds,
+  trigger_scroll_percent: placement.trigger_scroll_percent,
+  trigger_exit_intent: placement.trigger_exit_intent,
+  max_views_per_visitor: placement.max_views_per_visitor,
+  view_cooldown_hours: placement.view_cooldown_hours,
+  hide_after_submit: placement.hide_after_submit,
+});
+
+// A page shows each form at most once per display mode
+export const hasDuplicatePlacements = (placements: PlacementSettings[]) => {
+  const keys = placements.map((p) => `${p.page}:${p.display_mode}`);
+  return new Set(keys).size !== keys.length;
+};
+
+/**
+ * Make the stored placements of a form match the given list: rows that are gone are
+ * deleted first, so a page and mode can be removed and added again in one save.
+ */
+export async function saveFormPlacements(formId: string, placements: (PlacementSettings & { id?: string })[]) {
+  const keepIds = placements.map((p) => p.id).filter((id): id is string => !!id);
+
+  let remove = supabase.from("custom_form_placements").delete().eq("form_id", formId);
+  if (keepIds.length > 0) {
+    remove = remove.not("id", "in", `(${keepIds.join(",")})`);
+  }
+  const { error: deleteError } = await remove;
+  if (deleteError) throw deleteError;
+
+  if (placements.length === 0) return;
+
+  const { error } = await supabase.from("custom_form_placements").upsert(
+    placements.map((placement) => ({
+      ...toPlacementSettings(placement),
+      id: placement.id || crypto.randomUUID(),
+      form_id: formId,
+    }))
+  );
+  if (error) throw error;
+}
+
+// Per-visitor history for frequency capping. Kept in localStorage; clearing it simply
+// lets the popups show again.
+const HISTORY_KEY = "form-placement-history";
+
+interface PlacementHistory {
+  views: Record<string, { count: number; last: number }>;
+  submitted: Record<string, number>;
+}
+
+const readHistory = (): PlacementHistory => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || "{}");
+    return { views: stored.views || {}, submitted: stored.submitted || {} };
+  } catch {
+    return { views: {}, submitted: {} };
+  }
+};
+
+const writeHistory = (history: PlacementHistory) => {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch {
+    // Storage can be full or blocked; capping is best effort
+  }
+};
+
+export function isPlacementCapped(placement: FormPlacement, now = Date.now()): boolean {
+  const history = readHistory();
+  if (placement.hide_after_submit && history.submitted[placement.form_id]) return true;
+
+  const views = history.views[placement.id];
+  if (!views) return false;
+  if (placement.max_views_per_visitor && views.count >= placement.max_views_per_visitor) return true;
+  if (placement.view_cooldown_hours && now - views.last < placement.view_cooldown_hours * 3600 * 1000) return true;
+  return false;
+}
+
+export function recordPlacementView(placement: FormPlacement) {
+  const history = readHistory();
+  const views = history.views[placement.id];
+  history.views[placement.id] = { count: (views?.count || 0) + 1, last: Date.now() };
+  writeHistory(history);
+}
+
+export function recordFormSubmitted(formId: string) {
+  const history = readHistory();
+  history.submitted[formId] = Date.now();
+  writeHistory(history);
+}
@@ -0,0 +1,224 @@
+import type { FormDefinitionContent } from "@/lib/form-definition";
+
+export interface FormTemplate {
+  id: string;
+  name: string;
+  summary: string;
+  form: FormDefinitionContent;
+}
+
+// Built-in starting points for the form builder. Each template is a regular form
+// definition, so it goes through the same path as an imported file.
+export const formTemplates: FormTemplate[] = [
+  {
+    id: "workshop-registration",
+    name: "Workshop Registration",
+    summary: "Attendee details, session choice and access needs, one registration per email.",
+    form: {
+      form_name: "Workshop Registration",
+      description: "Reserve your place at our upcoming workshop.",
+      placements: [],
+      popup_trigger_text: "Register Now",
+      section_title: "Register for the Workshop",
+      max_submissions: null,
+      one_response_per_email: true,
+      fields: [
+        { id: "details", label: "Your Details", type: "section", required: false },
+        { id: "full_name", label: "Full Name", type: "text", required: true, placeholder: "Jane Doe" },
+        { id: "email", label: "Email Address", type: "email", required: true, placeholder: "jane@example.com" },
+        { id: "phone", label: "Phone Number", type: "phone", required: false },
+        { id: "organisation", label: "Company or Institution", type: "text", required: false },
+        { id: "workshop", label: "Workshop", type: "section", required: false },
+        {
+          id: "session",
+          label: "Preferred Session",
+          type: "radio",
+          required: true,
+          options: ["Morning (10:00 - 13:00)", "Afternoon (14:00 - 17:00)"],
+        },
+        {
+          id: "experience",
+          label: "Experience Level",
+          type: "select",
+          required: true,
+          options: ["Beginner", "Intermediate", "Advanced"],
+        },
+        {
+          id: "access_needs",
+          label: "Accessibility or Dietary Requirements",
+          type: "textarea",
+          required: false,
+          helpText: "Let us know anything that would help you take part.",
+        },
+        {
+          id: "heard_from",
+          label: "How did you hear about this workshop?",
+          type: "select",
+          required: false,
+          options: ["LinkedIn", "Friend or colleague", "Newsletter", "Search engine", "Other"],
+        },
+      ],
+    },
+  },
+  {
+    id: "consulting-enquiry",
+    name: "Consulting Enquiry",
+    summary: "Qualify new leads with service, budget and timeline, plus an optional brief upload.",
+    form: {
+      form_name: "Consulting Enquiry",
+      description: "Tell us about your project and we will get back to you within two working days.",
+      placements: [],
+      popup_trigger_text: "Get Started",
+      section_title: "Start a Project",
+      max_submissions: null,
+      one_response_per_email: false,
+      fields: [
+        { id: "full_name", label: "Full Name", type: "text", required: true },
+        { id: "email", label: "Work Email", type: "email", required: true },
+        { id: "company", label: "Company", type: "text", required: true },
+        { id: "website", label: "Company Website", type: "url", required: false, placeholder: "https://" },
+        {
+          id: "service",
+          label: "What can we help with?",
+          type: "select",
+          required: true,
+          options: ["AI Consulting", "Talent Solutions", "Software Development", "Other"],
+        },
+        {
+          id: "service_other",
+          label: "Please describe the service you need",
+          type: "text",
+          required: false,
+          rules: [
+            { action: "show", match: "all", conditions: [{ fieldId: "service", operator: "equals", value: "Other" }] },
+            { action: "require", match: "all", conditions: [{ fieldId: "service", operator: "equals", value: "Other" }] },
+          ],
+        },
+        {
+          id: "budget",
+          label: "Estimated Budget",
+          type: "radio",
+          required: false,
+          options: ["Under $10k", "$10k - $50k", "$50k - $100k", "Over $100k", "Not sure yet"],
+        },
+        {
+          id: "timeline",
+          label: "When would you like to start?",
+          type: "select",
+          required: false,
+          options: ["Immediately", "Within 1 month", "1 - 3 months", "Just exploring"],
+        },
+        {
+          id: "details",
+          label: "Project Details",
+          type: "textarea",
+          required: true,
+          validation: { minLength: 20 },
+          placeholder: "Goals, current setup, anything we should know...",
+        },
+        {
+          id: "brief",
+          label: "Project Brief",
+          type: "file",
+          required: false,
+          helpText: "Optional. PDF or Word, up to 10 MB.",
+          file: {
+            accept: [
+              "application/pdf",
+              "application/msword",
+              "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+            ],
+            maxSizeMb: 10,
+            maxFiles: 1,
+          },
+        },
+      ],
+    },
+  },
+  {
+    id: "feedback-survey",
+    name: "Feedback Survey",
+    summary: "Rating, open feedback and an optional follow-up contact.",
+    form: {
+      form_name: "Feedback Survey",
+      description: "We'd love to hear how we did. It only takes a minute.",
+      placements: [],
+      popup_trigger_text: "Give Feedback",
+      section_title: "Share Your Feedback",
+      max_submissions: null,
+      one_response_per_email: false,
+      fields: [
+        { id: "overall", label: "Overall, how satisfied are you?", type: "rating", required: true },
+        { id: "went_well", label: "What did we do well?", type: "textarea", required: false },
+        { id: "improve", label: "What could we improve?", type: "textarea", required: false },
+        {
+          id: "recommend",
+          label: "Would you recommend us to a friend or colleague?",
+          type: "radio",
+          required: true,
+          options: ["Yes", "Maybe", "No"],
+        },
+        {
+          id: "follow_up",
+          label: "May we contact you about your feedback?",
+          type: "radio",
+          required: false,
+          options: ["Yes", "No"],
+        },
+        {
+          id: "email",
+          label: "Email Address",
+          type: "email",
+          required: false,
+          rules: [
+            { action: "show", match: "all", conditions: [{ fieldId: "follow_up", operator: "equals", value: "Yes" }] },
+            { action: "require", match: "all", conditions: [{ fieldId: "follow_up", operator: "equals", value: "Yes" }] },
+          ],
+        },
+      ],
+    },
+  },
+  {
+    id: "workshop-feedback",
+    name: "Post-Workshop Feedback",
+    summary: "NPS, agreement with key statements and the most useful sessions, ranked.",
+    form: {
+      form_name: "Workshop Feedback",
+      description: "Thanks for attending. Your answers help us plan the next workshop.",
+      placements: [],
+      popup_trigger_text: "Give Feedback",
+      section_title: "How Was the Workshop?",
+      max_submissions: null,
+      one_response_per_email: false,
+      fields: [
+        {
+          id: "nps",
+          label: "How likely are you to recommend this workshop to a friend or colleague?",
+          type: "nps",
+          required: true,
+        },
+        {
+          id: "statements",
+          label: "How much do you agree with the following?",
+          type: "likert",
+          required: true,
+          rows: [
+            "The content was relevant to my work",
+            "The pace was right",
+            "The facilitators were well prepared",
+            "I can apply what I learned",
+          ],
+          options: ["Strongly disagree", "Disagree", "Neutral", "Agree", "Strongly agree"],
+        },
+        {
+          id: "sessions",
+          label: "Rank the sessions from most to least useful",
+          type: "ranking",
+          required: false,
+          options: ["Keynote", "Hands-on lab", "Case studies", "Panel discussion", "Q&A"],
+        },
+        { id: "comments", label: "Anything else you'd like to tell us?", type: "textarea", required: false },
+      ],
+    },
+  },
+];
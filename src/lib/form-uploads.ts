@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FILE_UPLOAD_BUCKET } from "@shared/custom-forms";
+import { SubmitFormError, toSubmitFormError } from "@/lib/submit-form";
+
+interface UploadTarget {
+  formType: "form_submissions" | "career_applications";
+  formId?: string;
+  fieldId?: string;
+}
+
+// Signed download links are only needed long enough to open the file
+const SIGNED_URL_TTL_SECONDS = 60;
+
+/**
+ * Upload a file through a signed upload URL issued by the create-upload edge function.
+ * Returns the storage path to send with the submission; submit-form checks it again.
+ */
+export async function uploadFormFile(target: UploadTarget, file: File): Promise<string> {
+  const response = await supabase.functions.invoke("create-upload", {
+    body: {
+      ...target,
+      fileName: file.name,
+      contentType: file.type || "application/octet-stream",
+      size: file.size,
+    },
+  });
+
+  if (response.error) {
+    throw await toSubmitFormError(response.error, "Failed to upload file");
+  }
+
+  const { path, token } = response.data as { path: string; token: string };
+  const { error } = await supabase.storage
+    .from(FILE_UPLOAD_BUCKET)
+    .uploadToSignedUrl(path, token, file, { contentType: file.type || undefined });
+
+  if (error) {
+    throw new SubmitFormError("Failed to upload file");
+  }
+
+  return path;
+}
+
+/**
+ * Short-lived download link for an uploaded file. Only admins can create these.
+ */
+export async function getSignedFileUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(FILE_UPLOAD_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error || !data) throw error || new Error("Failed to create download link");
+  return data.signedUrl;
+}
@@ -0,0 +1,17 @@
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
+import type { FieldErrors as SubmissionFieldErrors } from "@shared/custom-forms";
+
+/**
+ * Show the `fieldErrors` returned by submit-form on the matching inputs. Returns whether
+ * any were set, so callers can fall back to a general error message.
+ */
+export function setServerFieldErrors<T extends FieldValues>(
+  setError: UseFormSetError<T>,
+  fieldErrors: SubmissionFieldErrors
+): boolean {
+  const entries = Object.entries(fieldErrors);
+  entries.forEach(([name, message], index) => {
+    setError(name as Path<T>, { type: "server", message }, { shouldFocus: index === 0 });
+  });
+  return entries.length > 0;
+}
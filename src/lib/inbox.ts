@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Contact requests, applications and form submissions share one status workflow:
+// new -> in progress -> resolved or archived. submit-form files submissions its spam checks
+// flag as spam, outside the workflow until an admin releases them. The values match the
+// CHECK constraints.
+export const INBOX_STATUSES = [
+  { value: "new", label: "New", color: "bg-yellow-100 text-yellow-800" },
+  { value: "in_progress", label: "In Progress", color: "bg-blue-100 text-blue-800" },
+  { value: "resolved", label: "Resolved", color: "bg-green-100 text-green-800" },
+  { value: "archived", label: "Archived", color: "bg-secondary text-muted-foreground" },
+  { value: "spam", label: "Spam", color: "bg-red-100 text-red-800" },
+] as const;
+
+export type InboxStatus = (typeof INBOX_STATUSES)[number]["value"];
+
+export const getInboxStatus = (status: string | null) =>
+  INBOX_STATUSES.find((item) => item.value === status) || INBOX_STATUSES[0];
+
+// Item types as they appear in the admin_inbox view, with the table, admin screen and list query behind each
+export const INBOX_TYPES = {
+  contact: { label: "Contact", table: "contact_requests", path: "/admin/contacts", queryKey: "admin-contacts" },
+  career: { label: "Career", table: "career_applications", path: "/admin/careers", queryKey: "admin-career-applications" },
+  nowrise: { label: "NowRise", table: "nowrise_applications", path: "/admin/nowrise", queryKey: "admin-nowrise-applications" },
+  form: { label: "Form", table: "form_submissions", path: "/admin/submissions", queryKey: "admin-form-submissions" },
+} as const;
+
+export type InboxType = keyof typeof INBOX_TYPES;
+
+const FORM_FULL_RELEASE_MESSAGE = "The form is full, so this submission can't be released from spam";
+
+// Type screens open a single item when given its id, so inbox rows can deep link to them
+export const getInboxItemLink = (type: InboxType, id: string) => `${INBOX_TYPES[type].path}?id=${id}`;
+
+export async function updateInboxStatus(type: InboxType, id: string, status: InboxStatus) {
+  const { error } = await supabase.from(INBOX_TYPES[type].table).update({ status }).eq("id", id);
+  if (error) {
+    // Raised when releasing spam would take a form past its response cap
+    throw new Error(error.message === "form_full" ? FORM_FULL_RELEASE_MESSAGE : error.message);
+  }
+}
+
+export async function assignInboxItem(type: InboxType, id: string, userId: string | null) {
+  const { error } = await supabase.from(INBOX_TYPES[type].table).update({ assigned_to: userId }).eq("id", id);
+  if (error) {
+    // Raised by the assignee trigger when the user is neither an admin nor an editor
+    throw new Error(error.message === "invalid_assignee" ? "Only admins and editors can be assigned" : error.message);
+  }
+}
+
+export interface InboxNote {
+  id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  body: string;
+  mentions: string[];
+  created_at: string;
+}
+
+export interface InboxActivity {
+  id: string;
+  actor_id: string | null;
+  action: "status_changed" | "assigned" | "note_added";
+  from_value: string | null;
+  to_value: string | null;
+  note_id: string | null;
+  created_at: string;
+}
+
+interface Mentionable {
+  id: string;
+  name: string;
+}
+
+// Team members named as "@Full Name" anywhere in the note
+export const findMentions = (body: string, members: Mentionable[]) =>
+  members.filter((member) => body.includes(`@${member.name}`)).map((member) => member.id);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Splits a note into plain text and mentions so they can be highlighted. Longer names are
+// tried first so "@Ann Lee" is not cut short by a member called "Ann".
+export const splitMentions = (body: string, members: Mentionable[]) => {
+  const names = members.map((member) => member.name).sort((a, b) => b.length - a.length);
+  if (names.length === 0) return [{ text: body, isMention: false }];
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join("|")}))`, "g");
+  return body
+    .split(pattern)
+    .filter(Boolean)
+    .map((text) => ({ text, isMention: names.some((name) => text === `@${name}`) }));
+};
+
+export async function addInboxNote(
+  type: InboxType,
+  id: string,
+  note: { body: string; parentId?: string | null; mentions: string[] }
+) {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase.from("inbox_notes").insert({
+    item_type: type,
+    item_id: id,
+    parent_id: note.parentId || null,
+    author_id: user?.id,
+    body: note.body.trim(),
+    mentions: note.mentions,
+  });
+  if (error) throw error;
+}
+
+export type BulkAction =
+  | { action: "status"; value: InboxStatus }
+  | { action: "assign"; value: string | null }
+  | { action: "add_tag" | "remove_tag"; value: string }
+  | { action: "delete" };
+
+export interface BulkActionResult {
+  actionId: string;
+  affected: number;
+}
+
+// How long a bulk action can be undone; bulk_update_inbox_items keeps the previous values for 30 seconds
+export const BULK_UNDO_WINDOW_MS = 30_000;
+
+// Messages for the exceptions raised by the bulk action functions and the assignee and
+// released form capacity triggers
+const bulkErrors: Record<string, string> = {
+  form_full: FORM_FULL_RELEASE_MESSAGE,
+  invalid_assignee: "Only admins and editors can be assigned",
+  invalid_tag: "Tags must be 1 to 40 characters",
+  undo_expired: "This change can no longer be undone",
+};
+
+const toBulkError = (error: { message: string }) => new Error(bulkErrors[error.message] || error.message);
+
+/**
+ * Applies one action to the selected items in a single call. The server keeps what was
+ * replaced for BULK_UNDO_WINDOW_MS, during which undoBulkAction reverts it.
+ */
+export async function bulkUpdateInboxItems(type: InboxType, ids: string[], bulk: BulkAction): Promise<BulkActionResult> {
+  const { data, error } = await supabase
+    .rpc("bulk_update_inbox_items", {
+      _type: type,
+      _ids: ids,
+      _action: bulk.action,
+      _value: "value" in bulk ? bulk.value ?? undefined : undefined,
+    })
+    .single();
+  if (error) throw toBulkError(error);
+  return { actionId: data.action_id, affected: data.affected };
+}
+
+export async function undoBulkAction(actionId: string) {
+  const { error } = await supabase.rpc("undo_bulk_action", { _id: actionId });
+  if (error) throw toBulkError(error);
+}
@@ -0,0 +1,108 @@
+import { format, eachDayOfInterval, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { FormField } from "@shared/custom-forms";
+import type { ExportFilters } from "@shared/exports";
+
+// Per-question summaries for the submissions tab. The counting happens in
+// get_form_submission_summary; like the survey results, answers that don't fit the current
+// field definition are skipped here.
+
+const MAX_HISTOGRAM_BINS = 10;
+const MAX_TIMELINE_DAYS = 366;
+const MAX_WORDS = 15;
+
+// Common English words that would otherwise top every word list
+const STOP_WORDS = (
+  "the and for are but not you all any can had her was one our out has have his how its may new now " +
+  "see who did get him let say she too use that with this from they will would there their what about " +
+  "which when make like time just know take into year your some could them than then well were been " +
+  "also more very much really should being only over such here because it's i'm don't"
+).split(" ");
+
+// How many answers had each value
+export type AnswerCounts = Record<string, number>;
+
+export interface FieldSummary {
+  responses: number;
+  // Option, rating, number and NPS answers; each checkbox selection counts once
+  values: AnswerCounts;
+  // Ranking fields: option -> position (1 = first) -> count
+  ranks: Record<string, AnswerCounts>;
+  // Likert fields: statement -> point -> count
+  rows: Record<string, AnswerCounts>;
+  // Text fields: the most common words, counted once per answer
+  words: { word: string; count: number }[];
+}
+
+export interface SubmissionSummary {
+  total: number;
+  // yyyy-MM-dd in the admin's time zone -> submissions that day
+  timeline: AnswerCounts;
+  fields: Record<string, FieldSummary>;
+}
+
+export const EMPTY_FIELD_SUMMARY: FieldSummary = { responses: 0, values: {}, ranks: {}, rows: {}, words: [] };
+
+/**
+ * Summarise the submissions of one form that match the list's filters. The filters use the
+ * export shape, so the summary and an export of the same view cover the same rows.
+ */
+export async function fetchSubmissionSummary(formId: string, filters: ExportFilters): Promise<SubmissionSummary> {
+  const { data, error } = await supabase.rpc("get_form_submission_summary", {
+    _form_id: formId,
+    _filters: filters as Record<string, string>,
+    _time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    _ignore_words: STOP_WORDS,
+    _word_limit: MAX_WORDS,
+  });
+  if (error) throw error;
+  return data as unknown as SubmissionSummary;
+}
+
+// Counts per option in the form's own order
+export const summarizeOptions = (field: FormField, counts: AnswerCounts) =>
+  (field.options || []).map((option) => ({ option, count: counts[option] || 0 }));
+
+/**
+ * Average and histogram of numeric answers. Small whole-number ranges (ratings, counts) get
+ * one bar per value; anything else is split into up to ten equal-width bins.
+ */
+export const summarizeNumbers = (counts: AnswerCounts, range?: { min: number; max: number }) => {
+  const numbers = Object.entries(counts)
+    .filter(([value]) => value.trim() !== "")
+    .map(([value, count]) => ({ n: Number(value), count }))
+    .filter(({ n }) => Number.isFinite(n) && (!range || (n >= range.min && n <= range.max)));
+  const responses = numbers.reduce((sum, { count }) => sum + count, 0);
+  if (responses === 0) return { responses: 0, average: null, bins: [] as { label: string; count: number }[] };
+
+  const min = range?.min ?? Math.min(...numbers.map(({ n }) => n));
+  const max = range?.max ?? Math.max(...numbers.map(({ n }) => n));
+  const average = numbers.reduce((sum, { n, count }) => sum + n * count, 0) / responses;
+
+  if (numbers.every(({ n }) => Number.isInteger(n)) && max - min < MAX_HISTOGRAM_BINS) {
+    const bins = Array.from({ length: max - min + 1 }, (_, i) => ({ label: String(min + i), count: 0 }));
+    numbers.forEach(({ n, count }) => (bins[n - min].count += count));
+    return { responses, average, bins };
+  }
+
+  const width = (max - min) / MAX_HISTOGRAM_BINS || 1;
+  const bins = Array.from({ length: MAX_HISTOGRAM_BINS }, (_, i) => {
+    const from = min + i * width;
+    return { label: `${+from.toFixed(2)}–${+(from + width).toFixed(2)}`, count: 0 };
+  });
+  numbers.forEach(({ n, count }) => (bins[Math.min(Math.floor((n - min) / width), MAX_HISTOGRAM_BINS - 1)].count += count));
+  return { responses, average, bins };
+};
+
+// Submissions per calendar day, with empty days filled in so gaps show on the chart
+export const summarizeTimeline = (counts: AnswerCounts) => {
+  const days = Object.keys(counts).map((day) => parseISO(day).getTime());
+  if (days.length === 0) return [];
+
+  const end = Math.max(...days);
+  const start = Math.max(Math.min(...days), end - (MAX_TIMELINE_DAYS - 1) * 24 * 60 * 60 * 1000);
+  return eachDayOfInterval({ start, end }).map((day) => ({
+    date: format(day, "MMM d"),
+    submissions: counts[format(day, "yyyy-MM-dd")] || 0,
+  }));
+};
@@ -0,0 +1,96 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  EXPORT_MIME_TYPES,
+  getExportFileName,
+  type ExportColumn,
+  type ExportFilters,
+  type ExportRequest,
+} from "@shared/exports";
+import { toSubmitFormError } from "@/lib/submit-form";
+import { toEndOfDay, toSearchQuery, toStartOfDay } from "@/lib/data-table";
+
+/**
+ * The export filters for what an admin list is showing. Empty and "all" values are left out;
+ * the date range is sent as timestamps in the admin's time zone.
+ */
+export function toExportFilters(list: {
+  search?: string;
+  status?: string;
+  tag?: string;
+  from?: string;
+  to?: string;
+  formId?: string;
+  metadata?: ExportFilters["metadata"];
+}): ExportFilters {
+  return {
+    search: toSearchQuery(list.search || "") || undefined,
+    status: list.status && list.status !== "all" ? list.status : undefined,
+    tag: list.tag || undefined,
+    createdFrom: list.from ? toStartOfDay(list.from) : undefined,
+    createdBefore: list.to ? toEndOfDay(list.to) : undefined,
+    formId: list.formId && list.formId !== "all" ? list.formId : undefined,
+    metadata: list.metadata,
+  };
+}
+
+/**
+ * Export through the export-submissions edge function, which reads the rows page by page
+ * and streams the file back, then save it in the browser.
+ */
+export async function downloadSubmissionExport(request: ExportRequest) {
+  const response = await supabase.functions.invoke("export-submissions", { body: request });
+  if (response.error) {
+    throw await toSubmitFormError(response.error, "Failed to export");
+  }
+
+  const blob = new Blob([response.data as Blob], { type: EXPORT_MIME_TYPES[request.format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getExportFileName(request.formType, request.format);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export interface ExportColumnChoice {
+  column: ExportColumn;
+  label: string;
+  selected: boolean;
+}
+
+// Column choices are remembered per screen (and per form) in this browser
+const columnsStorageKey = (scope: string) => `export-columns:${scope}`;
+
+/**
+ * The admin's saved column order, selection and names, matched against the columns on offer.
+ * Columns added since are appended unselected; ones that no longer exist are dropped.
+ */
+export function loadExportColumns(scope: string, available: ExportColumn[]): ExportColumnChoice[] {
+  const defaults = available.map((column) => ({ column, label: column.label, selected: true }));
+  try {
+    const saved = JSON.parse(localStorage.getItem(columnsStorageKey(scope)) || "null") as
+      | { key: string; label: string; selected: boolean }[]
+      | null;
+    if (!Array.isArray(saved)) return defaults;
+
+    const byKey = new Map(available.map((column) => [column.key, column]));
+    const restored = saved
+      .filter((item) => byKey.has(item.key))
+      .map((item) => ({ column: byKey.get(item.key)!, label: item.label || byKey.get(item.key)!.label, selected: !!item.selected }));
+    const known = new Set(restored.map((item) => item.column.key));
+    return [...restored, ...defaults.filter((item) => !known.has(item.column.key)).map((item) => ({ ...item, selected: false }))];
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveExportColumns(scope: string, columns: ExportColumnChoice[]) {
+  try {
+    localStorage.setItem(
+      columnsStorageKey(scope),
+      JSON.stringify(columns.map(({ column, label, selected }) => ({ key: column.key, label, selected })))
+    );
+  } catch {
+    // Storage can be full or disabled; the choice just isn't remembered
+  }
+}
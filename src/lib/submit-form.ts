@@ -0,0 +1,103 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { FieldErrors } from "@shared/custom-forms";
+
+export type SubmitFormType =
+  | "contact_requests"
+  | "career_applications"
+  | "nowrise_applications"
+  | "form_submissions";
+
+export interface SubmitFormBody {
+  formType: SubmitFormType;
+  data: Record<string, unknown>;
+  formId?: string;
+  // Custom forms only: the published_version_id of the form the visitor filled in
+  formVersionId?: string | null;
+  honeypot?: string;
+  // From fetchRenderToken when the form was shown; lets the server spot instant bot submissions
+  renderToken?: string;
+}
+
+/**
+ * Error thrown when the submit-form edge function rejects a submission.
+ * Carries the server message, HTTP status and any per-field errors.
+ */
+export class SubmitFormError extends Error {
+  status?: number;
+  code?: string;
+  fieldErrors: FieldErrors;
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: string; fieldErrors?: FieldErrors; retryAfter?: number } = {}
+  ) {
+    super(message);
+    this.name = "SubmitFormError";
+    this.status = options.status;
+    this.code = options.code;
+    this.fieldErrors = options.fieldErrors || {};
+    this.retryAfter = options.retryAfter;
+  }
+
+  get isRateLimited() {
+    return this.status === 429;
+  }
+
+  // The form stopped accepting responses (not open yet, closed or full)
+  get isUnavailable() {
+    return this.code === "form_not_open" || this.code === "form_closed" || this.code === "form_full";
+  }
+
+  // The form was republished with different fields after the visitor loaded it
+  get isFormChanged() {
+    return this.code === "form_changed";
+  }
+}
+
+/**
+ * Turn a functions-js error into a SubmitFormError. Non-2xx responses are parsed so
+ * callers get the server's message and field errors instead of the generic error.
+ */
+export async function toSubmitFormError(error: Error, fallback = "Failed to submit form"): Promise<SubmitFormError> {
+  if (error instanceof FunctionsHttpError) {
+    const context = error.context as Response;
+    const payload = await context.json().catch(() => null);
+    return new SubmitFormError(payload?.error || fallback, {
+      status: context.status,
+      code: payload?.code,
+      fieldErrors: payload?.fieldErrors,
+      retryAfter: payload?.retryAfter,
+    });
+  }
+  return new SubmitFormError(error.message || fallback);
+}
+
+/**
+ * Submit a form through the submit-form edge function.
+ */
+export async function submitForm<T = { success: boolean; message?: string }>(body: SubmitFormBody): Promise<T> {
+  const response = await supabase.functions.invoke("submit-form", { body });
+
+  if (response.error) {
+    throw await toSubmitFormError(response.error);
+  }
+
+  if (response.data?.error) {
+    throw new SubmitFormError(response.data.error, { fieldErrors: response.data.fieldErrors });
+  }
+
+  return response.data as T;
+}
+
+/**
+ * Fetch a signed render token from the form-token edge function for one form: the custom form
+ * id, or the form type of a built-in form. If none can be fetched the form still submits; the
+ * submission just looks a little more like spam.
+ */
+export async function fetchRenderToken(formId: string): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke("form-token", { body: { formId } });
+  if (error || typeof data?.token !== "string") return null;
+  return data.token;
+}
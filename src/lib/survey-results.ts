@@ -0,0 +1,54 @@
+import { NPS_MAX, getLikertScale, getNpsCategory, type FormField } from "@shared/custom-forms";
+import type { AnswerCounts } from "@/lib/response-summary";
+
+// Aggregates for the survey field types, from the answer counts of get_form_submission_summary.
+// Anything that doesn't fit the field (old versions, hand-edited rows) is skipped.
+
+// Score is % promoters minus % detractors, from -100 to 100
+export const summarizeNps = (values: AnswerCounts) => {
+  const counts = Array.from({ length: NPS_MAX + 1 }, (_, score) => values[String(score)] || 0);
+  const responses = counts.reduce((sum, count) => sum + count, 0);
+  const total = (category: ReturnType<typeof getNpsCategory>) =>
+    counts.reduce((sum, count, score) => (getNpsCategory(score) === category ? sum + count : sum), 0);
+  const promoters = total("promoter");
+  const passives = total("passive");
+  const detractors = responses - promoters - passives;
+  return {
+    responses,
+    counts,
+    promoters,
+    passives,
+    detractors,
+    score: responses > 0 ? Math.round(((promoters - detractors) / responses) * 100) : null,
+  };
+};
+
+// Per statement: how many chose each point, and the mean position on the scale (1 = first point)
+export const summarizeLikert = (field: FormField, rows: Record<string, AnswerCounts>) => {
+  const scale = getLikertScale(field);
+  return (field.rows || []).map((row) => {
+    const counts = scale.map((point) => rows[row]?.[point] || 0);
+    const responses = counts.reduce((sum, count) => sum + count, 0);
+    return {
+      row,
+      responses,
+      counts,
+      average: responses > 0 ? counts.reduce((sum, count, index) => sum + count * (index + 1), 0) / responses : null,
+    };
+  });
+};
+
+// Options sorted by average rank (1 = most preferred); options added later may have fewer rankings
+export const summarizeRanking = (field: FormField, ranks: Record<string, AnswerCounts>) =>
+  (field.options || [])
+    .map((option) => {
+      const places = Object.entries(ranks[option] || {});
+      const responses = places.reduce((sum, [, count]) => sum + count, 0);
+      return {
+        option,
+        responses,
+        firstPlace: ranks[option]?.["1"] || 0,
+        averageRank: responses > 0 ? places.reduce((sum, [place, count]) => sum + Number(place) * count, 0) / responses : null,
+      };
+    })
+    .sort((a, b) => (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity));
@@ -2,8 +2,11 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 import { initErrorMonitoring } from "./lib/error-monitoring";
+import { captureAttribution } from "./lib/attribution";
 
 // Initialize error monitoring before rendering
 initErrorMonitoring();
+// Before the router can change the URL
+captureAttribution();
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,47 +1,40 @@
 import { Layout } from "@/components/layout";
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect } from "react";
-import { useForm, Controller } from "react-hook-form";
+import { useForm, Controller, type Resolver } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { MapPin, Mail, Briefcase, GraduationCap, Handshake, ArrowRight, BookOpen } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useRenderTokens } from "@/hooks/use-render-token";
+import { setServerFieldErrors } from "@/lib/form-validation";
+import { SubmitFormError, submitForm } from "@/lib/submit-form";
 import { AuthRequiredForm } from "@/components/auth/AuthRequiredForm";
 import { DynamicFormDisplay } from "@/components/DynamicFormDisplay";
 import { SEOHead } from "@/components/SEOHead";
 import { useQuery } from "@tanstack/react-query";
 import { useSearchParams } from "react-router-dom";
+import { contactRequestSchema, nowriseApplicationSchema } from "@shared/form-schemas";
 
-const contactSchema = z.object({
-  name: z.string().min(2, "Name must be at least 2 characters").max(100),
-  email: z.string().email("Invalid email address").max(255),
-  purpose: z.string().min(1, "Please select a purpose"),
-  program: z.string().optional(),
-  phone: z.string().optional(),
-  education: z.string().optional(),
-  message: z.string().optional(),
-}).refine((data) => {
-  // If training enquiry, program is required
-  if (data.purpose === "training" && !data.program) {
-    return false;
-  }
-  return true;
-}, {
-  message: "Please select a program",
-  path: ["program"],
-}).refine((data) => {
-  // Message required only for non-training enquiries
-  if (data.purpose !== "training" && (!data.message || data.message.length < 10)) {
-    return false;
-  }
-  return true;
-}, {
-  message: "Message must be at least 10 characters",
-  path: ["message"],
-});
+interface ContactFormData {
+  name: string;
+  email: string;
+  purpose: string;
+  program: string;
+  phone: string;
+  education: string;
+  message: string;
+}
 
-type ContactFormData = z.infer<typeof contactSchema>;
+// Training enquiries are stored as NowRise applications, everything else as contact requests.
+// Both are checked with the schemas submit-form uses.
+const contactRequestResolver = zodResolver(contactRequestSchema);
+const nowriseApplicationResolver = zodResolver(nowriseApplicationSchema);
+
+const contactResolver: Resolver<ContactFormData> = (values, context, options) =>
+  values.purpose === "training"
+    ? nowriseApplicationResolver(values, context, options)
+    : contactRequestResolver(values, context, options);
 
 const enquiryTypes = [
   {
@@ -61,9 +54,13 @@ const enquiryTypes = [
   },
 ];
 
+const contactFormTypes = ["contact_requests", "nowrise_applications"];
+
 const ContactForm = ({ defaultPurpose, defaultProgram }: { defaultPurpose?: string; defaultProgram?: string }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [honeypot, setHoneypot] = useState("");
+  // The purpose picks the form type on submit, so hold a token for each
+  const renderTokens = useRenderTokens(contactFormTypes);
 
   // Fetch available programs for training enquiry
   const { data: programs = [] } = useQuery({
@@ -86,9 +83,10 @@ const ContactForm = ({ defaultPurpose, defaultProgram }: { defaultPurpose?: stri
     reset,
     control,
     setValue,
+    setError,
     formState: { errors },
   } = useForm<ContactFormData>({
-    resolver: zodResolver(contactSchema),
+    resolver: contactResolver,
     defaultValues: {
       purpose: defaultPurpose || "",
       program: defaultProgram || "",
@@ -115,64 +113,50 @@ const ContactForm = ({ defaultPurpose, defaultProgram }: { defaultPurpose?: stri
     setIsSubmitting(true);
     try {
       // If training enquiry, submit to nowrise_applications
-      if (isTrainingEnquiry && data.program) {
-        const response = await supabase.functions.invoke('submit-form', {
-          body: {
-            formType: 'nowrise_applications',
-            honeypot: honeypot,
-            data: {
-              name: data.name,
-              email: data.email,
-              program: data.program,
-              phone: data.phone || null,
-              education: data.education || null,
-            }
-          }
+      if (isTrainingEnquiry) {
+        await submitForm({
+          formType: "nowrise_applications",
+          honeypot,
+          renderToken: renderTokens.nowrise_applications,
+          data: {
+            name: data.name,
+            email: data.email,
+            program: data.program,
+            phone: data.phone || null,
+            education: data.education || null,
+          },
         });
 
-        if (response.error) {
-          throw new Error(response.error.message || 'Submission failed');
-        }
-
-        if (response.data?.error) {
-          throw new Error(response.data.error);
-        }
-
         toast({
           title: "Enrollment request submitted!",
           description: "We'll contact you soon about the program.",
         });
       } else {
         // Regular contact request
-        const response = await supabase.functions.invoke('submit-form', {
-          body: {
-            formType: 'contact_requests',
-            honeypot: honeypot,
-            data: {
-              name: data.name,
-              email: data.email,
-              purpose: data.purpose,
-              message: data.message || "",
-            }
-          }
+        await submitForm({
+          formType: "contact_requests",
+          honeypot,
+          renderToken: renderTokens.contact_requests,
+          data: {
+            name: data.name,
+            email: data.email,
+            purpose: data.purpose,
+            message: data.message || "",
+          },
         });
 
-        if (response.error) {
-          throw new Error(response.error.message || 'Submission failed');
-        }
-
-        if (response.data?.error) {
-          throw new Error(response.data.error);
-        }
-
         toast({
           title: "Message sent!",
           description: "We'll get back to you as soon as possible.",
         });
       }
       reset();
-    } catch (error: any) {
-      const message = error?.message?.includes('Too many requests') 
+    } catch (error) {
+      // Field errors from the server are shown next to their inputs
+      if (error instanceof SubmitFormError && setServerFieldErrors(setError, error.fieldErrors)) {
+        return;
+      }
+      const message = error instanceof SubmitFormError && error.isRateLimited
         ? "Too many submissions. Please wait a moment and try again."
         : "Failed to send message. Please try again.";
       toast({
@@ -1,5 +1,5 @@
 import { useParams, useSearchParams } from "react-router-dom";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Layout } from "@/components/layout";
 import { Button } from "@/components/ui/button";
@@ -10,19 +10,46 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { useState } from "react";
+import { useEffect, useMemo, useState, type ReactNode } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { CheckCircle2, Star, Loader2 } from "lucide-react";
+import { CheckCircle2, Star, Loader2, ArrowLeft, ArrowRight, Bookmark } from "lucide-react";
 import { SEOHead } from "@/components/SEOHead";
-
-interface FormField {
-  id: string;
-  type: string;
-  label: string;
-  required?: boolean;
-  placeholder?: string;
-  options?: string[];
-}
+import { submitForm, SubmitFormError } from "@/lib/submit-form";
+import { useRenderToken } from "@/hooks/use-render-token";
+import {
+  getFormSteps,
+  getPrefillValues,
+  getRespondentEmail,
+  hasSections,
+  isEmbedOriginAllowed,
+  isHiddenField,
+  resolveFieldStates,
+  validateCustomFormData,
+  validateFormStep,
+  type FieldErrors,
+  type FormField,
+  type FormValue,
+  type FormValues,
+} from "@shared/custom-forms";
+import { FormProgress } from "@/components/forms/FormProgress";
+import { FormReview } from "@/components/forms/FormReview";
+import { FileUploadInput } from "@/components/forms/FileUploadInput";
+import { FormUnavailable } from "@/components/forms/FormUnavailable";
+import { useFormAvailability } from "@/hooks/use-form-availability";
+import { getFormTrackingProps, trackFormEvent } from "@/lib/form-analytics";
+import { getAttribution } from "@/lib/attribution";
+import { getEmbedParentOrigin, postToEmbedParent } from "@/lib/form-embed";
+import { EmbedFrame } from "@/components/forms/EmbedFrame";
+import { SaveDraftDialog } from "@/components/forms/SaveDraftDialog";
+import { LikertInput, NpsInput, RankingInput } from "@/components/forms/SurveyInputs";
+import {
+  clearLocalDraft,
+  discardServerDraft,
+  loadLocalDraft,
+  loadServerDraft,
+  saveLocalDraft,
+  type FormDraft,
+} from "@/lib/form-drafts";
 
 interface CustomForm {
   id: string;
@@ -30,17 +57,44 @@ interface CustomForm {
   description: string | null;
   fields: FormField[];
   is_published: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_submissions: number | null;
+  embed_domains: string[];
+  published_version_id: string | null;
 }
 
-const FormPage = () => {
+// Star ratings keep their own state next to the string answer
+const getRatings = (fields: FormField[], values: FormValues) =>
+  Object.fromEntries(
+    fields
+      .filter((field) => field.type === "rating" && values[field.id])
+      .map((field) => [field.id, Number(values[field.id])])
+  );
+
+interface FormPageProps {
+  // Rendered at /embed/:formId inside a partner site's iframe
+  embedded?: boolean;
+}
+
+const FormPage = ({ embedded = false }: FormPageProps) => {
   const { formId } = useParams();
+  const queryClient = useQueryClient();
   const [searchParams] = useSearchParams();
   const source = searchParams.get("src") || "direct";
-  
-  const [formData, setFormData] = useState<Record<string, string | string[]>>({});
+  const resumeParam = searchParams.get("resume");
+
+  const [formData, setFormData] = useState<FormValues>({});
   const [ratings, setRatings] = useState<Record<string, number>>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [honeypot, setHoneypot] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [stepIndex, setStepIndex] = useState(0);
+  // Autosave waits until any saved draft has been restored, so it can't overwrite it
+  const [isDraftReady, setIsDraftReady] = useState(false);
+  const [resumeToken, setResumeToken] = useState<string | undefined>();
+  const [showSaveDraft, setShowSaveDraft] = useState(false);
+  const [isRestored, setIsRestored] = useState(false);
 
   const { data: form, isLoading, error } = useQuery({
     queryKey: ["public-form", formId],
@@ -61,45 +115,184 @@ const FormPage = () => {
     enabled: !!formId,
   });
 
+  const { getAvailability } = useFormAvailability(form ? [form] : undefined);
+  const availability = form ? getAvailability(form) : "open";
+
+  // Embedded forms only render for the sites listed on the form
+  const parentOrigin = useMemo(() => (embedded ? getEmbedParentOrigin() : null), [embedded]);
+  const isBlockedEmbed = embedded && !!form && !isEmbedOriginAllowed(form.embed_domains, parentOrigin);
+  const embedOrigin = embedded && !isBlockedEmbed ? parentOrigin : null;
+  // Fetched once the form is actually shown, like the view event below
+  const renderToken = useRenderToken(form && availability === "open" && !isBlockedEmbed ? form.id : undefined);
+
+  useEffect(() => {
+    if (form && availability === "open" && !isBlockedEmbed) trackFormEvent(form.id, "view");
+  }, [form, availability, isBlockedEmbed]);
+
+  // Prefill from the query string once the form has loaded; anything typed since wins
+  useEffect(() => {
+    if (!form) return;
+    const prefill = getPrefillValues(form.fields, searchParams);
+    setFormData(prev => ({ ...prefill, ...prev }));
+    setRatings(prev => ({ ...getRatings(form.fields, prefill), ...prev }));
+  }, [form, searchParams]);
+
+  // Restore the draft from an emailed resume link, otherwise the one autosaved in this browser
+  useEffect(() => {
+    if (!form || isDraftReady) return;
+
+    const restore = (draft: FormDraft) => {
+      setFormData(prev => ({ ...prev, ...draft.data }));
+      setRatings(prev => ({ ...prev, ...getRatings(form.fields, draft.data) }));
+      setStepIndex(draft.step);
+      setResumeToken(draft.resumeToken);
+      setIsRestored(true);
+    };
+    const restoreLocal = () => {
+      const draft = loadLocalDraft(form.id);
+      if (!draft) return;
+      restore(draft);
+    };
+
+    if (!resumeParam) {
+      restoreLocal();
+      setIsDraftReady(true);
+      return;
+    }
+
+    let cancelled = false;
+    loadServerDraft(resumeParam)
+      .then((draft) => {
+        if (cancelled) return;
+        if (draft.formId !== form.id) throw new Error("This link is for a different form.");
+        restore(draft);
+        toast.success("Welcome back! Your answers have been restored.");
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        toast.error(err.message);
+        restoreLocal();
+      })
+      .finally(() => {
+        if (!cancelled) setIsDraftReady(true);
+      });
+    return () => { cancelled = true; };
+  }, [form, resumeParam, isDraftReady]);
+
+  // Autosave to this browser, cleared once the form is submitted
+  useEffect(() => {
+    if (!formId || !isDraftReady || isSubmitted || Object.keys(formData).length === 0) return;
+    const timer = window.setTimeout(() => {
+      saveLocalDraft(formId, { data: formData, step: stepIndex, resumeToken });
+    }, 500);
+    return () => window.clearTimeout(timer);
+  }, [formId, isDraftReady, isSubmitted, formData, stepIndex, resumeToken]);
+
   const submitMutation = useMutation({
     mutationFn: async (data: Record<string, unknown>) => {
       // Submit through edge function with all security controls
-      const response = await supabase.functions.invoke('submit-form', {
-        body: {
-          formType: 'form_submissions',
-          formId: formId,
-          data: {
-            submission_data: { ...data, source }
-          },
-          honeypot: honeypot
-        }
+      return submitForm({
+        formType: "form_submissions",
+        formId: formId,
+        formVersionId: form?.published_version_id,
+        data: {
+          submission_data: data,
+          metadata: { ...getAttribution(), source, ...(embedOrigin ? { embed_origin: embedOrigin } : {}) }
+        },
+        honeypot: honeypot,
+        renderToken
       });
-
-      if (response.error) {
-        throw new Error(response.error.message || 'Failed to submit form');
-      }
-
-      const result = response.data;
-      if (result?.error) {
-        throw new Error(result.error);
-      }
-
-      return result;
     },
     onSuccess: () => {
+      if (formId) clearLocalDraft(formId);
+      if (resumeToken) discardServerDraft(resumeToken).catch(() => undefined);
+      if (formId) trackFormEvent(formId, "submit_success");
+      if (formId && embedOrigin) postToEmbedParent(embedOrigin, formId, { type: "submit" });
       setIsSubmitted(true);
+      setFieldErrors({});
+      queryClient.invalidateQueries({ queryKey: ["form-submission-counts"] });
       toast.success("Form submitted successfully!");
     },
     onError: (error: Error) => {
-      const message = error.message.includes('Too many requests')
-        ? "Too many submissions. Please wait a moment and try again."
-        : "Failed to submit form. Please try again.";
+      if (formId) {
+        trackFormEvent(formId, "submit_failure", {
+          metadata: { reason: (error instanceof SubmitFormError && (error.code || error.status)) || "error" },
+        });
+      }
+      if (error instanceof SubmitFormError) {
+        setFieldErrors(error.fieldErrors);
+        goToFirstError(error.fieldErrors);
+        if (error.isUnavailable) {
+          queryClient.invalidateQueries({ queryKey: ["form-submission-counts"] });
+          queryClient.invalidateQueries({ queryKey: ["public-form", formId] });
+        }
+        if (error.isFormChanged) {
+          queryClient.invalidateQueries({ queryKey: ["public-form", formId] });
+        }
+      }
+      const message = error instanceof SubmitFormError && (error.isUnavailable || error.isFormChanged || error.code === "duplicate_response")
+        ? error.message
+        : error instanceof SubmitFormError && error.isRateLimited
+          ? "Too many submissions. Please wait a moment and try again."
+          : error instanceof SubmitFormError && Object.keys(error.fieldErrors).length > 0
+            ? "Please correct the highlighted fields."
+            : error instanceof SubmitFormError && error.status === 404
+              ? "This form is no longer accepting responses."
+              : "Failed to submit form. Please try again.";
       toast.error(message);
     }
   });
 
-  const handleInputChange = (fieldId: string, value: string) => {
+  const fieldStates = resolveFieldStates(form?.fields || [], formData);
+  const isMultiStep = hasSections(form?.fields || []);
+  const steps = getFormSteps(form?.fields || [], fieldStates);
+  // Steps can disappear as answers change, so never point past the review step
+  const currentStep = Math.min(stepIndex, steps.length);
+  const isReview = isMultiStep && currentStep === steps.length;
+  const visibleFields = isMultiStep
+    ? steps[currentStep]?.fields || []
+    : (form?.fields || []).filter((field) => !isHiddenField(field) && fieldStates[field.id]?.visible !== false);
+
+  const startOver = () => {
+    if (!form) return;
+    clearLocalDraft(form.id);
+    const prefill = getPrefillValues(form.fields, searchParams);
+    setFormData(prefill);
+    setRatings(getRatings(form.fields, prefill));
+    setFieldErrors({});
+    setStepIndex(0);
+    setResumeToken(undefined);
+    setIsRestored(false);
+  };
+
+  const goToStep = (index: number) => {
+    setStepIndex(index);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const goToFirstError = (errors: FieldErrors) => {
+    if (!isMultiStep) return;
+    const index = steps.findIndex((step) => step.fields.some((field) => errors[field.id]));
+    if (index >= 0) goToStep(index);
+  };
+
+  const handleNext = () => {
+    const errors = validateFormStep(form?.fields || [], formData, steps[currentStep]);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length === 0) goToStep(currentStep + 1);
+  };
+
+  const clearFieldError = (fieldId: string) => {
+    setFieldErrors(prev => {
+      if (!prev[fieldId]) return prev;
+      const { [fieldId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleInputChange = (fieldId: string, value: FormValue) => {
     setFormData(prev => ({ ...prev, [fieldId]: value }));
+    clearFieldError(fieldId);
   };
 
   const handleCheckboxChange = (fieldId: string, option: string, checked: boolean) => {
@@ -111,22 +304,35 @@ const FormPage = () => {
         return { ...prev, [fieldId]: current.filter(v => v !== option) };
       }
     });
+    clearFieldError(fieldId);
   };
 
   const handleRatingChange = (fieldId: string, value: number) => {
     setRatings(prev => ({ ...prev, [fieldId]: value }));
     setFormData(prev => ({ ...prev, [fieldId]: value.toString() }));
+    clearFieldError(fieldId);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isMultiStep && !isReview) {
+      handleNext();
+      return;
+    }
+    const validation = validateCustomFormData(form?.fields || [], formData);
+    setFieldErrors(validation.errors);
+    if (!validation.valid) {
+      if (formId) trackFormEvent(formId, "submit_failure", { metadata: { reason: "validation" } });
+      goToFirstError(validation.errors);
+      return;
+    }
     submitMutation.mutate(formData);
   };
 
   const renderField = (field: FormField) => {
+    const required = fieldStates[field.id]?.required ?? field.required;
     switch (field.type) {
       case "text":
-      case "short_answer":
       case "email":
       case "phone":
       case "number":
@@ -134,31 +340,31 @@ const FormPage = () => {
       case "date":
         return (
           <Input
-            type={field.type === "short_answer" || field.type === "text" ? "text" : field.type}
+            type={field.type === "phone" ? "tel" : field.type}
             placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
             value={(formData[field.id] as string) || ""}
             onChange={(e) => handleInputChange(field.id, e.target.value)}
-            required={field.required}
+            required={required}
             className="bg-background border-border"
           />
         );
-      case "paragraph":
+      case "textarea":
         return (
           <Textarea
             placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
             value={(formData[field.id] as string) || ""}
             onChange={(e) => handleInputChange(field.id, e.target.value)}
-            required={field.required}
+            required={required}
             rows={4}
             className="bg-background border-border"
           />
         );
-      case "dropdown":
+      case "select":
         return (
           <Select
             value={(formData[field.id] as string) || ""}
             onValueChange={(value) => handleInputChange(field.id, value)}
-            required={field.required}
+            required={required}
           >
             <SelectTrigger className="bg-background border-border">
               <SelectValue placeholder={field.placeholder || "Select an option"} />
@@ -170,7 +376,7 @@ const FormPage = () => {
             </SelectContent>
           </Select>
         );
-      case "multiple_choice":
+      case "radio":
         return (
           <RadioGroup
             value={(formData[field.id] as string) || ""}
@@ -184,7 +390,7 @@ const FormPage = () => {
             ))}
           </RadioGroup>
         );
-      case "checkboxes":
+      case "checkbox":
         return (
           <div className="space-y-2">
             {field.options?.map((option) => (
@@ -199,6 +405,19 @@ const FormPage = () => {
             ))}
           </div>
         );
+      case "file":
+        return (
+          <FileUploadInput
+            formId={formId || ""}
+            field={field}
+            value={(formData[field.id] as string[]) || []}
+            onChange={(paths) => {
+              setFormData(prev => ({ ...prev, [field.id]: paths }));
+              clearFieldError(field.id);
+            }}
+            onError={(message) => setFieldErrors(prev => ({ ...prev, [field.id]: message }))}
+          />
+        );
       case "rating":
         return (
           <div className="flex gap-1">
@@ -220,39 +439,74 @@ const FormPage = () => {
             ))}
           </div>
         );
+      case "nps":
+        return (
+          <NpsInput
+            value={formData[field.id] as string}
+            onChange={(value) => handleInputChange(field.id, value)}
+          />
+        );
+      case "likert":
+        return (
+          <LikertInput
+            field={field}
+            value={formData[field.id] as Record<string, string>}
+            onChange={(value) => handleInputChange(field.id, value)}
+          />
+        );
+      case "ranking":
+        return (
+          <RankingInput
+            field={field}
+            value={formData[field.id] as string[]}
+            onChange={(value) => handleInputChange(field.id, value)}
+          />
+        );
       default:
         return null;
     }
   };
 
+  // Embedded pages drop the site chrome, and must not fill the viewport or the iframe
+  // would keep growing to match its own height
+  const wrap = (content: ReactNode) =>
+    embedded ? (
+      <EmbedFrame formId={formId || ""} parentOrigin={embedOrigin}>{content}</EmbedFrame>
+    ) : (
+      <Layout>{content}</Layout>
+    );
+  const pageClass = embedded ? "py-12" : "min-h-screen";
+
   if (isLoading) {
-    return (
-      <Layout>
-        <div className="min-h-screen flex items-center justify-center">
-          <Loader2 className="w-8 h-8 animate-spin text-primary" />
-        </div>
-      </Layout>
+    return wrap(
+      <div className={`${pageClass} flex items-center justify-center`}>
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
     );
   }
 
-  if (error || !form) {
-    return (
-      <Layout>
+  if (error || !form || isBlockedEmbed) {
+    return wrap(
+      <>
         <SEOHead title="Form Not Found" description="The requested form is not available." />
-        <div className="min-h-screen flex items-center justify-center">
+        <div className={`${pageClass} flex items-center justify-center`}>
           <div className="text-center">
             <h1 className="text-2xl font-bold text-foreground mb-2">Form Not Found</h1>
-            <p className="text-muted-foreground">This form may have been removed or is no longer available.</p>
+            <p className="text-muted-foreground">
+              {isBlockedEmbed
+                ? "This form can't be shown on this site."
+                : "This form may have been removed or is no longer available."}
+            </p>
           </div>
         </div>
-      </Layout>
+      </>
     );
   }
 
-  return (
-    <Layout>
+  return wrap(
+    <>
       <SEOHead title={form.form_name} description={form.description || `Fill out the ${form.form_name} form`} />
-      <div className="min-h-screen py-24 px-4">
+      <div className={embedded ? "" : "min-h-screen py-24 px-4"}>
         <div className="max-w-2xl mx-auto">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -271,10 +525,16 @@ const FormPage = () => {
                   <h2 className="text-2xl font-bold text-foreground mb-2">Thank You!</h2>
                   <p className="text-muted-foreground">Your response has been recorded.</p>
                 </motion.div>
+              ) : availability !== "open" ? (
+                <motion.div key="unavailable" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                  <h1 className="text-2xl font-bold text-foreground mb-2 text-center">{form.form_name}</h1>
+                  <FormUnavailable availability={availability} opensAt={form.opens_at} />
+                </motion.div>
               ) : (
                 <motion.form
                   key="form"
                   onSubmit={handleSubmit}
+                  {...getFormTrackingProps(form.id)}
                   className="space-y-6"
                 >
                   <div className="mb-8">
@@ -282,8 +542,24 @@ const FormPage = () => {
                     {form.description && (
                       <p className="text-muted-foreground">{form.description}</p>
                     )}
+                    {isRestored && (
+                      <p className="text-sm text-muted-foreground mt-3">
+                        Your earlier answers have been restored.{" "}
+                        <button type="button" onClick={startOver} className="text-primary hover:underline">
+                          Start over
+                        </button>
+                      </p>
+                    )}
                   </div>
 
+                  {isMultiStep && (
+                    <FormProgress
+                      current={currentStep}
+                      total={steps.length}
+                      title={steps[currentStep]?.title}
+                    />
+                  )}
+
                   {/* Honeypot field - hidden from users, visible to bots */}
                   <input
                     type="text"
@@ -296,37 +572,92 @@ const FormPage = () => {
                     aria-hidden="true"
                   />
 
-                  {form.fields.map((field) => (
-                    <div key={field.id} className="space-y-2">
+                  {isMultiStep && !isReview && steps[currentStep]?.description && (
+                    <p className="text-sm text-muted-foreground">{steps[currentStep].description}</p>
+                  )}
+
+                  {isReview && (
+                    <FormReview steps={steps} data={formData} onEdit={goToStep} />
+                  )}
+
+                  {!isReview && visibleFields.map((field) => (
+                    <div key={field.id} data-field-id={field.id} className="space-y-2">
                       <Label className="text-foreground">
                         {field.label}
-                        {field.required && <span className="text-red-500 ml-1">*</span>}
+                        {fieldStates[field.id]?.required && <span className="text-red-500 ml-1">*</span>}
                       </Label>
                       {renderField(field)}
+                      {fieldErrors[field.id] && (
+                        <p className="text-destructive text-sm">{fieldErrors[field.id]}</p>
+                      )}
                     </div>
                   ))}
 
-                  <Button
-                    type="submit"
-                    disabled={submitMutation.isPending}
-                    className="w-full btn-gold"
-                  >
-                    {submitMutation.isPending ? (
-                      <>
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        Submitting...
-                      </>
-                    ) : (
-                      "Submit"
+                  <div className="flex gap-3">
+                    {isMultiStep && currentStep > 0 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => goToStep(currentStep - 1)}
+                        disabled={submitMutation.isPending}
+                      >
+                        <ArrowLeft className="w-4 h-4 mr-2" />
+                        Back
+                      </Button>
                     )}
-                  </Button>
+                    <Button
+                      type="submit"
+                      disabled={submitMutation.isPending}
+                      className="flex-1 btn-gold"
+                    >
+                      {submitMutation.isPending ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Submitting...
+                        </>
+                      ) : isMultiStep && !isReview ? (
+                        <>
+                          {currentStep === steps.length - 1 ? "Review" : "Next"}
+                          <ArrowRight className="w-4 h-4 ml-2" />
+                        </>
+                      ) : (
+                        "Submit"
+                      )}
+                    </Button>
+                  </div>
+
+                  {/* Partner sites embed the form for a single visit, so drafts are only offered here */}
+                  {!embedded && (
+                    <div className="text-center">
+                      <button
+                        type="button"
+                        onClick={() => setShowSaveDraft(true)}
+                        className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary transition-colors"
+                      >
+                        <Bookmark className="w-4 h-4" />
+                        Save and continue later
+                      </button>
+                    </div>
+                  )}
                 </motion.form>
               )}
             </AnimatePresence>
           </motion.div>
         </div>
       </div>
-    </Layout>
+
+      {/* Kept outside the form, so its own submit doesn't reach the form's handler */}
+      {showSaveDraft && (
+        <SaveDraftDialog
+          open
+          onOpenChange={setShowSaveDraft}
+          formId={form.id}
+          draft={{ data: formData, step: currentStep, resumeToken }}
+          defaultEmail={getRespondentEmail(form.fields, formData)}
+          onSaved={setResumeToken}
+        />
+      )}
+    </>
   );
 };
 
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -34,6 +35,9 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useTableParams } from "@/hooks/use-table-params";
+import { DataTablePagination, DataTableSearch, SortableHeader } from "@/components/admin/DataTable";
+import { SEARCH_OPTIONS, getPageRange, toSearchQuery } from "@/lib/data-table";
 import { Plus, Pencil, Trash2, Eye, FileText } from "lucide-react";
 import { format } from "date-fns";
 
@@ -53,6 +57,10 @@ interface Blog {
   created_at: string;
 }
 
+const SORTABLE = ["title", "author_name", "published_at", "created_at"] as const;
+
+const headClass = "h-12 px-4 text-left align-middle font-medium text-muted-foreground";
+
 const emptyBlog = {
   title: "",
   slug: "",
@@ -74,17 +82,31 @@ export default function BlogManagement() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: blogs = [], isLoading } = useQuery({
-    queryKey: ["admin-blogs"],
+  const table = useTableParams({ sortable: SORTABLE, defaultSort: "created_at" });
+  const { page, pageSize, sort, direction, search } = table;
+  const status = table.getFilter("status");
+  const isFiltered = Boolean(search || status !== "all");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-blogs", page, pageSize, sort, direction, search, status],
     queryFn: async () => {
-      const { data, error } = await supabase
+      // Drafts have no publish date; keep them last whichever way that column is sorted
+      let query = supabase
         .from("nowrise_blogs")
-        .select("*")
-        .order("created_at", { ascending: false });
+        .select("*", { count: "exact" })
+        .order(sort, { ascending: direction === "asc", nullsFirst: false })
+        .range(...getPageRange(page, pageSize));
+      const terms = toSearchQuery(search);
+      if (terms) query = query.textSearch("search_vector", terms, SEARCH_OPTIONS);
+      if (status !== "all") query = query.eq("is_published", status === "published");
+
+      const { data, count, error } = await query;
       if (error) throw error;
-      return data as Blog[];
+      return { rows: data as Blog[], total: count ?? 0 };
     },
+    placeholderData: keepPreviousData,
   });
+  const blogs = data?.rows || [];
 
   const saveMutation = useMutation({
     mutationFn: async (data: typeof formData & { id?: string }) => {
@@ -124,6 +146,8 @@ export default function BlogManagement() {
       if (error) throw error;
     },
     onSuccess: () => {
+      // Step back when the last row of a page is removed; PostgREST rejects a range past the end
+      if (blogs.length === 1 && page > 1) table.setPage(page - 1);
       queryClient.invalidateQueries({ queryKey: ["admin-blogs"] });
       toast({ title: "Blog deleted" });
     },
@@ -326,77 +350,102 @@ export default function BlogManagement() {
         </Dialog>
       </div>
 
+      <div className="flex flex-wrap items-center gap-3">
+        <DataTableSearch value={search} onChange={table.setSearch} placeholder="Search titles, authors, content and tags" />
+        <Select value={status} onValueChange={(value) => table.setFilter("status", value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All posts</SelectItem>
+            <SelectItem value="published">Published</SelectItem>
+            <SelectItem value="draft">Drafts</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
       {blogs.length === 0 ? (
         <div className="text-center py-12 text-muted-foreground">
-          No blog posts yet. Click "New Blog Post" to create one.
+          {isFiltered
+            ? "No blog posts match this search."
+            : 'No blog posts yet. Click "New Blog Post" to create one.'}
         </div>
       ) : (
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Title</TableHead>
-              <TableHead>Author</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Published</TableHead>
-              <TableHead>Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {blogs.map(blog => (
-              <TableRow key={blog.id}>
-                <TableCell>
-                  <div className="flex items-center gap-2">
-                    <FileText className="h-4 w-4 text-muted-foreground" />
-                    <span className="font-medium">{blog.title}</span>
-                  </div>
-                </TableCell>
-                <TableCell className="text-muted-foreground">{blog.author_name}</TableCell>
-                <TableCell>
-                  <Badge variant={blog.is_published ? "default" : "secondary"}>
-                    {blog.is_published ? "Published" : "Draft"}
-                  </Badge>
-                </TableCell>
-                <TableCell className="text-muted-foreground">
-                  {blog.published_at ? format(new Date(blog.published_at), "MMM d, yyyy") : "-"}
-                </TableCell>
-                <TableCell>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => togglePublish.mutate({ id: blog.id, is_published: !blog.is_published })}
-                      title={blog.is_published ? "Unpublish" : "Publish"}
-                    >
-                      <Eye className={`h-4 w-4 ${blog.is_published ? "text-green-600" : "text-muted-foreground"}`} />
-                    </Button>
-                    <Button variant="ghost" size="icon" onClick={() => handleEdit(blog)}>
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button variant="ghost" size="icon">
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Delete Blog Post?</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            This will permanently delete "{blog.title}". This action cannot be undone.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction onClick={() => deleteMutation.mutate(blog.id)}>Delete</AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  </div>
-                </TableCell>
+        <div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <SortableHeader column="title" table={table} className={headClass}>
+                  Title
+                </SortableHeader>
+                <SortableHeader column="author_name" table={table} className={headClass}>
+                  Author
+                </SortableHeader>
+                <TableHead>Status</TableHead>
+                <SortableHeader column="published_at" table={table} className={headClass}>
+                  Published
+                </SortableHeader>
+                <TableHead>Actions</TableHead>
               </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+            </TableHeader>
+            <TableBody>
+              {blogs.map(blog => (
+                <TableRow key={blog.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{blog.title}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{blog.author_name}</TableCell>
+                  <TableCell>
+                    <Badge variant={blog.is_published ? "default" : "secondary"}>
+                      {blog.is_published ? "Published" : "Draft"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {blog.published_at ? format(new Date(blog.published_at), "MMM d, yyyy") : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => togglePublish.mutate({ id: blog.id, is_published: !blog.is_published })}
+                        title={blog.is_published ? "Unpublish" : "Publish"}
+                      >
+                        <Eye className={`h-4 w-4 ${blog.is_published ? "text-green-600" : "text-muted-foreground"}`} />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleEdit(blog)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Blog Post?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This will permanently delete "{blog.title}". This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteMutation.mutate(blog.id)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <DataTablePagination table={table} total={data?.total || 0} />
+        </div>
       )}
     </div>
   );
@@ -1,8 +1,11 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { Mail, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useTableParams } from "@/hooks/use-table-params";
+import { useRowSelection } from "@/hooks/use-row-selection";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -14,20 +17,81 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DataTablePagination,
+  DataTableSearch,
+  DateRangeFilter,
+  SortableHeader,
+} from "@/components/admin/DataTable";
+import { InboxStatusFilter, InboxStatusSelect } from "@/components/admin/InboxStatusSelect";
+import { ExportDialog } from "@/components/admin/ExportDialog";
+import {
+  BulkActionsBar,
+  InboxTags,
+  SelectAllHeader,
+  SelectRowCell,
+  TagFilter,
+} from "@/components/admin/BulkActions";
+import { SingleItemNotice } from "@/components/admin/SingleItemNotice";
+import { SpamReview } from "@/components/admin/SpamReview";
+import { INBOX_TYPES, updateInboxStatus, type InboxStatus } from "@/lib/inbox";
+import { SEARCH_OPTIONS, getPageRange, toEndOfDay, toSearchQuery, toStartOfDay } from "@/lib/data-table";
+import { toExportFilters } from "@/lib/submission-export";
+
+const SORTABLE = ["name", "email", "purpose", "created_at", "status"] as const;
 
 const ContactRequests = () => {
   const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const itemId = searchParams.get("id");
+  const table = useTableParams({ sortable: SORTABLE, defaultSort: "created_at" });
+  const { page, pageSize, sort, direction, search } = table;
+  const status = table.getFilter("status");
+  const tag = table.getFilter("tag", "");
+  const from = table.getFilter("from", "");
+  const to = table.getFilter("to", "");
+  const isFiltered = Boolean(search || status !== "all" || tag || from || to);
 
-  const { data: contacts, isLoading } = useQuery({
-    queryKey: ["admin-contacts"],
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-contacts", itemId, page, pageSize, sort, direction, search, status, tag, from, to],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from("contact_requests")
-        .select("*")
-        .order("created_at", { ascending: false });
+        .select("*", { count: "exact" })
+        .order(sort, { ascending: direction === "asc" })
+        .range(...getPageRange(page, pageSize));
+      if (itemId) {
+        query = query.eq("id", itemId);
+      }
+      const terms = toSearchQuery(search);
+      if (terms) query = query.textSearch("search_vector", terms, SEARCH_OPTIONS);
+      // Spam is only listed when filtered for, or when linked to directly
+      if (status !== "all") query = query.eq("status", status);
+      else if (!itemId) query = query.neq("status", "spam");
+      if (tag) query = query.contains("tags", [tag]);
+      if (from) query = query.gte("created_at", toStartOfDay(from));
+      if (to) query = query.lt("created_at", toEndOfDay(to));
+
+      const { data, count, error } = await query;
 
       if (error) throw error;
-      return data;
+      return { rows: data, total: count ?? 0 };
+    },
+    placeholderData: keepPreviousData,
+  });
+  const contacts = data?.rows;
+  const selection = useRowSelection(contacts?.map((contact) => contact.id) ?? []);
+
+  const updateStatus = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: InboxStatus }) =>
+      updateInboxStatus("contact", id, status),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
+      toast({ title: "Status updated" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update status", variant: "destructive" });
     },
   });
 
@@ -41,7 +105,10 @@ const ContactRequests = () => {
       if (error) throw error;
     },
     onSuccess: () => {
+      // Step back when the last row of a page is removed; PostgREST rejects a range past the end
+      if (contacts?.length === 1 && page > 1) table.setPage(page - 1);
       queryClient.invalidateQueries({ queryKey: ["admin-contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
       toast({ title: "Contact request deleted" });
     },
     onError: () => {
@@ -61,32 +128,56 @@ const ContactRequests = () => {
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">Contact Requests</h1>
-        <span className="text-sm text-muted-foreground">
-          {contacts?.length || 0} total requests
-        </span>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">
+            {data?.total || 0} {isFiltered ? "matching" : "total"} requests
+          </span>
+          <ExportDialog formType="contact_requests" filters={toExportFilters({ search, status, tag, from, to })} />
+        </div>
+      </div>
+
+      {itemId && <SingleItemNotice path={INBOX_TYPES.contact.path} />}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <DataTableSearch value={search} onChange={table.setSearch} placeholder="Search names, emails and messages" />
+        <InboxStatusFilter value={status} onChange={(value) => table.setFilter("status", value)} />
+        <TagFilter value={tag} onClear={() => table.setFilter("tag", "", "")} />
+        <DateRangeFilter from={from} to={to} onChange={(range) => table.setFilters(range)} />
       </div>
 
+      <BulkActionsBar
+        type="contact"
+        selection={selection}
+        onDeleted={(count) => {
+          if (count >= (contacts?.length ?? 0) && page > 1) table.setPage(page - 1);
+        }}
+      />
+
       {contacts && contacts.length > 0 ? (
         <div className="bg-background border border-border rounded-lg overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-secondary/50">
                 <tr>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  <SelectAllHeader selection={selection} />
+                  <SortableHeader column="name" table={table}>
                     Name
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="email" table={table}>
                     Email
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="purpose" table={table}>
                     Purpose
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="created_at" table={table}>
                     Date
-                  </th>
+                  </SortableHeader>
                   <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
                     Message
                   </th>
+                  <SortableHeader column="status" table={table}>
+                    Status
+                  </SortableHeader>
                   <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
                     Actions
                   </th>
@@ -95,8 +186,10 @@ const ContactRequests = () => {
               <tbody className="divide-y divide-border">
                 {contacts.map((contact) => (
                   <tr key={contact.id} className="hover:bg-secondary/30 transition-colors">
+                    <SelectRowCell selection={selection} id={contact.id} label={contact.name} />
                     <td className="px-6 py-4">
                       <span className="font-medium">{contact.name}</span>
+                      <InboxTags tags={contact.tags} onSelect={(value) => table.setFilter("tag", value, "")} />
                     </td>
                     <td className="px-6 py-4">
                       <a
@@ -120,6 +213,19 @@ const ContactRequests = () => {
                         {contact.message}
                       </p>
                     </td>
+                    <td className="px-6 py-4">
+                      <InboxStatusSelect
+                        value={contact.status}
+                        onChange={(status) => updateStatus.mutate({ id: contact.id, status })}
+                      />
+                      <SpamReview
+                        status={contact.status}
+                        score={contact.spam_score}
+                        reasons={contact.spam_reasons}
+                        onRelease={() => updateStatus.mutate({ id: contact.id, status: "new" })}
+                        disabled={updateStatus.isPending}
+                      />
+                    </td>
                     <td className="px-6 py-4">
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
@@ -151,6 +257,13 @@ const ContactRequests = () => {
               </tbody>
             </table>
           </div>
+          <DataTablePagination table={table} total={data?.total || 0} />
+        </div>
+      ) : isFiltered ? (
+        <div className="text-center py-12 bg-secondary/30 rounded-lg">
+          <Mail size={48} className="mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">No matching contact requests</h3>
+          <p className="text-muted-foreground">Try a different search or clear the filters.</p>
         </div>
       ) : (
         <div className="text-center py-12 bg-secondary/30 rounded-lg">
@@ -14,6 +14,9 @@ import {
   ChevronRight,
   ClipboardList,
   Inbox,
+  Webhook,
+  MessagesSquare,
+  ShieldAlert,
 } from "lucide-react";
 import { BookOpen, FileEdit } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
@@ -29,9 +32,13 @@ import FormManagement from "./FormManagement";
 import FormSubmissions from "./FormSubmissions";
 import ProgramManagement from "./ProgramManagement";
 import BlogManagement from "./BlogManagement";
+import Webhooks from "./Webhooks";
+import RateLimits from "./RateLimits";
+import AdminInbox from "./Inbox";
 
 const sidebarLinks = [
   { name: "Overview", path: "/admin", icon: LayoutDashboard },
+  { name: "Inbox", path: "/admin/inbox", icon: MessagesSquare },
   { name: "Contact Requests", path: "/admin/contacts", icon: Mail },
   { name: "Career Applications", path: "/admin/careers", icon: Briefcase },
   { name: "NowRise Applications", path: "/admin/nowrise", icon: GraduationCap },
@@ -41,6 +48,8 @@ const sidebarLinks = [
   { name: "Content", path: "/admin/content", icon: FileText },
   { name: "Forms", path: "/admin/forms", icon: ClipboardList },
   { name: "Form Submissions", path: "/admin/submissions", icon: Inbox },
+  { name: "Webhooks", path: "/admin/webhooks", icon: Webhook },
+  { name: "Rate Limits", path: "/admin/rate-limits", icon: ShieldAlert },
 ];
 
 const AdminDashboard = () => {
@@ -155,6 +164,7 @@ const AdminDashboard = () => {
         <div className="p-6">
           <Routes>
             <Route path="/" element={<AdminOverview />} />
+            <Route path="/inbox" element={<AdminInbox />} />
             <Route path="/contacts" element={<ContactRequests />} />
             <Route path="/careers" element={<CareerApplications />} />
             <Route path="/nowrise" element={<NowRiseApplications />} />
@@ -164,6 +174,8 @@ const AdminDashboard = () => {
             <Route path="/content" element={<ContentManagement />} />
             <Route path="/forms" element={<FormManagement />} />
             <Route path="/submissions" element={<FormSubmissions />} />
+            <Route path="/webhooks" element={<Webhooks />} />
+            <Route path="/rate-limits" element={<RateLimits />} />
           </Routes>
         </div>
       </main>
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import {
   Plus,
   Trash2,
@@ -27,6 +28,15 @@ import {
   FileText,
   ExternalLink,
   Clipboard,
+  GitBranch,
+  Layers,
+  Paperclip,
+  Upload,
+  Download,
+  LayoutTemplate,
+  Gauge,
+  Grid3x3,
+  ListOrdered,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
@@ -57,47 +67,45 @@ import {
 } from "@/components/ui/dialog";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-interface FormField {
-  id: string;
-  label: string;
-  type: "text" | "email" | "textarea" | "select" | "phone" | "number" | "date" | "url" | "checkbox" | "radio" | "rating";
-  required: boolean;
-  options?: string[];
-  placeholder?: string;
-  helpText?: string;
-  validation?: {
-    minLength?: number;
-    maxLength?: number;
-    pattern?: string;
-  };
-}
+import {
+  DEFAULT_FILE_TYPES,
+  DEFAULT_LIKERT_SCALE,
+  MAX_FILE_SIZE_MB,
+  MAX_FILES_PER_FIELD,
+  getPatternError,
+  getPrefillKey,
+  isHiddenField,
+  type FormField,
+} from "@shared/custom-forms";
+import { FieldLogicEditor } from "@/components/forms/FieldLogicEditor";
+import { FormVersionHistory, type FormVersion } from "@/components/forms/FormVersionHistory";
+import { FormAnalytics } from "@/components/forms/FormAnalytics";
+import { FormEmailSettings } from "@/components/forms/FormEmailSettings";
+import { FormTemplateGallery } from "@/components/forms/FormTemplateGallery";
+import { FormEmbedSettings } from "@/components/forms/FormEmbedSettings";
+import { FormPlacementsEditor } from "@/components/forms/FormPlacementsEditor";
+import { LikertInput, NpsInput, RankingInput } from "@/components/forms/SurveyInputs";
+import { downloadFormDefinition, type FormDefinitionContent } from "@/lib/form-definition";
+import { hasDuplicatePlacements, saveFormPlacements, type FormPlacement } from "@/lib/form-placements";
 
 interface CustomForm {
   id: string;
   form_name: string;
   description: string | null;
   fields: FormField[];
-  target_pages: string[];
-  display_types: string[];
+  placements: FormPlacement[];
   is_published: boolean;
   popup_trigger_text: string | null;
   section_title: string | null;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_submissions: number | null;
+  one_response_per_email: boolean;
+  embed_domains: string[];
   created_at: string;
   updated_at: string;
 }
 
-const availablePages = [
-  { value: "home", label: "Home Page" },
-  { value: "services", label: "Services" },
-  { value: "ai-consulting", label: "AI Consulting" },
-  { value: "talent-solutions", label: "Talent Solutions" },
-  { value: "nowrise-institute", label: "NowRise Institute" },
-  { value: "careers", label: "Careers" },
-  { value: "about", label: "About" },
-  { value: "contact", label: "Contact" },
-];
-
 const fieldTypes = [
   { value: "text", label: "Short Answer", icon: Type },
   { value: "textarea", label: "Paragraph", icon: AlignLeft },
@@ -110,8 +118,20 @@ const fieldTypes = [
   { value: "radio", label: "Multiple Choice", icon: CheckSquare },
   { value: "checkbox", label: "Checkboxes", icon: CheckSquare },
   { value: "rating", label: "Rating", icon: Star },
+  { value: "nps", label: "Net Promoter Score", icon: Gauge },
+  { value: "likert", label: "Likert Grid", icon: Grid3x3 },
+  { value: "ranking", label: "Ranking", icon: ListOrdered },
+  { value: "file", label: "File Upload", icon: Paperclip },
+  { value: "hidden", label: "Hidden Field", icon: EyeOff },
+  { value: "section", label: "Section Break", icon: Layers },
 ];
 
+// datetime-local inputs work in local time without a zone; the database stores UTC
+const toLocalInput = (value: string | null | undefined) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
 const FormManagement = () => {
   const queryClient = useQueryClient();
   const [selectedForm, setSelectedForm] = useState<CustomForm | null>(null);
@@ -121,44 +141,72 @@ const FormManagement = () => {
   const [expandedField, setExpandedField] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [showFieldTypes, setShowFieldTypes] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
 
   const { data: forms, isLoading } = useQuery({
     queryKey: ["admin-custom-forms"],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("custom_forms")
-        .select("*")
+        .select("*, custom_form_placements(*)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-      return (data || []).map((form) => ({
+      return (data || []).map(({ custom_form_placements, ...form }) => ({
         ...form,
         fields: (form.fields as unknown as FormField[]) || [],
-        target_pages: form.target_page ? form.target_page.split(",").filter(Boolean) : [],
-        display_types: form.display_type ? form.display_type.split(",").filter(Boolean) : ["popup"],
+        placements: [...custom_form_placements].sort((a, b) => a.sort_order - b.sort_order),
       })) as CustomForm[];
     },
   });
 
+  // Polled so the remaining capacity stays current while registrations come in
+  const { data: submissionCount } = useQuery({
+    queryKey: ["admin-form-submission-count", editingForm?.id],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("form_submissions")
+        .select("id", { count: "exact", head: true })
+        .eq("form_id", editingForm!.id!);
+
+      if (error) throw error;
+      return count || 0;
+    },
+    enabled: !!editingForm?.id,
+    refetchInterval: 15000,
+  });
+
+  // Creates a blank form from a name, or a draft from a template or imported definition
   const createForm = useMutation({
-    mutationFn: async (formName: string) => {
+    mutationFn: async (form: Partial<FormDefinitionContent> & { form_name: string }) => {
       const { data, error } = await supabase
         .from("custom_forms")
         .insert({
-          form_name: formName,
-          target_page: "home",
-          display_type: "popup",
-          fields: [] as unknown as never,
+          form_name: form.form_name,
+          description: form.description,
+          fields: (form.fields || []) as unknown as never,
+          popup_trigger_text: form.popup_trigger_text,
+          section_title: form.section_title,
+          max_submissions: form.max_submissions,
+          one_response_per_email: form.one_response_per_email,
         })
         .select()
         .single();
 
       if (error) throw error;
+      await saveFormPlacements(data.id, form.placements || []);
+
+      const { data: placements, error: placementsError } = await supabase
+        .from("custom_form_placements")
+        .select("*")
+        .eq("form_id", data.id)
+        .order("sort_order");
+
+      if (placementsError) throw placementsError;
       return {
         ...data,
         fields: (data.fields as unknown as FormField[]) || [],
-        target_pages: data.target_page ? data.target_page.split(",").filter(Boolean) : [],
-        display_types: data.display_type ? data.display_type.split(",").filter(Boolean) : ["popup"],
+        placements: placements || [],
       } as CustomForm;
     },
     onSuccess: (data) => {
@@ -166,6 +214,7 @@ const FormManagement = () => {
       toast({ title: "Form created successfully!" });
       setNewFormName("");
       setIsCreating(false);
+      setShowTemplates(false);
       setSelectedForm(data);
       setEditingForm(data);
     },
@@ -182,19 +231,24 @@ const FormManagement = () => {
           form_name: form.form_name,
           description: form.description,
           fields: form.fields as unknown as never,
-          target_page: form.target_pages?.filter(Boolean).join(",") || "",
-          display_type: form.display_types?.filter(Boolean).join(",") || "popup",
           is_published: form.is_published,
           popup_trigger_text: form.popup_trigger_text,
           section_title: form.section_title,
+          opens_at: form.opens_at || null,
+          closes_at: form.closes_at || null,
+          max_submissions: form.max_submissions || null,
+          one_response_per_email: form.one_response_per_email ?? false,
+          embed_domains: form.embed_domains || [],
         })
         .eq("id", form.id);
 
       if (error) throw error;
+      if (form.placements) await saveFormPlacements(form.id, form.placements);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-custom-forms"] });
       queryClient.invalidateQueries({ queryKey: ["published-forms"] });
+      queryClient.invalidateQueries({ queryKey: ["form-versions"] });
       toast({ title: "Form saved successfully!" });
     },
     onError: () => {
@@ -225,17 +279,24 @@ const FormManagement = () => {
         .insert({
           form_name: `${form.form_name} (Copy)`,
           description: form.description,
-          target_page: form.target_pages.join(","),
-          display_type: form.display_types.join(","),
           fields: form.fields as unknown as never,
           is_published: false,
           popup_trigger_text: form.popup_trigger_text,
           section_title: form.section_title,
+          opens_at: form.opens_at,
+          closes_at: form.closes_at,
+          max_submissions: form.max_submissions,
+          one_response_per_email: form.one_response_per_email,
+          embed_domains: form.embed_domains,
         })
         .select()
         .single();
 
       if (error) throw error;
+      await saveFormPlacements(
+        data.id,
+        form.placements.map(({ id: _id, form_id: _formId, ...placement }) => placement)
+      );
       return data;
     },
     onSuccess: () => {
@@ -253,7 +314,12 @@ const FormManagement = () => {
       type,
       required: false,
       placeholder: "",
-      options: ["select", "radio", "checkbox"].includes(type) ? ["Option 1", "Option 2", "Option 3"] : undefined,
+      options: ["select", "radio", "checkbox", "ranking"].includes(type)
+        ? ["Option 1", "Option 2", "Option 3"]
+        : type === "likert"
+          ? [...DEFAULT_LIKERT_SCALE]
+          : undefined,
+      rows: type === "likert" ? ["Statement 1", "Statement 2"] : undefined,
     };
 
     setEditingForm({
@@ -278,15 +344,31 @@ const FormManagement = () => {
       radio: "Choose One",
       checkbox: "Select Multiple",
       rating: "Rating",
+      nps: "How likely are you to recommend us to a friend or colleague?",
+      likert: "How much do you agree with the following?",
+      ranking: "Rank these in order of preference",
+      file: "Upload a File",
+      hidden: "Hidden Field",
+      section: "New Section",
     };
     return labels[type] || "Question";
   };
 
   const handleRemoveField = (fieldId: string) => {
     if (!editingForm) return;
+    // Drop conditions that point at the removed question so no rule is left dangling
+    const fields = (editingForm.fields || [])
+      .filter((f) => f.id !== fieldId)
+      .map((f) => {
+        if (!f.rules) return f;
+        const rules = f.rules
+          .map((rule) => ({ ...rule, conditions: rule.conditions.filter((c) => c.fieldId !== fieldId) }))
+          .filter((rule) => rule.conditions.length > 0);
+        return { ...f, rules: rules.length > 0 ? rules : undefined };
+      });
     setEditingForm({
       ...editingForm,
-      fields: editingForm.fields?.filter((f) => f.id !== fieldId) || [],
+      fields,
     });
     if (expandedField === fieldId) setExpandedField(null);
   };
@@ -308,6 +390,22 @@ const FormManagement = () => {
     });
   };
 
+  const handleUpdateValidation = (field: FormField, updates: Partial<NonNullable<FormField["validation"]>>) => {
+    const validation = { ...field.validation, ...updates };
+    (Object.keys(validation) as (keyof typeof validation)[]).forEach((key) => {
+      if (validation[key] === undefined) delete validation[key];
+    });
+    handleUpdateField(field.id, { validation: Object.keys(validation).length > 0 ? validation : undefined });
+  };
+
+  const handleUpdateFileSettings = (field: FormField, updates: Partial<NonNullable<FormField["file"]>>) => {
+    const file = { ...field.file, ...updates };
+    (Object.keys(file) as (keyof typeof file)[]).forEach((key) => {
+      if (file[key] === undefined) delete file[key];
+    });
+    handleUpdateField(field.id, { file: Object.keys(file).length > 0 ? file : undefined });
+  };
+
   const handleUpdateOption = (fieldId: string, optionIndex: number, value: string) => {
     if (!editingForm) return;
     setEditingForm({
@@ -354,7 +452,40 @@ const FormManagement = () => {
     setEditingForm({ ...editingForm, fields: newOrder });
   };
 
+  // Restoring only replaces the draft; saving a published form snapshots it as a new version
+  const handleRestoreVersion = (version: FormVersion) => {
+    if (!editingForm) return;
+    setEditingForm({ ...editingForm, fields: version.fields || [] });
+    setExpandedField(null);
+    toast({
+      title: `Version ${version.version} restored`,
+      description: "Save the form to make it live.",
+    });
+  };
+
   const handleSave = () => {
+    if (
+      editingForm?.opens_at &&
+      editingForm.closes_at &&
+      new Date(editingForm.opens_at) >= new Date(editingForm.closes_at)
+    ) {
+      toast({ title: "The closing time must be after the opening time", variant: "destructive" });
+      return;
+    }
+    if (editingForm?.placements && hasDuplicatePlacements(editingForm.placements)) {
+      toast({ title: "Each page can show the form only once per display style", variant: "destructive" });
+      return;
+    }
+    const badPattern = editingForm?.fields?.find((field) => field.validation?.pattern && getPatternError(field.validation.pattern));
+    if (badPattern) {
+      toast({
+        title: `"${badPattern.label}" has an unusable pattern`,
+        description: getPatternError(badPattern.validation.pattern),
+        variant: "destructive",
+      });
+      setExpandedField(badPattern.id);
+      return;
+    }
     if (editingForm && editingForm.id) {
       updateForm.mutate(editingForm as CustomForm);
     }
@@ -416,8 +547,34 @@ const FormManagement = () => {
             ))}
           </div>
         );
+      case "nps":
+        return <NpsInput onChange={() => undefined} />;
+      case "likert":
+        return <LikertInput field={field} onChange={() => undefined} />;
+      case "ranking":
+        return <RankingInput field={field} onChange={() => undefined} />;
       case "date":
         return <input type="date" className={baseInputClass} disabled />;
+      case "file":
+        return (
+          <div className="flex flex-col items-center gap-1 px-4 py-5 rounded-lg border-2 border-dashed border-border text-muted-foreground">
+            <Upload size={20} />
+            <span className="text-sm">Choose a file</span>
+          </div>
+        );
+      case "section":
+        return (
+          <p className="text-sm text-muted-foreground">
+            {field.helpText || "Questions below this start a new step."}
+          </p>
+        );
+      case "hidden":
+        return (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <EyeOff size={14} />
+            Not shown to visitors. Set from the link with ?{getPrefillKey(field)}=value
+          </p>
+        );
       default:
         return <input type={field.type} placeholder={field.placeholder || "Your answer..."} className={baseInputClass} disabled />;
     }
@@ -445,8 +602,25 @@ const FormManagement = () => {
                 <Eye size={16} />
                 Preview
               </button>
+              {editingForm.id && (
+                <button
+                  onClick={() => downloadFormDefinition(editingForm as CustomForm)}
+                  className="flex items-center gap-2 px-4 py-2 text-sm border border-border rounded-lg hover:bg-secondary transition-colors"
+                  title="Download this form as JSON"
+                >
+                  <Download size={16} />
+                  Export
+                </button>
+              )}
             </>
           )}
+          <button
+            onClick={() => setShowTemplates(true)}
+            className="flex items-center gap-2 px-4 py-2 text-sm border border-border rounded-lg hover:bg-secondary transition-colors"
+          >
+            <LayoutTemplate size={16} />
+            Templates
+          </button>
           <button
             onClick={() => setIsCreating(true)}
             className="btn-gold flex items-center gap-2 text-sm"
@@ -468,12 +642,12 @@ const FormManagement = () => {
             placeholder="Enter form name..."
             value={newFormName}
             onChange={(e) => setNewFormName(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && newFormName.trim() && createForm.mutate(newFormName)}
+            onKeyDown={(e) => e.key === "Enter" && newFormName.trim() && createForm.mutate({ form_name: newFormName })}
             autoFocus
             className="flex-1 px-4 py-2 rounded-lg border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
           />
           <button
-            onClick={() => createForm.mutate(newFormName)}
+            onClick={() => createForm.mutate({ form_name: newFormName })}
             disabled={!newFormName.trim()}
             className="p-2 text-primary hover:bg-primary/10 rounded-lg transition-colors disabled:opacity-50"
           >
@@ -622,6 +796,13 @@ const FormManagement = () => {
                       </a>
                     </div>
                   )}
+                  {editingForm.id && (
+                    <span className="text-xs px-2 py-1 rounded-lg bg-secondary/50 text-muted-foreground">
+                      {editingForm.max_submissions
+                        ? `${Math.max(editingForm.max_submissions - (submissionCount || 0), 0)} of ${editingForm.max_submissions} spots left`
+                        : `${submissionCount || 0} responses`}
+                    </span>
+                  )}
                   <div className="flex items-center gap-2">
                     <span className="text-sm text-muted-foreground">
                       {editingForm.is_published ? "Published" : "Draft"}
@@ -647,6 +828,9 @@ const FormManagement = () => {
                   <TabsList className="mb-4">
                     <TabsTrigger value="fields">Fields</TabsTrigger>
                     <TabsTrigger value="settings">Settings</TabsTrigger>
+                    {editingForm.id && <TabsTrigger value="emails">Emails</TabsTrigger>}
+                    {editingForm.id && <TabsTrigger value="history">History</TabsTrigger>}
+                    {editingForm.id && <TabsTrigger value="analytics">Analytics</TabsTrigger>}
                   </TabsList>
 
                   <TabsContent value="fields" className="mt-0">
@@ -674,7 +858,9 @@ const FormManagement = () => {
                             <Reorder.Item
                               key={field.id}
                               value={field}
-                              className="bg-secondary/30 rounded-xl border border-border overflow-hidden"
+                              className={`rounded-xl border overflow-hidden ${
+                                field.type === "section" ? "bg-primary/5 border-primary/30" : "bg-secondary/30 border-border"
+                              }`}
                             >
                               <div className="p-4">
                                 <div className="flex items-start gap-3">
@@ -689,11 +875,17 @@ const FormManagement = () => {
                                         value={field.label}
                                         onChange={(e) => handleUpdateField(field.id, { label: e.target.value })}
                                         className="flex-1 font-medium bg-transparent border-b border-transparent hover:border-border focus:border-primary focus:outline-none transition-colors"
-                                        placeholder="Question..."
+                                        placeholder={field.type === "section" ? "Section title..." : "Question..."}
                                       />
                                       {field.required && (
                                         <span className="text-destructive">*</span>
                                       )}
+                                      {field.rules && field.rules.length > 0 && (
+                                        <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 bg-primary/10 text-primary rounded font-medium">
+                                          <GitBranch size={10} />
+                                          LOGIC
+                                        </span>
+                                      )}
                                     </div>
                                     
                                     {/* Field Preview */}
@@ -701,8 +893,44 @@ const FormManagement = () => {
                                       {renderFieldPreview(field)}
                                     </div>
 
-                                    {/* Field Options for select/radio/checkbox */}
-                                    {["select", "radio", "checkbox"].includes(field.type) && (
+                                    {/* Statements of a Likert grid; its options below are the scale */}
+                                    {field.type === "likert" && (
+                                      <div className="space-y-2 mb-3">
+                                        <label className="block text-xs text-muted-foreground">Statements</label>
+                                        {(field.rows || []).map((row, i) => (
+                                          <div key={i} className="flex items-center gap-2">
+                                            <span className="text-xs text-muted-foreground w-4">{i + 1}.</span>
+                                            <input
+                                              type="text"
+                                              value={row}
+                                              onChange={(e) => handleUpdateField(field.id, {
+                                                rows: (field.rows || []).map((r, j) => (j === i ? e.target.value : r)),
+                                              })}
+                                              className="flex-1 px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                            />
+                                            <button
+                                              onClick={() => handleUpdateField(field.id, { rows: (field.rows || []).filter((_, j) => j !== i) })}
+                                              className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                                              disabled={(field.rows?.length || 0) <= 1}
+                                            >
+                                              <X size={14} />
+                                            </button>
+                                          </div>
+                                        ))}
+                                        <button
+                                          onClick={() => handleUpdateField(field.id, {
+                                            rows: [...(field.rows || []), `Statement ${(field.rows?.length || 0) + 1}`],
+                                          })}
+                                          className="text-sm text-primary hover:underline"
+                                        >
+                                          + Add statement
+                                        </button>
+                                        <label className="block text-xs text-muted-foreground pt-2">Scale</label>
+                                      </div>
+                                    )}
+
+                                    {/* Field Options for select/radio/checkbox/ranking, and the Likert scale */}
+                                    {["select", "radio", "checkbox", "ranking", "likert"].includes(field.type) && (
                                       <div className="space-y-2 mb-3">
                                         {field.options?.map((opt, i) => (
                                           <div key={i} className="flex items-center gap-2">
@@ -789,24 +1017,142 @@ const FormManagement = () => {
                                             </SelectContent>
                                           </Select>
                                         </div>
-                                        <div>
-                                          <label className="block text-xs text-muted-foreground mb-1">Placeholder</label>
+                                        {field.type !== "section" && field.type !== "hidden" && (
+                                          <>
+                                            <div>
+                                              <label className="block text-xs text-muted-foreground mb-1">Placeholder</label>
+                                              <input
+                                                type="text"
+                                                value={field.placeholder || ""}
+                                                onChange={(e) => handleUpdateField(field.id, { placeholder: e.target.value })}
+                                                placeholder="Placeholder text..."
+                                                className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                              />
+                                            </div>
+                                            <div className="flex items-end">
+                                              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                                <Switch
+                                                  checked={field.required}
+                                                  onCheckedChange={(checked) => handleUpdateField(field.id, { required: checked })}
+                                                />
+                                                Required
+                                              </label>
+                                            </div>
+                                          </>
+                                        )}
+                                        <div className="md:col-span-3">
+                                          <label className="block text-xs text-muted-foreground mb-1">
+                                            {field.type === "section" ? "Description" : "Help Text"}
+                                          </label>
                                           <input
                                             type="text"
-                                            value={field.placeholder || ""}
-                                            onChange={(e) => handleUpdateField(field.id, { placeholder: e.target.value })}
-                                            placeholder="Placeholder text..."
+                                            value={field.helpText || ""}
+                                            onChange={(e) => handleUpdateField(field.id, { helpText: e.target.value })}
+                                            placeholder={field.type === "section" ? "Shown at the top of this step..." : "Shown below the question..."}
                                             className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
                                           />
                                         </div>
-                                        <div className="flex items-end">
-                                          <label className="flex items-center gap-2 text-sm cursor-pointer">
-                                            <Switch
-                                              checked={field.required}
-                                              onCheckedChange={(checked) => handleUpdateField(field.id, { required: checked })}
+                                        {!["section", "file", "likert", "ranking"].includes(field.type) && (
+                                          <div className="md:col-span-3">
+                                            <label className="block text-xs text-muted-foreground mb-1">Prefill Key</label>
+                                            <input
+                                              type="text"
+                                              value={field.prefillKey || ""}
+                                              onChange={(e) => handleUpdateField(field.id, { prefillKey: e.target.value.replace(/[^A-Za-z0-9_-]/g, "") || undefined })}
+                                              placeholder={field.id}
+                                              maxLength={64}
+                                              className="w-full px-3 py-2 text-sm font-mono rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
                                             />
-                                            Required
-                                          </label>
+                                            <p className="text-xs text-muted-foreground mt-1">
+                                              Add <code>?{getPrefillKey(field)}=value</code> to the form link to fill this in
+                                            </p>
+                                          </div>
+                                        )}
+                                        {["text", "textarea", "hidden"].includes(field.type) && (
+                                          <>
+                                            <div>
+                                              <label className="block text-xs text-muted-foreground mb-1">Min Length</label>
+                                              <input
+                                                type="number"
+                                                min={0}
+                                                value={field.validation?.minLength ?? ""}
+                                                onChange={(e) => handleUpdateValidation(field, { minLength: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                                className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                              />
+                                            </div>
+                                            <div>
+                                              <label className="block text-xs text-muted-foreground mb-1">Max Length</label>
+                                              <input
+                                                type="number"
+                                                min={1}
+                                                value={field.validation?.maxLength ?? ""}
+                                                onChange={(e) => handleUpdateValidation(field, { maxLength: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                                className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                              />
+                                            </div>
+                                            <div>
+                                              <label className="block text-xs text-muted-foreground mb-1">Pattern (regex)</label>
+                                              <input
+                                                type="text"
+                                                value={field.validation?.pattern || ""}
+                                                onChange={(e) => handleUpdateValidation(field, { pattern: e.target.value || undefined })}
+                                                placeholder="e.g. [A-Z]{2}\d{4}"
+                                                className="w-full px-3 py-2 text-sm font-mono rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                              />
+                                              {field.validation?.pattern && getPatternError(field.validation.pattern) && (
+                                                <p className="mt-1 text-xs text-destructive">{getPatternError(field.validation.pattern)}</p>
+                                              )}
+                                            </div>
+                                          </>
+                                        )}
+                                        {field.type === "file" && (
+                                          <>
+                                            <div>
+                                              <label className="block text-xs text-muted-foreground mb-1">Allowed Types</label>
+                                              <input
+                                                type="text"
+                                                value={field.file?.accept?.join(", ") || ""}
+                                                onChange={(e) => {
+                                                  const accept = e.target.value.split(",").map((t) => t.trim()).filter(Boolean);
+                                                  handleUpdateFileSettings(field, { accept: accept.length > 0 ? accept : undefined });
+                                                }}
+                                                placeholder={DEFAULT_FILE_TYPES.slice(0, 2).join(", ")}
+                                                className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                              />
+                                            </div>
+                                            <div>
+                                              <label className="block text-xs text-muted-foreground mb-1">Max Size (MB)</label>
+                                              <input
+                                                type="number"
+                                                min={1}
+                                                max={MAX_FILE_SIZE_MB}
+                                                value={field.file?.maxSizeMb ?? ""}
+                                                onChange={(e) => handleUpdateFileSettings(field, { maxSizeMb: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                                placeholder={String(MAX_FILE_SIZE_MB)}
+                                                className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                              />
+                                            </div>
+                                            <div>
+                                              <label className="block text-xs text-muted-foreground mb-1">Max Files</label>
+                                              <input
+                                                type="number"
+                                                min={1}
+                                                max={MAX_FILES_PER_FIELD}
+                                                value={field.file?.maxFiles ?? ""}
+                                                onChange={(e) => handleUpdateFileSettings(field, { maxFiles: e.target.value === "" ? undefined : Number(e.target.value) })}
+                                                placeholder="1"
+                                                className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                              />
+                                            </div>
+                                          </>
+                                        )}
+                                        <div className="md:col-span-3">
+                                          <label className="block text-xs text-muted-foreground mb-2">Conditional Logic</label>
+                                          <FieldLogicEditor
+                                            field={field}
+                                            fields={editingForm.fields || []}
+                                            onChange={(rules) => handleUpdateField(field.id, { rules })}
+                                          />
                                         </div>
                                       </div>
                                     </motion.div>
@@ -861,82 +1207,14 @@ const FormManagement = () => {
 
                   <TabsContent value="settings" className="mt-0">
                     <div className="space-y-6">
-                      {/* Target Pages */}
-                      <div>
-                        <label className="block text-sm font-medium mb-2">Display on Pages</label>
-                        <p className="text-xs text-muted-foreground mb-3">Select where this form should appear</p>
-                        <div className="flex flex-wrap gap-2">
-                          {availablePages.map((page) => {
-                            const isSelected = editingForm.target_pages?.includes(page.value);
-                            return (
-                              <button
-                                key={page.value}
-                                type="button"
-                                onClick={() => {
-                                  const currentPages = editingForm.target_pages || [];
-                                  const newPages = isSelected
-                                    ? currentPages.filter((p) => p !== page.value)
-                                    : [...currentPages, page.value];
-                                  setEditingForm({ ...editingForm, target_pages: newPages });
-                                }}
-                                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                                  isSelected
-                                    ? "bg-primary text-primary-foreground"
-                                    : "bg-secondary text-muted-foreground hover:bg-secondary/80"
-                                }`}
-                              >
-                                {page.label}
-                              </button>
-                            );
-                          })}
-                        </div>
-                      </div>
-
-                      {/* Display Type */}
-                      <div>
-                        <label className="block text-sm font-medium mb-2">Display Style</label>
-                        <p className="text-xs text-muted-foreground mb-3">How should this form be displayed?</p>
-                        <div className="grid grid-cols-2 gap-4">
-                          {[
-                            { value: "popup", label: "Popup Modal", desc: "Floating button that opens form in a modal" },
-                            { value: "section", label: "Page Section", desc: "Embedded section within the page" },
-                          ].map((type) => {
-                            const isSelected = editingForm.display_types?.includes(type.value);
-                            return (
-                              <button
-                                key={type.value}
-                                type="button"
-                                onClick={() => {
-                                  const currentTypes = editingForm.display_types || [];
-                                  let newTypes: string[];
-                                  if (isSelected) {
-                                    // Don't allow deselecting if it's the only one selected
-                                    if (currentTypes.length <= 1) {
-                                      toast({ title: "At least one display type is required", variant: "destructive" });
-                                      return;
-                                    }
-                                    newTypes = currentTypes.filter((t) => t !== type.value);
-                                  } else {
-                                    newTypes = [...currentTypes, type.value];
-                                  }
-                                  setEditingForm({ ...editingForm, display_types: newTypes });
-                                }}
-                                className={`p-4 rounded-xl border-2 text-left transition-all ${
-                                  isSelected
-                                    ? "border-primary bg-primary/5"
-                                    : "border-border hover:border-primary/50"
-                                }`}
-                              >
-                                <div className="font-medium mb-1">{type.label}</div>
-                                <div className="text-xs text-muted-foreground">{type.desc}</div>
-                              </button>
-                            );
-                          })}
-                        </div>
-                      </div>
+                      <FormPlacementsEditor
+                        formId={editingForm.id!}
+                        placements={editingForm.placements || []}
+                        onChange={(placements) => setEditingForm({ ...editingForm, placements })}
+                      />
 
                       {/* Popup Settings */}
-                      {editingForm.display_types?.includes("popup") && (
+                      {editingForm.placements?.some((p) => p.display_mode === "floating_button") && (
                         <div>
                           <label className="block text-sm font-medium mb-2">Popup Button Text</label>
                           <input
@@ -950,7 +1228,7 @@ const FormManagement = () => {
                       )}
 
                       {/* Section Settings */}
-                      {editingForm.display_types?.includes("section") && (
+                      {editingForm.placements?.some((p) => p.display_mode === "section") && (
                         <div>
                           <label className="block text-sm font-medium mb-2">Section Title</label>
                           <input
@@ -962,8 +1240,101 @@ const FormManagement = () => {
                           />
                         </div>
                       )}
+
+                      {/* Availability */}
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Availability</label>
+                        <p className="text-xs text-muted-foreground mb-3">
+                          Limit when and how many times this form can be submitted. Leave blank for no limit.
+                        </p>
+                        <div className="grid md:grid-cols-3 gap-4">
+                          <div>
+                            <label className="block text-xs text-muted-foreground mb-1">Opens At</label>
+                            <input
+                              type="datetime-local"
+                              value={toLocalInput(editingForm.opens_at)}
+                              onChange={(e) => setEditingForm({ ...editingForm, opens_at: fromLocalInput(e.target.value) })}
+                              className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-muted-foreground mb-1">Closes At</label>
+                            <input
+                              type="datetime-local"
+                              value={toLocalInput(editingForm.closes_at)}
+                              onChange={(e) => setEditingForm({ ...editingForm, closes_at: fromLocalInput(e.target.value) })}
+                              className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-muted-foreground mb-1">Max Submissions</label>
+                            <input
+                              type="number"
+                              min={1}
+                              value={editingForm.max_submissions ?? ""}
+                              onChange={(e) =>
+                                setEditingForm({
+                                  ...editingForm,
+                                  max_submissions: e.target.value === "" ? null : Math.max(1, Number(e.target.value)),
+                                })
+                              }
+                              placeholder="Unlimited"
+                              className="w-full px-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
+                            />
+                            {editingForm.max_submissions && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {submissionCount || 0} received &middot;{" "}
+                                {Math.max(editingForm.max_submissions - (submissionCount || 0), 0)} remaining
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm cursor-pointer mt-4">
+                          <Switch
+                            checked={editingForm.one_response_per_email ?? false}
+                            onCheckedChange={(checked) => setEditingForm({ ...editingForm, one_response_per_email: checked })}
+                          />
+                          One response per email address
+                        </label>
+                        {editingForm.one_response_per_email &&
+                          !editingForm.fields?.some((field) => field.type === "email") && (
+                            <p className="text-xs text-destructive mt-2">
+                              Add an Email question so responses can be matched to an address.
+                            </p>
+                          )}
+                      </div>
+
+                      <FormEmbedSettings
+                        key={editingForm.id || "new"}
+                        formId={editingForm.id}
+                        isPublished={!!editingForm.is_published}
+                        domains={editingForm.embed_domains || []}
+                        onChange={(embed_domains) => setEditingForm({ ...editingForm, embed_domains })}
+                      />
                     </div>
                   </TabsContent>
+
+                  {editingForm.id && (
+                    <TabsContent value="emails" className="mt-0">
+                      <FormEmailSettings formId={editingForm.id} fields={editingForm.fields || []} />
+                    </TabsContent>
+                  )}
+
+                  {editingForm.id && (
+                    <TabsContent value="history" className="mt-0">
+                      <FormVersionHistory
+                        formId={editingForm.id}
+                        currentFields={editingForm.fields || []}
+                        onRestore={handleRestoreVersion}
+                      />
+                    </TabsContent>
+                  )}
+
+                  {editingForm.id && (
+                    <TabsContent value="analytics" className="mt-0">
+                      <FormAnalytics formId={editingForm.id} fields={editingForm.fields || []} />
+                    </TabsContent>
+                  )}
                 </Tabs>
               </div>
             </>
@@ -988,6 +1359,13 @@ const FormManagement = () => {
         </div>
       </div>
 
+      <FormTemplateGallery
+        open={showTemplates}
+        onOpenChange={setShowTemplates}
+        onSelect={(form) => createForm.mutate(form)}
+        isCreating={createForm.isPending}
+      />
+
       {/* Preview Modal */}
       <Dialog open={showPreview} onOpenChange={setShowPreview}>
         <DialogContent className="sm:max-w-lg">
@@ -999,15 +1377,22 @@ const FormManagement = () => {
               {editingForm.description && (
                 <p className="text-muted-foreground text-sm">{editingForm.description}</p>
               )}
-              {editingForm.fields?.map((field) => (
-                <div key={field.id}>
-                  <label className="block text-sm font-medium mb-2">
-                    {field.label}
-                    {field.required && <span className="text-destructive ml-1">*</span>}
-                  </label>
-                  {renderFieldPreview(field)}
-                </div>
-              ))}
+              {editingForm.fields?.filter((field) => !isHiddenField(field)).map((field) =>
+                field.type === "section" ? (
+                  <div key={field.id} className="pt-4 border-t border-border">
+                    <h3 className="font-semibold">{field.label}</h3>
+                    {field.helpText && <p className="text-sm text-muted-foreground">{field.helpText}</p>}
+                  </div>
+                ) : (
+                  <div key={field.id}>
+                    <label className="block text-sm font-medium mb-2">
+                      {field.label}
+                      {field.required && <span className="text-destructive ml-1">*</span>}
+                    </label>
+                    {renderFieldPreview(field)}
+                  </div>
+                )
+              )}
               <button className="btn-gold w-full" disabled>
                 Submit
               </button>
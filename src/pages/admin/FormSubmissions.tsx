@@ -1,9 +1,12 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { Trash2, Eye, FileText } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useTableParams } from "@/hooks/use-table-params";
+import { useRowSelection } from "@/hooks/use-row-selection";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,70 +31,266 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  formatFieldValue,
+  type FormField,
+  type FormValue,
+  type SubmissionMetadata,
+} from "@shared/custom-forms";
+import {
+  DataTablePagination,
+  DataTableSearch,
+  DateRangeFilter,
+  SortableHeader,
+} from "@/components/admin/DataTable";
+import { InboxStatusFilter, InboxStatusSelect } from "@/components/admin/InboxStatusSelect";
+import { ExportDialog } from "@/components/admin/ExportDialog";
+import {
+  BulkActionsBar,
+  InboxTags,
+  SelectAllHeader,
+  SelectRowCell,
+  TagFilter,
+} from "@/components/admin/BulkActions";
+import { SingleItemNotice } from "@/components/admin/SingleItemNotice";
+import { SpamReview } from "@/components/admin/SpamReview";
+import { FileLinks } from "@/components/forms/FileLinks";
+import { FormSummary } from "@/components/forms/FormSummary";
+import { INBOX_TYPES, updateInboxStatus, type InboxStatus } from "@/lib/inbox";
+import { SEARCH_OPTIONS, getPageRange, toEndOfDay, toSearchQuery, toStartOfDay } from "@/lib/data-table";
+import { toExportFilters } from "@/lib/submission-export";
+import { fetchSubmissionSummary } from "@/lib/response-summary";
 
 interface FormSubmission {
   id: string;
   created_at: string;
   form_id: string;
-  submission_data: Record<string, string>;
+  respondent_email: string | null;
+  submission_data: Record<string, FormValue>;
+  metadata: SubmissionMetadata;
   status: string;
+  spam_score: number;
+  spam_reasons: string[];
+  tags: string[];
   custom_forms: {
     form_name: string;
+    fields: FormField[];
+  } | null;
+  custom_form_versions: {
+    version: number;
+    fields: FormField[];
   } | null;
 }
 
+// Answers are keyed by field id; older submissions were keyed by label. Labels come from the
+// schema version the submission was made against, falling back to the current form.
+const getField = (submission: FormSubmission, key: string) =>
+  submission.custom_form_versions?.fields?.find((field) => field.id === key) ||
+  submission.custom_forms?.fields?.find((field) => field.id === key);
+
+const getFieldLabel = (submission: FormSubmission, key: string) => getField(submission, key)?.label || key;
+
+const formatValue = (value: FormValue, field?: FormField) => {
+  if (field) return formatFieldValue(field, value);
+  if (Array.isArray(value)) return value.join(", ");
+  return typeof value === "object" ? Object.entries(value).map(([key, item]) => `${key}: ${item}`).join("; ") : value;
+};
+
+// Metadata keys that can be filtered on, with the label used for the filter
+const sourceFilters = [
+  { key: "utm_source", label: "Source" },
+  { key: "utm_medium", label: "Medium" },
+  { key: "utm_campaign", label: "Campaign" },
+] as const;
+
+type SourceFilterKey = (typeof sourceFilters)[number]["key"];
+
+const SORTABLE = ["created_at", "status"] as const;
+
+const headerClass = "text-left px-4 py-3 text-sm font-medium";
+const checkboxClass = "w-10 pl-4 pr-0 py-3";
+
+const metadataLabels: Record<keyof SubmissionMetadata, string> = {
+  source: "Link Source",
+  utm_source: "UTM Source",
+  utm_medium: "UTM Medium",
+  utm_campaign: "UTM Campaign",
+  referrer: "Referrer",
+  landing_page: "Landing Page",
+  embed_origin: "Embedded On",
+};
+
+const getHost = (url?: string) => {
+  try {
+    return url ? new URL(url).hostname : undefined;
+  } catch {
+    return url;
+  }
+};
+
+// Campaign tags win over the referrer; a submission with neither came in directly
+const describeSource = (metadata: SubmissionMetadata) => {
+  if (metadata.utm_source) {
+    return metadata.utm_medium ? `${metadata.utm_source} / ${metadata.utm_medium}` : metadata.utm_source;
+  }
+  return getHost(metadata.referrer) || getHost(metadata.embed_origin) || (metadata.source && metadata.source !== "direct" ? metadata.source : "Direct");
+};
+
 const FormSubmissions = () => {
   const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const itemId = searchParams.get("id");
   const [selectedSubmission, setSelectedSubmission] = useState<FormSubmission | null>(null);
-  const [filterFormId, setFilterFormId] = useState<string>("all");
+  const table = useTableParams({ sortable: SORTABLE, defaultSort: "created_at" });
+  const { page, pageSize, sort, direction, search } = table;
+  const filterFormId = table.getFilter("form");
+  const sourceFilter = Object.fromEntries(
+    sourceFilters.map(({ key }) => [key, table.getFilter(key)])
+  ) as Record<SourceFilterKey, string>;
+  const statusFilter = table.getFilter("status");
+  const tagFilter = table.getFilter("tag", "");
+  const dateFrom = table.getFilter("from", "");
+  const dateTo = table.getFilter("to", "");
+  const tab = table.getFilter("tab", "responses");
+  const isFiltered = Boolean(
+    search || filterFormId !== "all" || statusFilter !== "all" || tagFilter || dateFrom || dateTo ||
+      Object.values(sourceFilter).some((value) => value !== "all")
+  );
 
   const { data: forms } = useQuery({
     queryKey: ["admin-forms-list"],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("custom_forms")
-        .select("id, form_name")
+        .select("id, form_name, fields")
         .order("form_name");
 
       if (error) throw error;
-      return data;
+      return data.map((form) => ({ ...form, fields: (form.fields as unknown as FormField[]) || [] }));
+    },
+  });
+
+  const selectedForm = forms?.find((form) => form.id === filterFormId);
+  const isSummary = !!selectedForm && tab === "summary";
+  // What the list is showing, for exports and the summary
+  const listFilters = toExportFilters({
+    search,
+    status: statusFilter,
+    tag: tagFilter,
+    from: dateFrom,
+    to: dateTo,
+    formId: filterFormId,
+    metadata: Object.fromEntries(Object.entries(sourceFilter).filter(([, value]) => value !== "all")),
+  });
+
+  // Distinct UTM values seen for the selected form, used to fill the source filters
+  const { data: sourceOptions } = useQuery({
+    queryKey: ["admin-submission-sources", filterFormId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_submission_metadata_values", {
+        _form_id: filterFormId === "all" ? null : filterFormId,
+        _keys: sourceFilters.map(({ key }) => key),
+      });
+      if (error) throw error;
+
+      const options = {} as Record<SourceFilterKey, string[]>;
+      for (const { key } of sourceFilters) {
+        options[key] = (data || []).filter((row) => row.key === key).map((row) => row.value);
+      }
+      return options;
     },
   });
 
-  const { data: submissions, isLoading } = useQuery({
-    queryKey: ["admin-form-submissions", filterFormId],
+  const { data, isLoading } = useQuery({
+    queryKey: [
+      "admin-form-submissions",
+      itemId,
+      page,
+      pageSize,
+      sort,
+      direction,
+      search,
+      filterFormId,
+      sourceFilter,
+      statusFilter,
+      tagFilter,
+      dateFrom,
+      dateTo,
+    ],
     queryFn: async () => {
       let query = supabase
         .from("form_submissions")
         .select(`
           *,
           custom_forms (
-            form_name
+            form_name,
+            fields
+          ),
+          custom_form_versions (
+            version,
+            fields
           )
-        `)
-        .order("created_at", { ascending: false });
+        `, { count: "exact" })
+        .order(sort, { ascending: direction === "asc" })
+        .range(...getPageRange(page, pageSize));
 
+      const terms = toSearchQuery(search);
+      if (terms) {
+        query = query.textSearch("search_vector", terms, SEARCH_OPTIONS);
+      }
       if (filterFormId !== "all") {
         query = query.eq("form_id", filterFormId);
       }
+      for (const { key } of sourceFilters) {
+        if (sourceFilter[key] !== "all") {
+          query = query.eq(`metadata->>${key}`, sourceFilter[key]);
+        }
+      }
+      // Spam is only listed when filtered for, or when linked to directly
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      } else if (!itemId) {
+        query = query.neq("status", "spam");
+      }
+      if (tagFilter) {
+        query = query.contains("tags", [tagFilter]);
+      }
+      if (dateFrom) {
+        query = query.gte("created_at", toStartOfDay(dateFrom));
+      }
+      if (dateTo) {
+        query = query.lt("created_at", toEndOfDay(dateTo));
+      }
+      if (itemId) {
+        query = query.eq("id", itemId);
+      }
 
-      const { data, error } = await query;
+      const { data, count, error } = await query;
       if (error) throw error;
-      return data as FormSubmission[];
+      return { rows: data as unknown as FormSubmission[], total: count ?? 0 };
     },
+    placeholderData: keepPreviousData,
   });
+  const submissions = data?.rows;
 
-  const updateStatus = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const { error } = await supabase
-        .from("form_submissions")
-        .update({ status })
-        .eq("id", id);
+  // The summary covers every matching submission, counted by the database
+  const { data: summary } = useQuery({
+    queryKey: ["admin-form-submission-summary", filterFormId, listFilters],
+    queryFn: () => fetchSubmissionSummary(filterFormId, listFilters),
+    enabled: isSummary,
+    placeholderData: keepPreviousData,
+  });
 
-      if (error) throw error;
-    },
+  // Rows can only be picked on the responses tab
+  const selection = useRowSelection(isSummary ? [] : submissions?.map((submission) => submission.id) ?? []);
+
+  const updateStatus = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: InboxStatus }) =>
+      updateInboxStatus("form", id, status),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-form-submissions"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
       toast({ title: "Status updated" });
     },
     onError: () => {
@@ -105,7 +304,10 @@ const FormSubmissions = () => {
       if (error) throw error;
     },
     onSuccess: () => {
+      // Step back when the last row of a page is removed; PostgREST rejects a range past the end
+      if (submissions?.length === 1 && page > 1) table.setPage(page - 1);
       queryClient.invalidateQueries({ queryKey: ["admin-form-submissions"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
       toast({ title: "Submission deleted" });
     },
     onError: () => {
@@ -113,11 +315,131 @@ const FormSubmissions = () => {
     },
   });
 
-  const statusColors: Record<string, string> = {
-    pending: "bg-yellow-100 text-yellow-800",
-    reviewed: "bg-blue-100 text-blue-800",
-    completed: "bg-green-100 text-green-800",
-  };
+  const responses =
+    submissions && submissions.length > 0 ? (
+      <div className="bg-background border border-border rounded-lg overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-secondary/50">
+            <tr>
+              <SelectAllHeader selection={selection} className={checkboxClass} />
+              <th className={headerClass}>Form</th>
+              <SortableHeader column="created_at" table={table} className={headerClass}>
+                Submitted
+              </SortableHeader>
+              <th className={headerClass}>Source</th>
+              <th className={headerClass}>Campaign</th>
+              <SortableHeader column="status" table={table} className={headerClass}>
+                Status
+              </SortableHeader>
+              <th className={headerClass}>Preview</th>
+              <th className="text-right px-4 py-3 text-sm font-medium">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {submissions.map((submission) => (
+              <tr key={submission.id} className="border-t border-border">
+                <SelectRowCell
+                  selection={selection}
+                  id={submission.id}
+                  label={submission.respondent_email || "submission"}
+                  className={checkboxClass}
+                />
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2">
+                    <FileText size={16} className="text-muted-foreground" />
+                    <span className="font-medium">
+                      {submission.custom_forms?.form_name || "Unknown Form"}
+                    </span>
+                  </div>
+                  <InboxTags tags={submission.tags} onSelect={(value) => table.setFilter("tag", value, "")} />
+                </td>
+                <td className="px-4 py-3 text-sm text-muted-foreground">
+                  {format(new Date(submission.created_at), "MMM d, yyyy 'at' h:mm a")}
+                </td>
+                <td className="px-4 py-3 text-sm">{describeSource(submission.metadata || {})}</td>
+                <td className="px-4 py-3 text-sm text-muted-foreground">
+                  {submission.metadata?.utm_campaign || "-"}
+                </td>
+                <td className="px-4 py-3">
+                  <InboxStatusSelect
+                    value={submission.status}
+                    onChange={(status) => updateStatus.mutate({ id: submission.id, status })}
+                  />
+                  <SpamReview
+                    status={submission.status}
+                    score={submission.spam_score}
+                    reasons={submission.spam_reasons}
+                    onRelease={() => updateStatus.mutate({ id: submission.id, status: "new" })}
+                    disabled={updateStatus.isPending}
+                  />
+                </td>
+                <td className="px-4 py-3 text-sm text-muted-foreground max-w-xs truncate">
+                  {Object.entries(submission.submission_data)
+                    .slice(0, 2)
+                    .map(([key, value]) => formatValue(value, getField(submission, key)))
+                    .join(", ")}
+                  {Object.keys(submission.submission_data).length > 2 && "..."}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <div className="flex items-center justify-end gap-2">
+                    <button
+                      onClick={() => setSelectedSubmission(submission)}
+                      className="p-2 hover:bg-secondary rounded transition-colors"
+                      title="View details"
+                    >
+                      <Eye size={16} />
+                    </button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <button
+                          className="p-2 text-destructive hover:bg-destructive/10 rounded transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Submission</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete this submission? This action cannot be
+                            undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteSubmission.mutate(submission.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <DataTablePagination table={table} total={data?.total || 0} />
+      </div>
+    ) : isFiltered ? (
+      <div className="text-center py-12 bg-secondary/30 rounded-lg">
+        <FileText size={48} className="mx-auto text-muted-foreground mb-4" />
+        <h3 className="text-lg font-medium mb-2">No Matching Submissions</h3>
+        <p className="text-muted-foreground">Try a different search or clear the filters.</p>
+      </div>
+    ) : (
+      <div className="text-center py-12 bg-secondary/30 rounded-lg">
+        <FileText size={48} className="mx-auto text-muted-foreground mb-4" />
+        <h3 className="text-lg font-medium mb-2">No Submissions Yet</h3>
+        <p className="text-muted-foreground">
+          Form submissions will appear here when users fill out your forms.
+        </p>
+      </div>
+    );
 
   if (isLoading) {
     return (
@@ -133,7 +455,19 @@ const FormSubmissions = () => {
         <h1 className="text-2xl font-bold">Form Submissions</h1>
         <div className="flex items-center gap-3">
           <span className="text-sm text-muted-foreground">Filter by form:</span>
-          <Select value={filterFormId} onValueChange={setFilterFormId}>
+          <Select
+            value={filterFormId}
+            onValueChange={(value) =>
+              // Source values and the summary tab belong to the previous form
+              table.setFilters({
+                form: value === "all" ? null : value,
+                utm_source: null,
+                utm_medium: null,
+                utm_campaign: null,
+                tab: null,
+              })
+            }
+          >
             <SelectTrigger className="w-48">
               <SelectValue placeholder="All forms" />
             </SelectTrigger>
@@ -146,110 +480,71 @@ const FormSubmissions = () => {
               ))}
             </SelectContent>
           </Select>
+          <ExportDialog
+            formType="form_submissions"
+            fields={selectedForm?.fields}
+            filters={listFilters}
+          />
         </div>
       </div>
 
-      {submissions && submissions.length > 0 ? (
-        <div className="bg-background border border-border rounded-lg overflow-hidden">
-          <table className="w-full">
-            <thead className="bg-secondary/50">
-              <tr>
-                <th className="text-left px-4 py-3 text-sm font-medium">Form</th>
-                <th className="text-left px-4 py-3 text-sm font-medium">Submitted</th>
-                <th className="text-left px-4 py-3 text-sm font-medium">Status</th>
-                <th className="text-left px-4 py-3 text-sm font-medium">Preview</th>
-                <th className="text-right px-4 py-3 text-sm font-medium">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {submissions.map((submission) => (
-                <tr key={submission.id} className="border-t border-border">
-                  <td className="px-4 py-3">
-                    <div className="flex items-center gap-2">
-                      <FileText size={16} className="text-muted-foreground" />
-                      <span className="font-medium">
-                        {submission.custom_forms?.form_name || "Unknown Form"}
-                      </span>
-                    </div>
-                  </td>
-                  <td className="px-4 py-3 text-sm text-muted-foreground">
-                    {format(new Date(submission.created_at), "MMM d, yyyy 'at' h:mm a")}
-                  </td>
-                  <td className="px-4 py-3">
-                    <Select
-                      value={submission.status}
-                      onValueChange={(value) =>
-                        updateStatus.mutate({ id: submission.id, status: value })
-                      }
-                    >
-                      <SelectTrigger
-                        className={`w-32 h-8 text-xs ${statusColors[submission.status] || ""}`}
-                      >
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="reviewed">Reviewed</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </td>
-                  <td className="px-4 py-3 text-sm text-muted-foreground max-w-xs truncate">
-                    {Object.values(submission.submission_data).slice(0, 2).join(", ")}
-                    {Object.keys(submission.submission_data).length > 2 && "..."}
-                  </td>
-                  <td className="px-4 py-3 text-right">
-                    <div className="flex items-center justify-end gap-2">
-                      <button
-                        onClick={() => setSelectedSubmission(submission)}
-                        className="p-2 hover:bg-secondary rounded transition-colors"
-                        title="View details"
-                      >
-                        <Eye size={16} />
-                      </button>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <button
-                            className="p-2 text-destructive hover:bg-destructive/10 rounded transition-colors"
-                            title="Delete"
-                          >
-                            <Trash2 size={16} />
-                          </button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete Submission</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Are you sure you want to delete this submission? This action cannot be
-                              undone.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => deleteSubmission.mutate(submission.id)}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            >
-                              Delete
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+      {itemId && <SingleItemNotice path={INBOX_TYPES.form.path} />}
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <DataTableSearch value={search} onChange={table.setSearch} placeholder="Search answers and emails" />
+        <InboxStatusFilter value={statusFilter} onChange={(value) => table.setFilter("status", value)} />
+        <TagFilter value={tagFilter} onClear={() => table.setFilter("tag", "", "")} />
+        <DateRangeFilter from={dateFrom} to={dateTo} onChange={(range) => table.setFilters(range)} />
+        {sourceFilters
+          .filter(({ key }) => (sourceOptions?.[key].length || 0) > 0)
+          .map(({ key, label }) => (
+            <Select
+              key={key}
+              value={sourceFilter[key]}
+              onValueChange={(value) => table.setFilter(key, value)}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any {label.toLowerCase()}</SelectItem>
+                {sourceOptions?.[key].map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+      </div>
+
+      <BulkActionsBar
+        type="form"
+        selection={selection}
+        onDeleted={(count) => {
+          if (count >= (submissions?.length ?? 0) && page > 1) table.setPage(page - 1);
+        }}
+      />
+
+      {selectedForm ? (
+        <Tabs value={tab} onValueChange={(value) => table.setFilter("tab", value, "responses")}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="responses">Responses</TabsTrigger>
+            <TabsTrigger value="summary">Summary</TabsTrigger>
+          </TabsList>
+          <TabsContent value="responses">{responses}</TabsContent>
+          <TabsContent value="summary">
+            {summary ? (
+              <FormSummary fields={selectedForm.fields} summary={summary} />
+            ) : (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       ) : (
-        <div className="text-center py-12 bg-secondary/30 rounded-lg">
-          <FileText size={48} className="mx-auto text-muted-foreground mb-4" />
-          <h3 className="text-lg font-medium mb-2">No Submissions Yet</h3>
-          <p className="text-muted-foreground">
-            Form submissions will appear here when users fill out your forms.
-          </p>
-        </div>
+        responses
       )}
 
       {/* View Submission Dialog */}
@@ -260,19 +555,43 @@ const FormSubmissions = () => {
               Submission Details
               <span className="block text-sm font-normal text-muted-foreground mt-1">
                 {selectedSubmission?.custom_forms?.form_name || "Unknown Form"}
+                {selectedSubmission?.custom_form_versions && (
+                  <> &middot; version {selectedSubmission.custom_form_versions.version}</>
+                )}
               </span>
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4 mt-4">
             {selectedSubmission &&
-              Object.entries(selectedSubmission.submission_data).map(([key, value]) => (
-                <div key={key} className="border-b border-border pb-3 last:border-0">
-                  <label className="text-xs text-muted-foreground uppercase tracking-wider">
-                    {key}
-                  </label>
-                  <p className="text-sm mt-1">{value || "-"}</p>
-                </div>
-              ))}
+              Object.entries(selectedSubmission.submission_data).map(([key, value]) => {
+                const field = getField(selectedSubmission, key);
+                return (
+                  <div key={key} className="border-b border-border pb-3 last:border-0">
+                    <label className="text-xs text-muted-foreground uppercase tracking-wider">
+                      {getFieldLabel(selectedSubmission, key)}
+                    </label>
+                    {field?.type === "file" && Array.isArray(value) ? (
+                      <div className="mt-1">
+                        <FileLinks paths={value} />
+                      </div>
+                    ) : (
+                      <p className="text-sm mt-1">{formatValue(value, field) || "-"}</p>
+                    )}
+                  </div>
+                );
+              })}
+            {selectedSubmission && Object.keys(selectedSubmission.metadata || {}).length > 0 && (
+              <div className="rounded-lg bg-secondary/30 p-3 space-y-1">
+                {(Object.keys(metadataLabels) as (keyof SubmissionMetadata)[])
+                  .filter((key) => selectedSubmission.metadata[key])
+                  .map((key) => (
+                    <div key={key} className="flex gap-3 text-xs">
+                      <span className="w-28 shrink-0 text-muted-foreground">{metadataLabels[key]}</span>
+                      <span className="break-all">{selectedSubmission.metadata[key]}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
             <div className="pt-2 text-xs text-muted-foreground">
               Submitted on{" "}
               {selectedSubmission &&
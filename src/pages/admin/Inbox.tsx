@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowRight, Inbox as InboxIcon, MessageSquare, Search } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { AssigneeSelect } from "@/components/admin/AssigneeSelect";
+import { InboxItemActivity } from "@/components/admin/InboxItemActivity";
+import { InboxStatusSelect } from "@/components/admin/InboxStatusSelect";
+import {
+  INBOX_STATUSES,
+  INBOX_TYPES,
+  assignInboxItem,
+  getInboxItemLink,
+  updateInboxStatus,
+  type InboxStatus,
+  type InboxType,
+} from "@/lib/inbox";
+import { SEARCH_OPTIONS, toSearchQuery } from "@/lib/data-table";
+
+const sortOptions = {
+  newest: { label: "Newest first", column: "created_at", ascending: false },
+  oldest: { label: "Oldest first", column: "created_at", ascending: true },
+  name: { label: "Name A–Z", column: "name", ascending: true },
+  type: { label: "Type", column: "type", ascending: true },
+} as const;
+
+type SortKey = keyof typeof sortOptions;
+
+// "open" covers everything still waiting on someone
+const OPEN_STATUSES: InboxStatus[] = ["new", "in_progress"];
+
+interface InboxItem {
+  id: string;
+  type: InboxType;
+  name: string | null;
+  email: string | null;
+  subject: string | null;
+  status: string;
+  created_at: string;
+  assigned_to: string | null;
+}
+
+const Inbox = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { members, getMember } = useTeamMembers();
+  const [search, setSearch] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [sort, setSort] = useState<SortKey>("newest");
+  const [assigneeFilter, setAssigneeFilter] = useState<"anyone" | "mine" | "unassigned">("anyone");
+  const [openItem, setOpenItem] = useState<InboxItem | null>(null);
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchTerm(toSearchQuery(search)), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: items, isLoading } = useQuery({
+    queryKey: ["admin-inbox", searchTerm, typeFilter, statusFilter, sort, assigneeFilter, user?.id],
+    queryFn: async () => {
+      const { column, ascending } = sortOptions[sort];
+      let query = supabase
+        .from("admin_inbox")
+        .select("id, type, name, email, subject, status, created_at, assigned_to")
+        .order(column, { ascending, nullsFirst: false })
+        .order("created_at", { ascending: false });
+
+      if (searchTerm) {
+        query = query.textSearch("search_vector", searchTerm, SEARCH_OPTIONS);
+      }
+      if (typeFilter !== "all") {
+        query = query.eq("type", typeFilter);
+      }
+      if (statusFilter === "open") {
+        query = query.in("status", OPEN_STATUSES);
+      } else if (statusFilter === "all") {
+        query = query.neq("status", "spam");
+      } else {
+        query = query.eq("status", statusFilter);
+      }
+      if (assigneeFilter === "mine") {
+        query = query.eq("assigned_to", user?.id);
+      } else if (assigneeFilter === "unassigned") {
+        query = query.is("assigned_to", null);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as InboxItem[];
+    },
+  });
+
+  const updateStatus = useMutation({
+    mutationFn: ({ type, id, status }: { type: InboxType; id: string; status: InboxStatus }) =>
+      updateInboxStatus(type, id, status),
+    onSuccess: (_, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
+      queryClient.invalidateQueries({ queryKey: [INBOX_TYPES[type].queryKey] });
+      queryClient.invalidateQueries({ queryKey: ["inbox-activity", type] });
+      toast({ title: "Status updated" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update status", variant: "destructive" });
+    },
+  });
+
+  const assign = useMutation({
+    mutationFn: ({ type, id, userId }: { type: InboxType; id: string; userId: string | null }) =>
+      assignInboxItem(type, id, userId),
+    onSuccess: (_, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
+      queryClient.invalidateQueries({ queryKey: [INBOX_TYPES[type].queryKey] });
+      queryClient.invalidateQueries({ queryKey: ["inbox-activity", type] });
+      toast({ title: "Assignment updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to assign", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The open item may drop out of the list after a status change; keep showing the last known copy
+  const selected = items?.find((item) => item.type === openItem?.type && item.id === openItem?.id) || openItem;
+
+  const inputClass =
+    "w-full pl-9 pr-3 py-2 text-sm rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Inbox</h1>
+        <span className="text-sm text-muted-foreground">{items?.length || 0} items</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search names, emails and messages"
+            className={inputClass}
+          />
+        </div>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {(Object.keys(INBOX_TYPES) as InboxType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {INBOX_TYPES[type].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="all">Any status</SelectItem>
+            {INBOX_STATUSES.map((status) => (
+              <SelectItem key={status.value} value={status.value}>
+                {status.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={assigneeFilter} onValueChange={(value) => setAssigneeFilter(value as typeof assigneeFilter)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="anyone">Anyone</SelectItem>
+            <SelectItem value="mine">My queue</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={(value) => setSort(value as SortKey)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(sortOptions) as SortKey[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {sortOptions[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : items && items.length > 0 ? (
+        <div className="bg-background border border-border rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-secondary/50">
+                <tr>
+                  <th className="text-left px-4 py-3 text-sm font-medium">Type</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium">From</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium">Subject</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium">Received</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium">Status</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium">Assigned To</th>
+                  <th className="text-right px-4 py-3 text-sm font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr key={`${item.type}-${item.id}`} className="border-t border-border hover:bg-secondary/30 transition-colors">
+                    <td className="px-4 py-3">
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-secondary text-secondary-foreground">
+                        {INBOX_TYPES[item.type]?.label || item.type}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="font-medium block">{item.name || item.email || "Anonymous"}</span>
+                      {item.name && item.email && (
+                        <span className="text-sm text-muted-foreground">{item.email}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm max-w-xs truncate">{item.subject || "-"}</td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">
+                      {format(new Date(item.created_at), "MMM d, yyyy")}
+                    </td>
+                    <td className="px-4 py-3">
+                      <InboxStatusSelect
+                        value={item.status}
+                        onChange={(status) => updateStatus.mutate({ type: item.type, id: item.id, status })}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <AssigneeSelect
+                        value={item.assigned_to}
+                        members={members}
+                        onChange={(userId) => assign.mutate({ type: item.type, id: item.id, userId })}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex items-center justify-end gap-3">
+                        <button
+                          onClick={() => setOpenItem(item)}
+                          className="p-2 hover:bg-secondary rounded transition-colors"
+                          title="Notes and activity"
+                        >
+                          <MessageSquare size={16} />
+                        </button>
+                        <Link
+                          to={getInboxItemLink(item.type, item.id)}
+                          className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                        >
+                          Open <ArrowRight size={14} />
+                        </Link>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-secondary/30 rounded-lg">
+          <InboxIcon size={48} className="mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">Nothing here</h3>
+          <p className="text-muted-foreground">
+            {searchTerm || typeFilter !== "all" || statusFilter !== "open" || assigneeFilter !== "anyone"
+              ? "No items match the current search and filters."
+              : "New contact requests, applications and form submissions will appear here."}
+          </p>
+        </div>
+      )}
+
+      <Sheet open={!!openItem} onOpenChange={(open) => !open && setOpenItem(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          {selected && (
+            <>
+              <SheetHeader className="mb-6">
+                <SheetTitle>{selected.name || selected.email || "Anonymous"}</SheetTitle>
+                <SheetDescription>
+                  {INBOX_TYPES[selected.type].label}
+                  {selected.subject && <> &middot; {selected.subject}</>}
+                  {selected.assigned_to && <> &middot; {getMember(selected.assigned_to)?.name || "Assigned"}</>}
+                </SheetDescription>
+              </SheetHeader>
+              <InboxItemActivity
+                type={selected.type}
+                id={selected.id}
+                status={selected.status}
+                assignedTo={selected.assigned_to}
+              />
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default Inbox;
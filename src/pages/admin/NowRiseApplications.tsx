@@ -1,8 +1,11 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { GraduationCap, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useTableParams } from "@/hooks/use-table-params";
+import { useRowSelection } from "@/hooks/use-row-selection";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -14,36 +17,82 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  DataTablePagination,
+  DataTableSearch,
+  DateRangeFilter,
+  SortableHeader,
+} from "@/components/admin/DataTable";
+import { InboxStatusFilter, InboxStatusSelect } from "@/components/admin/InboxStatusSelect";
+import { ExportDialog } from "@/components/admin/ExportDialog";
+import {
+  BulkActionsBar,
+  InboxTags,
+  SelectAllHeader,
+  SelectRowCell,
+  TagFilter,
+} from "@/components/admin/BulkActions";
+import { SingleItemNotice } from "@/components/admin/SingleItemNotice";
+import { SpamReview } from "@/components/admin/SpamReview";
+import { INBOX_TYPES, updateInboxStatus, type InboxStatus } from "@/lib/inbox";
+import { SEARCH_OPTIONS, getPageRange, toEndOfDay, toSearchQuery, toStartOfDay } from "@/lib/data-table";
+import { toExportFilters } from "@/lib/submission-export";
+
+const SORTABLE = ["name", "program", "education", "created_at", "status"] as const;
 
 const NowRiseApplications = () => {
   const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const itemId = searchParams.get("id");
+  const table = useTableParams({ sortable: SORTABLE, defaultSort: "created_at" });
+  const { page, pageSize, sort, direction, search } = table;
+  const status = table.getFilter("status");
+  const tag = table.getFilter("tag", "");
+  const from = table.getFilter("from", "");
+  const to = table.getFilter("to", "");
+  const isFiltered = Boolean(search || status !== "all" || tag || from || to);
 
-  const { data: applications, isLoading } = useQuery({
-    queryKey: ["admin-nowrise-applications"],
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-nowrise-applications", itemId, page, pageSize, sort, direction, search, status, tag, from, to],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from("nowrise_applications")
-        .select("*")
-        .order("created_at", { ascending: false });
+        .select("*", { count: "exact" })
+        .order(sort, { ascending: direction === "asc" })
+        .range(...getPageRange(page, pageSize));
+      if (itemId) {
+        query = query.eq("id", itemId);
+      }
+      const terms = toSearchQuery(search);
+      if (terms) query = query.textSearch("search_vector", terms, SEARCH_OPTIONS);
+      // Spam is only listed when filtered for, or when linked to directly
+      if (status !== "all") query = query.eq("status", status);
+      else if (!itemId) query = query.neq("status", "spam");
+      if (tag) query = query.contains("tags", [tag]);
+      if (from) query = query.gte("created_at", toStartOfDay(from));
+      if (to) query = query.lt("created_at", toEndOfDay(to));
+
+      const { data, count, error } = await query;
 
       if (error) throw error;
-      return data;
+      return { rows: data, total: count ?? 0 };
     },
+    placeholderData: keepPreviousData,
   });
+  const applications = data?.rows;
+  const selection = useRowSelection(applications?.map((app) => app.id) ?? []);
 
   const updateStatus = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const { error } = await supabase
-        .from("nowrise_applications")
-        .update({ status })
-        .eq("id", id);
-
-      if (error) throw error;
-    },
+    mutationFn: ({ id, status }: { id: string; status: InboxStatus }) =>
+      updateInboxStatus("nowrise", id, status),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-nowrise-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
       toast({ title: "Status updated" });
     },
+    onError: () => {
+      toast({ title: "Failed to update status", variant: "destructive" });
+    },
   });
 
   const deleteApplication = useMutation({
@@ -56,7 +105,10 @@ const NowRiseApplications = () => {
       if (error) throw error;
     },
     onSuccess: () => {
+      // Step back when the last row of a page is removed; PostgREST rejects a range past the end
+      if (applications?.length === 1 && page > 1) table.setPage(page - 1);
       queryClient.invalidateQueries({ queryKey: ["admin-nowrise-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-inbox"] });
       toast({ title: "Application deleted" });
     },
     onError: () => {
@@ -72,49 +124,57 @@ const NowRiseApplications = () => {
     );
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "enrolled":
-        return "bg-green-100 text-green-700";
-      case "rejected":
-        return "bg-red-100 text-red-700";
-      case "interviewing":
-        return "bg-blue-100 text-blue-700";
-      default:
-        return "bg-yellow-100 text-yellow-700";
-    }
-  };
-
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">NowRise Institute Applications</h1>
-        <span className="text-sm text-muted-foreground">
-          {applications?.length || 0} applications
-        </span>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-muted-foreground">
+            {data?.total || 0} {isFiltered ? "matching " : ""}applications
+          </span>
+          <ExportDialog formType="nowrise_applications" filters={toExportFilters({ search, status, tag, from, to })} />
+        </div>
       </div>
 
+      {itemId && <SingleItemNotice path={INBOX_TYPES.nowrise.path} />}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <DataTableSearch value={search} onChange={table.setSearch} placeholder="Search applicants, phones and programs" />
+        <InboxStatusFilter value={status} onChange={(value) => table.setFilter("status", value)} />
+        <TagFilter value={tag} onClear={() => table.setFilter("tag", "", "")} />
+        <DateRangeFilter from={from} to={to} onChange={(range) => table.setFilters(range)} />
+      </div>
+
+      <BulkActionsBar
+        type="nowrise"
+        selection={selection}
+        onDeleted={(count) => {
+          if (count >= (applications?.length ?? 0) && page > 1) table.setPage(page - 1);
+        }}
+      />
+
       {applications && applications.length > 0 ? (
         <div className="bg-background border border-border rounded-lg overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-secondary/50">
                 <tr>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  <SelectAllHeader selection={selection} />
+                  <SortableHeader column="name" table={table}>
                     Applicant
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="program" table={table}>
                     Program
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="education" table={table}>
                     Education
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="created_at" table={table}>
                     Date
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="status" table={table}>
                     Status
-                  </th>
+                  </SortableHeader>
                   <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
                     Actions
                   </th>
@@ -123,6 +183,7 @@ const NowRiseApplications = () => {
               <tbody className="divide-y divide-border">
                 {applications.map((app) => (
                   <tr key={app.id} className="hover:bg-secondary/30 transition-colors">
+                    <SelectRowCell selection={selection} id={app.id} label={app.name} />
                     <td className="px-6 py-4">
                       <div>
                         <span className="font-medium block">{app.name}</span>
@@ -132,6 +193,7 @@ const NowRiseApplications = () => {
                             {app.phone}
                           </span>
                         )}
+                        <InboxTags tags={app.tags} onSelect={(value) => table.setFilter("tag", value, "")} />
                       </div>
                     </td>
                     <td className="px-6 py-4">
@@ -144,28 +206,20 @@ const NowRiseApplications = () => {
                       {format(new Date(app.created_at), "MMM d, yyyy")}
                     </td>
                     <td className="px-6 py-4">
-                      <span
-                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(
-                          app.status || "pending"
-                        )}`}
-                      >
-                        {app.status || "pending"}
-                      </span>
+                      <InboxStatusSelect
+                        value={app.status}
+                        onChange={(status) => updateStatus.mutate({ id: app.id, status })}
+                      />
+                      <SpamReview
+                        status={app.status}
+                        score={app.spam_score}
+                        reasons={app.spam_reasons}
+                        onRelease={() => updateStatus.mutate({ id: app.id, status: "new" })}
+                        disabled={updateStatus.isPending}
+                      />
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
-                        <select
-                          value={app.status || "pending"}
-                          onChange={(e) =>
-                            updateStatus.mutate({ id: app.id, status: e.target.value })
-                          }
-                          className="text-sm px-3 py-1.5 rounded border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/50"
-                        >
-                          <option value="pending">Pending</option>
-                          <option value="interviewing">Interviewing</option>
-                          <option value="enrolled">Enrolled</option>
-                          <option value="rejected">Rejected</option>
-                        </select>
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <button className="p-2 text-destructive hover:bg-destructive/10 rounded transition-colors">
@@ -197,6 +251,13 @@ const NowRiseApplications = () => {
               </tbody>
             </table>
           </div>
+          <DataTablePagination table={table} total={data?.total || 0} />
+        </div>
+      ) : isFiltered ? (
+        <div className="text-center py-12 bg-secondary/30 rounded-lg">
+          <GraduationCap size={48} className="mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">No matching applications</h3>
+          <p className="text-muted-foreground">Try a different search or clear the filters.</p>
         </div>
       ) : (
         <div className="text-center py-12 bg-secondary/30 rounded-lg">
@@ -0,0 +1,122 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ShieldAlert, Unlock } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+interface ThrottledKey {
+  policy: string;
+  key: string;
+  hits: string[];
+  max_requests: number;
+  window_seconds: number;
+  blocked_until: string;
+}
+
+const formatWindow = (seconds: number) =>
+  seconds % 3600 === 0 ? `${seconds / 3600} h` : seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
+
+// Keys the edge functions are currently refusing. Limits are set per function and action in
+// supabase/functions/_shared/rate-limit.ts; unblocking clears the key's recorded requests.
+export default function RateLimits() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: throttled = [], isLoading } = useQuery({
+    queryKey: ["admin-rate-limits"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("rate_limits")
+        .select("policy, key, hits, max_requests, window_seconds, blocked_until")
+        .gt("blocked_until", new Date().toISOString())
+        .order("blocked_until", { ascending: false })
+        .limit(200);
+      if (error) throw error;
+      return data as ThrottledKey[];
+    },
+    refetchInterval: 15000,
+  });
+
+  const unblockMutation = useMutation({
+    mutationFn: async ({ policy, key }: Pick<ThrottledKey, "policy" | "key">) => {
+      const { error } = await supabase.from("rate_limits").delete().eq("policy", policy).eq("key", key);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-rate-limits"] });
+      toast({ title: "Key unblocked" });
+    },
+    onError: () => {
+      toast({ title: "Failed to unblock", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Rate Limits</h1>
+        <p className="text-sm text-muted-foreground">
+          Visitors, email addresses and users currently over a limit. They are let through again on their own once
+          their oldest request leaves the window.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : throttled.length === 0 ? (
+        <div className="text-center py-12 bg-secondary/30 rounded-lg">
+          <ShieldAlert size={48} className="mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">Nothing is throttled</h3>
+          <p className="text-muted-foreground">Keys appear here while they are over a limit.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Limit</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Requests</TableHead>
+              <TableHead>Blocked</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {throttled.map((item) => (
+              <TableRow key={`${item.policy} ${item.key}`}>
+                <TableCell className="font-mono text-xs">{item.policy}</TableCell>
+                <TableCell className="font-mono text-xs break-all">{item.key}</TableCell>
+                <TableCell className="text-sm">
+                  {item.hits.length} / {item.max_requests} per {formatWindow(item.window_seconds)}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  for {formatDistanceToNow(new Date(item.blocked_until))}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={unblockMutation.isPending}
+                    onClick={() => unblockMutation.mutate({ policy: item.policy, key: item.key })}
+                  >
+                    <Unlock className="h-3 w-3 mr-1" /> Unblock
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
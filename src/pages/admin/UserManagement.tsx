@@ -1,30 +1,59 @@
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { Users, Shield } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useTableParams } from "@/hooks/use-table-params";
+import {
+  DataTablePagination,
+  DataTableSearch,
+  DateRangeFilter,
+  SortableHeader,
+} from "@/components/admin/DataTable";
+import { SEARCH_OPTIONS, getPageRange, toEndOfDay, toSearchQuery, toStartOfDay } from "@/lib/data-table";
+
+const SORTABLE = ["full_name", "email", "created_at"] as const;
 
 const UserManagement = () => {
-  const { data: profiles, isLoading } = useQuery({
-    queryKey: ["admin-profiles"],
+  const table = useTableParams({ sortable: SORTABLE, defaultSort: "created_at" });
+  const { page, pageSize, sort, direction, search } = table;
+  const from = table.getFilter("from", "");
+  const to = table.getFilter("to", "");
+  const isFiltered = Boolean(search || from || to);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-profiles", page, pageSize, sort, direction, search, from, to],
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from("profiles")
-        .select("*")
-        .order("created_at", { ascending: false });
+        .select("*", { count: "exact" })
+        .order(sort, { ascending: direction === "asc" })
+        .range(...getPageRange(page, pageSize));
+      const terms = toSearchQuery(search);
+      if (terms) query = query.textSearch("search_vector", terms, SEARCH_OPTIONS);
+      if (from) query = query.gte("created_at", toStartOfDay(from));
+      if (to) query = query.lt("created_at", toEndOfDay(to));
+
+      const { data, count, error } = await query;
 
       if (error) throw error;
-      return data;
+      return { rows: data, total: count ?? 0 };
     },
+    placeholderData: keepPreviousData,
   });
+  const profiles = data?.rows;
+  const profileIds = profiles?.map((profile) => profile.id) || [];
 
+  // Roles are only loaded for the users on the current page
   const { data: userRoles } = useQuery({
-    queryKey: ["admin-user-roles"],
+    queryKey: ["admin-user-roles", profileIds],
     queryFn: async () => {
-      const { data, error } = await supabase.from("user_roles").select("*");
+      const { data, error } = await supabase.from("user_roles").select("*").in("user_id", profileIds);
 
       if (error) throw error;
       return data;
     },
+    enabled: profileIds.length > 0,
+    placeholderData: keepPreviousData,
   });
 
   if (isLoading) {
@@ -44,28 +73,33 @@ const UserManagement = () => {
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">User Management</h1>
         <span className="text-sm text-muted-foreground">
-          {profiles?.length || 0} users
+          {data?.total || 0} {isFiltered ? "matching " : ""}users
         </span>
       </div>
 
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <DataTableSearch value={search} onChange={table.setSearch} placeholder="Search names and emails" />
+        <DateRangeFilter from={from} to={to} onChange={(range) => table.setFilters(range)} />
+      </div>
+
       {profiles && profiles.length > 0 ? (
         <div className="bg-background border border-border rounded-lg overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-secondary/50">
                 <tr>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  <SortableHeader column="full_name" table={table}>
                     User
-                  </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  </SortableHeader>
+                  <SortableHeader column="email" table={table}>
                     Email
-                  </th>
+                  </SortableHeader>
                   <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
                     Roles
                   </th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-muted-foreground">
+                  <SortableHeader column="created_at" table={table}>
                     Joined
-                  </th>
+                  </SortableHeader>
                 </tr>
               </thead>
               <tbody className="divide-y divide-border">
@@ -118,6 +152,13 @@ const UserManagement = () => {
               </tbody>
             </table>
           </div>
+          <DataTablePagination table={table} total={data?.total || 0} />
+        </div>
+      ) : isFiltered ? (
+        <div className="text-center py-12 bg-secondary/30 rounded-lg">
+          <Users size={48} className="mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">No matching users</h3>
+          <p className="text-muted-foreground">Try a different search or clear the filters.</p>
         </div>
       ) : (
         <div className="text-center py-12 bg-secondary/30 rounded-lg">
@@ -0,0 +1,585 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, Eye, EyeOff, Pencil, Plus, RotateCcw, Trash2, Webhook } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  form_type: string;
+  form_id: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event: string;
+  record_id: string;
+  payload: unknown;
+  status: "pending" | "delivering" | "succeeded" | "failed";
+  attempts: number;
+  next_attempt_at: string;
+  last_attempted_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  created_at: string;
+  webhook_endpoints: { name: string } | null;
+}
+
+const FORM_TYPES = [
+  { value: "form_submissions", label: "Custom Form Submissions" },
+  { value: "contact_requests", label: "Contact Requests" },
+  { value: "career_applications", label: "Career Applications" },
+  { value: "nowrise_applications", label: "NowRise Applications" },
+];
+
+const ALL_FORMS = "all";
+
+const emptyEndpoint = {
+  name: "",
+  url: "",
+  form_type: "form_submissions",
+  form_id: ALL_FORMS,
+  is_active: true,
+};
+
+const statusStyles: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  delivering: "bg-blue-100 text-blue-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const generateSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+export default function Webhooks() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingEndpoint, setEditingEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [formData, setFormData] = useState(emptyEndpoint);
+  const [revealedSecrets, setRevealedSecrets] = useState<string[]>([]);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [selectedDelivery, setSelectedDelivery] = useState<WebhookDelivery | null>(null);
+
+  const { data: endpoints = [], isLoading } = useQuery({
+    queryKey: ["admin-webhook-endpoints"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("webhook_endpoints")
+        .select("*")
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data as WebhookEndpoint[];
+    },
+  });
+
+  const { data: forms = [] } = useQuery({
+    queryKey: ["admin-custom-forms-list"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("custom_forms")
+        .select("id, form_name")
+        .order("form_name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: deliveries = [] } = useQuery({
+    queryKey: ["admin-webhook-deliveries", statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("webhook_deliveries")
+        .select("*, webhook_endpoints(name)")
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (statusFilter !== "all") query = query.eq("status", statusFilter);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as WebhookDelivery[];
+    },
+    refetchInterval: 15000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData & { id?: string }) => {
+      const payload = {
+        name: data.name.trim(),
+        url: data.url.trim(),
+        form_type: data.form_type,
+        form_id: data.form_type === "form_submissions" && data.form_id !== ALL_FORMS ? data.form_id : null,
+        is_active: data.is_active,
+      };
+
+      if (data.id) {
+        const { error } = await supabase.from("webhook_endpoints").update(payload).eq("id", data.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("webhook_endpoints").insert(payload);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhook-endpoints"] });
+      toast({ title: editingEndpoint ? "Endpoint updated" : "Endpoint added" });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("webhook_endpoints").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhook-endpoints"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-webhook-deliveries"] });
+      toast({ title: "Endpoint deleted" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: string; is_active: boolean }) => {
+      const { error } = await supabase.from("webhook_endpoints").update({ is_active }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhook-endpoints"] });
+    },
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("webhook_endpoints").update({ secret: generateSecret() }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhook-endpoints"] });
+      toast({ title: "Secret rotated", description: "Update the receiving service with the new secret." });
+    },
+  });
+
+  // Resets the delivery to a fresh set of attempts and runs the queue straight away
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("webhook_deliveries")
+        .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString(), last_error: null })
+        .eq("id", id);
+      if (error) throw error;
+
+      // If the worker can't be reached the scheduled run still picks the delivery up
+      const { error: invokeError } = await supabase.functions.invoke("deliver-webhooks");
+      return !invokeError;
+    },
+    onSuccess: (sentNow) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-webhook-deliveries"] });
+      toast({
+        title: "Redelivery queued",
+        description: sentNow ? undefined : "It will be sent on the next scheduled run.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Failed to redeliver", variant: "destructive" });
+    },
+  });
+
+  const handleEdit = (endpoint: WebhookEndpoint) => {
+    setEditingEndpoint(endpoint);
+    setFormData({
+      name: endpoint.name,
+      url: endpoint.url,
+      form_type: endpoint.form_type,
+      form_id: endpoint.form_id || ALL_FORMS,
+      is_active: endpoint.is_active,
+    });
+    setIsOpen(true);
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setEditingEndpoint(null);
+    setFormData(emptyEndpoint);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^https?:\/\//.test(formData.url.trim())) {
+      toast({ title: "Enter a URL starting with https://", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(editingEndpoint ? { ...formData, id: editingEndpoint.id } : formData);
+  };
+
+  const toggleSecret = (id: string) => {
+    setRevealedSecrets((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secret copied" });
+  };
+
+  const getScope = (endpoint: WebhookEndpoint) => {
+    const type = FORM_TYPES.find((t) => t.value === endpoint.form_type)?.label || endpoint.form_type;
+    if (endpoint.form_type !== "form_submissions") return type;
+    const form = forms.find((f) => f.id === endpoint.form_id);
+    return form ? `${type}: ${form.form_name}` : `${type} (all forms)`;
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center py-8"><div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" /></div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Webhooks</h1>
+          <p className="text-muted-foreground">Send new submissions to other systems as signed JSON requests</p>
+        </div>
+        <Dialog open={isOpen} onOpenChange={(open) => (open ? setIsOpen(true) : handleClose())}>
+          <DialogTrigger asChild>
+            <Button onClick={() => { setEditingEndpoint(null); setFormData(emptyEndpoint); }}>
+              <Plus className="h-4 w-4 mr-2" /> Add Endpoint
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingEndpoint ? "Edit Endpoint" : "Add Endpoint"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input
+                  value={formData.name}
+                  onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., CRM intake"
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>URL *</Label>
+                <Input
+                  type="url"
+                  value={formData.url}
+                  onChange={e => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                  placeholder="https://example.com/webhooks/forms"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Send</Label>
+                <Select value={formData.form_type} onValueChange={v => setFormData(prev => ({ ...prev, form_type: v }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {FORM_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.form_type === "form_submissions" && (
+                <div className="space-y-2">
+                  <Label>Form</Label>
+                  <Select value={formData.form_id} onValueChange={v => setFormData(prev => ({ ...prev, form_id: v }))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_FORMS}>All forms</SelectItem>
+                      {forms.map(form => (
+                        <SelectItem key={form.id} value={form.id}>{form.form_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={formData.is_active}
+                  onCheckedChange={v => setFormData(prev => ({ ...prev, is_active: v }))}
+                />
+                <Label>Active</Label>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={handleClose}>Cancel</Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Saving..." : "Save Endpoint"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {endpoints.length === 0 ? (
+        <div className="text-center py-12 bg-secondary/30 rounded-lg">
+          <Webhook size={48} className="mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">No endpoints yet</h3>
+          <p className="text-muted-foreground">Click "Add Endpoint" to start sending submissions to another service.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Sends</TableHead>
+              <TableHead>Signing Secret</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {endpoints.map(endpoint => (
+              <TableRow key={endpoint.id}>
+                <TableCell>
+                  <div className="font-medium">{endpoint.name}</div>
+                  <div className="text-xs text-muted-foreground truncate max-w-xs">{endpoint.url}</div>
+                </TableCell>
+                <TableCell className="text-sm">{getScope(endpoint)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <code className="text-xs bg-muted px-2 py-1 rounded">
+                      {revealedSecrets.includes(endpoint.id) ? endpoint.secret : "••••••••••••"}
+                    </code>
+                    <Button variant="ghost" size="icon" onClick={() => toggleSecret(endpoint.id)}>
+                      {revealedSecrets.includes(endpoint.id) ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => copySecret(endpoint.secret)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" title="Rotate secret">
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Rotate Secret?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Deliveries will be signed with a new secret immediately. The receiving service will reject them until it is updated.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => rotateSecretMutation.mutate(endpoint.id)}>Rotate</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={endpoint.is_active}
+                    onCheckedChange={v => toggleMutation.mutate({ id: endpoint.id, is_active: v })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(endpoint)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Endpoint?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will delete "{endpoint.name}" and its delivery log. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteMutation.mutate(endpoint.id)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Delivery Log</h2>
+            <p className="text-sm text-muted-foreground">Latest 100 deliveries. Failed requests are retried with increasing delays.</p>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="delivering">Delivering</SelectItem>
+              <SelectItem value="succeeded">Succeeded</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No deliveries yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map(delivery => (
+                <TableRow key={delivery.id} className="cursor-pointer" onClick={() => setSelectedDelivery(delivery)}>
+                  <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                  <TableCell className="text-sm">{delivery.webhook_endpoints?.name || "—"}</TableCell>
+                  <TableCell>
+                    <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[delivery.status]}`}>
+                      {delivery.status}
+                    </span>
+                    {delivery.status === "pending" && delivery.attempts > 0 && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        retry {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                  <TableCell className="text-sm">
+                    {delivery.response_status ?? (delivery.last_error ? <span className="text-destructive">{delivery.last_error}</span> : "—")}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {format(new Date(delivery.created_at), "MMM d, h:mm a")}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={delivery.status === "delivering" || redeliverMutation.isPending}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        redeliverMutation.mutate(delivery.id);
+                      }}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" /> Redeliver
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Delivery Details</DialogTitle>
+          </DialogHeader>
+          {selectedDelivery && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div><span className="text-muted-foreground">Delivery ID:</span> <code className="text-xs">{selectedDelivery.id}</code></div>
+                <div><span className="text-muted-foreground">Record ID:</span> <code className="text-xs">{selectedDelivery.record_id}</code></div>
+                <div>
+                  <span className="text-muted-foreground">Last attempt:</span>{" "}
+                  {selectedDelivery.last_attempted_at
+                    ? format(new Date(selectedDelivery.last_attempted_at), "MMM d, yyyy 'at' h:mm:ss a")
+                    : "Not yet sent"}
+                </div>
+                <div><span className="text-muted-foreground">HTTP status:</span> {selectedDelivery.response_status ?? "—"}</div>
+              </div>
+              {selectedDelivery.last_error && (
+                <div>
+                  <Label>Last Error</Label>
+                  <p className="text-destructive mt-1">{selectedDelivery.last_error}</p>
+                </div>
+              )}
+              <div>
+                <Label>Payload</Label>
+                <pre className="mt-1 bg-muted rounded p-3 text-xs overflow-x-auto max-h-64">
+                  {JSON.stringify(selectedDelivery.payload, null, 2)}
+                </pre>
+              </div>
+              {selectedDelivery.response_body && (
+                <div>
+                  <Label>Response Body</Label>
+                  <pre className="mt-1 bg-muted rounded p-3 text-xs overflow-x-auto max-h-40 whitespace-pre-wrap">
+                    {selectedDelivery.response_body}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
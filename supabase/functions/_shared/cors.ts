@@ -0,0 +1,81 @@
+// Origins allowed to call the edge functions from a browser. Set ALLOWED_ORIGINS to a
+// comma-separated list to override the defaults, e.g.
+// "https://vnuitsolutions.com,https://*.lovable.app". A "*" matches one subdomain label.
+const DEFAULT_ALLOWED_ORIGINS = [
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'https://lovable.dev',
+  'https://vnuitsolutions.com',
+  'https://www.vnuitsolutions.com',
+  'https://*.lovable.app',
+  'https://*.lovableproject.com',
+];
+
+const ALLOWED_HEADERS = 'authorization, x-client-info, apikey, content-type, x-request-id';
+// Read by the site: request ids for support, and how long to wait when rate limited
+const EXPOSED_HEADERS = 'x-request-id, retry-after, x-ratelimit-remaining';
+
+interface OriginRules {
+  exact: Set<string>;
+  patterns: RegExp[];
+}
+
+let rules: OriginRules | undefined;
+
+function toPattern(origin: string): RegExp {
+  const escaped = origin.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[a-z0-9-]+');
+  return new RegExp(`^${escaped}$`);
+}
+
+function getOriginRules(): OriginRules {
+  if (rules) return rules;
+
+  const configured = (Deno.env.get('ALLOWED_ORIGINS') || '')
+    .split(',')
+    .map((origin) => origin.trim().toLowerCase().replace(/\/$/, ''))
+    .filter(Boolean);
+  const origins = configured.length > 0 ? configured : DEFAULT_ALLOWED_ORIGINS;
+
+  rules = {
+    exact: new Set(origins.filter((origin) => !origin.includes('*'))),
+    patterns: origins.filter((origin) => origin.includes('*')).map(toPattern),
+  };
+  return rules;
+}
+
+export function isAllowedOrigin(origin: string): boolean {
+  if (!origin) return false;
+  const { exact, patterns } = getOriginRules();
+  const normalized = origin.toLowerCase();
+  return exact.has(normalized) || patterns.some((pattern) => pattern.test(normalized));
+}
+
+export interface CorsOptions {
+  methods: string[];
+  // Public endpoints, like the sitemap, that any site may read
+  anyOrigin?: boolean;
+}
+
+/**
+ * CORS headers for a response to `origin`. Without Access-Control-Allow-Origin the browser
+ * blocks the response, which is how disallowed origins are turned away.
+ */
+export function getCorsHeaders(origin: string, allowed: boolean, options: CorsOptions): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Allow-Methods': [...options.methods, 'OPTIONS'].join(', '),
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+  };
+
+  if (options.anyOrigin) {
+    headers['Access-Control-Allow-Origin'] = '*';
+  } else {
+    // The allowed origin depends on the request, so caches must not share responses
+    headers['Vary'] = 'Origin';
+    if (allowed) {
+      headers['Access-Control-Allow-Origin'] = origin;
+    }
+  }
+
+  return headers;
+}
@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FORM_AVAILABILITY_MESSAGES,
+  MAX_PATTERN_INPUT_LENGTH,
+  getEmbedOriginPatterns,
+  getFormAvailability,
+  getFormAvailabilityError,
+  getPatternError,
+  isEmbedOriginAllowed,
+  normalizeOrigin,
+  resolveFieldStates,
+  validateCustomFormData,
+  type FormField,
+} from './custom-forms.ts';
+
+const field = (overrides: Partial<FormField> & Pick<FormField, 'id'>): FormField => ({
+  label: overrides.id,
+  type: 'text',
+  required: false,
+  ...overrides,
+});
+
+describe('resolveFieldStates', () => {
+  const fields = [
+    field({ id: 'contact', type: 'radio', options: ['Email', 'Phone'] }),
+    field({
+      id: 'phone',
+      type: 'phone',
+      rules: [{ action: 'show', match: 'all', conditions: [{ fieldId: 'contact', operator: 'equals', value: 'Phone' }] }],
+    }),
+    field({
+      id: 'best_time',
+      rules: [
+        { action: 'show', match: 'all', conditions: [{ fieldId: 'phone', operator: 'is_not_empty' }] },
+        { action: 'require', match: 'all', conditions: [{ fieldId: 'phone', operator: 'is_not_empty' }] },
+      ],
+    }),
+  ];
+
+  it('shows fields whose rules match', () => {
+    const states = resolveFieldStates(fields, { contact: 'phone', phone: '+1 555 0100' });
+    expect(states.phone).toEqual({ visible: true, required: false });
+    expect(states.best_time).toEqual({ visible: true, required: true });
+  });
+
+  it('ignores answers to hidden fields in chained rules', () => {
+    const states = resolveFieldStates(fields, { contact: 'Email', phone: '+1 555 0100' });
+    expect(states.phone.visible).toBe(false);
+    expect(states.best_time).toEqual({ visible: false, required: false });
+  });
+
+  it('hides every field up to the next section', () => {
+    const states = resolveFieldStates(
+      [
+        field({ id: 'more', type: 'radio', options: ['Yes', 'No'] }),
+        field({
+          id: 'details',
+          type: 'section',
+          rules: [{ action: 'show', match: 'all', conditions: [{ fieldId: 'more', operator: 'equals', value: 'Yes' }] }],
+        }),
+        field({ id: 'company', required: true }),
+        field({ id: 'end', type: 'section' }),
+        field({ id: 'notes' }),
+      ],
+      { more: 'No' }
+    );
+    expect(states.company).toEqual({ visible: false, required: false });
+    expect(states.notes.visible).toBe(true);
+  });
+
+  it('never requires hidden-type fields', () => {
+    const states = resolveFieldStates([field({ id: 'campaign', type: 'hidden', required: true })], {});
+    expect(states.campaign).toEqual({ visible: true, required: false });
+  });
+});
+
+describe('validateCustomFormData', () => {
+  it('reports required fields that are left empty', () => {
+    const result = validateCustomFormData([field({ id: 'name', required: true })], { name: '  ' });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual({ name: 'This field is required' });
+  });
+
+  it('does not require fields hidden by rules and drops their answers', () => {
+    const fields = [
+      field({ id: 'role', type: 'select', options: ['Student', 'Other'] }),
+      field({
+        id: 'school',
+        required: true,
+        rules: [{ action: 'show', match: 'all', conditions: [{ fieldId: 'role', operator: 'equals', value: 'Student' }] }],
+      }),
+    ];
+    const result = validateCustomFormData(fields, { role: 'Other', school: 'Leftover answer' });
+    expect(result).toEqual({ valid: true, data: { role: 'Other' }, errors: {} });
+  });
+
+  it('drops invalid values of hidden-type fields instead of failing', () => {
+    const fields = [field({ id: 'ref', type: 'hidden', validation: { maxLength: 3 } })];
+    expect(validateCustomFormData(fields, { ref: 'too long' })).toEqual({ valid: true, data: {}, errors: {} });
+  });
+
+  it('drops unknown keys and trims answers', () => {
+    const result = validateCustomFormData([field({ id: 'name' })], { name: ' Ada ', admin: true });
+    expect(result.data).toEqual({ name: 'Ada' });
+  });
+
+  describe('pattern fields', () => {
+    const code = field({ id: 'code', validation: { pattern: '[A-Z]{2}\\d{4}' } });
+
+    it('matches the whole answer', () => {
+      expect(validateCustomFormData([code], { code: 'AB1234' }).valid).toBe(true);
+      expect(validateCustomFormData([code], { code: 'xAB1234' }).errors).toEqual({ code: 'Invalid format' });
+    });
+
+    it('rejects long answers before running the pattern', () => {
+      const result = validateCustomFormData([code], { code: 'A'.repeat(MAX_PATTERN_INPUT_LENGTH + 1) });
+      expect(result.errors.code).toMatch(/Must be under/);
+    });
+
+    it('ignores unusable patterns', () => {
+      for (const pattern of ['[unclosed', '(a+)+$', '(a|aa)*$']) {
+        const fields = [field({ id: 'code', validation: { pattern } })];
+        expect(validateCustomFormData(fields, { code: 'a'.repeat(40) + '!' }).valid).toBe(true);
+      }
+    });
+  });
+});
+
+describe('getPatternError', () => {
+  it('accepts ordinary patterns', () => {
+    for (const pattern of ['[A-Z]{2}\\d{4}', '(ab)+', '\\(a+\\)+', '[(a+)]+', '(?:\\+44|0)\\d{10}', '(a|b)?c+']) {
+      expect(getPatternError(pattern)).toBeNull();
+    }
+  });
+
+  it('rejects nested quantifiers', () => {
+    for (const pattern of ['(a+)+', '(\\w*)*', '((ab)+c)*', '(a{1,3})+', '(?:x+y)+']) {
+      expect(getPatternError(pattern)).toMatch(/repeat a group/);
+    }
+  });
+
+  it('rejects repeated groups of alternatives', () => {
+    for (const pattern of ['(a|aa)*b', '(\\w|\\d)+$', '(?:x|y){2,}', '((a|b)c)+']) {
+      expect(getPatternError(pattern)).toMatch(/group of alternatives/);
+    }
+  });
+
+  it('rejects invalid and overly long patterns', () => {
+    expect(getPatternError('(')).toMatch(/not a valid/);
+    expect(getPatternError('a'.repeat(201))).toMatch(/under 200/);
+  });
+});
+
+describe('normalizeOrigin', () => {
+  it('reduces sites to their origin', () => {
+    expect(normalizeOrigin('partner.org')).toBe('https://partner.org');
+    expect(normalizeOrigin(' http://partner.org:8080/events?x=1 ')).toBe('http://partner.org:8080');
+    expect(normalizeOrigin('https://*.Partner.org/')).toBe('https://*.partner.org');
+  });
+
+  it('rejects other schemes and misplaced wildcards', () => {
+    expect(normalizeOrigin('ftp://partner.org')).toBeNull();
+    expect(normalizeOrigin('intranet')).toBeNull();
+    expect(normalizeOrigin('*.org')).toBeNull();
+    expect(normalizeOrigin('*')).toBeNull();
+    expect(normalizeOrigin('events.*.partner.org')).toBeNull();
+    expect(normalizeOrigin('a*.partner.org')).toBeNull();
+  });
+});
+
+describe('isEmbedOriginAllowed', () => {
+  const domains = ['https://partner.org', 'https://*.events.org', 'http://*.local.test:8080'];
+
+  it('allows listed origins', () => {
+    expect(isEmbedOriginAllowed(domains, 'https://partner.org')).toBe(true);
+    expect(isEmbedOriginAllowed(domains, 'https://partner.org/')).toBe(true);
+  });
+
+  it('does not treat a plain entry as covering its subdomains', () => {
+    expect(isEmbedOriginAllowed(domains, 'https://www.partner.org')).toBe(false);
+  });
+
+  it('lets a wildcard cover subdomains at any depth but not the site itself', () => {
+    expect(isEmbedOriginAllowed(domains, 'https://spring.events.org')).toBe(true);
+    expect(isEmbedOriginAllowed(domains, 'https://a.b.events.org')).toBe(true);
+    expect(isEmbedOriginAllowed(domains, 'https://events.org')).toBe(false);
+    expect(isEmbedOriginAllowed(domains, 'https://notevents.org')).toBe(false);
+  });
+
+  it('keeps the scheme and port of a wildcard', () => {
+    expect(isEmbedOriginAllowed(domains, 'http://dev.local.test:8080')).toBe(true);
+    expect(isEmbedOriginAllowed(domains, 'https://dev.local.test:8080')).toBe(false);
+    expect(isEmbedOriginAllowed(domains, 'http://dev.local.test')).toBe(false);
+    expect(isEmbedOriginAllowed(domains, 'http://spring.events.org')).toBe(false);
+  });
+
+  it('rejects missing origins and origins that are themselves wildcards', () => {
+    expect(isEmbedOriginAllowed(domains, null)).toBe(false);
+    expect(isEmbedOriginAllowed(domains, 'https://*.events.org')).toBe(false);
+    expect(isEmbedOriginAllowed(null, 'https://partner.org')).toBe(false);
+  });
+});
+
+describe('getEmbedOriginPatterns', () => {
+  it('lists the origin and a wildcard for each parent domain', () => {
+    expect(getEmbedOriginPatterns('https://a.b.partner.org:8443')).toEqual([
+      'https://a.b.partner.org:8443',
+      'https://*.b.partner.org:8443',
+      'https://*.partner.org:8443',
+    ]);
+    expect(getEmbedOriginPatterns('http://localhost:5173')).toEqual(['http://localhost:5173']);
+  });
+});
+
+describe('getFormAvailability', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const window = { opens_at: '2026-10-19T09:00:00Z', closes_at: '2026-10-19T17:00:00Z', max_submissions: 30 };
+
+  it('is open inside the window and under the cap', () => {
+    expect(getFormAvailability(window, 29, now)).toBe('open');
+    expect(getFormAvailability({}, 1000, now)).toBe('open');
+  });
+
+  it('is not open before opens_at', () => {
+    expect(getFormAvailability(window, 0, new Date('2026-10-19T08:59:59Z'))).toBe('not_open');
+    expect(getFormAvailability(window, 0, new Date('2026-10-19T09:00:00Z'))).toBe('open');
+  });
+
+  it('closes at closes_at', () => {
+    expect(getFormAvailability(window, 0, new Date('2026-10-19T16:59:59Z'))).toBe('open');
+    expect(getFormAvailability(window, 0, new Date('2026-10-19T17:00:00Z'))).toBe('closed');
+  });
+
+  it('is full once the cap is reached', () => {
+    expect(getFormAvailability(window, 30, now)).toBe('full');
+    expect(getFormAvailability({ max_submissions: null }, 30, now)).toBe('open');
+  });
+
+  it('reports the window before the cap', () => {
+    expect(getFormAvailability(window, 30, new Date('2026-10-20T00:00:00Z'))).toBe('closed');
+  });
+});
+
+describe('getFormAvailabilityError', () => {
+  it('refuses a form outside its window', () => {
+    expect(getFormAvailabilityError('not_open')).toEqual({
+      error: FORM_AVAILABILITY_MESSAGES.not_open,
+      code: 'form_not_open',
+      status: 403,
+    });
+    expect(getFormAvailabilityError('closed')).toEqual({ error: 'This form is closed', code: 'form_closed', status: 403 });
+  });
+
+  it('answers a full form with a conflict', () => {
+    expect(getFormAvailabilityError('full')).toEqual({
+      error: 'This form has reached its response limit',
+      code: 'form_full',
+      status: 409,
+    });
+  });
+});
@@ -0,0 +1,916 @@
+// Custom form definitions shared by the submit-form edge function and the React app.
+// Keep this file free of runtime imports so it can be bundled by both Deno and Vite.
+
+export const FORM_FIELD_TYPES = [
+  'text',
+  'email',
+  'textarea',
+  'select',
+  'phone',
+  'number',
+  'date',
+  'url',
+  'checkbox',
+  'radio',
+  'rating',
+  'file',
+  // Survey scales: "How likely are you to recommend us?" from 0 to 10
+  'nps',
+  // Grid of statements (rows) answered on one agreement scale (options)
+  'likert',
+  // Options put in order of preference
+  'ranking',
+  // Never shown; filled from the URL query string
+  'hidden',
+  // Layout only: starts a new step in multi-step forms, never holds an answer
+  'section',
+] as const;
+
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
+
+export type ConditionOperator = 'equals' | 'not_equals' | 'contains' | 'is_empty' | 'is_not_empty';
+
+export interface FieldCondition {
+  fieldId: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+// "show" hides the field until the rule matches; "require" makes it required while the rule matches
+export interface FieldRule {
+  action: 'show' | 'require';
+  match: 'all' | 'any';
+  conditions: FieldCondition[];
+}
+
+export interface FormField {
+  id: string;
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  options?: string[];
+  // Statements of a "likert" field; its options are the scale
+  rows?: string[];
+  placeholder?: string;
+  helpText?: string;
+  validation?: {
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+  };
+  rules?: FieldRule[];
+  // Query string parameter that prefills the field; defaults to the field id
+  prefillKey?: string;
+  // Only used by "file" fields
+  file?: {
+    accept?: string[];
+    maxSizeMb?: number;
+    maxFiles?: number;
+  };
+}
+
+export interface FileUploadRequest {
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+// Likert answers map each statement to the chosen point on the scale
+export type FormValue = string | string[] | Record<string, string>;
+export type FormValues = Record<string, FormValue>;
+
+// Field id -> human readable error message
+export type FieldErrors = Record<string, string>;
+
+export interface FieldState {
+  visible: boolean;
+  required: boolean;
+}
+
+// One page of a multi-step form. Fields before the first section form an untitled step.
+export interface FormStep {
+  id: string;
+  title?: string;
+  description?: string;
+  fields: FormField[];
+}
+
+export interface CustomFormValidationResult {
+  valid: boolean;
+  data: FormValues;
+  errors: FieldErrors;
+}
+
+// Where a submission came from. Stored in form_submissions.metadata, separate from the answers.
+export const SUBMISSION_METADATA_KEYS = [
+  'source',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'referrer',
+  'landing_page',
+  // Origin of the partner site the form was embedded on
+  'embed_origin',
+] as const;
+
+export type SubmissionMetadataKey = (typeof SUBMISSION_METADATA_KEYS)[number];
+export type SubmissionMetadata = Partial<Record<SubmissionMetadataKey, string>>;
+
+const MAX_TEXT_LENGTH = 5000;
+const MAX_OPTION_LENGTH = 500;
+const MAX_RATING = 5;
+export const NPS_MAX = 10;
+export const DEFAULT_LIKERT_SCALE = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+// Uploads live in a private bucket; answers store the object path, never a public URL
+export const FILE_UPLOAD_BUCKET = 'form-uploads';
+export const MAX_FILE_SIZE_MB = 10;
+export const MAX_FILES_PER_FIELD = 10;
+export const DEFAULT_FILE_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'image/*',
+  'text/plain',
+];
+
+const emailRegex = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+const phoneRegex = /^[+()\d\s.-]{6,20}$/;
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+export function isSectionField(field: FormField): boolean {
+  return field.type === 'section';
+}
+
+export function isHiddenField(field: FormField): boolean {
+  return field.type === 'hidden';
+}
+
+export function getLikertScale(field: FormField): string[] {
+  return field.options?.length ? field.options : DEFAULT_LIKERT_SCALE;
+}
+
+// NPS groups: 0-6 detractors, 7-8 passives, 9-10 promoters
+export function getNpsCategory(score: number): 'detractor' | 'passive' | 'promoter' {
+  return score >= 9 ? 'promoter' : score >= 7 ? 'passive' : 'detractor';
+}
+
+export function isValidEmail(value: string): boolean {
+  return value.length <= 255 && emailRegex.test(value);
+}
+
+// Career applications are not custom forms, so their résumé upload uses a fixed definition
+export const RESUME_FIELD: FormField = {
+  id: 'resume',
+  label: 'Resume',
+  type: 'file',
+  required: false,
+  file: {
+    accept: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+    maxSizeMb: 5,
+    maxFiles: 1,
+  },
+};
+
+export function getFileLimits(field: FormField) {
+  const accept = field.file?.accept?.length ? field.file.accept : DEFAULT_FILE_TYPES;
+  const maxSizeMb = Math.min(field.file?.maxSizeMb || MAX_FILE_SIZE_MB, MAX_FILE_SIZE_MB);
+  const maxFiles = Math.min(Math.max(field.file?.maxFiles || 1, 1), MAX_FILES_PER_FIELD);
+  return { accept, maxSizeMb, maxFiles };
+}
+
+// Supports exact types and wildcards such as "image/*"
+export function isAllowedFileType(accept: string[], contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  return accept.some((allowed) => {
+    const pattern = allowed.trim().toLowerCase();
+    return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+  });
+}
+
+// Keep object names predictable: no path separators and nothing the storage API would reject
+export function sanitizeFileName(fileName: string): string {
+  const cleaned = fileName.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '');
+  return (cleaned || 'file').slice(-100);
+}
+
+export function getFileUploadPrefix(formId: string, fieldId: string): string {
+  return `forms/${formId}/${fieldId}/`;
+}
+
+export function getFileNameFromPath(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Check a file against a field's limits before a signed upload URL is issued.
+ */
+export function validateFileUpload(field: FormField, file: FileUploadRequest): string | null {
+  const { accept, maxSizeMb } = getFileLimits(field);
+  if (!file.fileName || typeof file.fileName !== 'string') {
+    return 'File name is required';
+  }
+  if (typeof file.size !== 'number' || file.size <= 0 || file.size > maxSizeMb * 1024 * 1024) {
+    return `Files must be smaller than ${maxSizeMb} MB`;
+  }
+  if (typeof file.contentType !== 'string' || !isAllowedFileType(accept, file.contentType)) {
+    return 'This file type is not allowed';
+  }
+  return null;
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isValidDate(value: string): boolean {
+  if (!dateRegex.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Patterns run on the server against visitor input, so both sides are kept short
+export const MAX_PATTERN_LENGTH = 200;
+export const MAX_PATTERN_INPUT_LENGTH = 500;
+
+// Repeated groups that can backtrack exponentially: a group holding a quantifier, e.g. (a+)+ or
+// (\w*)*, or holding alternatives that may overlap, e.g. (a|aa)* or (\w|\d)+
+function findUnsafeRepeat(pattern: string): 'nested' | 'alternation' | null {
+  const groups: { quantified: boolean; alternation: boolean }[] = [];
+  let quantified = false;
+  let alternation = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; "]" right after "[" or "[^" is a literal
+      i++;
+      if (pattern[i] === '^') i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+    } else if (char === '(') {
+      groups.push({ quantified, alternation });
+      quantified = false;
+      alternation = false;
+      if (pattern[i + 1] === '?') i++;
+    } else if (char === ')') {
+      const next = pattern[i + 1];
+      if (next === '*' || next === '+' || next === '{') {
+        if (quantified) return 'nested';
+        if (alternation) return 'alternation';
+      }
+      const outer = groups.pop() ?? { quantified: false, alternation: false };
+      quantified = outer.quantified || quantified;
+      alternation = outer.alternation || alternation;
+    } else if (char === '|') {
+      alternation = true;
+    } else if (char === '*' || char === '+' || char === '?' || char === '{') {
+      quantified = true;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Why an admin-authored pattern can't be used, or null when it is fine. Checked when a
+ * form is saved; patterns that fail it are ignored when answers are validated.
+ */
+export function getPatternError(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns must be under ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'Pattern is not a valid regular expression';
+  }
+  const unsafe = findUnsafeRepeat(pattern);
+  if (unsafe === 'nested') {
+    return 'Patterns cannot repeat a group that already repeats, such as (a+)+';
+  }
+  if (unsafe === 'alternation') {
+    return 'Patterns cannot repeat a group of alternatives, such as (a|b)+; use a character class like [ab]+';
+  }
+  return null;
+}
+
+// An unusable pattern is ignored rather than rejecting every submission
+function matchesPattern(value: string, pattern: string): boolean {
+  if (getPatternError(pattern)) return true;
+  return new RegExp(`^(?:${pattern})$`).test(value);
+}
+
+function validateText(field: FormField, value: string): string | null {
+  const { minLength, maxLength, pattern } = field.validation || {};
+  if (value.length > MAX_TEXT_LENGTH) {
+    return `Must be under ${MAX_TEXT_LENGTH} characters`;
+  }
+  if (typeof minLength === 'number' && value.length < minLength) {
+    return `Must be at least ${minLength} characters`;
+  }
+  if (typeof maxLength === 'number' && value.length > maxLength) {
+    return `Must be at most ${maxLength} characters`;
+  }
+  if (pattern && value.length > MAX_PATTERN_INPUT_LENGTH) {
+    return `Must be under ${MAX_PATTERN_INPUT_LENGTH} characters`;
+  }
+  if (pattern && !matchesPattern(value, pattern)) {
+    return 'Invalid format';
+  }
+  return null;
+}
+
+function conditionMatches(condition: FieldCondition, value: unknown): boolean {
+  const expected = (condition.value || '').trim().toLowerCase();
+  const answers = value && typeof value === 'object' && !Array.isArray(value) ? Object.values(value) : value;
+  const values = (Array.isArray(answers) ? answers : isEmptyValue(answers) ? [] : [String(answers)])
+    .map((item) => String(item).trim().toLowerCase());
+
+  // For checkbox answers "equals" means the option is one of the selected ones
+  switch (condition.operator) {
+    case 'equals':
+      return values.includes(expected);
+    case 'not_equals':
+      return !values.includes(expected);
+    case 'contains':
+      return values.some((item) => item.includes(expected));
+    case 'is_empty':
+      return values.length === 0;
+    case 'is_not_empty':
+      return values.length > 0;
+    default:
+      return false;
+  }
+}
+
+function ruleMatches(rule: FieldRule, data: Record<string, unknown>, hidden: Set<string>): boolean {
+  if (!rule.conditions || rule.conditions.length === 0) return false;
+  // Answers to hidden fields never count, so chained rules collapse together
+  const check = (condition: FieldCondition) =>
+    conditionMatches(condition, hidden.has(condition.fieldId) ? undefined : data[condition.fieldId]);
+  return rule.match === 'any' ? rule.conditions.some(check) : rule.conditions.every(check);
+}
+
+/**
+ * Evaluate show/require rules for every field against the current answers.
+ * Rules can depend on fields that are themselves conditional, so this iterates until stable.
+ */
+export function resolveFieldStates(fields: FormField[], data: Record<string, unknown>): Record<string, FieldState> {
+  let hidden = new Set<string>();
+  let states: Record<string, FieldState> = {};
+
+  for (let pass = 0; pass <= fields.length; pass++) {
+    const nextHidden = new Set<string>();
+    states = {};
+
+    // Hiding a section hides every field up to the next section
+    let sectionVisible = true;
+
+    for (const field of fields) {
+      const rules = field.rules || [];
+      const showRules = rules.filter((rule) => rule.action === 'show');
+      const matchesShow = showRules.length === 0 || showRules.some((rule) => ruleMatches(rule, data, hidden));
+      if (isSectionField(field)) sectionVisible = matchesShow;
+      const visible = sectionVisible && matchesShow;
+      // Visitors cannot answer hidden fields, so they are never required
+      const required = visible && !isSectionField(field) && !isHiddenField(field) && (
+        field.required || rules.some((rule) => rule.action === 'require' && ruleMatches(rule, data, hidden))
+      );
+      if (!visible) nextHidden.add(field.id);
+      states[field.id] = { visible, required };
+    }
+
+    const stable = nextHidden.size === hidden.size && [...nextHidden].every((id) => hidden.has(id));
+    hidden = nextHidden;
+    if (stable) break;
+  }
+
+  return states;
+}
+
+export function hasSections(fields: FormField[]): boolean {
+  return fields.some(isSectionField);
+}
+
+/**
+ * Split a form into steps at each section break. When field states are given, hidden
+ * fields are left out and steps with nothing left to answer are skipped.
+ */
+export function getFormSteps(fields: FormField[], states?: Record<string, FieldState>): FormStep[] {
+  const steps: FormStep[] = [];
+  let current: FormStep = { id: 'start', fields: [] };
+
+  for (const field of fields) {
+    if (isSectionField(field)) {
+      if (current.fields.length > 0) steps.push(current);
+      current = { id: field.id, title: field.label, description: field.helpText, fields: [] };
+      continue;
+    }
+    if (isHiddenField(field) || (states && states[field.id]?.visible === false)) continue;
+    current.fields.push(field);
+  }
+  if (current.fields.length > 0) steps.push(current);
+
+  return steps;
+}
+
+/**
+ * Validate and normalise a single answer. Returns the cleaned value or an error message.
+ * Empty values are handled by the caller.
+ */
+function validateFieldValue(field: FormField, raw: unknown, required: boolean): { value?: FormValue; error?: string } {
+  const options = field.options || [];
+
+  // Paths are checked against the bucket by submit-form; here only their shape and count
+  if (field.type === 'file') {
+    if (!Array.isArray(raw) || raw.some((item) => typeof item !== 'string')) {
+      return { error: 'Invalid upload' };
+    }
+    const { maxFiles } = getFileLimits(field);
+    const paths = Array.from(new Set(raw as string[]));
+    if (paths.length > maxFiles) {
+      return { error: maxFiles === 1 ? 'Only one file can be uploaded' : `Upload at most ${maxFiles} files` };
+    }
+    // forms/<formId>/<fieldId>/<uploadId>/<fileName>
+    const isValidPath = (path: string) => {
+      const segments = path.split('/');
+      return segments.length === 5 && segments[0] === 'forms' && segments[2] === field.id &&
+        segments.every((segment) => segment !== '' && segment !== '..');
+    };
+    if (!paths.every(isValidPath)) {
+      return { error: 'Invalid upload' };
+    }
+    return { value: paths };
+  }
+
+  if (field.type === 'likert') {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { error: 'Invalid answer' };
+    }
+    const rows = field.rows || [];
+    const scale = getLikertScale(field);
+    const answers: Record<string, string> = {};
+    for (const [row, point] of Object.entries(raw as Record<string, unknown>)) {
+      if (!rows.includes(row) || typeof point !== 'string' || !scale.includes(point)) {
+        return { error: 'Choose one of the available options for each statement' };
+      }
+      answers[row] = point;
+    }
+    // Required grids need every statement answered; optional ones may be partial
+    if (required && rows.some((row) => !answers[row])) {
+      return { error: 'Answer every statement' };
+    }
+    return { value: answers };
+  }
+
+  if (field.type === 'ranking') {
+    if (!Array.isArray(raw) || raw.some((item) => typeof item !== 'string')) {
+      return { error: 'Invalid ranking' };
+    }
+    const ranked = raw as string[];
+    if (ranked.length !== options.length || new Set(ranked).size !== ranked.length ||
+        !ranked.every((item) => options.includes(item))) {
+      return { error: 'Rank every option' };
+    }
+    return { value: ranked };
+  }
+
+  if (field.type === 'checkbox') {
+    if (!Array.isArray(raw) || raw.some((item) => typeof item !== 'string')) {
+      return { error: 'Invalid selection' };
+    }
+    const selected = Array.from(new Set(raw.map((item: string) => item.trim())));
+    if (selected.some((item) => item.length > MAX_OPTION_LENGTH || !options.includes(item))) {
+      return { error: 'Invalid selection' };
+    }
+    return { value: selected };
+  }
+
+  if (typeof raw === 'number' && Number.isFinite(raw)) {
+    raw = String(raw);
+  }
+  if (typeof raw !== 'string') {
+    return { error: 'Invalid value' };
+  }
+  const value = raw.trim();
+
+  switch (field.type) {
+    case 'email':
+      if (value.length > 255 || !emailRegex.test(value)) return { error: 'Enter a valid email address' };
+      break;
+    case 'url':
+      if (value.length > 2048 || !isValidUrl(value)) return { error: 'Enter a valid URL starting with http:// or https://' };
+      break;
+    case 'phone':
+      if (!phoneRegex.test(value)) return { error: 'Enter a valid phone number' };
+      break;
+    case 'number':
+      if (!Number.isFinite(Number(value))) return { error: 'Enter a valid number' };
+      break;
+    case 'date':
+      if (!isValidDate(value)) return { error: 'Enter a valid date' };
+      break;
+    case 'select':
+    case 'radio':
+      if (!options.includes(value)) return { error: 'Choose one of the available options' };
+      return { value };
+    case 'rating': {
+      const rating = Number(value);
+      if (!Number.isInteger(rating) || rating < 1 || rating > MAX_RATING) {
+        return { error: `Choose a rating between 1 and ${MAX_RATING}` };
+      }
+      return { value: String(rating) };
+    }
+    case 'nps': {
+      const score = Number(value);
+      if (!Number.isInteger(score) || score < 0 || score > NPS_MAX) {
+        return { error: `Choose a score between 0 and ${NPS_MAX}` };
+      }
+      return { value: String(score) };
+    }
+  }
+
+  const error = validateText(field, value);
+  return error ? { error } : { value };
+}
+
+/**
+ * Validate a submission against a form's field definitions. Answers are keyed by field id;
+ * unknown keys and answers to hidden fields are dropped, and every field error is collected
+ * so the UI can show them inline.
+ */
+export function validateCustomFormData(fields: FormField[], data: Record<string, unknown>): CustomFormValidationResult {
+  const cleaned: FormValues = {};
+  const errors: FieldErrors = {};
+  const states = resolveFieldStates(fields, data);
+
+  for (const field of fields) {
+    const state = states[field.id];
+    if (!state.visible || isSectionField(field)) continue;
+
+    const raw = data[field.id];
+
+    if (isEmptyValue(raw)) {
+      if (state.required) {
+        errors[field.id] = 'This field is required';
+      }
+      continue;
+    }
+
+    const result = validateFieldValue(field, raw, state.required);
+    if (result.error && isHiddenField(field)) {
+      // The visitor cannot correct a hidden value, so a bad one is dropped instead
+      continue;
+    } else if (result.error) {
+      errors[field.id] = result.error;
+    } else if (result.value !== undefined) {
+      cleaned[field.id] = result.value;
+    }
+  }
+
+  return { valid: Object.keys(errors).length === 0, data: cleaned, errors };
+}
+
+/**
+ * Errors for the fields on one step only, so a wizard can block "Next" without
+ * complaining about questions the user has not reached yet.
+ */
+export function validateFormStep(fields: FormField[], data: Record<string, unknown>, step: FormStep): FieldErrors {
+  const { errors } = validateCustomFormData(fields, data);
+  const stepErrors: FieldErrors = {};
+  for (const field of step.fields) {
+    if (errors[field.id]) stepErrors[field.id] = errors[field.id];
+  }
+  return stepErrors;
+}
+
+export function getPrefillKey(field: FormField): string {
+  return field.prefillKey?.trim() || field.id;
+}
+
+/**
+ * Answers taken from a query string such as "?company=Acme&topics=AI,Data". Values that
+ * would not pass validation (unknown options, bad ratings) are skipped, and file and
+ * section fields are never prefilled.
+ */
+export function getPrefillValues(fields: FormField[], params: URLSearchParams): FormValues {
+  const values: FormValues = {};
+
+  for (const field of fields) {
+    if (isSectionField(field) || field.type === 'file' || field.type === 'likert' || field.type === 'ranking') continue;
+    const raw = params.getAll(getPrefillKey(field)).map((value) => value.trim()).filter(Boolean);
+    if (raw.length === 0) continue;
+
+    // Options are matched case-insensitively and stored with the form's own spelling
+    const findOption = (value: string) =>
+      field.options?.find((option) => option.toLowerCase() === value.toLowerCase());
+
+    if (field.type === 'checkbox') {
+      const selected = raw
+        .flatMap((value) => value.split(','))
+        .map((value) => findOption(value.trim()))
+        .filter((option): option is string => !!option);
+      if (selected.length > 0) values[field.id] = Array.from(new Set(selected));
+      continue;
+    }
+
+    const value = raw[0];
+    if (field.type === 'select' || field.type === 'radio') {
+      const option = findOption(value);
+      if (option) values[field.id] = option;
+    } else if (field.type === 'rating' || field.type === 'nps') {
+      const score = Number(value);
+      const [min, max] = field.type === 'nps' ? [0, NPS_MAX] : [1, MAX_RATING];
+      if (Number.isInteger(score) && score >= min && score <= max) values[field.id] = String(score);
+    } else {
+      values[field.id] = value.slice(0, MAX_TEXT_LENGTH);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Keep only known metadata keys with short string values. Metadata comes straight from
+ * the browser, so it is treated like any other untrusted input.
+ */
+export function sanitizeSubmissionMetadata(input: unknown): SubmissionMetadata {
+  const metadata: SubmissionMetadata = {};
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return metadata;
+
+  for (const key of SUBMISSION_METADATA_KEYS) {
+    const value = (input as Record<string, unknown>)[key];
+    if (typeof value !== 'string' || !value.trim()) continue;
+    const maxLength = key === 'referrer' || key === 'landing_page' || key === 'embed_origin' ? 2048 : 200;
+    metadata[key] = value.trim().slice(0, maxLength);
+  }
+  return metadata;
+}
+
+// Saved drafts. The form-drafts function reads FORM_DRAFT_TTL_DAYS; local drafts in the
+// browser use the default.
+export const DEFAULT_DRAFT_TTL_DAYS = 14;
+
+/**
+ * Keep the answers of a draft that still fit the form: string or string-list values for
+ * its own fields, trimmed to the usual length limits. Drafts are not validated further,
+ * since half-filled answers are expected.
+ */
+export function sanitizeDraftValues(fields: FormField[], input: unknown): FormValues {
+  const values: FormValues = {};
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return values;
+
+  for (const field of fields) {
+    if (isSectionField(field)) continue;
+    const value = (input as Record<string, unknown>)[field.id];
+    if (typeof value === 'string') {
+      values[field.id] = value.slice(0, MAX_TEXT_LENGTH);
+    } else if (Array.isArray(value)) {
+      values[field.id] = value
+        .filter((item): item is string => typeof item === 'string')
+        .slice(0, MAX_FILES_PER_FIELD + (field.options?.length || 0))
+        .map((item) => item.slice(0, MAX_OPTION_LENGTH));
+    } else if (field.type === 'likert' && value && typeof value === 'object') {
+      values[field.id] = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).filter(
+          ([row, point]) => field.rows?.includes(row) && typeof point === 'string'
+        )
+      ) as Record<string, string>;
+    }
+  }
+  return values;
+}
+
+export const MAX_EMBED_DOMAINS = 20;
+
+/**
+ * Reduce an admin-entered site to an origin: "partner.org" and "https://partner.org/events"
+ * both become "https://partner.org". A leading "*." allows every subdomain of a site, as in
+ * "https://*.partner.org". Returns null for anything that is not a web origin.
+ */
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null;
+    // Only a whole first label may be a wildcard, and not in front of a bare TLD like "*.org"
+    const wildcardParent = url.hostname.startsWith('*.') ? url.hostname.slice(2) : url.hostname;
+    if (wildcardParent.includes('*') || (wildcardParent !== url.hostname && !wildcardParent.includes('.'))) return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The embed_domains entries that let `origin` in: the origin itself and a wildcard for each
+ * parent domain, e.g. "https://*.partner.org" for "https://events.partner.org". Empty when
+ * `origin` is not a web origin.
+ */
+export function getEmbedOriginPatterns(origin: string | null | undefined): string[] {
+  const normalized = origin ? normalizeOrigin(origin) : null;
+  if (!normalized || normalized.includes('*')) return [];
+
+  const url = new URL(normalized);
+  const port = url.port ? `:${url.port}` : '';
+  const labels = url.hostname.split('.');
+  const patterns = [normalized];
+  for (let i = 1; i < labels.length - 1; i++) {
+    patterns.push(`${url.protocol}//*.${labels.slice(i).join('.')}${port}`);
+  }
+  return patterns;
+}
+
+export function isEmbedOriginAllowed(embedDomains: string[] | null | undefined, origin: string | null | undefined): boolean {
+  const allowed = embedDomains || [];
+  return getEmbedOriginPatterns(origin).some((pattern) => allowed.includes(pattern));
+}
+
+export type FormAvailability = 'open' | 'not_open' | 'closed' | 'full';
+
+export interface FormAvailabilitySettings {
+  opens_at?: string | null;
+  closes_at?: string | null;
+  max_submissions?: number | null;
+}
+
+export const FORM_AVAILABILITY_MESSAGES: Record<Exclude<FormAvailability, 'open'>, string> = {
+  not_open: 'This form is not open yet',
+  closed: 'This form is closed',
+  full: 'This form has reached its response limit',
+};
+
+/**
+ * Whether a form is accepting responses right now. The database trigger on
+ * form_submissions applies the same rules as the final guard.
+ */
+export function getFormAvailability(
+  settings: FormAvailabilitySettings,
+  submissionCount: number,
+  now: Date = new Date()
+): FormAvailability {
+  if (settings.opens_at && now < new Date(settings.opens_at)) return 'not_open';
+  if (settings.closes_at && now >= new Date(settings.closes_at)) return 'closed';
+  if (settings.max_submissions && submissionCount >= settings.max_submissions) return 'full';
+  return 'open';
+}
+
+export interface FormAvailabilityError {
+  error: string;
+  code: `form_${Exclude<FormAvailability, 'open'>}`;
+  status: 403 | 409;
+}
+
+// How submit-form answers a form that is not accepting responses. A full form is a conflict,
+// since it may open up again if responses are filed as spam.
+export function getFormAvailabilityError(availability: Exclude<FormAvailability, 'open'>): FormAvailabilityError {
+  return {
+    error: FORM_AVAILABILITY_MESSAGES[availability],
+    code: `form_${availability}`,
+    status: availability === 'full' ? 409 : 403,
+  };
+}
+
+// "One response per email" keys on the first email question the respondent could see
+export function getRespondentEmail(fields: FormField[], data: Record<string, unknown>): string | null {
+  const states = resolveFieldStates(fields, data);
+  const field = fields.find((f) => f.type === 'email' && states[f.id]?.visible);
+  const value = field ? data[field.id] : undefined;
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : null;
+}
+
+// Plain-text rendering of an answer, used by the review step and by notification emails
+export function formatFieldValue(field: FormField, value: unknown): string | null {
+  if (isEmptyValue(value)) return null;
+  if (field.type === 'file' && Array.isArray(value)) return value.map(getFileNameFromPath).join(', ');
+  if (field.type === 'ranking' && Array.isArray(value)) return value.map((item, index) => `${index + 1}. ${item}`).join(', ');
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.type === 'likert' && typeof value === 'object') {
+    return Object.entries(value as Record<string, string>).map(([row, point]) => `${row}: ${point}`).join('; ');
+  }
+  if (field.type === 'rating') return `${value} / 5`;
+  if (field.type === 'nps') return `${value} / ${NPS_MAX}`;
+  return String(value);
+}
+
+export const DEFAULT_NOTIFICATION_SUBJECT = 'New response to {{form_name}}';
+export const DEFAULT_NOTIFICATION_BODY = 'A new response was submitted to {{form_name}} on {{submitted_at}}.\n\n{{answers}}';
+export const DEFAULT_CONFIRMATION_SUBJECT = 'We received your response';
+export const DEFAULT_CONFIRMATION_BODY = 'Thanks for filling in {{form_name}}. Here is a copy of your answers:\n\n{{answers}}';
+
+export interface MergeTag {
+  tag: string;
+  label: string;
+}
+
+export interface EmailTemplateContext {
+  formName: string;
+  fields: FormField[];
+  data: Record<string, unknown>;
+  submittedAt: Date;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const MERGE_TAG_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Tags available in email templates. Fields are referenced by id so templates survive
+ * label changes; a field's label also works as a tag for hand-written templates.
+ */
+export function getMergeTags(fields: FormField[]): MergeTag[] {
+  return [
+    { tag: '{{form_name}}', label: 'Form name' },
+    { tag: '{{submitted_at}}', label: 'Submission time' },
+    { tag: '{{answers}}', label: 'All answers' },
+    ...fields
+      .filter((f) => !isSectionField(f))
+      .map((f) => ({ tag: `{{${f.id}}}`, label: f.label || 'Untitled question' })),
+  ];
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Fill in a subject and body template. Templates are plain text written by admins;
+ * answers are escaped for the HTML part, and {{answers}} expands to every answered question.
+ */
+export function renderEmailTemplate(subject: string, body: string, context: EmailTemplateContext): RenderedEmail {
+  const answered = context.fields
+    .filter((f) => !isSectionField(f))
+    .map((f) => ({ label: f.label, value: formatFieldValue(f, context.data[f.id]) }))
+    .filter((answer): answer is { label: string; value: string } => answer.value !== null);
+
+  const resolve = (tag: string): string | null => {
+    if (tag === 'form_name') return context.formName;
+    if (tag === 'submitted_at') return context.submittedAt.toUTCString();
+    const field = context.fields.find((f) => f.id === tag)
+      || context.fields.find((f) => f.label.trim().toLowerCase() === tag.toLowerCase());
+    return field ? formatFieldValue(field, context.data[field.id]) ?? '' : null;
+  };
+
+  // Unknown tags are left as written so typos are visible in the received email
+  const renderText = (template: string) =>
+    template.replace(MERGE_TAG_PATTERN, (match, tag: string) => {
+      if (tag === 'answers') return answered.map((a) => `${a.label}: ${a.value}`).join('\n');
+      return resolve(tag) ?? match;
+    });
+
+  const answersHtml = `<table style="border-collapse: collapse; width: 100%;">${answered
+    .map((a) =>
+      `<tr><td style="padding: 8px; border-bottom: 1px solid #eee; color: #666; vertical-align: top; width: 35%;">${escapeHtml(a.label)}</td>` +
+      `<td style="padding: 8px; border-bottom: 1px solid #eee; color: #333; white-space: pre-wrap;">${escapeHtml(a.value)}</td></tr>`)
+    .join('')}</table>`;
+
+  let html = '';
+  let lastIndex = 0;
+  for (const match of body.matchAll(MERGE_TAG_PATTERN)) {
+    html += escapeHtml(body.slice(lastIndex, match.index)).replace(/\n/g, '<br>');
+    const tag = match[1];
+    html += tag === 'answers' ? answersHtml : escapeHtml(resolve(tag) ?? match[0]).replace(/\n/g, '<br>');
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  html += escapeHtml(body.slice(lastIndex)).replace(/\n/g, '<br>');
+
+  return {
+    // Subjects are single-line headers
+    subject: renderText(subject).replace(/\s+/g, ' ').trim().slice(0, 200),
+    text: renderText(body),
+    html: `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; color: #333; font-size: 14px;">${html}</div>`,
+  };
+}
@@ -0,0 +1,126 @@
+// Throwaway inbox providers, used by the spam checks in spam.ts. Subdomains of these match too.
+// Kept short on purpose: the common services that show up in form spam, not every alias they run.
+export const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  '33mail.com',
+  'anonbox.net',
+  'anonymbox.com',
+  'burnermail.io',
+  'byom.de',
+  'chacuo.net',
+  'cool.fr.nf',
+  'courriel.fr.nf',
+  'crazymailing.com',
+  'cuvox.de',
+  'dayrep.com',
+  'deadaddress.com',
+  'discard.email',
+  'discardmail.com',
+  'dispostable.com',
+  'dodgit.com',
+  'dropmail.me',
+  'einrot.com',
+  'emailfake.com',
+  'emailondeck.com',
+  'emailtemporanea.net',
+  'fakeinbox.com',
+  'fakemail.net',
+  'fakemailgenerator.com',
+  'filzmail.com',
+  'fleckens.hu',
+  'getairmail.com',
+  'getnada.com',
+  'gishpuppy.com',
+  'grr.la',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.info',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'gustr.com',
+  'harakirimail.com',
+  'hmamail.com',
+  'incognitomail.org',
+  'inboxbear.com',
+  'inboxkitten.com',
+  'jetable.fr.nf',
+  'jetable.org',
+  'jourrapide.com',
+  'kasmail.com',
+  'mail-temp.com',
+  'mail.tm',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailexpire.com',
+  'mailforspam.com',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailnesia.com',
+  'mailnull.com',
+  'mailpoof.com',
+  'mailsac.com',
+  'mailtemp.info',
+  'meltmail.com',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mt2015.com',
+  'mytemp.email',
+  'mytrashmail.com',
+  'nada.email',
+  'nomail.xl.cx',
+  'nospam.ze.tc',
+  'nwytg.net',
+  'one-time.email',
+  'owlymail.com',
+  'rhyta.com',
+  'sharklasers.com',
+  'shieldemail.com',
+  'spam4.me',
+  'spambog.com',
+  'spambox.us',
+  'spamgourmet.com',
+  'spamex.com',
+  'speed.1s.fr',
+  'superrito.com',
+  'teleworm.us',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.net',
+  'tempmail.plus',
+  'tempmailo.com',
+  'tempr.email',
+  'throwawaymail.com',
+  'tmail.ws',
+  'tmpmail.net',
+  'tmpmail.org',
+  'trash-mail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.me',
+  'trashmail.net',
+  'trbvm.com',
+  'wegwerfmail.de',
+  'wegwerfmail.net',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+  'zetmail.com',
+]);
+
+export function isDisposableEmailDomain(email: string): boolean {
+  let domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+  while (domain.includes('.')) {
+    if (DISPOSABLE_EMAIL_DOMAINS.has(domain)) return true;
+    domain = domain.slice(domain.indexOf('.') + 1);
+  }
+  return false;
+}
@@ -0,0 +1,89 @@
+// Outgoing email for edge functions. Senders share one interface so functions don't care
+// whether mail goes to Resend or, in local development, only to the function logs.
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface EmailSender {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+const DEFAULT_FROM = 'VNU IT Solutions <onboarding@resend.dev>';
+
+export function createResendSender(apiKey: string, from: string = DEFAULT_FROM): EmailSender {
+  return {
+    name: 'resend',
+    async send(message) {
+      try {
+        const response = await fetch('https://api.resend.com/emails', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            from,
+            to: message.to,
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+            reply_to: message.replyTo,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null);
+          console.error('Resend API error:', errorData);
+          return { success: false, error: 'Failed to send email' };
+        }
+
+        return { success: true };
+      } catch (error) {
+        console.error('Email send error:', error);
+        return { success: false, error: 'Failed to send email' };
+      }
+    },
+  };
+}
+
+// Development only: prints the message instead of sending it, so it must never be the
+// fallback for a missing API key in production
+export const logSender: EmailSender = {
+  name: 'log',
+  send(message) {
+    console.log(
+      `[email] to=${message.to.join(', ')} subject="${message.subject}"` +
+        (message.replyTo ? ` reply-to=${message.replyTo}` : '') +
+        `\n${message.text}`
+    );
+    return Promise.resolve({ success: true });
+  },
+};
+
+/**
+ * The sender configured for this environment. EMAIL_TRANSPORT=log selects the log sender;
+ * otherwise Resend is used when RESEND_API_KEY is set. Returns null when neither applies.
+ */
+export function getEmailSender(): EmailSender | null {
+  if (Deno.env.get('EMAIL_TRANSPORT') === 'log') {
+    return logSender;
+  }
+
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+  if (resendApiKey) {
+    return createResendSender(resendApiKey, Deno.env.get('EMAIL_FROM') || DEFAULT_FROM);
+  }
+
+  return null;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { FormField } from './custom-forms.ts';
+import {
+  getExportColumns,
+  getExportValue,
+  sanitizeExportColumns,
+  toCsvLine,
+  type ExportRow,
+} from './exports.ts';
+
+const field = (overrides: Partial<FormField> & Pick<FormField, 'id'>): FormField => ({
+  label: overrides.id,
+  type: 'text',
+  required: false,
+  ...overrides,
+});
+
+describe('toCsvLine', () => {
+  it('prefixes text that a spreadsheet would run as a formula', () => {
+    expect(toCsvLine(['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)', '\tcmd'])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+1,'-2+3,'@SUM(A1),'\tcmd\r\n`
+    );
+  });
+
+  it('leaves numbers and formula characters past the first alone', () => {
+    expect(toCsvLine([-5, 'a=b', 'Ada @ home', 3.5, true])).toBe('-5,a=b,Ada @ home,3.5,true\r\n');
+  });
+
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsvLine(['Lovelace, Ada', 'She said "hi"', 'line one\nline two', 'cr\rlf'])).toBe(
+      '"Lovelace, Ada","She said ""hi""","line one\nline two","cr\rlf"\r\n'
+    );
+  });
+
+  it('quotes a formula cell that starts with a carriage return', () => {
+    expect(toCsvLine(['\r=1+1'])).toBe(`"'\r=1+1"\r\n`);
+  });
+
+  it('writes empty cells for null and JSON for lists and objects', () => {
+    expect(toCsvLine([null, ['a', 'b'], { x: 1 }])).toBe(',"[""a"",""b""]","{""x"":1}"\r\n');
+  });
+});
+
+describe('getExportColumns', () => {
+  it('offers the table columns of a built-in form', () => {
+    expect(getExportColumns('contact_requests').map((column) => column.key)).toEqual([
+      'name', 'email', 'purpose', 'message', 'tags', 'status', 'created_at',
+    ]);
+  });
+
+  it('gives each answer of a custom form its own column, skipping sections', () => {
+    const fields = [field({ id: 'intro', type: 'section' }), field({ id: 'q1', label: 'Company' })];
+    const columns = getExportColumns('form_submissions', fields);
+    expect(columns).toContainEqual({ key: 'answers.q1', label: 'Company' });
+    expect(columns.some((column) => column.key === 'answers.intro')).toBe(false);
+    expect(columns).toContainEqual({ key: 'metadata.utm_source', label: 'UTM Source' });
+  });
+
+  it('combines answers into one column without a form', () => {
+    expect(getExportColumns('form_submissions')).toContainEqual({ key: 'answers', label: 'Answers' });
+  });
+});
+
+describe('getExportValue', () => {
+  const fields = [
+    field({ id: 'q1', label: 'Company' }),
+    field({ id: 'q2', label: 'Topics', type: 'checkbox', options: ['A', 'B'] }),
+    field({ id: 'q3', label: 'Score', type: 'number' }),
+  ];
+  const row: ExportRow = {
+    respondent_email: 'ada@example.com',
+    tags: ['vip', 'follow-up'],
+    submission_data: { q1: 'Analytical Engines', Topics: ['A', 'B'], q3: '42' },
+    metadata: { utm_source: 'newsletter', landing_page: 7 },
+    custom_forms: { form_name: 'Survey', fields },
+    custom_form_versions: { version: 3, fields },
+  };
+
+  it('flattens answers for CSV and keeps them as submitted for JSON', () => {
+    expect(getExportValue(row, 'answers.q2', 'csv')).toBe('A, B');
+    expect(getExportValue(row, 'answers.q2', 'json')).toEqual(['A', 'B']);
+    expect(getExportValue(row, 'answers.q3', 'xlsx')).toBe(42);
+  });
+
+  it('combines every answer into the answers column', () => {
+    expect(getExportValue(row, 'answers', 'csv')).toBe('Company: Analytical Engines; Topics: A, B; Score: 42');
+    expect(getExportValue(row, 'answers', 'json')).toEqual({ Company: 'Analytical Engines', Topics: ['A', 'B'], Score: '42' });
+  });
+
+  it('maps form, version, metadata and tag columns', () => {
+    expect(getExportValue(row, 'form_name', 'csv')).toBe('Survey');
+    expect(getExportValue(row, 'form_version', 'csv')).toBe(3);
+    expect(getExportValue(row, 'metadata.utm_source', 'csv')).toBe('newsletter');
+    expect(getExportValue(row, 'metadata.landing_page', 'csv')).toBeNull();
+    expect(getExportValue(row, 'tags', 'csv')).toBe('vip, follow-up');
+    expect(getExportValue(row, 'tags', 'json')).toEqual(['vip', 'follow-up']);
+    expect(getExportValue(row, 'respondent_email', 'csv')).toBe('ada@example.com');
+    expect(getExportValue(row, 'answers.missing', 'csv')).toBeNull();
+  });
+});
+
+describe('sanitizeExportColumns', () => {
+  const available = getExportColumns('contact_requests');
+
+  it('drops unknown and repeated keys and defaults blank labels', () => {
+    const columns = sanitizeExportColumns(
+      [{ key: 'email', label: '  ' }, { key: 'password' }, { key: 'email', label: 'Again' }, { key: 'name', label: ' Full name ' }],
+      available
+    );
+    expect(columns).toEqual([{ key: 'email', label: 'Email' }, { key: 'name', label: 'Full name' }]);
+  });
+
+  it('numbers labels that clash', () => {
+    const columns = sanitizeExportColumns([{ key: 'name', label: 'Who' }, { key: 'email', label: 'who' }], available);
+    expect(columns.map((column) => column.label)).toEqual(['Who', 'who (2)']);
+  });
+
+  it('returns nothing for input that is not a list', () => {
+    expect(sanitizeExportColumns('name,email', available)).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+// Submission exports, shared by the export-submissions edge function and the admin export dialog:
+// which columns each submissions screen offers and how a row is flattened into them.
+// Like custom-forms.ts this only imports other _shared files, so both Deno and Vite can bundle it.
+import {
+  SUBMISSION_METADATA_KEYS,
+  formatFieldValue,
+  isEmptyValue,
+  isSectionField,
+  type FormField,
+  type SubmissionMetadataKey,
+} from './custom-forms.ts';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FORM_TYPES = [
+  'contact_requests',
+  'career_applications',
+  'nowrise_applications',
+  'form_submissions',
+] as const;
+export type ExportFormType = (typeof EXPORT_FORM_TYPES)[number];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+};
+
+export const MAX_EXPORT_COLUMNS = 200;
+export const MAX_EXPORT_LABEL_LENGTH = 100;
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+/**
+ * The filters of the screen the export was started from. Dates are sent as timestamps because
+ * only the browser knows which time zone the admin picked the days in.
+ */
+export interface ExportFilters {
+  search?: string; // to_tsquery() text for the search_vector column
+  status?: string;
+  tag?: string;
+  createdFrom?: string;
+  createdBefore?: string;
+  formId?: string;
+  metadata?: Partial<Record<SubmissionMetadataKey, string>>;
+}
+
+export interface ExportRequest {
+  formType: ExportFormType;
+  format: ExportFormat;
+  columns: ExportColumn[];
+  filters: ExportFilters;
+}
+
+const BASE_COLUMNS: Record<ExportFormType, ExportColumn[]> = {
+  contact_requests: [
+    { key: 'name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'purpose', label: 'Purpose' },
+    { key: 'message', label: 'Message' },
+  ],
+  career_applications: [
+    { key: 'name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'role_applied', label: 'Role' },
+    { key: 'cover_letter', label: 'Cover Letter' },
+    { key: 'resume_url', label: 'Résumé' },
+  ],
+  nowrise_applications: [
+    { key: 'name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'program', label: 'Program' },
+    { key: 'education', label: 'Education' },
+  ],
+  form_submissions: [
+    { key: 'form_name', label: 'Form' },
+    { key: 'form_version', label: 'Form Version' },
+    { key: 'respondent_email', label: 'Respondent Email' },
+  ],
+};
+
+const METADATA_LABELS: Record<SubmissionMetadataKey, string> = {
+  source: 'Link Source',
+  utm_source: 'UTM Source',
+  utm_medium: 'UTM Medium',
+  utm_campaign: 'UTM Campaign',
+  referrer: 'Referrer',
+  landing_page: 'Landing Page',
+  embed_origin: 'Embedded On',
+};
+
+const ANSWER_PREFIX = 'answers.';
+const METADATA_PREFIX = 'metadata.';
+
+/**
+ * Every column a submissions screen can export, in their default order. Custom form answers
+ * get one column per field in the order of `fields`; without a single form to take the
+ * order from they are combined into one "Answers" column.
+ */
+export function getExportColumns(formType: ExportFormType, fields?: FormField[]): ExportColumn[] {
+  const trailing = [
+    { key: 'tags', label: 'Tags' },
+    { key: 'status', label: 'Status' },
+    { key: 'created_at', label: 'Submitted At' },
+  ];
+  if (formType !== 'form_submissions') {
+    return [...BASE_COLUMNS[formType], ...trailing];
+  }
+
+  const answers = fields
+    ? fields.filter((field) => !isSectionField(field)).map((field) => ({ key: `${ANSWER_PREFIX}${field.id}`, label: field.label }))
+    : [{ key: 'answers', label: 'Answers' }];
+  const metadata = SUBMISSION_METADATA_KEYS.map((key) => ({ key: `${METADATA_PREFIX}${key}`, label: METADATA_LABELS[key] }));
+  return [...BASE_COLUMNS.form_submissions, ...answers, ...trailing, ...metadata];
+}
+
+export interface ExportRow {
+  [column: string]: unknown;
+  submission_data?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown> | null;
+  custom_forms?: { form_name: string; fields: FormField[] | null } | null;
+  custom_form_versions?: { version: number; fields: FormField[] | null } | null;
+}
+
+export type ExportValue = string | number | boolean | null | unknown[] | Record<string, unknown>;
+
+// Field definitions the answers were given against: the submission's version, else the current form
+function getRowFields(row: ExportRow): FormField[] {
+  return row.custom_form_versions?.fields || row.custom_forms?.fields || [];
+}
+
+// Older submissions keyed answers by label instead of field id
+function getAnswer(row: ExportRow, field: FormField): unknown {
+  const data = row.submission_data || {};
+  return data[field.id] ?? data[field.label];
+}
+
+const NUMERIC_FIELD_TYPES = ['number', 'rating', 'nps'];
+
+/**
+ * One answer as a spreadsheet cell. Numbers stay numbers; checkbox and file lists, rankings
+ * and Likert grids become text the same way the admin screens show them.
+ */
+function toCellValue(field: FormField, value: unknown): string | number | null {
+  if (isEmptyValue(value)) return null;
+  if (NUMERIC_FIELD_TYPES.includes(field.type) && value !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return formatFieldValue(field, value);
+}
+
+/**
+ * The value of one column for one row. JSON keeps answers as submitted (checkbox answers stay
+ * arrays); CSV and XLSX get flat cell values.
+ */
+export function getExportValue(row: ExportRow, key: string, format: ExportFormat): ExportValue {
+  if (key === 'form_name') return row.custom_forms?.form_name ?? null;
+  if (key === 'form_version') return row.custom_form_versions?.version ?? null;
+
+  if (key.startsWith(METADATA_PREFIX)) {
+    const value = row.metadata?.[key.slice(METADATA_PREFIX.length)];
+    return typeof value === 'string' ? value : null;
+  }
+
+  if (key === 'answers') {
+    const fields = getRowFields(row).filter((field) => !isSectionField(field));
+    const answered = fields.filter((field) => !isEmptyValue(getAnswer(row, field)));
+    if (format === 'json') {
+      return Object.fromEntries(answered.map((field) => [field.label, getAnswer(row, field)]));
+    }
+    return answered.map((field) => `${field.label}: ${formatFieldValue(field, getAnswer(row, field))}`).join('; ') || null;
+  }
+
+  if (key.startsWith(ANSWER_PREFIX)) {
+    const id = key.slice(ANSWER_PREFIX.length);
+    const field = getRowFields(row).find((item) => item.id === id) ||
+      row.custom_forms?.fields?.find((item) => item.id === id);
+    if (!field) return null;
+    const value = getAnswer(row, field);
+    if (format === 'json') return isEmptyValue(value) ? null : (value as ExportValue);
+    return toCellValue(field, value);
+  }
+
+  if (key === 'tags') {
+    const tags = Array.isArray(row.tags) ? (row.tags as string[]) : [];
+    return format === 'json' ? tags : tags.join(', ') || null;
+  }
+
+  const value = row[key];
+  return value === undefined ? null : (value as ExportValue);
+}
+
+/**
+ * Checks the columns an admin picked against the ones on offer. Unknown keys are dropped,
+ * labels are trimmed and made unique so they can be used as JSON keys.
+ */
+export function sanitizeExportColumns(input: unknown, available: ExportColumn[]): ExportColumn[] {
+  if (!Array.isArray(input)) return [];
+  const byKey = new Map(available.map((column) => [column.key, column]));
+  const seenKeys = new Set<string>();
+  const seenLabels = new Set<string>();
+  const columns: ExportColumn[] = [];
+
+  for (const item of input.slice(0, MAX_EXPORT_COLUMNS)) {
+    const key = typeof item?.key === 'string' ? item.key : '';
+    const column = byKey.get(key);
+    if (!column || seenKeys.has(key)) continue;
+    seenKeys.add(key);
+
+    const base = (typeof item.label === 'string' ? item.label.trim() : '').slice(0, MAX_EXPORT_LABEL_LENGTH) || column.label;
+    let label = base;
+    for (let n = 2; seenLabels.has(label.toLowerCase()); n++) label = `${base} (${n})`;
+    seenLabels.add(label.toLowerCase());
+    columns.push({ key, label });
+  }
+  return columns;
+}
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: ExportValue): string {
+  if (value === null) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: ExportValue[]): string {
+  return `${values.map(toCsvCell).join(',')}\r\n`;
+}
+
+export function getExportFileName(formType: ExportFormType, format: ExportFormat, date = new Date()): string {
+  return `${formType.replace(/_/g, '-')}-${date.toISOString().slice(0, 10)}.${format}`;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_FORM_SCHEMAS } from './form-schemas.ts';
+
+// The first message for each field, as submit-form reports them
+const errorsOf = (result: { success: boolean; error?: { issues: { path: (string | number)[]; message: string }[] } }) =>
+  Object.fromEntries((result.error?.issues || []).reverse().map((issue) => [issue.path.join('.'), issue.message]));
+
+describe('BUILT_IN_FORM_SCHEMAS', () => {
+  it('trims answers and drops keys outside the form', () => {
+    const result = BUILT_IN_FORM_SCHEMAS.contact_requests.safeParse({
+      name: '  Ada Lovelace ',
+      email: 'ada@example.com',
+      purpose: 'business',
+      message: 'I would like to talk about a project.',
+      program: 'ignored',
+    });
+    expect(result.success && result.data).toEqual({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      purpose: 'business',
+      message: 'I would like to talk about a project.',
+    });
+  });
+
+  it('reports each field by the name the form registers', () => {
+    const result = BUILT_IN_FORM_SCHEMAS.contact_requests.safeParse({ name: 'A', email: 'ada@', purpose: ' ', message: 42 });
+    expect(errorsOf(result)).toEqual({
+      name: 'Name must be at least 2 characters',
+      email: 'Please enter a valid email address',
+      purpose: 'Please select a purpose',
+      message: 'Message must be text',
+    });
+  });
+
+  it('asks for missing required answers', () => {
+    const result = BUILT_IN_FORM_SCHEMAS.nowrise_applications.safeParse({});
+    expect(errorsOf(result)).toEqual({
+      name: 'Name is required',
+      email: 'Email is required',
+      program: 'Please select a program',
+    });
+  });
+
+  it('stores blank optional answers as null', () => {
+    const result = BUILT_IN_FORM_SCHEMAS.nowrise_applications.safeParse({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      program: 'ai-foundations',
+      phone: '  ',
+    });
+    expect(result.success && result.data).toMatchObject({ phone: null, education: null });
+  });
+
+  it('only accepts resume paths issued by create-upload', () => {
+    const application = { name: 'Ada Lovelace', email: 'ada@example.com', role_applied: 'Engineer' };
+    const upload = 'careers/6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b/resume.pdf';
+    expect(BUILT_IN_FORM_SCHEMAS.career_applications.safeParse({ ...application, resume_url: upload }).success).toBe(true);
+    const result = BUILT_IN_FORM_SCHEMAS.career_applications.safeParse({ ...application, resume_url: '../secrets.txt' });
+    expect(errorsOf(result)).toEqual({ resume_url: 'Invalid resume upload' });
+  });
+});
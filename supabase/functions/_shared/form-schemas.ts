@@ -0,0 +1,78 @@
+// Zod schemas of the built-in forms, shared by the submit-form edge function and the React app
+// so both apply the same limits. zod is imported from the URL Deno uses; Vite and TypeScript
+// map that URL to the npm package (see vite.config.ts and tsconfig.app.json).
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { isValidEmail } from './custom-forms.ts';
+
+export const BUILT_IN_FORM_TYPES = ['contact_requests', 'career_applications', 'nowrise_applications'] as const;
+export type BuiltInFormType = (typeof BUILT_IN_FORM_TYPES)[number];
+
+// resume_url holds a storage path issued by create-upload; submit-form checks the object exists
+const uploadPathRegex = /^careers\/[0-9a-f-]{36}\/[A-Za-z0-9._-]+$/i;
+
+interface TextOptions {
+  min?: number;
+  max: number;
+  // Replaces "<label> is required", e.g. for selects
+  requiredMessage?: string;
+}
+
+// Labels are used in the messages, e.g. "Name must be at least 2 characters"
+function requiredText(label: string, { min = 1, max, requiredMessage }: TextOptions) {
+  const missing = requiredMessage || `${label} is required`;
+  let schema = z.string({ required_error: missing, invalid_type_error: `${label} must be text` })
+    .trim()
+    .min(1, missing);
+  if (min > 1) schema = schema.min(min, `${label} must be at least ${min} characters`);
+  return schema.max(max, `${label} must be at most ${max} characters`);
+}
+
+// Blank answers are stored as null
+function optionalText(label: string, max: number) {
+  return z.string({ invalid_type_error: `${label} must be text` })
+    .trim()
+    .max(max, `${label} must be at most ${max} characters`);
+}
+
+const email = requiredText('Email', { max: 255 }).refine(isValidEmail, 'Please enter a valid email address');
+
+const toNull = (value: string | null | undefined) => value || null;
+
+export const contactRequestSchema = z.object({
+  name: requiredText('Name', { min: 2, max: 100 }),
+  email,
+  purpose: requiredText('Purpose', { max: 100, requiredMessage: 'Please select a purpose' }),
+  message: requiredText('Message', { min: 10, max: 1000 }),
+});
+
+export const careerApplicationSchema = z.object({
+  name: requiredText('Name', { min: 2, max: 100 }),
+  email,
+  role_applied: requiredText('Role', { max: 100, requiredMessage: 'Please select a role' }),
+  cover_letter: optionalText('Cover letter', 5000).nullish().transform(toNull),
+  resume_url: optionalText('Resume', 300)
+    .refine((value) => !value || uploadPathRegex.test(value), 'Invalid resume upload')
+    .nullish()
+    .transform(toNull),
+});
+
+export const nowriseApplicationSchema = z.object({
+  name: requiredText('Name', { min: 2, max: 100 }),
+  email,
+  program: requiredText('Program', { max: 100, requiredMessage: 'Please select a program' }),
+  phone: optionalText('Phone', 20).nullish().transform(toNull),
+  education: optionalText('Education', 200).nullish().transform(toNull),
+});
+
+/**
+ * One schema per built-in form type. Values are trimmed, blank optional answers become null
+ * and keys outside the schema are dropped. Error paths are the field names the React forms
+ * register, so server errors map back onto the same inputs.
+ */
+export const BUILT_IN_FORM_SCHEMAS = {
+  contact_requests: contactRequestSchema,
+  career_applications: careerApplicationSchema,
+  nowrise_applications: nowriseApplicationSchema,
+} satisfies Record<BuiltInFormType, z.ZodTypeAny>;
+
+export type BuiltInFormValues = z.output<(typeof BUILT_IN_FORM_SCHEMAS)[BuiltInFormType]>;
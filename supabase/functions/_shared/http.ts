@@ -0,0 +1,170 @@
+// Request handling shared by the edge functions: CORS, the service role client, JSON bodies
+// checked against zod schemas, and one place where errors become responses.
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.25.76";
+import { getCorsHeaders, isAllowedOrigin } from "./cors.ts";
+
+export { z };
+
+/**
+ * Thrown to end a request with a specific status. `body` is merged into the JSON response
+ * next to `error`, e.g. `{ fieldErrors }` or `{ code }`.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly body: Record<string, unknown> = {},
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+}
+
+export function getBearerToken(req: Request): string {
+  return (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+}
+
+// The first problem with each property, keyed by its path, e.g. "email" or "columns.0.key"
+export function getFieldErrors(error: z.ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join('.');
+    if (key && !(key in fieldErrors)) fieldErrors[key] = issue.message;
+  }
+  return fieldErrors;
+}
+
+/**
+ * Reads the JSON body and checks it against `schema`. Invalid bodies end the request with 400,
+ * the first problem as `error` and every problem in `fieldErrors`, keyed by property path.
+ */
+export async function parseBody<T extends z.ZodTypeAny>(req: Request, schema: T): Promise<z.infer<T>> {
+  let input: unknown;
+  try {
+    input = await req.json();
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const fieldErrors = getFieldErrors(result.error);
+    throw new HttpError(
+      400,
+      result.error.issues[0]?.message || 'Invalid request',
+      Object.keys(fieldErrors).length > 0 ? { fieldErrors } : {}
+    );
+  }
+  return result.data;
+}
+
+export interface RequestContext {
+  req: Request;
+  // Sent back in X-Request-Id and logged with unexpected errors
+  requestId: string;
+  // Empty for requests without an Origin header, e.g. server to server
+  origin: string;
+  // Service role client, created on first use
+  readonly supabase: SupabaseClient;
+  json(body: Record<string, unknown>, status?: number, headers?: Record<string, string>): Response;
+  // Accepts this request's origin although it isn't in ALLOWED_ORIGINS, e.g. a form's embed domain
+  allowOrigin(): void;
+}
+
+export interface HandlerOptions {
+  // Methods besides OPTIONS the function answers; others get 405. Defaults to POST.
+  methods?: string[];
+  // Lets any site read the responses
+  anyOrigin?: boolean;
+  // Decides preflight requests from origins outside ALLOWED_ORIGINS
+  allowPreflightOrigin?: (ctx: RequestContext) => Promise<boolean>;
+  // Merged into the 500 response, for callers that expect more than `error`
+  errorBody?: Record<string, unknown>;
+}
+
+function getRequestId(req: Request): string {
+  const incoming = req.headers.get('x-request-id');
+  return incoming && /^[A-Za-z0-9-]{8,64}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const merged = new Headers(headers);
+  response.headers.forEach((value, key) => merged.set(key, value));
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers: merged });
+}
+
+/**
+ * Serves an edge function. Handles preflight and method checks, adds CORS headers and the
+ * request id to every response, and turns thrown errors into JSON: HttpError keeps its status,
+ * anything else is logged and answered with 500.
+ */
+export function serveFunction(
+  name: string,
+  handler: (ctx: RequestContext) => Promise<Response>,
+  options: HandlerOptions = {}
+): void {
+  const methods = options.methods ?? ['POST'];
+
+  Deno.serve(async (req) => {
+    const origin = req.headers.get('origin') || '';
+    let allowed = isAllowedOrigin(origin);
+    let client: SupabaseClient | undefined;
+
+    const ctx: RequestContext = {
+      req,
+      requestId: getRequestId(req),
+      origin,
+      get supabase() {
+        client ??= createServiceClient();
+        return client;
+      },
+      json: (body, status = 200, headers = {}) =>
+        new Response(JSON.stringify(body), { status, headers: { ...headers, 'Content-Type': 'application/json' } }),
+      allowOrigin: () => {
+        allowed = true;
+      },
+    };
+
+    let response: Response;
+    if (req.method === 'OPTIONS') {
+      if (origin && !allowed && options.allowPreflightOrigin) {
+        allowed = await options.allowPreflightOrigin(ctx).catch((error) => {
+          console.error(`[${name}] Preflight origin check failed for ${origin}:`, error);
+          return false;
+        });
+      }
+      response = new Response(null);
+    } else if (!methods.includes(req.method)) {
+      response = ctx.json({ error: 'Method not allowed' }, 405, { 'Allow': [...methods, 'OPTIONS'].join(', ') });
+    } else {
+      try {
+        response = await handler(ctx);
+      } catch (error) {
+        if (error instanceof HttpError) {
+          response = ctx.json({ ...error.body, error: error.message }, error.status, error.headers);
+        } else {
+          console.error(`[${name}] Unexpected error (request ${ctx.requestId}):`, error);
+          response = ctx.json(
+            { ...options.errorBody, error: 'An unexpected error occurred. Please try again.', requestId: ctx.requestId },
+            500
+          );
+        }
+      }
+    }
+
+    return withHeaders(response, {
+      ...getCorsHeaders(origin, allowed, { methods, anyOrigin: options.anyOrigin }),
+      'X-Request-Id': ctx.requestId,
+    });
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { checkRateLimit } from './rate-limit.ts';
+
+interface RateLimitRow {
+  allowed: boolean;
+  remaining: number;
+  retry_after: number;
+}
+
+// Answers check_rate_limit calls in order and records their arguments
+const fakeClient = (...rows: (RateLimitRow | null)[]) => {
+  const calls: Record<string, unknown>[] = [];
+  const client = {
+    rpc: (_name: string, args: Record<string, unknown>) => {
+      calls.push(args);
+      const data = rows[calls.length - 1] ?? null;
+      return { single: async () => ({ data, error: data ? null : { message: 'connection refused' } }) };
+    },
+  };
+  return { supabase: client as unknown as SupabaseClient, calls };
+};
+
+const allowed = (remaining: number): RateLimitRow => ({ allowed: true, remaining, retry_after: 0 });
+const refused = (retryAfter: number): RateLimitRow => ({ allowed: false, remaining: 0, retry_after: retryAfter });
+
+describe('checkRateLimit', () => {
+  it('keys limits by the subject, lowercasing emails', async () => {
+    const { supabase, calls } = fakeClient(allowed(2), allowed(9));
+    await checkRateLimit(supabase, 'send-otp:send', { email: ' Ada@Example.COM ', ip: '203.0.113.7' });
+    expect(calls.map((args) => args._key)).toEqual(['email=ada@example.com', 'ip=203.0.113.7']);
+  });
+
+  it('fills missing key parts with none', async () => {
+    const { supabase, calls } = fakeClient(allowed(4));
+    await checkRateLimit(supabase, 'submit-form:submit', { ip: '  ', form: null });
+    expect(calls[0]._key).toBe('ip=none form=none');
+  });
+
+  it('reports the tightest remaining count when every limit allows', async () => {
+    const { supabase } = fakeClient(allowed(2), allowed(9));
+    const result = await checkRateLimit(supabase, 'send-otp:send', { email: 'ada@example.com', ip: '203.0.113.7' });
+    expect(result).toEqual({ limited: false, remaining: 2, retryAfter: 0 });
+  });
+
+  it('stops at the first refusal without counting the request against later limits', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { supabase, calls } = fakeClient(refused(120), allowed(9));
+    const result = await checkRateLimit(supabase, 'send-otp:send', { email: 'ada@example.com', ip: '203.0.113.7' });
+    expect(result).toEqual({ limited: true, remaining: 0, retryAfter: 120 });
+    expect(calls).toHaveLength(1);
+    vi.restoreAllMocks();
+  });
+
+  it('lets the request through when the check fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { supabase } = fakeClient(null);
+    const result = await checkRateLimit(supabase, 'form-token:issue', { ip: '203.0.113.7' });
+    expect(result).toEqual({ limited: false, remaining: 60, retryAfter: 0 });
+    vi.restoreAllMocks();
+  });
+});
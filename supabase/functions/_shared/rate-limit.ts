@@ -0,0 +1,97 @@
+// Rate limits shared by every edge function instance. Hits are kept in the rate_limits table,
+// so limits hold across cold starts and parallel instances. Each policy names the function and
+// action it guards; each of its limits says which request details make up the key.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type RateLimitKeyPart = 'ip' | 'email' | 'form' | 'user';
+
+export interface RateLimit {
+  keyBy: RateLimitKeyPart[];
+  maxRequests: number;
+  windowSeconds: number;
+}
+
+export const RATE_LIMIT_POLICIES = {
+  // Per visitor and form: the form type, or the custom form id
+  'submit-form:submit': [{ keyBy: ['ip', 'form'], maxRequests: 5, windowSeconds: 60 }],
+  // Every code is an email, so limit both the address and the sender
+  'send-otp:send': [
+    { keyBy: ['email'], maxRequests: 3, windowSeconds: 300 },
+    { keyBy: ['ip'], maxRequests: 10, windowSeconds: 3600 },
+  ],
+  // A form can ask for several files
+  'create-upload:create': [{ keyBy: ['ip'], maxRequests: 20, windowSeconds: 60 }],
+  // Every save sends an email
+  'form-drafts:save': [{ keyBy: ['ip'], maxRequests: 5, windowSeconds: 600 }],
+  // One token per form shown
+  'form-token:issue': [{ keyBy: ['ip'], maxRequests: 60, windowSeconds: 600 }],
+  'export-submissions:export': [{ keyBy: ['user'], maxRequests: 10, windowSeconds: 600 }],
+} satisfies Record<string, RateLimit[]>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export type RateLimitSubject = Partial<Record<RateLimitKeyPart, string | null>>;
+
+export interface RateLimitResult {
+  limited: boolean;
+  // Requests left in the tightest window, counting this one
+  remaining: number;
+  // Seconds until the request would be accepted again; 0 when allowed
+  retryAfter: number;
+}
+
+export function getClientIp(req: Request): string {
+  return req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+    req.headers.get('x-real-ip') ||
+    'unknown';
+}
+
+// Keys read like "ip=203.0.113.7 form=contact_requests", so admins can tell what was limited
+function getRateLimitKey(keyBy: RateLimitKeyPart[], subject: RateLimitSubject): string {
+  return keyBy
+    .map((part) => {
+      const value = subject[part]?.trim();
+      return `${part}=${value ? (part === 'email' ? value.toLowerCase() : value) : 'none'}`;
+    })
+    .join(' ');
+}
+
+/**
+ * Counts a request against the policy's limits in order, stopping at the first one that is
+ * reached so the refused request isn't counted against the rest. If the database can't be
+ * reached the request is let through: a missed limit is better than turning away every visitor.
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  policy: RateLimitPolicyName,
+  subject: RateLimitSubject
+): Promise<RateLimitResult> {
+  const limits: RateLimit[] = RATE_LIMIT_POLICIES[policy];
+  let remaining = Infinity;
+  for (const limit of limits) {
+    const key = getRateLimitKey(limit.keyBy, subject);
+    const { data, error } = await supabase
+      .rpc('check_rate_limit', {
+        _policy: policy,
+        _key: key,
+        _max_requests: limit.maxRequests,
+        _window_seconds: limit.windowSeconds,
+      })
+      .single();
+
+    if (error || !data) {
+      console.error(`Rate limit check failed for ${policy} (${key}):`, error);
+      remaining = Math.min(remaining, limit.maxRequests);
+      continue;
+    }
+
+    const row = data as { allowed: boolean; remaining: number; retry_after: number };
+    if (!row.allowed) {
+      console.warn(`Rate limit reached for ${policy} (${key})`);
+      return { limited: true, remaining: 0, retryAfter: row.retry_after };
+    }
+    remaining = Math.min(remaining, row.remaining);
+  }
+
+  return { limited: false, remaining, retryAfter: 0 };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createResumeToken, verifyResumeToken } from './resume-tokens.ts';
+
+const SECRET = 'test-secret';
+const DRAFT_ID = '0b7e4c1d-2a3f-4e5b-8c6d-7e8f9a0b1c2d';
+const NOW = Date.UTC(2026, 9, 19, 12);
+const EXPIRES = new Date(NOW + 7 * 24 * 60 * 60 * 1000);
+
+describe('verifyResumeToken', () => {
+  it('returns the draft a token was issued for', async () => {
+    const token = await createResumeToken(SECRET, DRAFT_ID, EXPIRES);
+    expect(await verifyResumeToken(SECRET, token, NOW)).toBe(DRAFT_ID);
+  });
+
+  it('rejects a token after it expires', async () => {
+    const token = await createResumeToken(SECRET, DRAFT_ID, EXPIRES);
+    expect(await verifyResumeToken(SECRET, token, EXPIRES.getTime())).toBe(DRAFT_ID);
+    expect(await verifyResumeToken(SECRET, token, EXPIRES.getTime() + 1000)).toBeNull();
+  });
+
+  it('rejects a token whose expiry was pushed back', async () => {
+    const token = await createResumeToken(SECRET, DRAFT_ID, EXPIRES);
+    const [, expires, signature] = token.split('.');
+    const extended = `${DRAFT_ID}.${Number(expires) + 86_400}.${signature}`;
+    expect(await verifyResumeToken(SECRET, extended, NOW)).toBeNull();
+  });
+
+  it('rejects a signature moved onto another draft', async () => {
+    const token = await createResumeToken(SECRET, DRAFT_ID, EXPIRES);
+    const other = token.replace(DRAFT_ID, '9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a');
+    expect(await verifyResumeToken(SECRET, other, NOW)).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const token = await createResumeToken('other-secret', DRAFT_ID, EXPIRES);
+    expect(await verifyResumeToken(SECRET, token, NOW)).toBeNull();
+  });
+
+  it('rejects malformed tokens', async () => {
+    const token = await createResumeToken(SECRET, DRAFT_ID, EXPIRES);
+    expect(await verifyResumeToken(SECRET, token.slice(0, -1), NOW)).toBeNull();
+    expect(await verifyResumeToken(SECRET, token.split('.').slice(0, 2).join('.'), NOW)).toBeNull();
+    expect(await verifyResumeToken(SECRET, `not-a-draft.${token.split('.').slice(1).join('.')}`, NOW)).toBeNull();
+    expect(await verifyResumeToken(SECRET, '', NOW)).toBeNull();
+    expect(await verifyResumeToken(SECRET, null, NOW)).toBeNull();
+  });
+});
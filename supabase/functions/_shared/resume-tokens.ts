@@ -0,0 +1,21 @@
+// Resume tokens for saved form drafts, issued and checked by the form-drafts edge function.
+import { hmacHex, timingSafeEqual } from './signing.ts';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Resume tokens are `<draftId>.<expiry in unix seconds>.<hex HMAC-SHA256 of the first two>`
+export async function createResumeToken(secret: string, draftId: string, expiresAt: Date): Promise<string> {
+  const payload = `${draftId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${await hmacHex(secret, payload)}`;
+}
+
+// Returns the draft id, or null if the token has expired or we didn't sign it
+export async function verifyResumeToken(secret: string, token: unknown, now = Date.now()): Promise<string | null> {
+  if (typeof token !== 'string') return null;
+  const [draftId, expires, signature] = token.split('.');
+  if (!draftId || !uuidRegex.test(draftId) || !/^\d+$/.test(expires || '') || !signature) return null;
+  if (Number(expires) * 1000 < now) return null;
+
+  const expected = await hmacHex(secret, `${draftId}.${expires}`);
+  return timingSafeEqual(expected, signature) ? draftId : null;
+}
@@ -0,0 +1,25 @@
+// HMAC signing for the tokens and webhooks the edge functions hand out. Kept apart from http.ts,
+// which pulls in remote modules, so the token code stays unit-testable.
+
+// Hex HMAC-SHA256 of `payload` with `secret`
+export async function hmacHex(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares every character, so the time taken doesn't reveal how much of a signature matched
+export function timingSafeEqual(expected: string, actual: string): boolean {
+  let diff = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ (actual.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  MIN_FILL_TIME_MS,
+  SPAM_CHECKS,
+  SPAM_THRESHOLD,
+  createRenderToken,
+  scoreSubmission,
+  verifyRenderToken,
+  type SpamCheck,
+  type SpamContext,
+  type SpamSubmission,
+} from './spam.ts';
+
+const SECRET = 'test-secret';
+const FORM_ID = '6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b';
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+const submission = (overrides: Partial<SpamSubmission> = {}): SpamSubmission => ({
+  formType: 'form_submissions',
+  formKey: FORM_ID,
+  email: 'ada@example.com',
+  text: ['Hello, I would like to know more about your programs.'],
+  receivedAt: NOW,
+  ...overrides,
+});
+
+const context = (overrides: Partial<SpamContext> = {}): SpamContext => ({
+  tokenSecret: SECRET,
+  countRecentByEmail: async () => 0,
+  ...overrides,
+});
+
+const fixed = (score: number): SpamCheck => () => ({ check: `score_${score}`, score, reason: `Scores ${score}` });
+
+describe('scoreSubmission', () => {
+  it('marks a score at the threshold as spam', async () => {
+    const result = await scoreSubmission(submission(), context(), { a: fixed(3), b: fixed(SPAM_THRESHOLD - 3) });
+    expect(result.score).toBe(SPAM_THRESHOLD);
+    expect(result.isSpam).toBe(true);
+  });
+
+  it('lets a score just under the threshold through', async () => {
+    const result = await scoreSubmission(submission(), context(), { a: fixed(SPAM_THRESHOLD - 1) });
+    expect(result.isSpam).toBe(false);
+  });
+
+  it('leaves out checks that fail', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const broken: SpamCheck = () => {
+      throw new Error('database unavailable');
+    };
+    const result = await scoreSubmission(submission(), context(), { broken, links: fixed(1) });
+    expect(result.signals.map((signal) => signal.check)).toEqual(['score_1']);
+    vi.restoreAllMocks();
+  });
+
+  it('passes a person who took their time', async () => {
+    const renderToken = await createRenderToken(SECRET, FORM_ID, NOW - 60_000);
+    const result = await scoreSubmission(submission({ renderToken }), context());
+    expect(result).toEqual({ score: 0, signals: [], isSpam: false });
+  });
+
+  it('flags submissions made faster than the minimum fill time', async () => {
+    const renderToken = await createRenderToken(SECRET, FORM_ID, NOW - MIN_FILL_TIME_MS + 1);
+    const result = await scoreSubmission(submission({ renderToken }), context(), { render_token: SPAM_CHECKS.render_token });
+    expect(result.isSpam).toBe(true);
+  });
+
+  it('rejects a token issued for another form', async () => {
+    const renderToken = await createRenderToken(SECRET, 'contact_requests', NOW - 60_000);
+    const result = await scoreSubmission(submission({ renderToken }), context());
+    expect(result.signals).toEqual([{ check: 'render_token', score: 5, reason: 'Form token is invalid' }]);
+  });
+});
+
+describe('verifyRenderToken', () => {
+  it('returns when a token was issued', async () => {
+    const token = await createRenderToken(SECRET, FORM_ID, NOW);
+    expect(await verifyRenderToken(SECRET, token, FORM_ID)).toBe(NOW);
+  });
+
+  it('rejects tampered, foreign and malformed tokens', async () => {
+    const token = await createRenderToken(SECRET, FORM_ID, NOW);
+    expect(await verifyRenderToken(SECRET, token.replace(String(NOW), String(NOW - 60_000)), FORM_ID)).toBeNull();
+    expect(await verifyRenderToken('other-secret', token, FORM_ID)).toBeNull();
+    expect(await verifyRenderToken(SECRET, 'not-a-token', FORM_ID)).toBeNull();
+    expect(await verifyRenderToken(SECRET, 12345, FORM_ID)).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+// Spam scoring for public form submissions. Each check looks at one signal and returns a score;
+// submit-form adds them up and files anything at or above SPAM_THRESHOLD as spam for review.
+// Checks are plain functions, so a new signal is one more entry in SPAM_CHECKS.
+import { isDisposableEmailDomain } from './disposable-email-domains.ts';
+import { hmacHex, timingSafeEqual } from './signing.ts';
+
+export const SPAM_THRESHOLD = 5;
+
+// Anything faster than this between rendering the form and submitting it is a script
+export const MIN_FILL_TIME_MS = 3_000;
+// Older tokens still pass, but a page left open this long earns a point or two
+export const MAX_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+export const VELOCITY_WINDOW_MS = 60 * 60 * 1000;
+
+export interface SpamSubmission {
+  formType: string;
+  // What the render token must have been issued for: the custom form id, or the form type of
+  // a built-in form
+  formKey: string;
+  email: string | null;
+  // Free-text answers: names, messages and so on
+  text: string[];
+  renderToken?: unknown;
+  receivedAt: number;
+}
+
+export interface SpamSignal {
+  check: string;
+  score: number;
+  reason: string;
+}
+
+export interface SpamContext {
+  // Unset in environments without FORM_TOKEN_SECRET; the token check is skipped then
+  tokenSecret?: string;
+  // Earlier submissions of the same form type from this address since the given time
+  countRecentByEmail(email: string, since: Date): Promise<number>;
+}
+
+export type SpamCheck = (
+  submission: SpamSubmission,
+  context: SpamContext
+) => SpamSignal | null | Promise<SpamSignal | null>;
+
+export interface SpamResult {
+  score: number;
+  signals: SpamSignal[];
+  isSpam: boolean;
+}
+
+// Render tokens are `<issued at in unix ms>.<hex HMAC-SHA256 of "render:<form key>:<issued at>">`,
+// so a token fetched for one form is no good on another. They are not tied to a visitor or
+// single-use: a script can fetch one, wait out MIN_FILL_TIME_MS and replay it on every
+// submission, at no cost until MAX_TOKEN_AGE_MS. That is a known limit; the token only slows
+// bots down, and the other checks and the rate limits catch the rest.
+export async function createRenderToken(secret: string, formKey: string, issuedAt = Date.now()): Promise<string> {
+  return `${issuedAt}.${await hmacHex(secret, `render:${formKey}:${issuedAt}`)}`;
+}
+
+// Returns when the token was issued, or null if we didn't sign it for this form
+export async function verifyRenderToken(secret: string, token: unknown, formKey: string): Promise<number | null> {
+  if (typeof token !== 'string') return null;
+  const [issuedAt, signature] = token.split('.');
+  if (!/^\d{1,15}$/.test(issuedAt || '') || !signature) return null;
+
+  const expected = await hmacHex(secret, `render:${formKey}:${issuedAt}`);
+  return timingSafeEqual(expected, signature) ? Number(issuedAt) : null;
+}
+
+const renderTokenCheck: SpamCheck = async (submission, context) => {
+  if (!context.tokenSecret) return null;
+  if (submission.renderToken === undefined || submission.renderToken === null) {
+    return { check: 'render_token', score: 3, reason: 'Submitted without a form token' };
+  }
+
+  const issuedAt = await verifyRenderToken(context.tokenSecret, submission.renderToken, submission.formKey);
+  if (issuedAt === null) {
+    return { check: 'render_token', score: 5, reason: 'Form token is invalid' };
+  }
+
+  const elapsed = submission.receivedAt - issuedAt;
+  if (elapsed < MIN_FILL_TIME_MS) {
+    return { check: 'render_token', score: 5, reason: `Submitted ${Math.max(0, elapsed)}ms after the form loaded` };
+  }
+  if (elapsed > MAX_TOKEN_AGE_MS) {
+    return { check: 'render_token', score: 2, reason: 'Form token is more than a day old' };
+  }
+  return null;
+};
+
+const linkPattern = /\bhttps?:\/\/|\bwww\.[a-z0-9-]+\./gi;
+const bbcodeLinkPattern = /\[url[=\]]/i;
+
+const linkCheck: SpamCheck = (submission) => {
+  const text = submission.text.join('\n');
+  // Forum-style link markup never comes from a person typing into our forms
+  if (bbcodeLinkPattern.test(text)) {
+    return { check: 'links', score: 5, reason: 'Contains [url] link markup' };
+  }
+
+  const count = text.match(linkPattern)?.length ?? 0;
+  if (count === 0) return null;
+  const score = count >= 3 ? 5 : count === 2 ? 3 : 1;
+  return { check: 'links', score, reason: `Contains ${count} ${count === 1 ? 'link' : 'links'}` };
+};
+
+const repeatedCharacterCheck: SpamCheck = (submission) =>
+  submission.text.some((value) => /(.)\1{9,}/u.test(value))
+    ? { check: 'repeated_characters', score: 2, reason: 'Contains a character repeated 10 or more times' }
+    : null;
+
+export const SPAM_KEYWORDS = [
+  'backlinks',
+  'bitcoin',
+  'casino',
+  'cialis',
+  'crypto investment',
+  'forex',
+  'guest post',
+  'loan offer',
+  'payday loan',
+  'porn',
+  'seo services',
+  'viagra',
+  'web traffic',
+  'work from home',
+];
+
+const keywordCheck: SpamCheck = (submission) => {
+  const text = submission.text.join('\n').toLowerCase();
+  const found = SPAM_KEYWORDS.filter((keyword) => text.includes(keyword));
+  if (found.length === 0) return null;
+  return { check: 'keywords', score: Math.min(found.length * 2, 6), reason: `Mentions ${found.join(', ')}` };
+};
+
+const disposableEmailCheck: SpamCheck = (submission) =>
+  submission.email && isDisposableEmailDomain(submission.email)
+    ? { check: 'disposable_email', score: 3, reason: 'Uses a disposable email address' }
+    : null;
+
+const velocityCheck: SpamCheck = async (submission, context) => {
+  if (!submission.email) return null;
+  const count = await context.countRecentByEmail(
+    submission.email,
+    new Date(submission.receivedAt - VELOCITY_WINDOW_MS)
+  );
+  if (count < 2) return null;
+  return {
+    check: 'velocity',
+    score: count >= 5 ? 5 : 2,
+    reason: `${count} other submissions from this address in the last hour`,
+  };
+};
+
+export const SPAM_CHECKS: Record<string, SpamCheck> = {
+  render_token: renderTokenCheck,
+  links: linkCheck,
+  repeated_characters: repeatedCharacterCheck,
+  keywords: keywordCheck,
+  disposable_email: disposableEmailCheck,
+  velocity: velocityCheck,
+};
+
+/**
+ * Runs every check and adds up the scores. A check that fails (say the velocity query errors)
+ * is logged and left out, so a broken check never blocks a real submission.
+ */
+export async function scoreSubmission(
+  submission: SpamSubmission,
+  context: SpamContext,
+  checks: Record<string, SpamCheck> = SPAM_CHECKS
+): Promise<SpamResult> {
+  const signals: SpamSignal[] = [];
+  for (const [name, check] of Object.entries(checks)) {
+    try {
+      const signal = await check(submission, context);
+      if (signal && signal.score > 0) signals.push(signal);
+    } catch (error) {
+      console.error(`Spam check ${name} failed:`, error);
+    }
+  }
+
+  const score = signals.reduce((total, signal) => total + signal.score, 0);
+  return { score, signals, isSpam: score >= SPAM_THRESHOLD };
+}
@@ -0,0 +1,122 @@
+// Outbound webhook delivery. Rows are queued in webhook_deliveries by a database trigger;
+// this module sends due rows and records the outcome, retrying with exponential backoff.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hmacHex } from "./signing.ts";
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY = 1000;
+
+interface ClaimedDelivery {
+  id: string;
+  payload: unknown;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+export interface WebhookQueueResult {
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+// 30s, 1m, 2m, 4m ... capped at 6 hours
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`. Receivers recompute it from the
+ * X-Webhook-Timestamp header and the raw request body.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  return hmacHex(secret, `${timestamp}.${body}`);
+}
+
+async function deliver(delivery: ClaimedDelivery) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signWebhookPayload(delivery.secret, timestamp, body);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'VNU-Webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signature}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: responseBody,
+      error: response.ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, status: null, body: null, error: message.slice(0, MAX_RESPONSE_BODY) };
+  }
+}
+
+/**
+ * Send up to `limit` due deliveries. Claiming goes through claim_webhook_deliveries, which
+ * locks rows so concurrent workers never send the same delivery twice.
+ */
+export async function processWebhookQueue(supabase: SupabaseClient, limit = 20): Promise<WebhookQueueResult> {
+  const result: WebhookQueueResult = { succeeded: 0, retrying: 0, failed: 0 };
+
+  const { data: deliveries, error } = await supabase.rpc('claim_webhook_deliveries', { _limit: limit });
+  if (error) {
+    console.error('Failed to claim webhook deliveries:', error);
+    return result;
+  }
+
+  await Promise.all((deliveries as ClaimedDelivery[] || []).map(async (delivery) => {
+    const outcome = await deliver(delivery);
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+
+    let update: Record<string, unknown>;
+    if (outcome.ok) {
+      result.succeeded++;
+      update = { status: 'succeeded', delivered_at: now.toISOString(), last_error: null };
+    } else if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      result.failed++;
+      update = { status: 'failed', last_error: outcome.error };
+    } else {
+      result.retrying++;
+      update = {
+        status: 'pending',
+        next_attempt_at: new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString(),
+        last_error: outcome.error,
+      };
+    }
+
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update({
+        ...update,
+        attempts,
+        last_attempted_at: now.toISOString(),
+        response_status: outcome.status,
+        response_body: outcome.body,
+      })
+      .eq('id', delivery.id);
+
+    if (updateError) {
+      console.error(`Failed to record webhook delivery ${delivery.id}:`, updateError);
+    }
+  }));
+
+  return result;
+}
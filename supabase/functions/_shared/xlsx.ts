@@ -0,0 +1,221 @@
+// Minimal streaming XLSX writer: a single worksheet of text and number cells, zipped with
+// data descriptors so rows can be sent while they are still being read from the database.
+
+export type XlsxCell = string | number | boolean | null;
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Little-endian header fields, as [value, byte length] pairs
+function littleEndian(fields: [number, 2 | 4][]): Uint8Array {
+  const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [value, size] of fields) {
+    if (size === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += size;
+  }
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+const FLAGS = 0x0808; // sizes follow the data, UTF-8 names
+const DEFLATE = 8;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Zips entries one after another. Each entry is deflated as its chunks arrive, so only the
+ * chunk being compressed is held in memory.
+ */
+async function* zip(
+  files: { name: string; chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array> }[]
+): AsyncGenerator<Uint8Array> {
+  const [time, day] = dosDateTime(new Date());
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const local = concat(
+      littleEndian([[0x04034b50, 4], [20, 2], [FLAGS, 2], [DEFLATE, 2], [time, 2], [day, 2], [0, 4], [0, 4], [0, 4], [name.length, 2], [0, 2]]),
+      name
+    );
+    yield local;
+
+    const entry: ZipEntry = { name, crc: 0, compressedSize: 0, size: 0, offset };
+    const compression = new CompressionStream('deflate-raw');
+    const writer = compression.writable.getWriter();
+    const feeding = (async () => {
+      for await (const chunk of file.chunks) {
+        entry.crc = updateCrc32(entry.crc, chunk);
+        entry.size += chunk.length;
+        await writer.write(chunk);
+      }
+      await writer.close();
+    })();
+
+    const reader = compression.readable.getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      entry.compressedSize += value.length;
+      yield value;
+    }
+    await feeding;
+
+    yield littleEndian([[0x08074b50, 4], [entry.crc, 4], [entry.compressedSize, 4], [entry.size, 4]]);
+    offset += local.length + entry.compressedSize + 16;
+    entries.push(entry);
+  }
+
+  let directorySize = 0;
+  for (const entry of entries) {
+    const record = concat(
+      littleEndian([
+        [0x02014b50, 4], [20, 2], [20, 2], [FLAGS, 2], [DEFLATE, 2], [time, 2], [day, 2],
+        [entry.crc, 4], [entry.compressedSize, 4], [entry.size, 4],
+        [entry.name.length, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 4], [entry.offset, 4],
+      ]),
+      entry.name
+    );
+    directorySize += record.length;
+    yield record;
+  }
+
+  yield littleEndian([
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2],
+    [directorySize, 4], [offset, 4], [0, 2],
+  ]);
+}
+
+// XML 1.0 does not allow most control characters, even escaped
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+}
+
+// Excel's limit for the text of one cell
+const MAX_CELL_LENGTH = 32767;
+
+function toCellXml(value: XlsxCell, style = 0): string {
+  const s = style ? ` s="${style}"` : '';
+  if (value === null || value === '') return `<c${s}/>`;
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c${s}><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c t="b"${s}><v>${value ? 1 : 0}</v></c>`;
+  const text = escapeXml(String(value).slice(0, MAX_CELL_LENGTH));
+  return `<c t="inlineStr"${s}><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function toRowXml(cells: XlsxCell[], style = 0): Uint8Array {
+  return encoder.encode(`<row>${cells.map((cell) => toCellXml(cell, style)).join('')}</row>`);
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const STATIC_PARTS = {
+  '[Content_Types].xml':
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/_rels/workbook.xml.rels':
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  // Style 1 is the bold header row
+  'xl/styles.xml':
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>',
+};
+
+function workbookXml(sheetName: string): string {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1');
+  return (
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+  );
+}
+
+async function* worksheet(header: string[], rows: AsyncIterable<XlsxCell[]>): AsyncGenerator<Uint8Array> {
+  yield encoder.encode(
+    `${XML_DECLARATION}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      '<sheetData>'
+  );
+  yield toRowXml(header, 1);
+  for await (const row of rows) {
+    yield toRowXml(row);
+  }
+  yield encoder.encode('</sheetData></worksheet>');
+}
+
+/**
+ * An .xlsx file with one sheet: a bold, frozen header row followed by `rows`.
+ * Rows are pulled from the iterable as the returned chunks are consumed.
+ */
+export function writeXlsx(sheetName: string, header: string[], rows: AsyncIterable<XlsxCell[]>): AsyncGenerator<Uint8Array> {
+  const part = (xml: string) => [encoder.encode(XML_DECLARATION + xml)];
+  return zip([
+    { name: '[Content_Types].xml', chunks: part(STATIC_PARTS['[Content_Types].xml']) },
+    { name: '_rels/.rels', chunks: part(STATIC_PARTS['_rels/.rels']) },
+    { name: 'xl/workbook.xml', chunks: part(workbookXml(sheetName)) },
+    { name: 'xl/_rels/workbook.xml.rels', chunks: part(STATIC_PARTS['xl/_rels/workbook.xml.rels']) },
+    { name: 'xl/styles.xml', chunks: part(STATIC_PARTS['xl/styles.xml']) },
+    { name: 'xl/worksheets/sheet1.xml', chunks: worksheet(header, rows) },
+  ]);
+}
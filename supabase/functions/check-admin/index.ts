@@ -1,135 +1,37 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getBearerToken, serveFunction } from "../_shared/http.ts";
 
-// Allowed origins for CORS - restrict to specific domains
-const allowedOrigins = [
-  'http://localhost:5173',
-  'http://localhost:3000',
-  'https://lovable.dev',
-  'https://vnuitsolutions.com',
-  'https://www.vnuitsolutions.com',
-];
-
-// Pattern-based allowed origins (subdomains)
-const allowedPatterns = [
-  /^https:\/\/[a-z0-9-]+\.lovable\.app$/,
-  /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/,
-];
-
-function getCorsHeaders(req: Request): Record<string, string> {
-  const origin = req.headers.get('origin') || '';
-  
-  // Check exact match
-  if (allowedOrigins.includes(origin)) {
-    return {
-      'Access-Control-Allow-Origin': origin,
-      'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    };
-  }
-  
-  // Check pattern match
-  for (const pattern of allowedPatterns) {
-    if (pattern.test(origin)) {
-      return {
-        'Access-Control-Allow-Origin': origin,
-        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-      };
-    }
-  }
-  
-  // Default: no CORS header (blocks the request)
-  return {
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  };
-}
-
-Deno.serve(async (req) => {
-  const corsHeaders = getCorsHeaders(req);
-  
-  // Handle CORS preflight requests
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+serveFunction('check-admin', async ({ req, supabase, json }) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    console.log("No authorization header provided");
+    return json({ isAdmin: false, error: "unauthorized" }, 401);
   }
 
-  try {
-    // Get the authorization header
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      console.log("No authorization header provided");
-      return new Response(
-        JSON.stringify({ isAdmin: false, error: "unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  // Get the user from the token
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token);
 
-    // Create Supabase client with service role for secure role checking
-    const supabaseAdmin = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false,
-        },
-      }
-    );
-
-    // Create a client with the user's token to get their ID
-    const supabaseUser = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
-      {
-        global: {
-          headers: { Authorization: authHeader },
-        },
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false,
-        },
-      }
-    );
-
-    // Get the user from the token
-    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
-    
-    if (userError || !user) {
-      console.log("Failed to get user from token:", userError?.message);
-      return new Response(
-        JSON.stringify({ isAdmin: false, error: "unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  if (userError || !user) {
+    console.log("Failed to get user from token:", userError?.message);
+    return json({ isAdmin: false, error: "unauthorized" }, 401);
+  }
 
-    console.log(`Checking admin role for user: ${user.id}`);
+  console.log(`Checking admin role for user: ${user.id}`);
 
-    // Use the service role client to check the user_roles table securely
-    // This bypasses RLS and provides a secure server-side check
-    const { data: roleData, error: roleError } = await supabaseAdmin
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", user.id)
-      .eq("role", "admin")
-      .maybeSingle();
+  // The service role client bypasses RLS, so the check can't be influenced by the caller
+  const { data: roleData, error: roleError } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .eq("role", "admin")
+    .maybeSingle();
 
-    if (roleError) {
-      console.error("Error checking admin role:", roleError.message);
-      return new Response(
-        JSON.stringify({ isAdmin: false, error: "Database error" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+  if (roleError) {
+    console.error("Error checking admin role:", roleError.message);
+    return json({ isAdmin: false, error: "Database error" }, 500);
+  }
 
-    const isAdmin = !!roleData;
-    console.log(`User ${user.id} admin status: ${isAdmin}`);
+  const isAdmin = !!roleData;
+  console.log(`User ${user.id} admin status: ${isAdmin}`);
 
-    return new Response(
-      JSON.stringify({ isAdmin }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (error) {
-    console.error("Unexpected error in check-admin function:", error);
-    return new Response(
-      JSON.stringify({ isAdmin: false, error: "Internal server error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
-});
+  return json({ isAdmin });
+}, { errorBody: { isAdmin: false } });
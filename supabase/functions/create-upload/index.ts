@@ -0,0 +1,86 @@
+import {
+  FILE_UPLOAD_BUCKET,
+  RESUME_FIELD,
+  getFileUploadPrefix,
+  sanitizeFileName,
+  validateFileUpload,
+  type FormField,
+} from "../_shared/custom-forms.ts";
+import { parseBody, serveFunction, z } from "../_shared/http.ts";
+import { checkRateLimit, getClientIp } from "../_shared/rate-limit.ts";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// File limits depend on the field, so validateFileUpload checks those once the field is known
+const CreateUploadBody = z.object({
+  formType: z.enum(['career_applications', 'form_submissions'], { message: 'Invalid form type' }),
+  formId: z.string().regex(uuidRegex, 'Invalid upload request').optional(),
+  fieldId: z.string().max(100, 'Invalid upload request').optional(),
+  fileName: z.string({ message: 'File name is required' }).min(1, 'File name is required'),
+  contentType: z.string({ message: 'This file type is not allowed' }),
+  size: z.number({ message: 'File size is required' }),
+});
+
+serveFunction('create-upload', async ({ req, supabase, json }) => {
+  const clientIP = getClientIp(req);
+  const rateLimit = await checkRateLimit(supabase, 'create-upload:create', { ip: clientIP });
+  if (rateLimit.limited) {
+    console.warn(`Upload rate limit exceeded for IP: ${clientIP}`);
+    return json({ error: 'Too many uploads. Please try again later.', retryAfter: rateLimit.retryAfter }, 429);
+  }
+
+  const { formType, formId, fieldId, fileName, contentType, size } = await parseBody(req, CreateUploadBody);
+
+  // Work out which field definition the file is checked against and where it will live
+  let field: FormField | undefined;
+  let prefix: string;
+
+  if (formType === 'career_applications') {
+    field = RESUME_FIELD;
+    prefix = 'careers/';
+  } else {
+    if (!formId || !fieldId) {
+      return json({ error: 'Invalid upload request' }, 400);
+    }
+
+    const { data: form, error } = await supabase
+      .from('custom_forms')
+      .select('fields')
+      .eq('id', formId)
+      .eq('is_published', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to load custom form ${formId}:`, error);
+      return json({ error: 'Failed to prepare upload. Please try again.' }, 500);
+    }
+    if (!form) {
+      return json({ error: 'This form is not available' }, 404);
+    }
+
+    field = ((form.fields as FormField[]) || []).find((f) => f.id === fieldId && f.type === 'file');
+    prefix = getFileUploadPrefix(formId, fieldId);
+  }
+
+  if (!field) {
+    return json({ error: 'This field does not accept files' }, 400);
+  }
+
+  const uploadError = validateFileUpload(field, { fileName, contentType, size });
+  if (uploadError) {
+    return json({ error: uploadError }, 400);
+  }
+
+  const path = `${prefix}${crypto.randomUUID()}/${sanitizeFileName(fileName)}`;
+  const { data, error: signError } = await supabase.storage
+    .from(FILE_UPLOAD_BUCKET)
+    .createSignedUploadUrl(path);
+
+  if (signError || !data) {
+    console.error('Failed to create signed upload URL:', signError);
+    return json({ error: 'Failed to prepare upload. Please try again.' }, 500);
+  }
+
+  console.log(`Issued upload URL for ${formType} from IP: ${clientIP}`);
+  return json({ path: data.path, token: data.token });
+});
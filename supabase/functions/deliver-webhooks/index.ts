@@ -0,0 +1,32 @@
+import { getBearerToken, serveFunction } from "../_shared/http.ts";
+import { processWebhookQueue } from "../_shared/webhooks.ts";
+
+// Runs the webhook queue. Called with the service role key by the deliver-webhooks pg_cron job
+// whenever deliveries are due, and by admins from the delivery log so a redelivery goes out
+// straight away.
+serveFunction('deliver-webhooks', async ({ req, supabase, json }) => {
+  const token = getBearerToken(req);
+
+  if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+
+    if (!roleData) {
+      return json({ error: 'Forbidden' }, 403);
+    }
+  }
+
+  const result = await processWebhookQueue(supabase);
+  console.log(`Webhook queue run: ${result.succeeded} succeeded, ${result.retrying} retrying, ${result.failed} failed`);
+
+  return json({ success: true, ...result });
+});
@@ -0,0 +1,237 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  EXPORT_FORMATS,
+  EXPORT_FORM_TYPES,
+  getExportColumns,
+  getExportFileName,
+  getExportValue,
+  sanitizeExportColumns,
+  toCsvLine,
+  type ExportColumn,
+  type ExportFilters,
+  type ExportFormType,
+  type ExportRow,
+} from "../_shared/exports.ts";
+import { SUBMISSION_METADATA_KEYS, type FormField } from "../_shared/custom-forms.ts";
+import { writeXlsx, type XlsxCell } from "../_shared/xlsx.ts";
+import { getBearerToken, parseBody, serveFunction, z } from "../_shared/http.ts";
+import { checkRateLimit } from "../_shared/rate-limit.ts";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const INBOX_STATUSES = ['new', 'in_progress', 'resolved', 'archived', 'spam'];
+
+// Rows are read a page at a time while the file is being sent
+const PAGE_SIZE = 500;
+
+// Filters and columns are sanitised rather than rejected, so a stale saved choice still exports
+const ExportBody = z.object({
+  formType: z.enum(EXPORT_FORM_TYPES, { message: 'Invalid export type or format' }),
+  format: z.enum(EXPORT_FORMATS, { message: 'Invalid export type or format' }),
+  filters: z.unknown(),
+  columns: z.unknown(),
+});
+
+const SELECTS: Record<ExportFormType, string> = {
+  contact_requests: 'id, name, email, purpose, message, tags, status, created_at',
+  career_applications: 'id, name, email, role_applied, cover_letter, resume_url, tags, status, created_at',
+  nowrise_applications: 'id, name, email, phone, program, education, tags, status, created_at',
+  form_submissions:
+    'id, respondent_email, submission_data, metadata, tags, status, created_at, custom_forms (form_name, fields), custom_form_versions (version, fields)',
+};
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= 40 && !Number.isNaN(Date.parse(value));
+}
+
+function sanitizeFilters(input: unknown): ExportFilters {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const filters: ExportFilters = {};
+  if (typeof raw.search === 'string' && raw.search.trim()) filters.search = raw.search.trim().slice(0, 500);
+  if (typeof raw.status === 'string' && INBOX_STATUSES.includes(raw.status)) filters.status = raw.status;
+  if (typeof raw.tag === 'string' && raw.tag.trim()) filters.tag = raw.tag.trim().toLowerCase().slice(0, 40);
+  if (isTimestamp(raw.createdFrom)) filters.createdFrom = raw.createdFrom;
+  if (isTimestamp(raw.createdBefore)) filters.createdBefore = raw.createdBefore;
+  if (typeof raw.formId === 'string' && uuidRegex.test(raw.formId)) filters.formId = raw.formId;
+
+  const metadata = (raw.metadata && typeof raw.metadata === 'object' ? raw.metadata : {}) as Record<string, unknown>;
+  for (const key of SUBMISSION_METADATA_KEYS) {
+    const value = metadata[key];
+    if (typeof value === 'string' && value) {
+      filters.metadata = { ...filters.metadata, [key]: value.slice(0, 200) };
+    }
+  }
+  return filters;
+}
+
+// Reads one page with the same filters the admin screen applies
+async function fetchPage(
+  supabase: SupabaseClient,
+  formType: ExportFormType,
+  filters: ExportFilters,
+  page: number
+): Promise<ExportRow[]> {
+  let query = supabase
+    .from(formType)
+    .select(SELECTS[formType])
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+  if (filters.search) query = query.textSearch('search_vector', filters.search, { config: 'simple' });
+  // Like the admin lists, spam is only exported when filtered for
+  query = filters.status ? query.eq('status', filters.status) : query.neq('status', 'spam');
+  if (filters.tag) query = query.contains('tags', [filters.tag]);
+  if (filters.createdFrom) query = query.gte('created_at', filters.createdFrom);
+  if (filters.createdBefore) query = query.lt('created_at', filters.createdBefore);
+  if (formType === 'form_submissions') {
+    if (filters.formId) query = query.eq('form_id', filters.formId);
+    for (const [key, value] of Object.entries(filters.metadata || {})) {
+      query = query.eq(`metadata->>${key}`, value);
+    }
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as ExportRow[];
+}
+
+async function* readRows(
+  supabase: SupabaseClient,
+  formType: ExportFormType,
+  filters: ExportFilters,
+  firstPage: ExportRow[]
+): AsyncGenerator<ExportRow> {
+  let rows = firstPage;
+  for (let page = 1; ; page++) {
+    yield* rows;
+    if (rows.length < PAGE_SIZE) return;
+    rows = await fetchPage(supabase, formType, filters, page);
+  }
+}
+
+const encoder = new TextEncoder();
+
+async function* csvChunks(columns: ExportColumn[], rows: AsyncIterable<ExportRow>): AsyncGenerator<Uint8Array> {
+  // The byte order mark makes Excel read the file as UTF-8
+  yield encoder.encode(`\uFEFF${toCsvLine(columns.map((column) => column.label))}`);
+  for await (const row of rows) {
+    yield encoder.encode(toCsvLine(columns.map((column) => getExportValue(row, column.key, 'csv'))));
+  }
+}
+
+async function* jsonChunks(columns: ExportColumn[], rows: AsyncIterable<ExportRow>): AsyncGenerator<Uint8Array> {
+  let separator = '[\n';
+  for await (const row of rows) {
+    const record = Object.fromEntries(columns.map((column) => [column.label, getExportValue(row, column.key, 'json')]));
+    yield encoder.encode(`${separator}  ${JSON.stringify(record)}`);
+    separator = ',\n';
+  }
+  yield encoder.encode(separator === '[\n' ? '[]\n' : '\n]\n');
+}
+
+async function* xlsxCells(columns: ExportColumn[], rows: AsyncIterable<ExportRow>): AsyncGenerator<XlsxCell[]> {
+  for await (const row of rows) {
+    yield columns.map((column) => {
+      const value = getExportValue(row, column.key, 'xlsx');
+      return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+    });
+  }
+}
+
+function toStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        console.error('Export failed while streaming:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+// Streams the submissions matching an admin screen's filters as CSV, XLSX or JSON,
+// with the columns and column names the admin picked.
+serveFunction('export-submissions', async ({ req, supabase, json }) => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser(getBearerToken(req));
+  if (userError || !user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { data: roleData } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('role', 'admin')
+    .maybeSingle();
+
+  if (!roleData) {
+    return json({ error: 'Forbidden' }, 403);
+  }
+
+  // Each export can read every submission, so even admins are limited
+  const rateLimit = await checkRateLimit(supabase, 'export-submissions:export', { user: user.id });
+  if (rateLimit.limited) {
+    return json({ error: 'Too many exports. Please try again later.', retryAfter: rateLimit.retryAfter }, 429);
+  }
+
+  const body = await parseBody(req, ExportBody);
+  const { formType, format } = body;
+  const filters = sanitizeFilters(body.filters);
+
+  // Answer columns exist only when the export is limited to one form
+  let fields: FormField[] | undefined;
+  let sheetName = 'Submissions';
+  if (formType === 'form_submissions' && filters.formId) {
+    const { data: form, error: formError } = await supabase
+      .from('custom_forms')
+      .select('form_name, fields')
+      .eq('id', filters.formId)
+      .maybeSingle();
+    if (formError) throw formError;
+    if (!form) {
+      return json({ error: 'Form not found' }, 404);
+    }
+    fields = (form.fields as FormField[]) || [];
+    sheetName = form.form_name;
+  }
+
+  const columns = sanitizeExportColumns(body.columns, getExportColumns(formType, fields));
+  if (columns.length === 0) {
+    return json({ error: 'Choose at least one column to export' }, 400);
+  }
+
+  // The first page is read before responding, so a bad filter still gets a proper error
+  let firstPage: ExportRow[];
+  try {
+    firstPage = await fetchPage(supabase, formType, filters, 0);
+  } catch (error) {
+    console.error('Export query failed:', error);
+    return json({ error: 'The filters could not be applied. Check the search and try again.' }, 400);
+  }
+
+  const rows = readRows(supabase, formType, filters, firstPage);
+  const chunks =
+    format === 'csv'
+      ? csvChunks(columns, rows)
+      : format === 'json'
+        ? jsonChunks(columns, rows)
+        : writeXlsx(sheetName, columns.map((column) => column.label), xlsxCells(columns, rows));
+
+  console.log(`User ${user.id} exporting ${formType} as ${format} (${columns.length} columns)`);
+
+  // Sent as octet-stream so functions-js hands the browser a Blob whatever the format
+  return new Response(toStream(chunks), {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${getExportFileName(formType, format)}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+});
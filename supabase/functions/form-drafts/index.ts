@@ -0,0 +1,161 @@
+import {
+  DEFAULT_DRAFT_TTL_DAYS,
+  isValidEmail,
+  sanitizeDraftValues,
+  type FormField,
+} from "../_shared/custom-forms.ts";
+import { getEmailSender } from "../_shared/email.ts";
+import { parseBody, serveFunction, z } from "../_shared/http.ts";
+import { checkRateLimit, getClientIp } from "../_shared/rate-limit.ts";
+import { createResumeToken, verifyResumeToken } from "../_shared/resume-tokens.ts";
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_DRAFT_BYTES = 100_000;
+
+// Answers are checked against the form's fields when saved; an unusable token is answered
+// with draft_expired like an expired one
+const FormDraftsBody = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('save'),
+    formId: z.string({ message: 'Invalid form' }).regex(uuidRegex, 'Invalid form'),
+    email: z.string({ message: 'Please enter a valid email address' })
+      .trim()
+      .refine(isValidEmail, 'Please enter a valid email address'),
+    data: z.unknown(),
+    step: z.unknown(),
+    token: z.unknown(),
+  }),
+  z.object({ action: z.enum(['load', 'discard']), token: z.unknown() }),
+], { errorMap: () => ({ message: 'Invalid action' }) });
+
+function getDraftTtlDays(): number {
+  const days = Number(Deno.env.get('FORM_DRAFT_TTL_DAYS'));
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_DRAFT_TTL_DAYS;
+}
+
+function buildResumeEmail(formName: string, link: string, expiresAt: Date) {
+  const expires = expiresAt.toUTCString().replace(/ \d{2}:\d{2}:\d{2} GMT$/, '');
+  const escapedName = formName.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+  return {
+    subject: `Continue your ${formName} response`,
+    text: `Your answers to ${formName} have been saved. Continue where you left off:\n\n${link}\n\nThis link works until ${expires}. Anyone with the link can see your answers, so don't share it.`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <p style="color: #333; font-size: 16px;">Your answers to <strong>${escapedName}</strong> have been saved.</p>
+        <p style="text-align: center; margin: 30px 0;">
+          <a href="${link}" style="background: #c9a227; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Continue where you left off</a>
+        </p>
+        <p style="color: #666; font-size: 14px;">This link works until ${expires}. Anyone with the link can see your answers, so don't share it.</p>
+      </div>
+    `,
+  };
+}
+
+serveFunction('form-drafts', async ({ req, supabase, json }) => {
+  const secret = Deno.env.get('FORM_DRAFT_SECRET');
+  if (!secret) {
+    console.error('FORM_DRAFT_SECRET is not set');
+    return json({ error: 'Saving drafts is not available right now.' }, 503);
+  }
+
+  const body = await parseBody(req, FormDraftsBody);
+
+  if (body.action !== 'save') {
+    const draftId = await verifyResumeToken(secret, body.token);
+    if (!draftId) {
+      return json({ error: 'This link has expired or is invalid.', code: 'draft_expired' }, 404);
+    }
+
+    if (body.action === 'discard') {
+      const { error } = await supabase.from('form_drafts').delete().eq('id', draftId);
+      if (error) throw error;
+      return json({ success: true });
+    }
+
+    const { data: draft, error } = await supabase
+      .from('form_drafts')
+      .select('form_id, data, step, expires_at')
+      .eq('id', draftId)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!draft) {
+      return json({ error: 'This link has expired or is invalid.', code: 'draft_expired' }, 404);
+    }
+    return json({ formId: draft.form_id, data: draft.data, step: draft.step, expiresAt: draft.expires_at });
+  }
+
+  // Only saving is limited, since every save sends an email
+  const clientIP = getClientIp(req);
+  const rateLimit = await checkRateLimit(supabase, 'form-drafts:save', { ip: clientIP });
+  if (rateLimit.limited) {
+    console.warn(`Draft save rate limit exceeded for IP: ${clientIP}`);
+    return json({ error: 'Too many requests. Please try again later.', retryAfter: rateLimit.retryAfter }, 429);
+  }
+
+  const { formId, email, data, step, token } = body;
+  if (JSON.stringify(data ?? {}).length > MAX_DRAFT_BYTES) {
+    return json({ error: 'This draft is too large to save.' }, 413);
+  }
+
+  const { data: form, error: formError } = await supabase
+    .from('custom_forms')
+    .select('form_name, fields')
+    .eq('id', formId)
+    .eq('is_published', true)
+    .maybeSingle();
+
+  if (formError) throw formError;
+  if (!form) {
+    return json({ error: 'This form is not available' }, 404);
+  }
+
+  const expiresAt = new Date(Date.now() + getDraftTtlDays() * 24 * 60 * 60 * 1000);
+  const draft = {
+    form_id: formId,
+    email: email.toLowerCase(),
+    data: sanitizeDraftValues((form.fields as FormField[]) || [], data),
+    step: typeof step === 'number' && Number.isInteger(step) && step >= 0 ? Math.min(step, 100) : 0,
+    expires_at: expiresAt.toISOString(),
+  };
+
+  // Saving again from a resumed draft updates it, so old links stop showing stale answers
+  const existingId = await verifyResumeToken(secret, token);
+  let draftId: string | null = null;
+  if (existingId) {
+    const { data: updated, error } = await supabase
+      .from('form_drafts')
+      .update(draft)
+      .eq('id', existingId)
+      .eq('form_id', formId)
+      .select('id')
+      .maybeSingle();
+    if (error) throw error;
+    draftId = updated?.id ?? null;
+  }
+  if (!draftId) {
+    const { data: inserted, error } = await supabase.from('form_drafts').insert(draft).select('id').single();
+    if (error) throw error;
+    draftId = inserted.id;
+  }
+
+  const resumeToken = await createResumeToken(secret, draftId!, expiresAt);
+  // The site URL comes from configuration, never the request, so links can't be pointed elsewhere
+  const siteUrl = (Deno.env.get('SITE_URL') || 'https://vnuitsolutions.com').replace(/\/$/, '');
+  const link = `${siteUrl}/f/${formId}?resume=${encodeURIComponent(resumeToken)}`;
+
+  const sender = getEmailSender();
+  if (!sender) {
+    console.error('No email sender configured; draft saved without a resume email');
+    return json({ error: 'Failed to send the resume link. Please try again later.' }, 500);
+  }
+
+  const result = await sender.send({ to: [draft.email], ...buildResumeEmail(form.form_name, link, expiresAt) });
+  if (!result.success) {
+    return json({ error: 'Failed to send the resume link. Please try again later.' }, 502);
+  }
+
+  console.log(`Saved draft ${draftId} for form ${formId}`);
+  return json({ success: true, token: resumeToken, expiresAt: draft.expires_at });
+});
@@ -0,0 +1,27 @@
+import { parseBody, serveFunction, z } from "../_shared/http.ts";
+import { checkRateLimit, getClientIp } from "../_shared/rate-limit.ts";
+import { createRenderToken } from "../_shared/spam.ts";
+
+// The custom form id, or the form type of a built-in form; the token only passes for that form
+const FormTokenBody = z.object({
+  formId: z.string({ message: 'Invalid form' }).regex(/^[\w-]{1,64}$/, 'Invalid form'),
+});
+
+// Issues the render token a public form sends back with its submission. submit-form uses it
+// to spot submissions made faster than a person could fill the form in.
+serveFunction('form-token', async ({ req, supabase, json }) => {
+  const secret = Deno.env.get('FORM_TOKEN_SECRET');
+  if (!secret) {
+    console.error('FORM_TOKEN_SECRET is not set');
+    return json({ error: 'Form tokens are not available right now.' }, 503);
+  }
+
+  const { formId } = await parseBody(req, FormTokenBody);
+
+  const rateLimit = await checkRateLimit(supabase, 'form-token:issue', { ip: getClientIp(req) });
+  if (rateLimit.limited) {
+    return json({ error: 'Too many requests. Please try again later.', retryAfter: rateLimit.retryAfter }, 429);
+  }
+
+  return json({ token: await createRenderToken(secret, formId) });
+});
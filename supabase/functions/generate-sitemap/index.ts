@@ -1,4 +1,5 @@
 /// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+import { serveFunction } from "../_shared/http.ts";
 
 const DOMAIN = "https://vnuitsolutions.com";
 
@@ -105,36 +106,13 @@ function escapeXml(str: string): string {
     .replace(/'/g, "&apos;");
 }
 
-Deno.serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 204,
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type",
-      },
-    });
-  }
-
-  try {
-    const sitemap = generateSitemap();
-
-    return new Response(sitemap, {
-      status: 200,
-      headers: {
-        "Content-Type": "application/xml; charset=utf-8",
-        "Cache-Control": "public, max-age=3600, s-maxage=86400",
-        "Access-Control-Allow-Origin": "*",
-        "X-Robots-Tag": "noindex",
-      },
-    });
-  } catch (error) {
-    console.error("Sitemap generation error:", error);
-    return new Response("Error generating sitemap", {
-      status: 500,
-      headers: { "Content-Type": "text/plain" },
-    });
-  }
-});
+serveFunction("generate-sitemap", async () => {
+  return new Response(generateSitemap(), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600, s-maxage=86400",
+      "X-Robots-Tag": "noindex",
+    },
+  });
+}, { methods: ["GET"], anyOrigin: true });
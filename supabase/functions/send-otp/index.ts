@@ -1,44 +1,18 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// Allowed origins for CORS
-const allowedOrigins = [
-  'http://localhost:5173',
-  'http://localhost:3000',
-  'https://lovable.dev',
-  'https://vnuitsolutions.com',
-  'https://www.vnuitsolutions.com',
-  'https://vnu.lovable.app',
-];
-
-// Patterns for dynamic subdomains
-const allowedPatterns = [
-  /^https:\/\/[a-z0-9-]+\.lovable\.app$/,
-  /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/,
-  /^https:\/\/[a-z0-9-]+--[a-z0-9-]+\.lovable\.app$/,
-];
-
-function getCorsHeaders(req: Request): Record<string, string> {
-  const origin = req.headers.get('origin') || '';
-  
-  const isAllowed = allowedOrigins.includes(origin) || 
-                    allowedPatterns.some(pattern => pattern.test(origin));
-  
-  if (isAllowed) {
-    return {
-      'Access-Control-Allow-Origin': origin,
-      'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    };
-  }
-  
-  // Return headers without origin for disallowed origins
-  return {
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  };
-}
-
-// Rate limiting for OTP requests (in-memory is acceptable for rate limiting)
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
-const RATE_LIMIT = { maxRequests: 3, windowMs: 300000 }; // 3 requests per 5 minutes
+import { parseBody, serveFunction, z } from "../_shared/http.ts";
+import { checkRateLimit, getClientIp } from "../_shared/rate-limit.ts";
+
+const EmailAddress = z.string({ message: 'Email is required' })
+  .trim()
+  .email('Please enter a valid email address')
+  .max(255);
+
+// Only send checks the address; verify looks it up as given, and check-user answers
+// { exists: false } for a missing or malformed one
+const SendOtpBody = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('send'), email: EmailAddress }),
+  z.object({ action: z.literal('verify'), email: z.string().trim().optional(), otp: z.string().trim().max(10).optional() }),
+  z.object({ action: z.literal('check-user'), email: z.unknown() }),
+], { errorMap: () => ({ message: 'Invalid action' }) });
 
 function generateOTP(): string {
   return Math.floor(100000 + Math.random() * 900000).toString();
@@ -53,23 +27,6 @@ async function hashOTP(otp: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-function isRateLimited(email: string): boolean {
-  const now = Date.now();
-  const record = rateLimitStore.get(email);
-  
-  if (!record || now > record.resetAt) {
-    rateLimitStore.set(email, { count: 1, resetAt: now + RATE_LIMIT.windowMs });
-    return false;
-  }
-  
-  if (record.count >= RATE_LIMIT.maxRequests) {
-    return true;
-  }
-  
-  record.count++;
-  return false;
-}
-
 async function sendEmailWithResend(email: string, otp: string, resendApiKey: string): Promise<{ success: boolean; error?: string }> {
   try {
     const response = await fetch('https://api.resend.com/emails', {
@@ -112,228 +69,169 @@ async function sendEmailWithResend(email: string, otp: string, resendApiKey: str
   }
 }
 
-Deno.serve(async (req) => {
-  const corsHeaders = getCorsHeaders(req);
-  
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { action, email, otp } = await req.json();
-    
-    // Initialize Supabase client with service role for database access
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    if (action === 'send') {
-      if (!email) {
-        return new Response(
-          JSON.stringify({ error: 'Email is required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      // Check rate limit
-      if (isRateLimited(email)) {
-        return new Response(
-          JSON.stringify({ error: 'Too many OTP requests. Please try again in 5 minutes.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      // Delete any existing OTPs for this email
-      const { error: deleteError } = await supabase
-        .from('otp_codes')
-        .delete()
-        .eq('email', email.toLowerCase());
+serveFunction('send-otp', async ({ req, supabase, json }) => {
+  const body = await parseBody(req, SendOtpBody);
+
+  if (body.action === 'send') {
+    const { email } = body;
+
+    // Check rate limit
+    const rateLimit = await checkRateLimit(supabase, 'send-otp:send', { email, ip: getClientIp(req) });
+    if (rateLimit.limited) {
+      const minutes = Math.ceil(rateLimit.retryAfter / 60);
+      return json(
+        {
+          error: `Too many OTP requests. Please try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`,
+          retryAfter: rateLimit.retryAfter
+        },
+        429,
+        { 'Retry-After': String(rateLimit.retryAfter) }
+      );
+    }
 
-      if (deleteError) {
-        console.error('Error deleting old OTPs:', deleteError);
-      }
+    // Delete any existing OTPs for this email
+    const { error: deleteError } = await supabase
+      .from('otp_codes')
+      .delete()
+      .eq('email', email.toLowerCase());
 
-      // Generate OTP and hash it for storage
-      const generatedOTP = generateOTP();
-      const otpHash = await hashOTP(generatedOTP);
-      const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString(); // 10 minutes expiry
-      
-      // Store OTP in database
-      const { error: insertError } = await supabase
-        .from('otp_codes')
-        .insert({
-          email: email.toLowerCase(),
-          otp_hash: otpHash,
-          expires_at: expiresAt,
-          attempts: 0
-        });
-
-      if (insertError) {
-        console.error('Failed to store OTP:', insertError);
-        return new Response(
-          JSON.stringify({ error: 'Failed to generate OTP. Please try again.' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    if (deleteError) {
+      console.error('Error deleting old OTPs:', deleteError);
+    }
 
-      console.log(`OTP stored in database for ${email}, expires at ${expiresAt}`);
-      
-      // Send OTP via Resend
-      const resendApiKey = Deno.env.get('RESEND_API_KEY');
-      
-      if (resendApiKey) {
-        const result = await sendEmailWithResend(email, generatedOTP, resendApiKey);
-        
-        if (!result.success) {
-          // Clean up stored OTP if email fails
-          await supabase
-            .from('otp_codes')
-            .delete()
-            .eq('email', email.toLowerCase());
-          
-          return new Response(
-            JSON.stringify({ error: 'Failed to send OTP. Please try again.' }),
-            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-        console.log(`OTP email sent successfully to ${email}`);
-      } else {
-        // SECURITY: Never log OTP values - only log that OTP was generated
-        console.warn(`RESEND_API_KEY not configured - OTP generated for ${email} but email not sent. Configure RESEND_API_KEY secret for production use.`);
-      }
-      
-      return new Response(
-        JSON.stringify({ success: true, message: 'OTP sent successfully' }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-      
-    } else if (action === 'verify') {
-      if (!email || !otp) {
-        return new Response(
-          JSON.stringify({ error: 'Email and OTP are required' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    // Generate OTP and hash it for storage
+    const generatedOTP = generateOTP();
+    const otpHash = await hashOTP(generatedOTP);
+    const expiresAt = new Date(Date.now() + 10 * 60 * 1000).toISOString(); // 10 minutes expiry
+    
+    // Store OTP in database
+    const { error: insertError } = await supabase
+      .from('otp_codes')
+      .insert({
+        email: email.toLowerCase(),
+        otp_hash: otpHash,
+        expires_at: expiresAt,
+        attempts: 0
+      });
 
-      // Get OTP record from database
-      const { data: otpRecord, error: fetchError } = await supabase
-        .from('otp_codes')
-        .select('*')
-        .eq('email', email.toLowerCase())
-        .is('verified_at', null)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
+    if (insertError) {
+      console.error('Failed to store OTP:', insertError);
+      return json({ error: 'Failed to generate OTP. Please try again.' }, 500);
+    }
 
-      if (fetchError || !otpRecord) {
-        console.log(`No OTP found for ${email}:`, fetchError?.message);
-        return new Response(
-          JSON.stringify({ error: 'OTP expired or not found. Please request a new one.' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      // Check expiry
-      if (new Date(otpRecord.expires_at) < new Date()) {
-        // Delete expired OTP
-        await supabase
-          .from('otp_codes')
-          .delete()
-          .eq('id', otpRecord.id);
-        
-        console.log(`OTP expired for ${email}`);
-        return new Response(
-          JSON.stringify({ error: 'OTP has expired. Please request a new one.' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    console.log(`OTP stored in database for ${email}, expires at ${expiresAt}`);
+    
+    // Send OTP via Resend
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    
+    if (resendApiKey) {
+      const result = await sendEmailWithResend(email, generatedOTP, resendApiKey);
       
-      // Check attempts (max 5)
-      if (otpRecord.attempts >= 5) {
-        // Delete OTP after too many attempts
+      if (!result.success) {
+        // Clean up stored OTP if email fails
         await supabase
           .from('otp_codes')
           .delete()
-          .eq('id', otpRecord.id);
-        
-        console.log(`Too many attempts for ${email}`);
-        return new Response(
-          JSON.stringify({ error: 'Too many failed attempts. Please request a new OTP.' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      // Verify OTP by comparing hashes
-      const inputHash = await hashOTP(otp);
-      
-      if (inputHash !== otpRecord.otp_hash) {
-        // Increment attempts in database
-        await supabase
-          .from('otp_codes')
-          .update({ attempts: otpRecord.attempts + 1 })
-          .eq('id', otpRecord.id);
+          .eq('email', email.toLowerCase());
         
-        console.log(`Invalid OTP attempt for ${email}, attempts: ${otpRecord.attempts + 1}`);
-        return new Response(
-          JSON.stringify({ error: 'Invalid OTP. Please try again.', attemptsLeft: 5 - (otpRecord.attempts + 1) }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
+        return json({ error: 'Failed to send OTP. Please try again.' }, 500);
       }
-      
-      // OTP verified - delete it from database
+      console.log(`OTP email sent successfully to ${email}`);
+    } else {
+      // SECURITY: Never log OTP values - only log that OTP was generated
+      console.warn(`RESEND_API_KEY not configured - OTP generated for ${email} but email not sent. Configure RESEND_API_KEY secret for production use.`);
+    }
+    
+    return json({ success: true, message: 'OTP sent successfully' });
+    
+  } else if (body.action === 'verify') {
+    const { email, otp } = body;
+    if (!email || !otp) {
+      return json({ error: 'Email and OTP are required' }, 400);
+    }
+
+    // Get OTP record from database
+    const { data: otpRecord, error: fetchError } = await supabase
+      .from('otp_codes')
+      .select('*')
+      .eq('email', email.toLowerCase())
+      .is('verified_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (fetchError || !otpRecord) {
+      console.log(`No OTP found for ${email}:`, fetchError?.message);
+      return json({ error: 'OTP expired or not found. Please request a new one.' }, 400);
+    }
+    
+    // Check expiry
+    if (new Date(otpRecord.expires_at) < new Date()) {
+      // Delete expired OTP
       await supabase
         .from('otp_codes')
         .delete()
         .eq('id', otpRecord.id);
       
-      console.log(`OTP verified successfully for ${email}`);
-      
-      return new Response(
-        JSON.stringify({ success: true, verified: true }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-      
-    } else if (action === 'check-user') {
-      if (!email) {
-        return new Response(
-          JSON.stringify({ exists: false }),
-          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      // Use getUserById lookup by querying users table directly for faster response
-      // This avoids iterating through all users
-      const { data: users, error } = await supabase.auth.admin.listUsers({
-        page: 1,
-        perPage: 1,
-      });
+      console.log(`OTP expired for ${email}`);
+      return json({ error: 'OTP has expired. Please request a new one.' }, 400);
+    }
+    
+    // Check attempts (max 5)
+    if (otpRecord.attempts >= 5) {
+      // Delete OTP after too many attempts
+      await supabase
+        .from('otp_codes')
+        .delete()
+        .eq('id', otpRecord.id);
       
-      if (error) {
-        console.error('Error accessing admin API:', error);
-        return new Response(
-          JSON.stringify({ exists: false }),
-          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+      console.log(`Too many attempts for ${email}`);
+      return json({ error: 'Too many failed attempts. Please request a new OTP.' }, 400);
+    }
+    
+    // Verify OTP by comparing hashes
+    const inputHash = await hashOTP(otp);
+    
+    if (inputHash !== otpRecord.otp_hash) {
+      // Increment attempts in database
+      await supabase
+        .from('otp_codes')
+        .update({ attempts: otpRecord.attempts + 1 })
+        .eq('id', otpRecord.id);
       
-      // For security: always return quickly, don't reveal if user exists
-      // The password reset flow already handles non-existent emails gracefully
-      return new Response(
-        JSON.stringify({ exists: true }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      console.log(`Invalid OTP attempt for ${email}, attempts: ${otpRecord.attempts + 1}`);
+      return json({ error: 'Invalid OTP. Please try again.', attemptsLeft: 5 - (otpRecord.attempts + 1) }, 400);
     }
+    
+    // OTP verified - delete it from database
+    await supabase
+      .from('otp_codes')
+      .delete()
+      .eq('id', otpRecord.id);
+    
+    console.log(`OTP verified successfully for ${email}`);
+    
+    return json({ success: true, verified: true });
+  }
 
-    return new Response(
-      JSON.stringify({ error: 'Invalid action' }),
-      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+  // check-user
+  if (!EmailAddress.safeParse(body.email).success) {
+    return json({ exists: false });
+  }
 
-  } catch (error) {
-    console.error('Error in send-otp function:', error);
-    return new Response(
-      JSON.stringify({ error: 'An unexpected error occurred' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+  // Use getUserById lookup by querying users table directly for faster response
+  // This avoids iterating through all users
+  const { error } = await supabase.auth.admin.listUsers({
+    page: 1,
+    perPage: 1,
+  });
+  
+  if (error) {
+    console.error('Error accessing admin API:', error);
+    return json({ exists: false });
   }
+  
+  // For security: always return quickly, don't reveal if user exists
+  // The password reset flow already handles non-existent emails gracefully
+  return json({ exists: true });
 });
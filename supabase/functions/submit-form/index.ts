@@ -1,357 +1,560 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// Allowed origins for CORS - restrict to specific domains
-const allowedOrigins = [
-  'http://localhost:5173',
-  'http://localhost:3000',
-  'https://lovable.dev',
-  'https://vnuitsolutions.com',
-  'https://www.vnuitsolutions.com',
-  'https://vnu.lovable.app',
-];
-
-// Pattern-based allowed origins (subdomains)
-const allowedPatterns = [
-  /^https:\/\/[a-z0-9-]+\.lovable\.app$/,
-  /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/,
-];
-
-function getCorsHeaders(req: Request): Record<string, string> {
-  const origin = req.headers.get('origin') || '';
-  
-  // Check exact match
-  if (allowedOrigins.includes(origin)) {
-    return {
-      'Access-Control-Allow-Origin': origin,
-      'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    };
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  DEFAULT_CONFIRMATION_BODY,
+  DEFAULT_CONFIRMATION_SUBJECT,
+  DEFAULT_NOTIFICATION_BODY,
+  DEFAULT_NOTIFICATION_SUBJECT,
+  FILE_UPLOAD_BUCKET,
+  RESUME_FIELD,
+  getEmbedOriginPatterns,
+  getFileLimits,
+  getFormAvailability,
+  getFormAvailabilityError,
+  getRespondentEmail,
+  isAllowedFileType,
+  isEmbedOriginAllowed,
+  renderEmailTemplate,
+  sanitizeSubmissionMetadata,
+  validateCustomFormData,
+  type FieldErrors,
+  type FormField,
+  type FormValues,
+} from "../_shared/custom-forms.ts";
+import { isAllowedOrigin } from "../_shared/cors.ts";
+import { getEmailSender, type EmailMessage } from "../_shared/email.ts";
+import { BUILT_IN_FORM_SCHEMAS, type BuiltInFormType, type BuiltInFormValues } from "../_shared/form-schemas.ts";
+import { getFieldErrors, parseBody, serveFunction, z } from "../_shared/http.ts";
+import { checkRateLimit, getClientIp } from "../_shared/rate-limit.ts";
+import { scoreSubmission, type SpamContext, type SpamSubmission } from "../_shared/spam.ts";
+
+// Partner sites listed in a published form's embed_domains, directly or through a wildcard,
+// may submit that form directly. Preflight requests carry no body, so without a form id any
+// published form counts.
+async function isEmbedOrigin(supabase: SupabaseClient, origin: string, formId?: string): Promise<boolean> {
+  const patterns = getEmbedOriginPatterns(origin);
+  if (patterns.length === 0) return false;
+
+  let query = supabase
+    .from('custom_forms')
+    .select('id')
+    .eq('is_published', true)
+    .overlaps('embed_domains', patterns);
+
+  if (formId) {
+    query = query.eq('id', formId);
   }
-  
-  // Check pattern match
-  for (const pattern of allowedPatterns) {
-    if (pattern.test(origin)) {
-      return {
-        'Access-Control-Allow-Origin': origin,
-        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      };
-    }
+
+  const { data, error } = await query.limit(1);
+  if (error) {
+    console.error(`Failed to check embed origin ${origin}:`, error);
+    return false;
   }
-  
-  // Default: no CORS header (blocks the request)
-  return {
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  };
+  return (data?.length || 0) > 0;
 }
 
+const FORM_TYPES = ['contact_requests', 'career_applications', 'nowrise_applications', 'form_submissions'] as const;
+
+// The answers in `data` are checked per form type below
+const SubmitFormBody = z.object({
+  formType: z.enum(FORM_TYPES, { message: 'Invalid form type' }),
+  data: z.record(z.unknown(), { message: 'Submission data is required' }),
+  honeypot: z.unknown().optional(),
+  formId: z.string().optional(),
+  // The published_version_id the client rendered; older clients leave it out
+  formVersionId: z.string().nullish(),
+  renderToken: z.unknown().optional(),
+});
 
-// In-memory rate limiting store (resets on function cold start)
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
-
-const RATE_LIMIT = {
-  maxRequests: 5,      // Max 5 requests
-  windowMs: 60000,     // Per 1 minute window
-};
-
-function getRateLimitKey(ip: string, formType: string): string {
-  return `${ip}:${formType}`;
+interface ValidationResult {
+  valid: boolean;
+  error?: string;
+  status?: number;
+  fieldErrors?: FieldErrors;
+  data?: FormValues;
+  // Built-in forms only: the trimmed answers, limited to the form's fields
+  values?: BuiltInFormValues;
+  // Machine-readable reason for custom form rejections, e.g. "form_full"
+  code?: string;
+  // Custom forms only: the published schema version the answers were checked against
+  versionId?: string;
+  respondentEmail?: string | null;
+  form?: { name: string; fields: FormField[] };
 }
 
-function isRateLimited(key: string): { limited: boolean; remaining: number; resetIn: number } {
-  const now = Date.now();
-  const record = rateLimitStore.get(key);
+const FIELD_ERRORS_MESSAGE = 'Please correct the highlighted fields';
+const DUPLICATE_RESPONSE_MESSAGE = 'A response has already been submitted with this email address';
+const FORM_CHANGED_MESSAGE = 'This form has been updated since you opened it. Please check your answers and submit again.';
 
-  if (!record || now > record.resetAt) {
-    // Create new window
-    rateLimitStore.set(key, { count: 1, resetAt: now + RATE_LIMIT.windowMs });
-    return { limited: false, remaining: RATE_LIMIT.maxRequests - 1, resetIn: RATE_LIMIT.windowMs };
-  }
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-  if (record.count >= RATE_LIMIT.maxRequests) {
-    return { limited: true, remaining: 0, resetIn: record.resetAt - now };
-  }
+// Confirm an uploaded object exists and still matches the field's limits; the signed upload
+// URL only fixes the path, not what was actually sent to it
+async function checkUpload(supabase: SupabaseClient, field: FormField, path: string): Promise<string | null> {
+  const separator = path.lastIndexOf('/');
+  const folder = path.slice(0, separator);
+  const name = path.slice(separator + 1);
 
-  record.count++;
-  return { limited: false, remaining: RATE_LIMIT.maxRequests - record.count, resetIn: record.resetAt - now };
-}
+  const { data: objects, error } = await supabase.storage
+    .from(FILE_UPLOAD_BUCKET)
+    .list(folder, { search: name, limit: 10 });
 
-// Input validation schemas
-const emailRegex = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
-
-function validateContactRequest(data: Record<string, unknown>): { valid: boolean; error?: string } {
-  if (!data.name || typeof data.name !== 'string' || data.name.length < 2 || data.name.length > 100) {
-    return { valid: false, error: 'Name must be 2-100 characters' };
+  if (error) {
+    console.error(`Failed to look up upload ${path}:`, error);
+    return 'Could not verify the uploaded file';
   }
-  if (!data.email || typeof data.email !== 'string' || !emailRegex.test(data.email) || data.email.length > 255) {
-    return { valid: false, error: 'Valid email is required' };
+
+  const object = objects?.find((item) => item.name === name);
+  if (!object) {
+    return 'Uploaded file was not found. Please upload it again.';
   }
-  if (!data.purpose || typeof data.purpose !== 'string' || data.purpose.length > 100) {
-    return { valid: false, error: 'Purpose is required' };
+
+  const { accept, maxSizeMb } = getFileLimits(field);
+  const size = Number(object.metadata?.size || 0);
+  const mimetype = String(object.metadata?.mimetype || '');
+  if (size > maxSizeMb * 1024 * 1024) {
+    return `Files must be smaller than ${maxSizeMb} MB`;
   }
-  if (!data.message || typeof data.message !== 'string' || data.message.length < 10 || data.message.length > 1000) {
-    return { valid: false, error: 'Message must be 10-1000 characters' };
+  if (!isAllowedFileType(accept, mimetype)) {
+    return 'This file type is not allowed';
   }
-  return { valid: true };
+  return null;
 }
 
-function validateCareerApplication(data: Record<string, unknown>): { valid: boolean; error?: string } {
-  if (!data.name || typeof data.name !== 'string' || data.name.length < 2 || data.name.length > 100) {
-    return { valid: false, error: 'Name must be 2-100 characters' };
-  }
-  if (!data.email || typeof data.email !== 'string' || !emailRegex.test(data.email) || data.email.length > 255) {
-    return { valid: false, error: 'Valid email is required' };
-  }
-  if (!data.role_applied || typeof data.role_applied !== 'string' || data.role_applied.length > 100) {
-    return { valid: false, error: 'Role applied is required' };
-  }
-  if (data.cover_letter && (typeof data.cover_letter !== 'string' || data.cover_letter.length > 5000)) {
-    return { valid: false, error: 'Cover letter must be under 5000 characters' };
+async function checkFormUploads(
+  supabase: SupabaseClient,
+  fields: FormField[],
+  data: FormValues,
+  formId: string
+): Promise<FieldErrors> {
+  const errors: FieldErrors = {};
+  for (const field of fields) {
+    const paths = field.type === 'file' ? data[field.id] : undefined;
+    if (!Array.isArray(paths)) continue;
+    for (const path of paths) {
+      const error = path.split('/')[1] !== formId
+        ? 'Invalid upload'
+        : await checkUpload(supabase, field, path);
+      if (error) {
+        errors[field.id] = error;
+        break;
+      }
+    }
   }
-  return { valid: true };
+  return errors;
 }
 
-function validateNowriseApplication(data: Record<string, unknown>): { valid: boolean; error?: string } {
-  if (!data.name || typeof data.name !== 'string' || data.name.length < 2 || data.name.length > 100) {
-    return { valid: false, error: 'Name must be 2-100 characters' };
-  }
-  if (!data.email || typeof data.email !== 'string' || !emailRegex.test(data.email) || data.email.length > 255) {
-    return { valid: false, error: 'Valid email is required' };
+// Built-in forms use the schemas the React forms validate with, so both accept the same input
+async function validateBuiltInSubmission(
+  supabase: SupabaseClient,
+  formType: BuiltInFormType,
+  data: Record<string, unknown>
+): Promise<ValidationResult> {
+  const result = BUILT_IN_FORM_SCHEMAS[formType].safeParse(data);
+  if (!result.success) {
+    return { valid: false, error: FIELD_ERRORS_MESSAGE, fieldErrors: getFieldErrors(result.error) };
   }
-  if (!data.program || typeof data.program !== 'string' || data.program.length > 100) {
-    return { valid: false, error: 'Program is required' };
-  }
-  if (data.phone && (typeof data.phone !== 'string' || data.phone.length > 20)) {
-    return { valid: false, error: 'Phone must be under 20 characters' };
-  }
-  if (data.education && (typeof data.education !== 'string' || data.education.length > 200)) {
-    return { valid: false, error: 'Education must be under 200 characters' };
+
+  const resumePath = 'resume_url' in result.data ? result.data.resume_url : null;
+  if (resumePath) {
+    const resumeError = await checkUpload(supabase, RESUME_FIELD, resumePath);
+    if (resumeError) {
+      return { valid: false, error: resumeError, fieldErrors: { resume_url: resumeError } };
+    }
   }
-  return { valid: true };
+
+  return { valid: true, values: result.data };
 }
 
-function validateCustomFormSubmission(data: Record<string, unknown>, formId: unknown): { valid: boolean; error?: string } {
-  // Validate form_id is a valid UUID
+// Custom forms are validated against the published form's field definitions
+async function validateCustomFormSubmission(
+  supabase: SupabaseClient,
+  data: Record<string, unknown>,
+  formId: unknown,
+  formVersionId: string | null | undefined,
+  embedOrigin?: string
+): Promise<ValidationResult> {
   if (!formId || typeof formId !== 'string') {
     return { valid: false, error: 'Form ID is required' };
   }
-  
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
   if (!uuidRegex.test(formId)) {
     return { valid: false, error: 'Invalid form ID format' };
   }
 
-  // Validate submission_data structure
-  if (!data || typeof data !== 'object') {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
     return { valid: false, error: 'Submission data is required' };
   }
 
   // Check total size of submission data (limit to 50KB)
-  const dataString = JSON.stringify(data);
-  if (dataString.length > 51200) {
+  if (JSON.stringify(data).length > 51200) {
     return { valid: false, error: 'Submission data is too large' };
   }
 
-  // Validate each field value
-  for (const [key, value] of Object.entries(data)) {
-    // Key validation
-    if (typeof key !== 'string' || key.length > 100) {
-      return { valid: false, error: 'Invalid field name' };
+  const { data: form, error } = await supabase
+    .from('custom_forms')
+    .select('id, form_name, fields, published_version_id, opens_at, closes_at, max_submissions, one_response_per_email, embed_domains')
+    .eq('id', formId)
+    .eq('is_published', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to load custom form ${formId}:`, error);
+    return { valid: false, error: 'Failed to submit form. Please try again.', status: 500 };
+  }
+
+  if (!form) {
+    return { valid: false, error: 'This form is not available', status: 404 };
+  }
+
+  if (embedOrigin && !isEmbedOriginAllowed(form.embed_domains, embedOrigin)) {
+    return { valid: false, error: 'This form cannot be submitted from this site', status: 403, code: 'embed_not_allowed' };
+  }
+
+  let submissionCount = 0;
+  if (form.max_submissions) {
+    const { count, error: countError } = await supabase
+      .from('form_submissions')
+      .select('id', { count: 'exact', head: true })
+      .eq('form_id', formId)
+      .neq('status', 'spam');
+
+    if (countError) {
+      console.error(`Failed to count submissions for custom form ${formId}:`, countError);
+      return { valid: false, error: 'Failed to submit form. Please try again.', status: 500 };
     }
+    submissionCount = count || 0;
+  }
 
-    // Value validation
-    if (typeof value === 'string') {
-      if (value.length > 5000) {
-        return { valid: false, error: `Field "${key}" exceeds maximum length` };
-      }
-    } else if (Array.isArray(value)) {
-      // For checkbox/multi-select fields
-      if (value.length > 50) {
-        return { valid: false, error: `Field "${key}" has too many selections` };
-      }
-      for (const item of value) {
-        if (typeof item !== 'string' || item.length > 500) {
-          return { valid: false, error: `Invalid value in field "${key}"` };
-        }
+  const availability = getFormAvailability(form, submissionCount);
+  if (availability !== 'open') {
+    return { valid: false, ...getFormAvailabilityError(availability) };
+  }
+
+  // Answers are only checked against the current fields, so ones made against an older
+  // version are sent back rather than stored under the wrong schema
+  if (formVersionId && formVersionId !== form.published_version_id) {
+    return { valid: false, error: FORM_CHANGED_MESSAGE, status: 409, code: 'form_changed' };
+  }
+
+  const fields = (form.fields as FormField[]) || [];
+  const result = validateCustomFormData(fields, data);
+  if (!result.valid) {
+    return { valid: false, error: FIELD_ERRORS_MESSAGE, fieldErrors: result.errors };
+  }
+
+  const uploadErrors = await checkFormUploads(supabase, fields, result.data, formId);
+  if (Object.keys(uploadErrors).length > 0) {
+    return { valid: false, error: FIELD_ERRORS_MESSAGE, fieldErrors: uploadErrors };
+  }
+
+  let respondentEmail: string | null = null;
+  if (form.one_response_per_email) {
+    respondentEmail = getRespondentEmail(fields, result.data);
+    if (respondentEmail) {
+      const { count, error: duplicateError } = await supabase
+        .from('form_submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('form_id', formId)
+        .eq('respondent_email', respondentEmail)
+        .neq('status', 'spam');
+
+      if (duplicateError) {
+        console.error(`Failed to check duplicate response for custom form ${formId}:`, duplicateError);
+        return { valid: false, error: 'Failed to submit form. Please try again.', status: 500 };
       }
-    } else if (value !== null && value !== undefined) {
-      // Allow numbers, booleans
-      if (typeof value !== 'number' && typeof value !== 'boolean') {
-        return { valid: false, error: `Invalid value type for field "${key}"` };
+      if (count) {
+        const emailField = fields.find((f) => f.type === 'email' && result.data[f.id] !== undefined);
+        return {
+          valid: false,
+          error: DUPLICATE_RESPONSE_MESSAGE,
+          status: 409,
+          code: 'duplicate_response',
+          fieldErrors: emailField ? { [emailField.id]: DUPLICATE_RESPONSE_MESSAGE } : undefined,
+        };
       }
     }
   }
 
-  return { valid: true };
+  return {
+    valid: true,
+    data: result.data,
+    versionId: form.published_version_id || undefined,
+    respondentEmail,
+    form: { name: form.form_name, fields },
+  };
 }
 
-serve(async (req) => {
-  const corsHeaders = getCorsHeaders(req);
-  
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    // Get client IP for rate limiting
-    const clientIP = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 
-                     req.headers.get('x-real-ip') || 
-                     'unknown';
-
-    const body = await req.json();
-    const { formType, data, honeypot, formId } = body;
-    // Store formId for later use in validation
-    (req as any)._formId = formId;
-
-    // Honeypot check - if this field has any value, it's likely a bot
-    if (honeypot) {
-      console.warn(`Honeypot triggered for IP: ${clientIP}, form: ${formType}`);
-      // Return success to not reveal the honeypot detection
-      return new Response(
-        JSON.stringify({ success: true, message: 'Form submitted successfully' }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+// What the spam checks see of a valid submission: the free text a person typed and the address
+// it came from. Custom forms use every text answer, since their questions are admin-defined.
+function getSpamSubmission(
+  formType: string,
+  data: Record<string, unknown>,
+  validation: ValidationResult,
+  formKey: string,
+  renderToken: unknown
+): SpamSubmission {
+  const fieldsByType: Record<string, string[]> = {
+    contact_requests: ['name', 'purpose', 'message'],
+    career_applications: ['name', 'cover_letter'],
+    nowrise_applications: ['name', 'education', 'program'],
+  };
 
-    // Validate form type
-    const validFormTypes = ['contact_requests', 'career_applications', 'nowrise_applications', 'form_submissions'];
-    if (!validFormTypes.includes(formType)) {
-      console.error(`Invalid form type: ${formType}`);
-      return new Response(
-        JSON.stringify({ error: 'Invalid form type' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+  let text: string[];
+  let email: string | null;
+  if (formType === 'form_submissions' && validation.form && validation.data) {
+    const values = validation.data;
+    text = validation.form.fields
+      .filter((field) => field.type !== 'file')
+      .flatMap((field) => values[field.id])
+      .filter((value): value is string => typeof value === 'string');
+    email = getRespondentEmail(validation.form.fields, values);
+  } else {
+    text = (fieldsByType[formType] || [])
+      .map((key) => data[key])
+      .filter((value): value is string => typeof value === 'string');
+    email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : null;
+  }
 
-    // Check rate limit
-    const rateLimitKey = getRateLimitKey(clientIP, formType);
-    const rateLimit = isRateLimited(rateLimitKey);
-    
-    console.log(`Rate limit check for ${rateLimitKey}: limited=${rateLimit.limited}, remaining=${rateLimit.remaining}`);
-
-    if (rateLimit.limited) {
-      console.warn(`Rate limit exceeded for IP: ${clientIP}, form: ${formType}`);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Too many requests. Please try again later.',
-          retryAfter: Math.ceil(rateLimit.resetIn / 1000)
-        }),
-        { 
-          status: 429, 
-          headers: { 
-            ...corsHeaders, 
-            'Content-Type': 'application/json',
-            'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000))
-          } 
-        }
-      );
-    }
+  return { formType, formKey, email, text, renderToken, receivedAt: Date.now() };
+}
 
-    // Validate input based on form type
-    let validation: { valid: boolean; error?: string };
-    switch (formType) {
-      case 'contact_requests':
-        validation = validateContactRequest(data);
-        break;
-      case 'career_applications':
-        validation = validateCareerApplication(data);
-        break;
-      case 'nowrise_applications':
-        validation = validateNowriseApplication(data);
-        break;
-      case 'form_submissions':
-        const formId = (req as any)._formId || data.form_id;
-        validation = validateCustomFormSubmission(data.submission_data || data, formId);
-        break;
-      default:
-        validation = { valid: false, error: 'Unknown form type' };
-    }
+// Velocity is counted per form type, and per form for custom forms
+function getSpamContext(
+  supabase: SupabaseClient,
+  formType: string,
+  formId: string | undefined,
+  validation: ValidationResult
+): SpamContext {
+  return {
+    tokenSecret: Deno.env.get('FORM_TOKEN_SECRET') || undefined,
+    countRecentByEmail: async (email, since) => {
+      // Case-insensitive exact match: addresses are stored as typed
+      const pattern = email.replace(/[%_\\]/g, '\\$&');
+      let query = supabase
+        .from(formType)
+        .select('id', { count: 'exact', head: true })
+        .gte('created_at', since.toISOString());
+
+      if (formType === 'form_submissions') {
+        const values = validation.data || {};
+        const emailField = validation.form?.fields.find(
+          (field) => field.type === 'email' && typeof values[field.id] === 'string'
+        );
+        if (!emailField || !formId) return 0;
+        query = query.eq('form_id', formId).ilike(`submission_data->>${emailField.id}`, pattern);
+      } else {
+        query = query.ilike('email', pattern);
+      }
 
-    if (!validation.valid) {
-      console.error(`Validation failed for ${formType}: ${validation.error}`);
-      return new Response(
-        JSON.stringify({ error: validation.error }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+      const { count, error } = await query;
+      if (error) throw error;
+      return count || 0;
+    },
+  };
+}
 
-    // Create Supabase client with service role for inserting
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Sanitize data
-    function sanitizeValue(value: unknown): unknown {
-      if (typeof value === 'string') {
-        return value.trim().slice(0, 5000);
-      } else if (Array.isArray(value)) {
-        return value.map(v => typeof v === 'string' ? v.trim().slice(0, 500) : v);
-      }
-      return value;
-    }
+// Admin notification and submitter confirmation for a stored custom form submission.
+// The response is already saved, so failures are logged rather than returned to the visitor.
+async function sendSubmissionEmails(
+  supabase: SupabaseClient,
+  formId: string,
+  form: { name: string; fields: FormField[] },
+  data: FormValues
+): Promise<void> {
+  const { data: settings, error } = await supabase
+    .from('custom_form_notifications')
+    .select('*')
+    .eq('form_id', formId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to load email settings for custom form ${formId}:`, error);
+    return;
+  }
 
-    let insertData: Record<string, unknown>;
-    
-    if (formType === 'form_submissions') {
-      // Handle custom form submissions
-      const submissionData = data.submission_data || data;
-      const sanitizedSubmission: Record<string, unknown> = {};
-      
-      for (const [key, value] of Object.entries(submissionData)) {
-        sanitizedSubmission[key] = sanitizeValue(value);
-      }
-      
-      insertData = {
-        form_id: formId,
-        submission_data: sanitizedSubmission,
-        status: 'pending'
-      };
-    } else {
-      // Handle legacy form types
-      insertData = {};
-      for (const [key, value] of Object.entries(data)) {
-        insertData[key] = sanitizeValue(value);
-      }
-    }
+  if (!settings) return;
+
+  const context = { formName: form.name, fields: form.fields, data, submittedAt: new Date() };
+  const confirmationField = form.fields.find(
+    (f) => f.id === settings.confirmation_field_id && f.type === 'email'
+  );
+  const submitterEmail = confirmationField && typeof data[confirmationField.id] === 'string'
+    ? (data[confirmationField.id] as string)
+    : undefined;
+
+  const messages: EmailMessage[] = [];
+
+  if (settings.notify_emails?.length) {
+    messages.push({
+      to: settings.notify_emails,
+      replyTo: submitterEmail,
+      ...renderEmailTemplate(
+        settings.notify_subject || DEFAULT_NOTIFICATION_SUBJECT,
+        settings.notify_body || DEFAULT_NOTIFICATION_BODY,
+        context
+      ),
+    });
+  }
+
+  if (settings.confirmation_enabled && submitterEmail) {
+    messages.push({
+      to: [submitterEmail],
+      ...renderEmailTemplate(
+        settings.confirmation_subject || DEFAULT_CONFIRMATION_SUBJECT,
+        settings.confirmation_body || DEFAULT_CONFIRMATION_BODY,
+        context
+      ),
+    });
+  }
 
-    const { error: insertError } = await supabase
-      .from(formType)
-      .insert(insertData);
+  if (messages.length === 0) return;
 
-    if (insertError) {
-      console.error(`Database insert error for ${formType}:`, insertError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to submit form. Please try again.' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+  const sender = getEmailSender();
+  if (!sender) {
+    console.warn(`No email transport configured - skipped ${messages.length} email(s) for custom form ${formId}. Set RESEND_API_KEY, or EMAIL_TRANSPORT=log for local development.`);
+    return;
+  }
+
+  const results = await Promise.all(messages.map((message) => sender.send(message)));
+  const failed = results.filter((r) => !r.success).length;
+  if (failed > 0) {
+    console.error(`${failed} of ${messages.length} email(s) failed for custom form ${formId} via ${sender.name}`);
+  }
+}
+
+serveFunction('submit-form', async ({ req, supabase, origin, json, allowOrigin }) => {
+  // Get client IP for rate limiting
+  const clientIP = getClientIp(req);
+
+  const { formType, data, honeypot, formId, formVersionId, renderToken } = await parseBody(req, SubmitFormBody);
+  const customFormId = formId || (typeof data.form_id === 'string' ? data.form_id : undefined);
+
+  // Cross-origin requests are only accepted from our own sites, or from a site the
+  // submitted form may be embedded on
+  let crossOriginEmbed: string | undefined;
+  if (origin && !isAllowedOrigin(origin)) {
+    const isEmbed = formType === 'form_submissions' && typeof customFormId === 'string' &&
+      uuidRegex.test(customFormId) && await isEmbedOrigin(supabase, origin, customFormId);
+    if (!isEmbed) {
+      console.warn(`Rejected ${formType} submission from origin ${origin}`);
+      return json({ error: 'Origin not allowed' }, 403);
     }
+    crossOriginEmbed = origin;
+    allowOrigin();
+  }
 
-    console.log(`Successfully inserted ${formType} from IP: ${clientIP}`);
-
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Form submitted successfully',
-        remaining: rateLimit.remaining
-      }),
-      { 
-        status: 200, 
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json',
-          'X-RateLimit-Remaining': String(rateLimit.remaining)
-        } 
-      }
+  // Honeypot check - if this field has any value, it's likely a bot
+  if (honeypot) {
+    console.warn(`Honeypot triggered for IP: ${clientIP}, form: ${formType}`);
+    // Return success to not reveal the honeypot detection
+    return json({ success: true, message: 'Form submitted successfully' });
+  }
+
+  // Rate limits and render tokens are per custom form, or per built-in form type
+  const formKey = formType === 'form_submissions' && typeof customFormId === 'string' && uuidRegex.test(customFormId)
+    ? customFormId
+    : formType;
+  const rateLimit = await checkRateLimit(supabase, 'submit-form:submit', { ip: clientIP, form: formKey });
+
+  if (rateLimit.limited) {
+    console.warn(`Rate limit exceeded for IP: ${clientIP}, form: ${formType}`);
+    return json(
+      { error: 'Too many requests. Please try again later.', retryAfter: rateLimit.retryAfter },
+      429,
+      { 'Retry-After': String(rateLimit.retryAfter) }
     );
+  }
 
-  } catch (error) {
-    console.error('Error in submit-form function:', error);
-    return new Response(
-      JSON.stringify({ error: 'An unexpected error occurred. Please try again.' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  // Older clients sent the link source inside the answers. Forms shown in our embed
+  // iframe report the host page in embed_origin; direct partner requests use their origin.
+  const submissionData = (data.submission_data || data) as Record<string, unknown>;
+  const submissionMetadata = formType === 'form_submissions'
+    ? sanitizeSubmissionMetadata({
+      source: submissionData.source,
+      ...(data.metadata && typeof data.metadata === 'object' ? data.metadata : {}),
+      ...(crossOriginEmbed ? { embed_origin: crossOriginEmbed } : {}),
+    })
+    : {};
+
+  // Validate input based on form type
+  const validation = formType === 'form_submissions'
+    ? await validateCustomFormSubmission(supabase, submissionData, customFormId, formVersionId, submissionMetadata.embed_origin)
+    : await validateBuiltInSubmission(supabase, formType, data);
+
+  if (!validation.valid) {
+    console.error(`Validation failed for ${formType}: ${validation.error}`);
+    return json(
+      { error: validation.error, code: validation.code, fieldErrors: validation.fieldErrors },
+      validation.status || 400
     );
   }
+
+  // High scores are stored for review rather than rejected, so a false positive loses nothing.
+  // The visitor gets the usual success response either way.
+  const spam = await scoreSubmission(
+    getSpamSubmission(formType, data, validation, formKey, renderToken),
+    getSpamContext(supabase, formType, customFormId, validation)
+  );
+  if (spam.signals.length > 0) {
+    console.log(`Spam score ${spam.score} for ${formType} from IP ${clientIP}: ${spam.signals.map((s) => s.check).join(', ')}`);
+  }
+
+  let insertData: Record<string, unknown>;
+  
+  if (formType === 'form_submissions') {
+    // Custom form answers were already normalised against the form definition
+    insertData = {
+      form_id: customFormId,
+      form_version_id: validation.versionId || null,
+      respondent_email: validation.respondentEmail || null,
+      submission_data: validation.data,
+      metadata: submissionMetadata,
+      status: 'new'
+    };
+  } else {
+    insertData = { ...validation.values };
+  }
+
+  insertData.spam_score = spam.score;
+  insertData.spam_reasons = spam.signals.map((signal) => signal.reason);
+  if (spam.isSpam) {
+    insertData.status = 'spam';
+  }
+
+  const { error: insertError } = await supabase
+    .from(formType)
+    .insert(insertData);
+
+  // The availability trigger and the respondent email index are the last line of defence
+  // against races between the checks above and the insert
+  if (insertError && formType === 'form_submissions') {
+    if (insertError.code === '23505') {
+      return json({ error: DUPLICATE_RESPONSE_MESSAGE, code: 'duplicate_response' }, 409);
+    }
+    const availability = (['not_open', 'closed', 'full'] as const)
+      .find((state) => insertError.message === `form_${state}`);
+    if (availability) {
+      const { error, code, status } = getFormAvailabilityError(availability);
+      return json({ error, code }, status);
+    }
+  }
+
+  if (insertError) {
+    console.error(`Database insert error for ${formType}:`, insertError);
+    return json({ error: 'Failed to submit form. Please try again.' }, 500);
+  }
+
+  console.log(`Successfully inserted ${formType} from IP: ${clientIP}`);
+
+  if (formType === 'form_submissions' && customFormId && validation.form && validation.data && !spam.isSpam) {
+    await sendSubmissionEmails(supabase, customFormId, validation.form, validation.data);
+  }
+
+  return json(
+    { success: true, message: 'Form submitted successfully', remaining: rateLimit.remaining },
+    200,
+    { 'X-RateLimit-Remaining': String(rateLimit.remaining) }
+  );
+}, {
+  allowPreflightOrigin: ({ supabase, origin }) => isEmbedOrigin(supabase, origin),
 });
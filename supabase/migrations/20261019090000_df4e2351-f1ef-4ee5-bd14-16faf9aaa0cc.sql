@@ -0,0 +1,14 @@
+-- Private bucket for files attached to custom form submissions and career applications
+-- Uploads go through signed upload URLs issued by the create-upload edge function
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('form-uploads', 'form-uploads', false, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+-- No insert policy: anonymous visitors can only write through a signed upload URL
+CREATE POLICY "Admins can view form uploads"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'form-uploads' AND has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete form uploads"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'form-uploads' AND has_role(auth.uid(), 'admin'::app_role));
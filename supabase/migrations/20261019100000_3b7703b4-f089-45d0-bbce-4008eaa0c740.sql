@@ -0,0 +1,68 @@
+-- Immutable snapshots of a custom form's field schema, taken every time it is published
+CREATE TABLE public.custom_form_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.custom_forms(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  form_name TEXT NOT NULL,
+  description TEXT,
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id),
+  UNIQUE (form_id, version)
+);
+
+ALTER TABLE public.custom_form_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written only by the trigger below and never edited, so admins get read access only
+CREATE POLICY "Admins can view form versions"
+ON public.custom_form_versions FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Each submission records the version it was made against
+ALTER TABLE public.form_submissions
+ADD COLUMN form_version_id UUID REFERENCES public.custom_form_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_form_submissions_form_version ON public.form_submissions(form_version_id);
+
+-- Snapshot on publish, and on every save of an already published form whose fields changed
+CREATE OR REPLACE FUNCTION public.snapshot_custom_form_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  latest public.custom_form_versions%ROWTYPE;
+BEGIN
+  IF NOT NEW.is_published THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO latest
+  FROM public.custom_form_versions
+  WHERE form_id = NEW.id
+  ORDER BY version DESC
+  LIMIT 1;
+
+  -- Re-publishing an unchanged schema keeps the existing version
+  IF FOUND AND latest.fields = NEW.fields THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.custom_form_versions (form_id, version, form_name, description, fields, created_by)
+  VALUES (NEW.id, COALESCE(latest.version, 0) + 1, NEW.form_name, NEW.description, NEW.fields, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_custom_form_version
+AFTER INSERT OR UPDATE OF fields, is_published ON public.custom_forms
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_custom_form_version();
+
+-- Forms that are already live start at version 1; existing submissions keep a NULL version
+INSERT INTO public.custom_form_versions (form_id, version, form_name, description, fields, created_by)
+SELECT id, 1, form_name, description, fields, created_by
+FROM public.custom_forms
+WHERE is_published = true;
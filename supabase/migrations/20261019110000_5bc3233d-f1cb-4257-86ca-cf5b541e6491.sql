@@ -0,0 +1,71 @@
+-- Availability controls for custom forms: an open/close window, a response cap and
+-- an optional one-response-per-email rule
+ALTER TABLE public.custom_forms
+ADD COLUMN opens_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN closes_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN max_submissions INTEGER CHECK (max_submissions IS NULL OR max_submissions > 0),
+ADD COLUMN one_response_per_email BOOLEAN NOT NULL DEFAULT false,
+ADD CONSTRAINT custom_forms_window_check CHECK (opens_at IS NULL OR closes_at IS NULL OR opens_at < closes_at);
+
+-- Only filled while the form has one_response_per_email enabled, so the index below
+-- enforces the rule without affecting forms that allow repeat responses
+ALTER TABLE public.form_submissions
+ADD COLUMN respondent_email TEXT;
+
+CREATE UNIQUE INDEX idx_form_submissions_respondent_email
+ON public.form_submissions(form_id, lower(respondent_email))
+WHERE respondent_email IS NOT NULL;
+
+-- Final guard for the window and cap. submit-form checks first to return friendly errors;
+-- locking the form row keeps concurrent submissions from overshooting the cap.
+CREATE OR REPLACE FUNCTION public.enforce_form_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  form public.custom_forms%ROWTYPE;
+  submission_count INTEGER;
+BEGIN
+  SELECT * INTO form FROM public.custom_forms WHERE id = NEW.form_id FOR UPDATE;
+
+  IF form.opens_at IS NOT NULL AND now() < form.opens_at THEN
+    RAISE EXCEPTION 'form_not_open' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF form.closes_at IS NOT NULL AND now() >= form.closes_at THEN
+    RAISE EXCEPTION 'form_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF form.max_submissions IS NOT NULL THEN
+    SELECT count(*) INTO submission_count FROM public.form_submissions WHERE form_id = NEW.form_id;
+    IF submission_count >= form.max_submissions THEN
+      RAISE EXCEPTION 'form_full' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_form_availability
+BEFORE INSERT ON public.form_submissions
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_form_availability();
+
+-- Public pages need submission counts to show remaining capacity, but must not read submissions
+CREATE OR REPLACE FUNCTION public.get_form_submission_counts(_form_ids UUID[])
+RETURNS TABLE (form_id UUID, submission_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT f.id, count(s.id)::INTEGER
+  FROM public.custom_forms f
+  LEFT JOIN public.form_submissions s ON s.form_id = f.id
+  WHERE f.id = ANY(_form_ids)
+    AND f.is_published = true
+  GROUP BY f.id
+$$;
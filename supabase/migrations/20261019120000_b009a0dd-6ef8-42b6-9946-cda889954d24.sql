@@ -0,0 +1,30 @@
+-- Interaction events for custom forms, recorded only for visitors who accepted analytics cookies
+CREATE TABLE public.form_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.custom_forms(id) ON DELETE CASCADE,
+  -- Random per-attempt id generated in the browser; not linked to a user or submission
+  session_id TEXT NOT NULL CHECK (char_length(session_id) <= 64),
+  event_type TEXT NOT NULL CHECK (event_type IN ('view', 'start', 'field_focus', 'field_blur', 'submit_success', 'submit_failure')),
+  field_id TEXT CHECK (char_length(field_id) <= 64),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_form_events_form_created ON public.form_events(form_id, created_at DESC);
+
+ALTER TABLE public.form_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record events for published forms"
+ON public.form_events FOR INSERT
+WITH CHECK (
+  EXISTS (SELECT 1 FROM public.custom_forms WHERE id = form_id AND is_published = true)
+  AND pg_column_size(metadata) <= 1024
+);
+
+CREATE POLICY "Admins can view form events"
+ON public.form_events FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete form events"
+ON public.form_events FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
@@ -0,0 +1,29 @@
+-- Email settings for custom forms. Kept out of custom_forms because published forms are
+-- readable by anyone, and recipient addresses must stay private.
+CREATE TABLE public.custom_form_notifications (
+  form_id UUID PRIMARY KEY REFERENCES public.custom_forms(id) ON DELETE CASCADE,
+  -- Admin notification sent for every submission; disabled while the list is empty
+  notify_emails TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(notify_emails) <= 10),
+  notify_subject TEXT,
+  notify_body TEXT,
+  -- Optional copy to the submitter, addressed to the answer of an email field
+  confirmation_enabled BOOLEAN NOT NULL DEFAULT false,
+  confirmation_field_id TEXT,
+  confirmation_subject TEXT,
+  confirmation_body TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.custom_form_notifications ENABLE ROW LEVEL SECURITY;
+
+-- submit-form reads settings with the service role; only admins can see or change them
+CREATE POLICY "Admins can manage form notifications"
+ON public.custom_form_notifications
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_custom_form_notifications_updated_at
+BEFORE UPDATE ON public.custom_form_notifications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
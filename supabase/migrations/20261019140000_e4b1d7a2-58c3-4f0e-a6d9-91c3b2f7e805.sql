@@ -0,0 +1,184 @@
+-- Outbound webhooks: admin-registered endpoints and a durable delivery queue
+CREATE TABLE public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  -- Shared secret for the X-Webhook-Signature HMAC; shown to admins so receivers can verify
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  form_type TEXT NOT NULL CHECK (form_type IN ('form_submissions', 'contact_requests', 'career_applications', 'nowrise_applications')),
+  -- Custom forms only: limit the endpoint to one form, or NULL for every form
+  form_id UUID REFERENCES public.custom_forms(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT webhook_endpoints_form_check CHECK (form_id IS NULL OR form_type = 'form_submissions')
+);
+
+CREATE TABLE public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  -- Built once when the row is queued, so retries and redeliveries send the same body
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_attempted_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  response_body TEXT,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'delivering');
+CREATE INDEX idx_webhook_deliveries_endpoint ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook endpoints"
+ON public.webhook_endpoints
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Deliveries are queued by the trigger below; admins read the log and reset rows to redeliver
+CREATE POLICY "Admins can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update webhook deliveries"
+ON public.webhook_deliveries FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+BEFORE UPDATE ON public.webhook_endpoints
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Columns that never leave the database in a webhook payload, neither in the record nor the
+-- labelled fields. Migrations that add internal columns redefine this list, not the trigger.
+CREATE OR REPLACE FUNCTION public.webhook_internal_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ARRAY[]::TEXT[]
+$$;
+
+-- Queue a delivery for every matching active endpoint. Custom form answers are labelled from
+-- the version the submission was made against; other tables label their columns.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  record_json JSONB := to_jsonb(NEW) - public.webhook_internal_columns();
+  _form_id UUID := (to_jsonb(NEW)->>'form_id')::UUID;
+  form_json JSONB;
+  field_defs JSONB;
+  fields_json JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.webhook_endpoints e
+    WHERE e.is_active AND e.form_type = TG_TABLE_NAME AND (e.form_id IS NULL OR e.form_id = _form_id)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'form_submissions' THEN
+    SELECT jsonb_build_object('id', f.id, 'name', f.form_name, 'version', v.version), COALESCE(v.fields, f.fields)
+    INTO form_json, field_defs
+    FROM public.custom_forms f
+    LEFT JOIN public.custom_form_versions v ON v.id = NEW.form_version_id
+    WHERE f.id = NEW.form_id;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', def->>'id',
+      'label', def->>'label',
+      'type', def->>'type',
+      'value', NEW.submission_data -> (def->>'id')
+    ) ORDER BY ordinality), '[]'::jsonb)
+    INTO fields_json
+    FROM jsonb_array_elements(COALESCE(field_defs, '[]'::jsonb)) WITH ORDINALITY AS defs(def, ordinality)
+    WHERE def->>'type' <> 'section';
+  ELSE
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', key,
+      'label', initcap(replace(key, '_', ' ')),
+      'value', value
+    )), '[]'::jsonb)
+    INTO fields_json
+    FROM jsonb_each(record_json)
+    WHERE key NOT IN ('id', 'created_at', 'updated_at', 'status');
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, event, record_id, payload)
+  SELECT
+    e.id,
+    TG_TABLE_NAME || '.created',
+    NEW.id,
+    jsonb_build_object(
+      'event', TG_TABLE_NAME || '.created',
+      'type', TG_TABLE_NAME,
+      'record_id', NEW.id,
+      'created_at', NEW.created_at,
+      'form', form_json,
+      'fields', fields_json,
+      'record', record_json
+    )
+  FROM public.webhook_endpoints e
+  WHERE e.is_active AND e.form_type = TG_TABLE_NAME AND (e.form_id IS NULL OR e.form_id = _form_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_form_submission_webhooks
+AFTER INSERT ON public.form_submissions
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+CREATE TRIGGER enqueue_contact_request_webhooks
+AFTER INSERT ON public.contact_requests
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+CREATE TRIGGER enqueue_career_application_webhooks
+AFTER INSERT ON public.career_applications
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+CREATE TRIGGER enqueue_nowrise_application_webhooks
+AFTER INSERT ON public.nowrise_applications
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+-- Hand due deliveries to one worker at a time. Rows stuck in "delivering" for five minutes
+-- (a worker that died mid-request) are picked up again. Deliveries for disabled endpoints
+-- wait until the endpoint is enabled again.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER DEFAULT 20)
+RETURNS TABLE (id UUID, payload JSONB, attempts INTEGER, url TEXT, secret TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH due AS (
+    SELECT d.id
+    FROM public.webhook_deliveries d
+    JOIN public.webhook_endpoints e ON e.id = d.endpoint_id AND e.is_active
+    WHERE (d.status = 'pending' AND d.next_attempt_at <= now())
+       OR (d.status = 'delivering' AND d.last_attempted_at < now() - interval '5 minutes')
+    ORDER BY d.next_attempt_at
+    LIMIT _limit
+    FOR UPDATE OF d SKIP LOCKED
+  )
+  UPDATE public.webhook_deliveries d
+  SET status = 'delivering', last_attempted_at = now()
+  FROM due, public.webhook_endpoints e
+  WHERE d.id = due.id AND e.id = d.endpoint_id
+  RETURNING d.id, d.payload, d.attempts, e.url, e.secret
+$$;
+
+-- Only the deliver-webhooks worker (service role) may claim deliveries
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
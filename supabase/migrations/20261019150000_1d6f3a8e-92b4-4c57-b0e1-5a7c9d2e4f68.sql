@@ -0,0 +1,13 @@
+-- Where a custom form submission came from (link source, UTM parameters, referrer and
+-- landing page), kept apart from the answers
+ALTER TABLE public.form_submissions
+ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- The link source used to be stored inside the answers
+UPDATE public.form_submissions
+SET metadata = jsonb_build_object('source', submission_data->>'source'),
+    submission_data = submission_data - 'source'
+WHERE jsonb_typeof(submission_data->'source') = 'string';
+
+CREATE INDEX idx_form_submissions_utm_source ON public.form_submissions((metadata->>'utm_source'));
+CREATE INDEX idx_form_submissions_utm_campaign ON public.form_submissions((metadata->>'utm_campaign'));
@@ -0,0 +1,8 @@
+-- Sites allowed to embed a form, as origins such as https://partner.example.org.
+-- submit-form accepts cross-origin submissions from these origins for this form only.
+ALTER TABLE public.custom_forms
+ADD COLUMN embed_domains TEXT[] NOT NULL DEFAULT '{}'
+CHECK (cardinality(embed_domains) <= 20);
+
+-- CORS preflight requests carry no form id, so they are checked against every published form
+CREATE INDEX idx_custom_forms_embed_domains ON public.custom_forms USING GIN (embed_domains);
@@ -0,0 +1,51 @@
+-- Where a custom form appears on the site. Replaces the comma-joined
+-- custom_forms.target_page and display_type columns.
+CREATE TABLE public.custom_form_placements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.custom_forms(id) ON DELETE CASCADE,
+  page TEXT NOT NULL CHECK (page ~ '^[a-z0-9-]{1,64}$'),
+  display_mode TEXT NOT NULL DEFAULT 'section' CHECK (display_mode IN ('inline', 'section', 'popup', 'floating_button')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Popup triggers, whichever comes first. A popup without any opens when the page loads.
+  trigger_delay_seconds INTEGER CHECK (trigger_delay_seconds BETWEEN 0 AND 600),
+  trigger_scroll_percent INTEGER CHECK (trigger_scroll_percent BETWEEN 1 AND 100),
+  trigger_exit_intent BOOLEAN NOT NULL DEFAULT false,
+  -- Frequency capping, tracked per visitor in the browser
+  max_views_per_visitor INTEGER CHECK (max_views_per_visitor > 0),
+  view_cooldown_hours INTEGER CHECK (view_cooldown_hours > 0),
+  hide_after_submit BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (form_id, page, display_mode)
+);
+
+CREATE INDEX idx_custom_form_placements_page ON public.custom_form_placements(page, sort_order);
+
+ALTER TABLE public.custom_form_placements ENABLE ROW LEVEL SECURITY;
+
+-- Pages query placements directly, so only those of published forms are visible
+CREATE POLICY "Anyone can view placements of published forms"
+ON public.custom_form_placements FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.custom_forms WHERE id = form_id AND is_published = true));
+
+CREATE POLICY "Admins can manage form placements"
+ON public.custom_form_placements FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_custom_form_placements_updated_at
+BEFORE UPDATE ON public.custom_form_placements
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The old "popup" style was a floating button that opened the form in a modal
+INSERT INTO public.custom_form_placements (form_id, page, display_mode)
+SELECT DISTINCT f.id, trim(p.page), CASE trim(d.mode) WHEN 'section' THEN 'section' ELSE 'floating_button' END
+FROM public.custom_forms f
+CROSS JOIN LATERAL unnest(string_to_array(f.target_page, ',')) AS p(page)
+CROSS JOIN LATERAL unnest(string_to_array(coalesce(nullif(f.display_type, ''), 'popup'), ',')) AS d(mode)
+WHERE trim(p.page) ~ '^[a-z0-9-]{1,64}$'
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.custom_forms DROP COLUMN target_page;
+ALTER TABLE public.custom_forms DROP COLUMN display_type;
@@ -0,0 +1,33 @@
+-- Custom form drafts saved with "Save and continue later". Only the form-drafts edge
+-- function reads and writes them; the resume link carries a token signed for the row id.
+CREATE TABLE public.form_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES public.custom_forms(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  step INTEGER NOT NULL DEFAULT 0 CHECK (step >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_form_drafts_expires_at ON public.form_drafts(expires_at);
+CREATE INDEX idx_form_drafts_form_id ON public.form_drafts(form_id);
+
+ALTER TABLE public.form_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view form drafts"
+ON public.form_drafts FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_form_drafts_updated_at
+BEFORE UPDATE ON public.form_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Expired drafts are already refused by the function; this only keeps the table small
+SELECT cron.schedule(
+  'purge-expired-form-drafts',
+  '15 3 * * *',
+  $$DELETE FROM public.form_drafts WHERE expires_at < now()$$
+);
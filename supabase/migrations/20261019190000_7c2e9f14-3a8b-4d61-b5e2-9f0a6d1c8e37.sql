@@ -0,0 +1,67 @@
+-- One status workflow for everything that lands in the admin inbox:
+-- new -> in_progress -> resolved / archived.
+ALTER TABLE public.career_applications DROP CONSTRAINT career_applications_status_check;
+ALTER TABLE public.nowrise_applications DROP CONSTRAINT nowrise_applications_status_check;
+
+-- Map the old per-screen vocabularies. Rejected applications are closed without action,
+-- so they are archived rather than resolved.
+UPDATE public.career_applications SET status = CASE
+  WHEN status IN ('reviewing', 'interviewing') THEN 'in_progress'
+  WHEN status IN ('approved', 'enrolled') THEN 'resolved'
+  WHEN status = 'rejected' THEN 'archived'
+  ELSE 'new'
+END;
+
+UPDATE public.nowrise_applications SET status = CASE
+  WHEN status IN ('reviewing', 'interviewing') THEN 'in_progress'
+  WHEN status IN ('approved', 'enrolled') THEN 'resolved'
+  WHEN status = 'rejected' THEN 'archived'
+  ELSE 'new'
+END;
+
+UPDATE public.form_submissions SET status = CASE
+  WHEN status = 'reviewed' THEN 'in_progress'
+  WHEN status = 'completed' THEN 'resolved'
+  ELSE 'new'
+END;
+
+ALTER TABLE public.contact_requests
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'new'
+  CONSTRAINT contact_requests_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived'));
+
+ALTER TABLE public.career_applications
+  ALTER COLUMN status SET DEFAULT 'new',
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT career_applications_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived'));
+
+ALTER TABLE public.nowrise_applications
+  ALTER COLUMN status SET DEFAULT 'new',
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT nowrise_applications_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived'));
+
+ALTER TABLE public.form_submissions
+  ALTER COLUMN status SET DEFAULT 'new',
+  ADD CONSTRAINT form_submissions_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived'));
+
+-- Contact requests could only be viewed and deleted until now
+CREATE POLICY "Admins can update contact requests"
+ON public.contact_requests FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Every inbox item in one shape so the admin inbox can search and sort across types.
+-- security_invoker keeps the RLS policies of the underlying tables in force.
+CREATE VIEW public.admin_inbox WITH (security_invoker = true) AS
+  SELECT id, 'contact'::text AS type, name, email, purpose AS subject, status, created_at
+  FROM public.contact_requests
+UNION ALL
+  SELECT id, 'career'::text, name, email, role_applied, status, created_at
+  FROM public.career_applications
+UNION ALL
+  SELECT id, 'nowrise'::text, name, email, program, status, created_at
+  FROM public.nowrise_applications
+UNION ALL
+  SELECT s.id, 'form'::text, NULL, s.respondent_email, f.form_name, s.status, s.created_at
+  FROM public.form_submissions s
+  LEFT JOIN public.custom_forms f ON f.id = s.form_id;
+
+GRANT SELECT ON public.admin_inbox TO authenticated;
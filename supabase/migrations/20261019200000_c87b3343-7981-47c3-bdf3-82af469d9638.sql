@@ -0,0 +1,195 @@
+-- Inbox items can be owned by a team member (an admin or editor), discussed in internal
+-- notes and traced through an activity history.
+ALTER TABLE public.contact_requests ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.career_applications ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.nowrise_applications ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.form_submissions ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_contact_requests_assigned_to ON public.contact_requests(assigned_to);
+CREATE INDEX idx_career_applications_assigned_to ON public.career_applications(assigned_to);
+CREATE INDEX idx_nowrise_applications_assigned_to ON public.nowrise_applications(assigned_to);
+CREATE INDEX idx_form_submissions_assigned_to ON public.form_submissions(assigned_to);
+
+CREATE OR REPLACE VIEW public.admin_inbox WITH (security_invoker = true) AS
+  SELECT id, 'contact'::text AS type, name, email, purpose AS subject, status, created_at, assigned_to
+  FROM public.contact_requests
+UNION ALL
+  SELECT id, 'career'::text, name, email, role_applied, status, created_at, assigned_to
+  FROM public.career_applications
+UNION ALL
+  SELECT id, 'nowrise'::text, name, email, program, status, created_at, assigned_to
+  FROM public.nowrise_applications
+UNION ALL
+  SELECT s.id, 'form'::text, NULL, s.respondent_email, f.form_name, s.status, s.created_at, s.assigned_to
+  FROM public.form_submissions s
+  LEFT JOIN public.custom_forms f ON f.id = s.form_id;
+
+-- Internal notes on an inbox item. Replies point at the note they answer; mentions holds the
+-- ids of the team members named with @ in the body.
+CREATE TABLE public.inbox_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_type TEXT NOT NULL CHECK (item_type IN ('contact', 'career', 'nowrise', 'form')),
+  item_id UUID NOT NULL,
+  parent_id UUID REFERENCES public.inbox_notes(id) ON DELETE CASCADE,
+  author_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0 AND length(body) <= 5000),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inbox_notes_item ON public.inbox_notes(item_type, item_id);
+
+ALTER TABLE public.inbox_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inbox notes"
+ON public.inbox_notes FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can add their own inbox notes"
+ON public.inbox_notes FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) AND author_id = auth.uid());
+
+-- Status changes, assignments and notes, newest last. Only the triggers below write here.
+CREATE TABLE public.inbox_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_type TEXT NOT NULL CHECK (item_type IN ('contact', 'career', 'nowrise', 'form')),
+  item_id UUID NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('status_changed', 'assigned', 'note_added')),
+  from_value TEXT,
+  to_value TEXT,
+  note_id UUID REFERENCES public.inbox_notes(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inbox_activity_item ON public.inbox_activity(item_type, item_id, created_at);
+
+ALTER TABLE public.inbox_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inbox activity"
+ON public.inbox_activity FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Only admins and editors can own an item
+CREATE OR REPLACE FUNCTION public.check_inbox_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL
+    AND NOT (has_role(NEW.assigned_to, 'admin'::app_role) OR has_role(NEW.assigned_to, 'editor'::app_role)) THEN
+    RAISE EXCEPTION 'invalid_assignee';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- TG_ARGV[0] is the item type used by the inbox
+CREATE OR REPLACE FUNCTION public.log_inbox_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.inbox_activity (item_type, item_id, actor_id, action, from_value, to_value)
+    VALUES (TG_ARGV[0], NEW.id, auth.uid(), 'status_changed', OLD.status, NEW.status);
+  END IF;
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.inbox_activity (item_type, item_id, actor_id, action, from_value, to_value)
+    VALUES (TG_ARGV[0], NEW.id, auth.uid(), 'assigned', OLD.assigned_to::text, NEW.assigned_to::text);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Notes and history have no foreign key to the item, so they go with it here
+CREATE OR REPLACE FUNCTION public.delete_inbox_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM public.inbox_activity WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+  DELETE FROM public.inbox_notes WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_inbox_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO public.inbox_activity (item_type, item_id, actor_id, action, note_id, created_at)
+  VALUES (NEW.item_type, NEW.item_id, NEW.author_id, 'note_added', NEW.id, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_inbox_note_added
+AFTER INSERT ON public.inbox_notes
+FOR EACH ROW EXECUTE FUNCTION public.log_inbox_note();
+
+CREATE TRIGGER check_contact_request_assignee
+BEFORE INSERT OR UPDATE OF assigned_to ON public.contact_requests
+FOR EACH ROW EXECUTE FUNCTION public.check_inbox_assignee();
+
+CREATE TRIGGER log_contact_request_changes
+AFTER UPDATE OF status, assigned_to ON public.contact_requests
+FOR EACH ROW EXECUTE FUNCTION public.log_inbox_changes('contact');
+
+CREATE TRIGGER delete_contact_request_history
+AFTER DELETE ON public.contact_requests
+FOR EACH ROW EXECUTE FUNCTION public.delete_inbox_history('contact');
+
+CREATE TRIGGER check_career_application_assignee
+BEFORE INSERT OR UPDATE OF assigned_to ON public.career_applications
+FOR EACH ROW EXECUTE FUNCTION public.check_inbox_assignee();
+
+CREATE TRIGGER log_career_application_changes
+AFTER UPDATE OF status, assigned_to ON public.career_applications
+FOR EACH ROW EXECUTE FUNCTION public.log_inbox_changes('career');
+
+CREATE TRIGGER delete_career_application_history
+AFTER DELETE ON public.career_applications
+FOR EACH ROW EXECUTE FUNCTION public.delete_inbox_history('career');
+
+CREATE TRIGGER check_nowrise_application_assignee
+BEFORE INSERT OR UPDATE OF assigned_to ON public.nowrise_applications
+FOR EACH ROW EXECUTE FUNCTION public.check_inbox_assignee();
+
+CREATE TRIGGER log_nowrise_application_changes
+AFTER UPDATE OF status, assigned_to ON public.nowrise_applications
+FOR EACH ROW EXECUTE FUNCTION public.log_inbox_changes('nowrise');
+
+CREATE TRIGGER delete_nowrise_application_history
+AFTER DELETE ON public.nowrise_applications
+FOR EACH ROW EXECUTE FUNCTION public.delete_inbox_history('nowrise');
+
+CREATE TRIGGER check_form_submission_assignee
+BEFORE INSERT OR UPDATE OF assigned_to ON public.form_submissions
+FOR EACH ROW EXECUTE FUNCTION public.check_inbox_assignee();
+
+CREATE TRIGGER log_form_submission_changes
+AFTER UPDATE OF status, assigned_to ON public.form_submissions
+FOR EACH ROW EXECUTE FUNCTION public.log_inbox_changes('form');
+
+CREATE TRIGGER delete_form_submission_history
+AFTER DELETE ON public.form_submissions
+FOR EACH ROW EXECUTE FUNCTION public.delete_inbox_history('form');
+
+-- Assignment is internal, so it stays out of webhook payloads
+CREATE OR REPLACE FUNCTION public.webhook_internal_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ARRAY['assigned_to']::TEXT[]
+$$;
@@ -0,0 +1,74 @@
+-- Full-text search for the admin lists. Each table gets a generated search_vector with a GIN
+-- index, filtered through PostgREST's fts operator. The 'simple' configuration keeps names,
+-- emails and non-English answers as they are instead of stemming them as English.
+-- Email addresses are indexed whole and split at the @, so the domain alone also matches.
+ALTER TABLE public.contact_requests ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple',
+    coalesce(name, '') || ' ' || coalesce(email, '') || ' ' || replace(coalesce(email, ''), '@', ' ') || ' ' ||
+    coalesce(purpose, '') || ' ' || coalesce(message, ''))
+) STORED;
+
+ALTER TABLE public.career_applications ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple',
+    coalesce(name, '') || ' ' || coalesce(email, '') || ' ' || replace(coalesce(email, ''), '@', ' ') || ' ' ||
+    coalesce(role_applied, '') || ' ' || coalesce(cover_letter, ''))
+) STORED;
+
+ALTER TABLE public.nowrise_applications ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple',
+    coalesce(name, '') || ' ' || coalesce(email, '') || ' ' || replace(coalesce(email, ''), '@', ' ') || ' ' ||
+    coalesce(phone, '') || ' ' || coalesce(program, '') || ' ' || coalesce(education, ''))
+) STORED;
+
+-- Custom form answers are searched through every string and number in submission_data
+ALTER TABLE public.form_submissions ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(respondent_email, '') || ' ' || replace(coalesce(respondent_email, ''), '@', ' '))
+  || jsonb_to_tsvector('simple', submission_data, '["string", "numeric"]')
+) STORED;
+
+ALTER TABLE public.profiles ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple',
+    coalesce(full_name, '') || ' ' || coalesce(email, '') || ' ' || replace(coalesce(email, ''), '@', ' '))
+) STORED;
+
+ALTER TABLE public.nowrise_blogs ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(author_name, '') || ' ' || coalesce(excerpt, '') || ' ' || coalesce(content, ''))
+  || jsonb_to_tsvector('simple', coalesce(tags, '[]'::jsonb), '["string"]')
+) STORED;
+
+CREATE INDEX idx_contact_requests_search ON public.contact_requests USING GIN (search_vector);
+CREATE INDEX idx_career_applications_search ON public.career_applications USING GIN (search_vector);
+CREATE INDEX idx_nowrise_applications_search ON public.nowrise_applications USING GIN (search_vector);
+CREATE INDEX idx_form_submissions_search ON public.form_submissions USING GIN (search_vector);
+CREATE INDEX idx_profiles_search ON public.profiles USING GIN (search_vector);
+CREATE INDEX idx_nowrise_blogs_search ON public.nowrise_blogs USING GIN (search_vector);
+
+-- Lists are sorted newest first by default
+CREATE INDEX idx_contact_requests_created_at ON public.contact_requests(created_at DESC);
+CREATE INDEX idx_career_applications_created_at ON public.career_applications(created_at DESC);
+CREATE INDEX idx_nowrise_applications_created_at ON public.nowrise_applications(created_at DESC);
+CREATE INDEX idx_form_submissions_created_at ON public.form_submissions(created_at DESC);
+
+-- The inbox searches the same vectors across all four types
+CREATE OR REPLACE VIEW public.admin_inbox WITH (security_invoker = true) AS
+  SELECT id, 'contact'::text AS type, name, email, purpose AS subject, status, created_at, assigned_to, search_vector
+  FROM public.contact_requests
+UNION ALL
+  SELECT id, 'career'::text, name, email, role_applied, status, created_at, assigned_to, search_vector
+  FROM public.career_applications
+UNION ALL
+  SELECT id, 'nowrise'::text, name, email, program, status, created_at, assigned_to, search_vector
+  FROM public.nowrise_applications
+UNION ALL
+  SELECT s.id, 'form'::text, NULL, s.respondent_email, f.form_name, s.status, s.created_at, s.assigned_to, s.search_vector
+  FROM public.form_submissions s
+  LEFT JOIN public.custom_forms f ON f.id = s.form_id;
+
+-- The generated search vectors are not part of the record sent to webhooks
+CREATE OR REPLACE FUNCTION public.webhook_internal_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ARRAY['assigned_to', 'search_vector']::TEXT[]
+$$;
@@ -0,0 +1,260 @@
+-- Bulk actions on the submission lists: free-form tags, plus a log of each bulk change so it
+-- can be undone for a short while after it was made.
+ALTER TABLE public.contact_requests ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.career_applications ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.nowrise_applications ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.form_submissions ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_contact_requests_tags ON public.contact_requests USING GIN (tags);
+CREATE INDEX idx_career_applications_tags ON public.career_applications USING GIN (tags);
+CREATE INDEX idx_nowrise_applications_tags ON public.nowrise_applications USING GIN (tags);
+CREATE INDEX idx_form_submissions_tags ON public.form_submissions USING GIN (tags);
+
+-- One row per bulk action. snapshot holds what the action replaced: the previous value by item
+-- id for status and assignee changes, the ids whose tags changed, or for deletes the removed
+-- rows with their notes and history.
+CREATE TABLE public.bulk_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_type TEXT NOT NULL CHECK (item_type IN ('contact', 'career', 'nowrise', 'form')),
+  action TEXT NOT NULL CHECK (action IN ('status', 'assign', 'add_tag', 'remove_tag', 'delete')),
+  value TEXT,
+  snapshot JSONB NOT NULL,
+  actor_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  undo_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  undone_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_bulk_actions_undo_until ON public.bulk_actions(undo_until);
+
+-- No policies: only the functions below read and write bulk actions
+ALTER TABLE public.bulk_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.get_inbox_table(_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _type
+    WHEN 'contact' THEN 'contact_requests'
+    WHEN 'career' THEN 'career_applications'
+    WHEN 'nowrise' THEN 'nowrise_applications'
+    WHEN 'form' THEN 'form_submissions'
+  END
+$$;
+
+-- Applies one action to up to 500 items of a type and records how to revert it. _value is the
+-- status, the assignee's user id (NULL to unassign) or the tag; deletes take no value.
+CREATE OR REPLACE FUNCTION public.bulk_update_inbox_items(_type TEXT, _ids UUID[], _action TEXT, _value TEXT DEFAULT NULL)
+RETURNS TABLE (action_id UUID, undo_until TIMESTAMP WITH TIME ZONE, affected INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _table TEXT := public.get_inbox_table(_type);
+  _item_ids UUID[] := ARRAY(SELECT DISTINCT unnest(_ids));
+  _snapshot JSONB;
+  _rows JSONB;
+  _affected INTEGER;
+  _action_id UUID;
+  _undo_until TIMESTAMP WITH TIME ZONE := now() + interval '30 seconds';
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF _table IS NULL OR cardinality(_item_ids) = 0 OR cardinality(_item_ids) > 500 THEN
+    RAISE EXCEPTION 'invalid_bulk_action';
+  END IF;
+
+  IF _action = 'status' THEN
+    IF _value IS NULL OR _value NOT IN ('new', 'in_progress', 'resolved', 'archived') THEN
+      RAISE EXCEPTION 'invalid_bulk_action';
+    END IF;
+    EXECUTE format('SELECT jsonb_object_agg(id, status) FROM public.%I WHERE id = ANY($1) AND status IS DISTINCT FROM $2', _table)
+      INTO _snapshot USING _item_ids, _value;
+    EXECUTE format('UPDATE public.%I SET status = $2 WHERE id = ANY($1) AND status IS DISTINCT FROM $2', _table)
+      USING _item_ids, _value;
+    GET DIAGNOSTICS _affected = ROW_COUNT;
+
+  ELSIF _action = 'assign' THEN
+    -- The assignee trigger raises invalid_assignee for anyone but admins and editors
+    EXECUTE format('SELECT jsonb_object_agg(id, assigned_to) FROM public.%I WHERE id = ANY($1) AND assigned_to IS DISTINCT FROM $2', _table)
+      INTO _snapshot USING _item_ids, _value::UUID;
+    EXECUTE format('UPDATE public.%I SET assigned_to = $2 WHERE id = ANY($1) AND assigned_to IS DISTINCT FROM $2', _table)
+      USING _item_ids, _value::UUID;
+    GET DIAGNOSTICS _affected = ROW_COUNT;
+
+  ELSIF _action IN ('add_tag', 'remove_tag') THEN
+    _value := lower(trim(_value));
+    IF _value IS NULL OR char_length(_value) NOT BETWEEN 1 AND 40 THEN
+      RAISE EXCEPTION 'invalid_tag';
+    END IF;
+    EXECUTE format(
+      'WITH changed AS (
+         UPDATE public.%I SET tags = CASE WHEN $3 = ''add_tag'' THEN array_append(tags, $2) ELSE array_remove(tags, $2) END
+         WHERE id = ANY($1) AND ($2 = ANY(tags)) = ($3 = ''remove_tag'')
+         RETURNING id
+       )
+       SELECT jsonb_agg(id), count(*) FROM changed',
+      _table
+    ) INTO _snapshot, _affected USING _item_ids, _value, _action;
+
+  ELSIF _action = 'delete' THEN
+    -- note_added entries are left out; restoring the notes logs them again
+    EXECUTE format('SELECT jsonb_agg(to_jsonb(t) - ''search_vector'') FROM public.%I t WHERE id = ANY($1)', _table)
+      INTO _rows USING _item_ids;
+    _snapshot := jsonb_build_object(
+      'rows', COALESCE(_rows, '[]'::jsonb),
+      'notes', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(n)), '[]'::jsonb)
+        FROM public.inbox_notes n
+        WHERE n.item_type = _type AND n.item_id = ANY(_item_ids)
+      ),
+      'activity', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(a)), '[]'::jsonb)
+        FROM public.inbox_activity a
+        WHERE a.item_type = _type AND a.item_id = ANY(_item_ids) AND a.action <> 'note_added'
+      )
+    );
+    EXECUTE format('DELETE FROM public.%I WHERE id = ANY($1)', _table) USING _item_ids;
+    GET DIAGNOSTICS _affected = ROW_COUNT;
+
+  ELSE
+    RAISE EXCEPTION 'invalid_bulk_action';
+  END IF;
+
+  INSERT INTO public.bulk_actions (item_type, action, value, snapshot, actor_id, undo_until)
+  VALUES (_type, _action, _value, COALESCE(_snapshot, '[]'::jsonb), auth.uid(), _undo_until)
+  RETURNING id INTO _action_id;
+
+  RETURN QUERY SELECT _action_id, _undo_until, _affected;
+END;
+$$;
+
+-- Reverts a bulk action made by the same admin while its undo window is open. Items changed
+-- again since are left as they are.
+CREATE OR REPLACE FUNCTION public.undo_bulk_action(_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _bulk public.bulk_actions%ROWTYPE;
+  _table TEXT;
+  _columns TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _bulk FROM public.bulk_actions b WHERE b.id = _id AND b.actor_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND OR _bulk.undone_at IS NOT NULL OR _bulk.undo_until < now() THEN
+    RAISE EXCEPTION 'undo_expired';
+  END IF;
+
+  _table := public.get_inbox_table(_bulk.item_type);
+
+  IF _bulk.action = 'status' THEN
+    EXECUTE format(
+      'UPDATE public.%I t SET status = s.value #>> ''{}'' FROM jsonb_each($1) s WHERE t.id = s.key::UUID AND t.status = $2',
+      _table
+    ) USING _bulk.snapshot, _bulk.value;
+
+  ELSIF _bulk.action = 'assign' THEN
+    EXECUTE format(
+      'UPDATE public.%I t SET assigned_to = (s.value #>> ''{}'')::UUID FROM jsonb_each($1) s
+       WHERE t.id = s.key::UUID AND t.assigned_to IS NOT DISTINCT FROM $2::UUID',
+      _table
+    ) USING _bulk.snapshot, _bulk.value;
+
+  ELSIF _bulk.action = 'add_tag' THEN
+    EXECUTE format(
+      'UPDATE public.%I SET tags = array_remove(tags, $2) WHERE id IN (SELECT jsonb_array_elements_text($1)::UUID)',
+      _table
+    ) USING _bulk.snapshot, _bulk.value;
+
+  ELSIF _bulk.action = 'remove_tag' THEN
+    EXECUTE format(
+      'UPDATE public.%I SET tags = array_append(tags, $2) WHERE id IN (SELECT jsonb_array_elements_text($1)::UUID) AND NOT ($2 = ANY(tags))',
+      _table
+    ) USING _bulk.snapshot, _bulk.value;
+
+  ELSE
+    -- Restored rows are not new submissions: the webhook and form availability triggers skip them
+    PERFORM set_config('app.restoring_inbox_items', 'on', true);
+
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position) INTO _columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = _table AND is_generated = 'NEVER';
+
+    EXECUTE format(
+      'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::public.%1$I, $1)',
+      _table, _columns
+    ) USING _bulk.snapshot->'rows';
+
+    INSERT INTO public.inbox_notes
+    SELECT * FROM jsonb_populate_recordset(NULL::public.inbox_notes, _bulk.snapshot->'notes');
+
+    INSERT INTO public.inbox_activity
+    SELECT * FROM jsonb_populate_recordset(NULL::public.inbox_activity, _bulk.snapshot->'activity');
+
+    PERFORM set_config('app.restoring_inbox_items', 'off', true);
+  END IF;
+
+  UPDATE public.bulk_actions SET undone_at = now() WHERE id = _id;
+END;
+$$;
+
+DROP TRIGGER enforce_form_availability ON public.form_submissions;
+CREATE TRIGGER enforce_form_availability
+BEFORE INSERT ON public.form_submissions
+FOR EACH ROW
+WHEN (current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enforce_form_availability();
+
+DROP TRIGGER enqueue_form_submission_webhooks ON public.form_submissions;
+CREATE TRIGGER enqueue_form_submission_webhooks
+AFTER INSERT ON public.form_submissions
+FOR EACH ROW
+WHEN (current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+DROP TRIGGER enqueue_contact_request_webhooks ON public.contact_requests;
+CREATE TRIGGER enqueue_contact_request_webhooks
+AFTER INSERT ON public.contact_requests
+FOR EACH ROW
+WHEN (current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+DROP TRIGGER enqueue_career_application_webhooks ON public.career_applications;
+CREATE TRIGGER enqueue_career_application_webhooks
+AFTER INSERT ON public.career_applications
+FOR EACH ROW
+WHEN (current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+DROP TRIGGER enqueue_nowrise_application_webhooks ON public.nowrise_applications;
+CREATE TRIGGER enqueue_nowrise_application_webhooks
+AFTER INSERT ON public.nowrise_applications
+FOR EACH ROW
+WHEN (current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+-- Tags are internal like the assignee, so they stay out of webhook payloads
+CREATE OR REPLACE FUNCTION public.webhook_internal_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ARRAY['assigned_to', 'search_vector', 'tags']::TEXT[]
+$$;
+
+-- Deleted rows are only kept for the undo window
+SELECT cron.schedule(
+  'purge-expired-bulk-actions',
+  '*/10 * * * *',
+  $$DELETE FROM public.bulk_actions WHERE undo_until < now()$$
+);
@@ -0,0 +1,344 @@
+-- Spam scoring in submit-form: submissions that score too high are kept with status 'spam'
+-- for admins to review and release, instead of being dropped.
+ALTER TABLE public.contact_requests DROP CONSTRAINT contact_requests_status_check;
+ALTER TABLE public.career_applications DROP CONSTRAINT career_applications_status_check;
+ALTER TABLE public.nowrise_applications DROP CONSTRAINT nowrise_applications_status_check;
+ALTER TABLE public.form_submissions DROP CONSTRAINT form_submissions_status_check;
+
+ALTER TABLE public.contact_requests
+  ADD CONSTRAINT contact_requests_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived', 'spam')),
+  ADD COLUMN spam_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN spam_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.career_applications
+  ADD CONSTRAINT career_applications_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived', 'spam')),
+  ADD COLUMN spam_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN spam_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.nowrise_applications
+  ADD CONSTRAINT nowrise_applications_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived', 'spam')),
+  ADD COLUMN spam_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN spam_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.form_submissions
+  ADD CONSTRAINT form_submissions_status_check CHECK (status IN ('new', 'in_progress', 'resolved', 'archived', 'spam')),
+  ADD COLUMN spam_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN spam_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+-- Per-address velocity checks look back an hour
+CREATE INDEX idx_contact_requests_email_created_at ON public.contact_requests(email, created_at);
+CREATE INDEX idx_career_applications_email_created_at ON public.career_applications(email, created_at);
+CREATE INDEX idx_nowrise_applications_email_created_at ON public.nowrise_applications(email, created_at);
+
+-- Webhooks skip spam on insert and fire when an admin releases it instead
+DROP TRIGGER enqueue_form_submission_webhooks ON public.form_submissions;
+CREATE TRIGGER enqueue_form_submission_webhooks
+AFTER INSERT ON public.form_submissions
+FOR EACH ROW
+WHEN (NEW.status <> 'spam' AND current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+CREATE TRIGGER enqueue_released_form_submission_webhooks
+AFTER UPDATE OF status ON public.form_submissions
+FOR EACH ROW
+WHEN (OLD.status = 'spam' AND NEW.status <> 'spam')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+DROP TRIGGER enqueue_contact_request_webhooks ON public.contact_requests;
+CREATE TRIGGER enqueue_contact_request_webhooks
+AFTER INSERT ON public.contact_requests
+FOR EACH ROW
+WHEN (NEW.status <> 'spam' AND current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+CREATE TRIGGER enqueue_released_contact_request_webhooks
+AFTER UPDATE OF status ON public.contact_requests
+FOR EACH ROW
+WHEN (OLD.status = 'spam' AND NEW.status <> 'spam')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+DROP TRIGGER enqueue_career_application_webhooks ON public.career_applications;
+CREATE TRIGGER enqueue_career_application_webhooks
+AFTER INSERT ON public.career_applications
+FOR EACH ROW
+WHEN (NEW.status <> 'spam' AND current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+CREATE TRIGGER enqueue_released_career_application_webhooks
+AFTER UPDATE OF status ON public.career_applications
+FOR EACH ROW
+WHEN (OLD.status = 'spam' AND NEW.status <> 'spam')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+DROP TRIGGER enqueue_nowrise_application_webhooks ON public.nowrise_applications;
+CREATE TRIGGER enqueue_nowrise_application_webhooks
+AFTER INSERT ON public.nowrise_applications
+FOR EACH ROW
+WHEN (NEW.status <> 'spam' AND current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+CREATE TRIGGER enqueue_released_nowrise_application_webhooks
+AFTER UPDATE OF status ON public.nowrise_applications
+FOR EACH ROW
+WHEN (OLD.status = 'spam' AND NEW.status <> 'spam')
+EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+-- Spam scores are internal like the tags. Released items fire the insert webhooks once, so
+-- an endpoint that already received an item (say one marked spam by hand) isn't sent it again.
+CREATE INDEX idx_webhook_deliveries_record_id ON public.webhook_deliveries(record_id);
+
+CREATE OR REPLACE FUNCTION public.webhook_internal_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ARRAY['assigned_to', 'search_vector', 'tags', 'spam_score', 'spam_reasons']::TEXT[]
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  record_json JSONB := to_jsonb(NEW) - public.webhook_internal_columns();
+  _form_id UUID := (to_jsonb(NEW)->>'form_id')::UUID;
+  form_json JSONB;
+  field_defs JSONB;
+  fields_json JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.webhook_endpoints e
+    WHERE e.is_active AND e.form_type = TG_TABLE_NAME AND (e.form_id IS NULL OR e.form_id = _form_id)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'form_submissions' THEN
+    SELECT jsonb_build_object('id', f.id, 'name', f.form_name, 'version', v.version), COALESCE(v.fields, f.fields)
+    INTO form_json, field_defs
+    FROM public.custom_forms f
+    LEFT JOIN public.custom_form_versions v ON v.id = NEW.form_version_id
+    WHERE f.id = NEW.form_id;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', def->>'id',
+      'label', def->>'label',
+      'type', def->>'type',
+      'value', NEW.submission_data -> (def->>'id')
+    ) ORDER BY ordinality), '[]'::jsonb)
+    INTO fields_json
+    FROM jsonb_array_elements(COALESCE(field_defs, '[]'::jsonb)) WITH ORDINALITY AS defs(def, ordinality)
+    WHERE def->>'type' <> 'section';
+  ELSE
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', key,
+      'label', initcap(replace(key, '_', ' ')),
+      'value', value
+    )), '[]'::jsonb)
+    INTO fields_json
+    FROM jsonb_each(record_json)
+    WHERE key NOT IN ('id', 'created_at', 'updated_at', 'status');
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (endpoint_id, event, record_id, payload)
+  SELECT
+    e.id,
+    TG_TABLE_NAME || '.created',
+    NEW.id,
+    jsonb_build_object(
+      'event', TG_TABLE_NAME || '.created',
+      'type', TG_TABLE_NAME,
+      'record_id', NEW.id,
+      'created_at', NEW.created_at,
+      'form', form_json,
+      'fields', fields_json,
+      'record', record_json
+    )
+  FROM public.webhook_endpoints e
+  WHERE e.is_active AND e.form_type = TG_TABLE_NAME AND (e.form_id IS NULL OR e.form_id = _form_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.webhook_deliveries d WHERE d.endpoint_id = e.id AND d.record_id = NEW.id
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admins can mark items as spam in bulk too
+CREATE OR REPLACE FUNCTION public.bulk_update_inbox_items(_type TEXT, _ids UUID[], _action TEXT, _value TEXT DEFAULT NULL)
+RETURNS TABLE (action_id UUID, undo_until TIMESTAMP WITH TIME ZONE, affected INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _table TEXT := public.get_inbox_table(_type);
+  _item_ids UUID[] := ARRAY(SELECT DISTINCT unnest(_ids));
+  _snapshot JSONB;
+  _rows JSONB;
+  _affected INTEGER;
+  _action_id UUID;
+  _undo_until TIMESTAMP WITH TIME ZONE := now() + interval '30 seconds';
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'forbidden' USING ERRCODE = '42501';
+  END IF;
+
+  IF _table IS NULL OR cardinality(_item_ids) = 0 OR cardinality(_item_ids) > 500 THEN
+    RAISE EXCEPTION 'invalid_bulk_action';
+  END IF;
+
+  IF _action = 'status' THEN
+    IF _value IS NULL OR _value NOT IN ('new', 'in_progress', 'resolved', 'archived', 'spam') THEN
+      RAISE EXCEPTION 'invalid_bulk_action';
+    END IF;
+    EXECUTE format('SELECT jsonb_object_agg(id, status) FROM public.%I WHERE id = ANY($1) AND status IS DISTINCT FROM $2', _table)
+      INTO _snapshot USING _item_ids, _value;
+    EXECUTE format('UPDATE public.%I SET status = $2 WHERE id = ANY($1) AND status IS DISTINCT FROM $2', _table)
+      USING _item_ids, _value;
+    GET DIAGNOSTICS _affected = ROW_COUNT;
+
+  ELSIF _action = 'assign' THEN
+    -- The assignee trigger raises invalid_assignee for anyone but admins and editors
+    EXECUTE format('SELECT jsonb_object_agg(id, assigned_to) FROM public.%I WHERE id = ANY($1) AND assigned_to IS DISTINCT FROM $2', _table)
+      INTO _snapshot USING _item_ids, _value::UUID;
+    EXECUTE format('UPDATE public.%I SET assigned_to = $2 WHERE id = ANY($1) AND assigned_to IS DISTINCT FROM $2', _table)
+      USING _item_ids, _value::UUID;
+    GET DIAGNOSTICS _affected = ROW_COUNT;
+
+  ELSIF _action IN ('add_tag', 'remove_tag') THEN
+    _value := lower(trim(_value));
+    IF _value IS NULL OR char_length(_value) NOT BETWEEN 1 AND 40 THEN
+      RAISE EXCEPTION 'invalid_tag';
+    END IF;
+    EXECUTE format(
+      'WITH changed AS (
+         UPDATE public.%I SET tags = CASE WHEN $3 = ''add_tag'' THEN array_append(tags, $2) ELSE array_remove(tags, $2) END
+         WHERE id = ANY($1) AND ($2 = ANY(tags)) = ($3 = ''remove_tag'')
+         RETURNING id
+       )
+       SELECT jsonb_agg(id), count(*) FROM changed',
+      _table
+    ) INTO _snapshot, _affected USING _item_ids, _value, _action;
+
+  ELSIF _action = 'delete' THEN
+    -- note_added entries are left out; restoring the notes logs them again
+    EXECUTE format('SELECT jsonb_agg(to_jsonb(t) - ''search_vector'') FROM public.%I t WHERE id = ANY($1)', _table)
+      INTO _rows USING _item_ids;
+    _snapshot := jsonb_build_object(
+      'rows', COALESCE(_rows, '[]'::jsonb),
+      'notes', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(n)), '[]'::jsonb)
+        FROM public.inbox_notes n
+        WHERE n.item_type = _type AND n.item_id = ANY(_item_ids)
+      ),
+      'activity', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(a)), '[]'::jsonb)
+        FROM public.inbox_activity a
+        WHERE a.item_type = _type AND a.item_id = ANY(_item_ids) AND a.action <> 'note_added'
+      )
+    );
+    EXECUTE format('DELETE FROM public.%I WHERE id = ANY($1)', _table) USING _item_ids;
+    GET DIAGNOSTICS _affected = ROW_COUNT;
+
+  ELSE
+    RAISE EXCEPTION 'invalid_bulk_action';
+  END IF;
+
+  INSERT INTO public.bulk_actions (item_type, action, value, snapshot, actor_id, undo_until)
+  VALUES (_type, _action, _value, COALESCE(_snapshot, '[]'::jsonb), auth.uid(), _undo_until)
+  RETURNING id INTO _action_id;
+
+  RETURN QUERY SELECT _action_id, _undo_until, _affected;
+END;
+$$;
+
+-- Spam doesn't use up a form: it is left out of the response cap, the public counts and the
+-- one-response-per-email rule, so a bot can neither fill a form nor claim someone's address.
+DROP INDEX public.idx_form_submissions_respondent_email;
+CREATE UNIQUE INDEX idx_form_submissions_respondent_email
+ON public.form_submissions(form_id, lower(respondent_email))
+WHERE respondent_email IS NOT NULL AND status <> 'spam';
+
+CREATE OR REPLACE FUNCTION public.enforce_form_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  form public.custom_forms%ROWTYPE;
+  submission_count INTEGER;
+BEGIN
+  SELECT * INTO form FROM public.custom_forms WHERE id = NEW.form_id FOR UPDATE;
+
+  IF form.opens_at IS NOT NULL AND now() < form.opens_at THEN
+    RAISE EXCEPTION 'form_not_open' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF form.closes_at IS NOT NULL AND now() >= form.closes_at THEN
+    RAISE EXCEPTION 'form_closed' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF form.max_submissions IS NOT NULL THEN
+    SELECT count(*) INTO submission_count
+    FROM public.form_submissions
+    WHERE form_id = NEW.form_id AND status <> 'spam';
+    IF submission_count >= form.max_submissions THEN
+      RAISE EXCEPTION 'form_full' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_form_submission_counts(_form_ids UUID[])
+RETURNS TABLE (form_id UUID, submission_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT f.id, count(s.id)::INTEGER
+  FROM public.custom_forms f
+  LEFT JOIN public.form_submissions s ON s.form_id = f.id AND s.status <> 'spam'
+  WHERE f.id = ANY(_form_ids)
+    AND f.is_published = true
+  GROUP BY f.id
+$$;
+
+-- Releasing spam counts it against the cap, so a full form refuses the release. The window
+-- isn't checked again: the submission was made while the form was open.
+CREATE OR REPLACE FUNCTION public.enforce_released_form_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  max_count INTEGER;
+  submission_count INTEGER;
+BEGIN
+  SELECT max_submissions INTO max_count FROM public.custom_forms WHERE id = NEW.form_id FOR UPDATE;
+
+  IF max_count IS NOT NULL THEN
+    SELECT count(*) INTO submission_count
+    FROM public.form_submissions
+    WHERE form_id = NEW.form_id AND status <> 'spam';
+    IF submission_count >= max_count THEN
+      RAISE EXCEPTION 'form_full' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_released_form_capacity
+BEFORE UPDATE OF status ON public.form_submissions
+FOR EACH ROW
+WHEN (OLD.status = 'spam' AND NEW.status <> 'spam' AND current_setting('app.restoring_inbox_items', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.enforce_released_form_capacity();
@@ -0,0 +1,88 @@
+-- Rate limits shared by every edge function instance. Each row is one policy and key, e.g.
+-- 'submit-form:submit' and 'ip=203.0.113.7 form=contact_requests', with the times of the
+-- requests still inside the window (a sliding window log, at most max_requests long).
+CREATE TABLE public.rate_limits (
+  policy TEXT NOT NULL,
+  key TEXT NOT NULL,
+  hits TIMESTAMP WITH TIME ZONE[] NOT NULL DEFAULT '{}',
+  max_requests INTEGER NOT NULL CHECK (max_requests > 0),
+  window_seconds INTEGER NOT NULL CHECK (window_seconds > 0),
+  -- Set while the key is at its limit: when the oldest hit leaves the window
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (policy, key)
+);
+
+CREATE INDEX idx_rate_limits_blocked_until ON public.rate_limits(blocked_until) WHERE blocked_until IS NOT NULL;
+
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Admins see throttled keys and unblock them by deleting the row; edge functions use the
+-- service role through check_rate_limit
+CREATE POLICY "Admins can view rate limits"
+ON public.rate_limits FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can delete rate limits"
+ON public.rate_limits FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Records a request against the policy and key unless the key is at its limit. Concurrent
+-- requests for the same key wait on the row lock, so the count is exact across instances.
+CREATE OR REPLACE FUNCTION public.check_rate_limit(_policy TEXT, _key TEXT, _max_requests INTEGER, _window_seconds INTEGER)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _window INTERVAL := make_interval(secs => _window_seconds);
+  _hits TIMESTAMP WITH TIME ZONE[];
+  _count INTEGER;
+  _blocked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO public.rate_limits (policy, key, max_requests, window_seconds)
+  VALUES (_policy, _key, _max_requests, _window_seconds)
+  ON CONFLICT (policy, key) DO NOTHING;
+
+  SELECT ARRAY(SELECT h FROM unnest(r.hits) h WHERE h > now() - _window ORDER BY h)
+  INTO _hits
+  FROM public.rate_limits r
+  WHERE r.policy = _policy AND r.key = _key
+  FOR UPDATE;
+
+  allowed := cardinality(_hits) < _max_requests;
+  IF allowed THEN
+    _hits := _hits || now();
+  END IF;
+
+  _count := cardinality(_hits);
+  IF _count >= _max_requests THEN
+    _blocked_until := _hits[_count - _max_requests + 1] + _window;
+  END IF;
+
+  UPDATE public.rate_limits
+  SET hits = _hits,
+      max_requests = _max_requests,
+      window_seconds = _window_seconds,
+      blocked_until = _blocked_until,
+      updated_at = now()
+  WHERE policy = _policy AND key = _key;
+
+  remaining := GREATEST(_max_requests - _count, 0);
+  retry_after := CASE
+    WHEN allowed THEN 0
+    ELSE GREATEST(ceil(extract(epoch FROM _blocked_until - now()))::INTEGER, 1)
+  END;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Keys with no hits left in their window carry no state
+SELECT cron.schedule(
+  'purge-expired-rate-limits',
+  '*/10 * * * *',
+  $$DELETE FROM public.rate_limits WHERE updated_at < now() - make_interval(secs => window_seconds)$$
+);
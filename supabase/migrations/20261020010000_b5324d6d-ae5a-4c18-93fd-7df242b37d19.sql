@@ -0,0 +1,51 @@
+-- The version a published form is currently shown as. Public pages read it with the form and
+-- send it back with each submission, so submit-form can tell when the visitor filled in an
+-- older schema. No foreign key: versions are deleted with their form, and a cascade that
+-- nulls a column on the row being deleted fails.
+ALTER TABLE public.custom_forms
+ADD COLUMN published_version_id UUID;
+
+CREATE OR REPLACE FUNCTION public.snapshot_custom_form_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  latest public.custom_form_versions%ROWTYPE;
+BEGIN
+  IF NOT NEW.is_published THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO latest
+  FROM public.custom_form_versions
+  WHERE form_id = NEW.id
+  ORDER BY version DESC
+  LIMIT 1;
+
+  -- Re-publishing an unchanged schema keeps the existing version
+  IF NOT FOUND OR latest.fields IS DISTINCT FROM NEW.fields THEN
+    INSERT INTO public.custom_form_versions (form_id, version, form_name, description, fields, created_by)
+    VALUES (NEW.id, COALESCE(latest.version, 0) + 1, NEW.form_name, NEW.description, NEW.fields, auth.uid())
+    RETURNING * INTO latest;
+  END IF;
+
+  -- The trigger only fires on fields and is_published, so this update does not re-enter it
+  IF NEW.published_version_id IS DISTINCT FROM latest.id THEN
+    UPDATE public.custom_forms SET published_version_id = latest.id WHERE id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE public.custom_forms f
+SET published_version_id = (
+  SELECT v.id
+  FROM public.custom_form_versions v
+  WHERE v.form_id = f.id
+  ORDER BY v.version DESC
+  LIMIT 1
+)
+WHERE f.is_published = true;
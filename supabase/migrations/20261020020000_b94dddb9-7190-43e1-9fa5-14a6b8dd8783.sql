@@ -0,0 +1,46 @@
+-- Form analytics, aggregated in the database so the admin tab never downloads raw events.
+-- Each session counts once per stage; drop_off maps the last field focused in sessions that
+-- started but never submitted to how many stopped there. Runs with the caller's rights, so
+-- the form_events policies limit it to admins.
+CREATE OR REPLACE FUNCTION public.get_form_analytics(_form_id UUID)
+RETURNS TABLE (
+  views INTEGER,
+  starts INTEGER,
+  completions INTEGER,
+  median_completion_ms DOUBLE PRECISION,
+  drop_off JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH sessions AS (
+    SELECT
+      session_id,
+      bool_or(event_type = 'view') AS viewed,
+      min(created_at) FILTER (WHERE event_type = 'start') AS started_at,
+      min(created_at) FILTER (WHERE event_type = 'submit_success') AS completed_at,
+      (array_agg(field_id ORDER BY created_at DESC)
+        FILTER (WHERE event_type = 'field_focus' AND field_id IS NOT NULL))[1] AS last_field_id
+    FROM public.form_events
+    WHERE form_id = _form_id
+    GROUP BY session_id
+  ),
+  abandoned AS (
+    SELECT last_field_id, count(*)::INTEGER AS sessions
+    FROM sessions
+    WHERE started_at IS NOT NULL AND completed_at IS NULL AND last_field_id IS NOT NULL
+    GROUP BY last_field_id
+  )
+  SELECT
+    (count(*) FILTER (WHERE viewed))::INTEGER,
+    (count(*) FILTER (WHERE started_at IS NOT NULL))::INTEGER,
+    (count(*) FILTER (WHERE completed_at IS NOT NULL))::INTEGER,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY extract(epoch FROM completed_at - started_at) * 1000)
+      FILTER (WHERE completed_at >= started_at),
+    COALESCE((SELECT jsonb_object_agg(last_field_id, abandoned.sessions) FROM abandoned), '{}'::jsonb)
+  FROM sessions
+$$;
+
+-- Sessions are grouped per form, so look events up by form and session
+CREATE INDEX idx_form_events_form_session ON public.form_events(form_id, session_id, created_at);
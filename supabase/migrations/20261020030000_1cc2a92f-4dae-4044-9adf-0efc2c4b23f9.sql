@@ -0,0 +1,46 @@
+-- Runs the webhook queue every minute so retries go out without an admin opening the log.
+-- The project URL and service role key are read from Vault, since migrations must not hold
+-- secrets; until both are stored the job does nothing:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE OR REPLACE FUNCTION public.invoke_deliver_webhooks()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _url TEXT;
+  _key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF _url IS NULL OR _key IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Same rows claim_webhook_deliveries picks up; most minutes there is nothing to send
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.webhook_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'delivering' AND last_attempted_at < now() - interval '5 minutes')
+  ) THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(_url, '/') || '/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object('Authorization', 'Bearer ' || _key, 'Content-Type', 'application/json'),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_deliver_webhooks() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$SELECT public.invoke_deliver_webhooks()$$
+);
@@ -0,0 +1,140 @@
+-- Per-question summary of a custom form's submissions, counted in the database so the
+-- summary tab covers every matching row without downloading them. _filters takes the same
+-- shape as export-submissions (search, status, tag, createdFrom, createdBefore, metadata);
+-- like the admin list, spam is left out unless filtered for. Days are counted in _time_zone.
+--
+-- Result: { total, timeline: { day: count }, fields: { fieldId: { responses, values, ranks, rows, words } } }
+--   values - option, rating, number and NPS answers (each checkbox selection counts once)
+--   ranks  - ranking fields: option -> position (1 = first) -> count
+--   rows   - likert fields: statement -> point -> count
+--   words  - text fields: the _word_limit most common words, counted once per answer
+--
+-- Runs with the caller's rights, so the form_submissions policies limit it to admins.
+CREATE OR REPLACE FUNCTION public.get_form_submission_summary(
+  _form_id UUID,
+  _filters JSONB DEFAULT '{}'::jsonb,
+  _time_zone TEXT DEFAULT 'UTC',
+  _ignore_words TEXT[] DEFAULT '{}',
+  _word_limit INTEGER DEFAULT 15
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH submissions AS (
+    SELECT s.created_at, s.submission_data
+    FROM public.form_submissions s
+    WHERE s.form_id = _form_id
+      AND (_filters->>'search' IS NULL OR s.search_vector @@ to_tsquery('simple', _filters->>'search'))
+      AND CASE WHEN _filters->>'status' IS NULL THEN s.status <> 'spam' ELSE s.status = _filters->>'status' END
+      AND (_filters->>'tag' IS NULL OR s.tags @> ARRAY[_filters->>'tag'])
+      AND (_filters->>'createdFrom' IS NULL OR s.created_at >= (_filters->>'createdFrom')::TIMESTAMP WITH TIME ZONE)
+      AND (_filters->>'createdBefore' IS NULL OR s.created_at < (_filters->>'createdBefore')::TIMESTAMP WITH TIME ZONE)
+      AND s.metadata @> COALESCE(_filters->'metadata', '{}'::jsonb)
+  ),
+  form_fields AS (
+    SELECT field->>'id' AS id, field->>'type' AS type
+    FROM public.custom_forms f, jsonb_array_elements(f.fields) AS field
+    WHERE f.id = _form_id
+  ),
+  answers AS (
+    SELECT ff.id, ff.type, s.submission_data -> ff.id AS answer
+    FROM submissions s
+    JOIN form_fields ff ON s.submission_data ? ff.id
+  ),
+  responses AS (
+    SELECT id, count(*)::INTEGER AS n
+    FROM answers
+    GROUP BY id
+  ),
+  value_counts AS (
+    SELECT a.id, v.value, count(*)::INTEGER AS n
+    FROM answers a
+    CROSS JOIN LATERAL (
+      SELECT e.value
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(a.answer) = 'array' THEN a.answer ELSE '[]'::jsonb END
+      ) AS e(value)
+      UNION ALL
+      SELECT a.answer #>> '{}' WHERE jsonb_typeof(a.answer) IN ('string', 'number')
+    ) v
+    WHERE a.type IN ('select', 'radio', 'checkbox', 'rating', 'number', 'nps')
+    GROUP BY a.id, v.value
+  ),
+  rank_counts AS (
+    SELECT a.id, e.value, e.place, count(*)::INTEGER AS n
+    FROM answers a
+    CROSS JOIN LATERAL jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(a.answer) = 'array' THEN a.answer ELSE '[]'::jsonb END
+    ) WITH ORDINALITY AS e(value, place)
+    WHERE a.type = 'ranking'
+    GROUP BY a.id, e.value, e.place
+  ),
+  row_counts AS (
+    SELECT a.id, r.key AS statement, r.value AS point, count(*)::INTEGER AS n
+    FROM answers a
+    CROSS JOIN LATERAL jsonb_each_text(
+      CASE WHEN jsonb_typeof(a.answer) = 'object' THEN a.answer ELSE '{}'::jsonb END
+    ) r
+    WHERE a.type = 'likert'
+    GROUP BY a.id, r.key, r.value
+  ),
+  word_counts AS (
+    SELECT id, word, n
+    FROM (
+      SELECT a.id, w.word, count(*)::INTEGER AS n,
+        row_number() OVER (PARTITION BY a.id ORDER BY count(*) DESC, w.word) AS word_rank
+      FROM answers a
+      CROSS JOIN LATERAL (
+        SELECT DISTINCT m[1] AS word
+        FROM regexp_matches(lower(a.answer #>> '{}'), '[[:alnum:]'']+', 'g') AS m
+      ) w
+      WHERE a.type IN ('text', 'textarea')
+        AND jsonb_typeof(a.answer) = 'string'
+        AND char_length(w.word) >= 3
+        AND w.word <> ALL(_ignore_words)
+      GROUP BY a.id, w.word
+    ) ranked
+    WHERE word_rank <= _word_limit
+  ),
+  timeline AS (
+    SELECT to_char((created_at AT TIME ZONE _time_zone)::DATE, 'YYYY-MM-DD') AS day, count(*)::INTEGER AS n
+    FROM submissions
+    GROUP BY 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM submissions),
+    'timeline', COALESCE((SELECT jsonb_object_agg(day, n) FROM timeline), '{}'::jsonb),
+    'fields', COALESCE((
+      SELECT jsonb_object_agg(r.id, jsonb_build_object(
+        'responses', r.n,
+        'values', COALESCE((SELECT jsonb_object_agg(v.value, v.n) FROM value_counts v WHERE v.id = r.id), '{}'::jsonb),
+        'ranks', COALESCE((
+          SELECT jsonb_object_agg(x.value, x.positions)
+          FROM (
+            SELECT value, jsonb_object_agg(place, n) AS positions
+            FROM rank_counts
+            WHERE rank_counts.id = r.id
+            GROUP BY value
+          ) x
+        ), '{}'::jsonb),
+        'rows', COALESCE((
+          SELECT jsonb_object_agg(x.statement, x.points)
+          FROM (
+            SELECT statement, jsonb_object_agg(point, n) AS points
+            FROM row_counts
+            WHERE row_counts.id = r.id
+            GROUP BY statement
+          ) x
+        ), '{}'::jsonb),
+        'words', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('word', w.word, 'count', w.n) ORDER BY w.n DESC, w.word)
+          FROM word_counts w
+          WHERE w.id = r.id
+        ), '[]'::jsonb)
+      ))
+      FROM responses r
+    ), '{}'::jsonb)
+  )
+$$;
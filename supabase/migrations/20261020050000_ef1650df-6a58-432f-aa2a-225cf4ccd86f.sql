@@ -0,0 +1,78 @@
+-- Editors can be assigned inbox items, but the tables, notes and history only let admins in.
+-- Editors now see and work on the items assigned to them: they can read and update those rows
+-- (status, or handing the item on), read their notes and history, and add notes of their own.
+
+-- SECURITY DEFINER so note and activity policies can look at the item without its policies
+CREATE OR REPLACE FUNCTION public.is_inbox_item_assignee(_type TEXT, _id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE _type
+    WHEN 'contact' THEN EXISTS (SELECT 1 FROM public.contact_requests WHERE id = _id AND assigned_to = _user_id)
+    WHEN 'career' THEN EXISTS (SELECT 1 FROM public.career_applications WHERE id = _id AND assigned_to = _user_id)
+    WHEN 'nowrise' THEN EXISTS (SELECT 1 FROM public.nowrise_applications WHERE id = _id AND assigned_to = _user_id)
+    WHEN 'form' THEN EXISTS (SELECT 1 FROM public.form_submissions WHERE id = _id AND assigned_to = _user_id)
+    ELSE false
+  END
+$$;
+
+CREATE POLICY "Editors can view contact requests assigned to them"
+ON public.contact_requests FOR SELECT
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid());
+
+CREATE POLICY "Editors can update contact requests assigned to them"
+ON public.contact_requests FOR UPDATE
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid())
+WITH CHECK (has_role(auth.uid(), 'editor'::app_role));
+
+CREATE POLICY "Editors can view career applications assigned to them"
+ON public.career_applications FOR SELECT
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid());
+
+CREATE POLICY "Editors can update career applications assigned to them"
+ON public.career_applications FOR UPDATE
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid())
+WITH CHECK (has_role(auth.uid(), 'editor'::app_role));
+
+CREATE POLICY "Editors can view NowRise applications assigned to them"
+ON public.nowrise_applications FOR SELECT
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid());
+
+CREATE POLICY "Editors can update NowRise applications assigned to them"
+ON public.nowrise_applications FOR UPDATE
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid())
+WITH CHECK (has_role(auth.uid(), 'editor'::app_role));
+
+CREATE POLICY "Editors can view form submissions assigned to them"
+ON public.form_submissions FOR SELECT
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid());
+
+CREATE POLICY "Editors can update form submissions assigned to them"
+ON public.form_submissions FOR UPDATE
+USING (has_role(auth.uid(), 'editor'::app_role) AND assigned_to = auth.uid())
+WITH CHECK (has_role(auth.uid(), 'editor'::app_role));
+
+CREATE POLICY "Editors can view notes on items assigned to them"
+ON public.inbox_notes FOR SELECT
+USING (
+  has_role(auth.uid(), 'editor'::app_role)
+  AND public.is_inbox_item_assignee(item_type, item_id, auth.uid())
+);
+
+CREATE POLICY "Editors can add their own notes on items assigned to them"
+ON public.inbox_notes FOR INSERT
+WITH CHECK (
+  has_role(auth.uid(), 'editor'::app_role)
+  AND author_id = auth.uid()
+  AND public.is_inbox_item_assignee(item_type, item_id, auth.uid())
+);
+
+CREATE POLICY "Editors can view the history of items assigned to them"
+ON public.inbox_activity FOR SELECT
+USING (
+  has_role(auth.uid(), 'editor'::app_role)
+  AND public.is_inbox_item_assignee(item_type, item_id, auth.uid())
+);
@@ -0,0 +1,21 @@
+-- Distinct metadata values for the submissions filters, so the admin list does not download
+-- every submission's metadata to fill them. A null _form_id covers all forms. Runs with the
+-- caller's rights, so the form_submissions policies limit it to admins.
+CREATE OR REPLACE FUNCTION public.get_submission_metadata_values(_form_id UUID, _keys TEXT[])
+RETURNS TABLE (key TEXT, value TEXT)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT k.key, v.value
+  FROM unnest(_keys) AS k(key)
+  CROSS JOIN LATERAL (
+    SELECT DISTINCT s.metadata->>k.key AS value
+    FROM public.form_submissions s
+    WHERE (_form_id IS NULL OR s.form_id = _form_id)
+      AND s.metadata->>k.key <> ''
+    ORDER BY 1
+    LIMIT 200
+  ) v
+  ORDER BY k.key, v.value;
+$$;
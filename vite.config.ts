@@ -13,6 +13,9 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
+      // Shared schemas import zod by the URL Deno loads it from
+      "https://esm.sh/zod@3.25.76": "zod",
     },
   },
   build: {